@@ -5,10 +5,50 @@ import updateNotifier from 'update-notifier';
 import chalk from 'chalk';
 import { coreOrchestrator } from './modules/core.js';
 import { configManager } from './modules/config.js';
-import { logger } from './modules/logger.js';
+import { enableJsonOutput, isJsonOutput, logger, redirectStdoutToStderr, writeJson } from './modules/logger.js';
 import { AutoUpdater } from './modules/auto-updater.js';
-import { Doctor } from './modules/doctor.js';
-import { CommitType, CliOptions } from './types/index.js';
+import { Doctor, LocalServerProbe } from './modules/doctor.js';
+import { EditorServer } from './modules/server.js';
+import { apiManager } from './modules/api.js';
+import { getAdapter, resolveProtocol } from './modules/provider-adapters.js';
+import { parseFallbackEntry } from './modules/failover.js';
+import { parseTrailer } from './modules/trailers.js';
+import {
+  USAGE_GROUPINGS,
+  UsageGrouping,
+  formatUsageReport,
+  formatUsd,
+  loadPriceBook,
+  monthToDateCost,
+  parseSince,
+  startOfMonth,
+  summarizeUsage,
+  usageLedger,
+} from './modules/usage.js';
+import {
+  BaseError,
+  CommitType,
+  CliOptions,
+  ConfigError,
+  GitError,
+  HookError,
+  exitCodeFor,
+  LocalServer,
+  LOCAL_SERVER_URLS,
+  PRIVACY_MODES,
+  PrivacyMode,
+  PROTOCOL_BASE_URLS,
+  TICKET_PLACEMENTS,
+  TICKET_STYLES,
+  TicketSettings,
+  TicketStyle,
+  PROVIDER_PROTOCOLS,
+  ProviderProtocol,
+} from './types/index.js';
+import { isModelInstalled } from './utils/index.js';
+import { isCancel, select } from '@clack/prompts';
+import { promises as fs } from 'fs';
+import { prependToChangelog } from './modules/changelog.js';
 
 // Import package.json for version and update checking
 import { createRequire } from 'module';
@@ -34,7 +74,10 @@ class CliApplication {
     this.program
       .name('orc')
       .description('OpenRouter Commit - AI-powered Git commit message generator')
-      .version(packageJson.version, '-v, --version', 'Show version number');
+      .version(packageJson.version, '-v, --version', 'Show version number')
+      // Before the subcommands are added, so they inherit it and their parse
+      // errors reach run() too
+      .exitOverride();
 
     // Main commit command
     this.program
@@ -47,8 +90,10 @@ class CliApplication {
       .option('-d, --dry-run', 'Generate message without creating commit', false)
       // NOTE: no -v short flag here — -v is reserved program-wide for --version.
       .option('--verbose', 'Enable verbose logging', false)
-      .option('-w, --watch', 'Watch for changes and auto-generate commits', false)
+      .option('-w, --watch', 'Watch staged changes and keep a draft message up to date', false)
+      .option('--split', 'Split staged changes into several atomic commits (plan is editable)', false)
       .option('-p, --provider <provider>', 'Specify AI provider (any configured provider)', this.validateProvider)
+      .option('--no-stream', 'Wait for the full response instead of streaming it live')
       // Extended formatting options
       .option('--emoji', 'Include emoji in commit message', false)
       .option('--one-line', 'Generate single-line commit message', false)
@@ -65,6 +110,16 @@ class CliApplication {
       // Git push options
       .option('--push', 'Push changes to remote after commit', false)
       .option('--auto-push', 'Automatically push all future commits', false)
+      // Trailer options
+      .option('--signoff', 'Add a Signed-off-by trailer for the committer')
+      .option('--co-author <alias...>', 'Add a Co-authored-by trailer (email, name or login of a past author)')
+      // Commit creation options
+      .option('--amend', 'Replace the last commit, describing its changes together with the staged ones', false)
+      .option('-S, --gpg-sign [key-id]', 'Sign the commit (GPG, or SSH with gpg.format=ssh or a .pub key)')
+      .option('--no-gpg-sign', 'Do not sign the commit, whatever commit.gpgsign says')
+      .option('--no-verify', 'Skip the pre-commit and commit-msg hooks')
+      .option('--author <author>', 'Override the commit author ("Name <email>")')
+      .option('--date <date>', 'Override the author date')
       // Custom prompt options
       .option('--prompt <text>', 'Custom system prompt for AI (overrides default)')
       .option('--context <text>', 'Additional context to include in the prompt')
@@ -72,6 +127,93 @@ class CliApplication {
         await this.handleCommitCommand(options);
       });
 
+    // Pick hunks to stage, grouped by intent, then commit them
+    this.program
+      .command('stage')
+      .description('Pick unstaged hunks to stage, grouped by AI-inferred intent, then commit them')
+      .option('--no-commit', 'Only stage the selected hunks')
+      .option('--no-group', 'List hunks by file instead of asking the AI to group them')
+      .option('-d, --dry-run', 'Show what would be staged without staging it', false)
+      .option('-y, --yes', 'Commit the staged hunks without confirmation', false)
+      .option('-p, --provider <provider>', 'Specify AI provider (any configured provider)', this.validateProvider)
+      .option('-s, --scope <scope>', 'Specify commit scope (e.g., auth, ui, api)')
+      .option('-t, --type <type>', 'Specify commit type', this.validateCommitType)
+      .option('--emoji', 'Include emoji in commit message', false)
+      .option('--one-line', 'Generate single-line commit message', false)
+      .option('--no-secret-scan', 'Skip secret scanning (use with caution!)')
+      .option('--push', 'Push changes to remote after commit', false)
+      .option('--signoff', 'Add a Signed-off-by trailer for the committer')
+      .option('--co-author <alias...>', 'Add a Co-authored-by trailer (email, name or login of a past author)')
+      .option('-S, --gpg-sign [key-id]', 'Sign the commit (GPG, or SSH with gpg.format=ssh or a .pub key)')
+      .option('--no-gpg-sign', 'Do not sign the commit, whatever commit.gpgsign says')
+      .option('--no-verify', 'Skip the pre-commit and commit-msg hooks')
+      .option('--context <text>', 'Additional context to include in the prompt')
+      .option('--verbose', 'Enable verbose logging', false)
+      .action(async (options: CliOptions) => {
+        await this.handleStageCommand(options);
+      });
+
+    // Rewrite messages of existing, unpushed commits
+    this.program
+      .command('reword <range>')
+      .description('Generate new messages for existing commits (e.g. HEAD~3..HEAD) and rewrite them')
+      .option('-y, --yes', 'Rewrite without confirmation', false)
+      .option('-d, --dry-run', 'Show old and new messages without rewriting', false)
+      .option('--verbose', 'Enable verbose logging', false)
+      .option('-p, --provider <provider>', 'Specify AI provider (any configured provider)', this.validateProvider)
+      .option('-S, --gpg-sign [key-id]', 'Sign the rewritten commits (GPG, or SSH with gpg.format=ssh or a .pub key)')
+      .option('--no-gpg-sign', 'Rewrite the commits unsigned, whatever commit.gpgsign says')
+      .option('--no-stream', 'Wait for the full response instead of streaming it live')
+      .option('--emoji', 'Include emoji in commit messages', false)
+      .option('--one-line', 'Generate single-line commit messages', false)
+      .option('--max-files <count>', 'Maximum number of files to analyze per commit', parseInt)
+      .option('--no-cache', 'Disable caching', false)
+      .option('--context <text>', 'Additional context to include in the prompt')
+      .action(async (range: string, options: CliOptions) => {
+        await this.handleRewordCommand(range, options);
+      });
+
+    // Pull request description
+    this.program
+      .command('pr')
+      .description('Generate a pull request title and description from the current branch')
+      .option('-b, --base <branch>', 'Branch the pull request targets (default: the remote default branch)')
+      .option('-o, --output <file>', 'Write the description to a file and print only the title')
+      .option('-t, --template <file>', 'Pull request template to fill in instead of the default sections')
+      .option('--verbose', 'Enable verbose logging', false)
+      .option('-p, --provider <provider>', 'Specify AI provider (any configured provider)', this.validateProvider)
+      .option('--max-files <count>', 'Maximum number of files to analyze', parseInt)
+      .option('--context <text>', 'Additional context to include in the prompt')
+      .action(async (options: CliOptions) => {
+        await this.handlePrCommand(options);
+      });
+
+    // Changelog from Conventional Commits
+    this.program
+      .command('changelog')
+      .description('Generate Keep a Changelog release notes from Conventional Commits')
+      .option('--from <rev>', 'Start of the range, exclusive (default: the latest tag)')
+      .option('--to <rev>', 'End of the range (default: HEAD)')
+      .option('--release <version>', 'Version heading to use instead of the tag or "Unreleased"')
+      .option('-o, --output <file>', 'Prepend the section to a changelog file (e.g. CHANGELOG.md)')
+      .option('--ai-summary', 'Add a short highlights paragraph written by the AI provider', false)
+      .option('-p, --provider <provider>', 'Specify AI provider for --ai-summary', this.validateProvider)
+      .option('--context <text>', 'Additional context for the highlights')
+      .option('--verbose', 'Enable verbose logging', false)
+      .action(async (options: CliOptions) => {
+        await this.handleChangelogCommand(options);
+      });
+
+    // Token usage and spend report
+    this.program
+      .command('usage')
+      .description('Report token usage and spend from the local usage ledger')
+      .option('--since <when>', 'Start date (YYYY-MM-DD) or span (7d, 2w); default: start of this month')
+      .option('--by <grouping>', "Group by 'model' (default), 'repo' or 'day'", 'model')
+      .action(async (options: { since?: string; by: string }) => {
+        await this.handleUsageCommand(options);
+      });
+
     // Config management commands
     const configCmd = this.program
       .command('config')
@@ -92,9 +234,9 @@ class CliApplication {
       });
 
     configCmd
-      .command('model <provider> <model>')
-      .description('Set default model for provider')
-      .action(async (provider: string, model: string) => {
+      .command('model <provider> [model]')
+      .description('Set default model for provider (local providers: pick from installed models)')
+      .action(async (provider: string, model?: string) => {
         await this.handleConfigModel(provider, model);
       });
 
@@ -106,7 +248,9 @@ class CliApplication {
       .option('--model <model>', 'Default model (e.g. @fast)')
       .option('--auth-header <header>', "Auth header name (default 'Authorization'; use 'X-API-Key' for cmdop)")
       .option('--auth-scheme <scheme>', "Scheme prefix for Authorization header (default 'Bearer'; pass empty to send raw)")
-      .action(async (name: string, opts: { baseUrl?: string; key?: string; model?: string; authHeader?: string; authScheme?: string }) => {
+      .option('--local [server]', "Local server without API key: 'ollama' (default) or 'llamacpp'")
+      .option('--protocol <protocol>', "API protocol: 'openai' (default), 'anthropic', 'gemini' or 'ollama'")
+      .action(async (name: string, opts: { baseUrl?: string; key?: string; model?: string; authHeader?: string; authScheme?: string; local?: string | boolean; protocol?: string }) => {
         await this.handleConfigProvider(name, opts);
       });
 
@@ -124,6 +268,48 @@ class CliApplication {
         await this.handleConfigDefault(name);
       });
 
+    configCmd
+      .command('fallback [providers...]')
+      .description('Set providers to fail over to, in order (provider or provider:model; omit to clear)')
+      .action(async (providers: string[]) => {
+        await this.handleConfigFallback(providers);
+      });
+
+    configCmd
+      .command('budget [usd]')
+      .description('Set a monthly spend limit in USD (omit to clear)')
+      .option('--refuse', 'Refuse to generate once the budget is reached (default: warn)', false)
+      .action(async (usd: string | undefined, opts: { refuse: boolean }) => {
+        await this.handleConfigBudget(usd, opts.refuse);
+      });
+
+    configCmd
+      .command('privacy [mode]')
+      .description(`Alias file paths (and identifiers) in prompts: ${PRIVACY_MODES.join(', ')} (omit to turn off)`)
+      .option('--identifier <pattern...>', "Regexes for identifiers aliased in 'strict' mode")
+      .action(async (mode: string | undefined, opts: { identifier?: string[] }) => {
+        await this.handleConfigPrivacy(mode, opts.identifier);
+      });
+
+    configCmd
+      .command('tickets [placement]')
+      .description(`Reference the branch's ticket in every message: ${TICKET_PLACEMENTS.join(', ')} (omit to turn off)`)
+      .option('--style <styles...>', `Ticket styles to look for in branch names: ${TICKET_STYLES.join(', ')}`)
+      .option('--pattern <regex>', 'Custom ticket regex instead of the styles (capture group 1 is the id)')
+      .option('--footer-key <key>', 'Footer key for the reference (default: Refs)')
+      .action(async (placement: string | undefined, opts: { style?: string[]; pattern?: string; footerKey?: string }) => {
+        await this.handleConfigTickets(placement, opts);
+      });
+
+    configCmd
+      .command('trailers [trailers...]')
+      .description("Set trailers added to every commit, as 'Key: value' (omit all arguments to clear)")
+      .option('--signoff', 'Also sign off every commit (Signed-off-by)')
+      .option('--no-signoff', 'Stop signing off every commit')
+      .action(async (trailers: string[], opts: { signoff?: boolean }) => {
+        await this.handleConfigTrailers(trailers, opts.signoff);
+      });
+
     configCmd
       .command('prompt [text]')
       .description('Set or clear custom system prompt (omit text to clear)')
@@ -135,7 +321,11 @@ class CliApplication {
       .command('path')
       .description('Show configuration file path')
       .action(() => {
-        console.log(configManager.getConfigPath());
+        if (isJsonOutput()) {
+          writeJson({ path: configManager.getConfigPath() });
+        } else {
+          console.log(configManager.getConfigPath());
+        }
       });
 
     // Cache management commands
@@ -164,6 +354,40 @@ class CliApplication {
         await this.handleCacheCleanup();
       });
 
+    // Git hook integration
+    const hookCmd = this.program
+      .command('hook')
+      .description('Manage the prepare-commit-msg git hook');
+
+    hookCmd
+      .command('install')
+      .description('Install the hook so plain `git commit` gets an AI draft (chains existing hooks)')
+      .action(async () => {
+        await this.handleHookInstall();
+      });
+
+    hookCmd
+      .command('uninstall')
+      .description('Remove the hook and restore any chained hook')
+      .action(async () => {
+        await this.handleHookUninstall();
+      });
+
+    hookCmd
+      .command('status')
+      .description('Show where the hook lives and whether it is installed')
+      .action(async () => {
+        await this.handleHookStatus();
+      });
+
+    // Invoked by the installed hook itself, not meant to be run by hand
+    hookCmd
+      .command('run <message-file> [source] [sha]', { hidden: true })
+      .option('--verbose', 'Enable verbose logging', false)
+      .action(async (messageFile: string, source: string | undefined, _sha: string | undefined, options: CliOptions) => {
+        await this.handleHookRun(messageFile, source, options);
+      });
+
     // Additional utility commands
     this.program
       .command('test [provider]')
@@ -172,6 +396,14 @@ class CliApplication {
         await this.handleTestCommand(provider);
       });
 
+    this.program
+      .command('serve')
+      .description('Run a JSON-RPC server for editor integrations')
+      .option('--stdio', 'Talk over stdin and stdout (LSP-style Content-Length framing)', false)
+      .action(async (options: { stdio: boolean }) => {
+        await this.handleServeCommand(options);
+      });
+
     this.program
       .command('doctor')
       .description('Diagnose installation, PATH, and update issues')
@@ -183,6 +415,7 @@ class CliApplication {
     this.program
       .option('--no-color', 'Disable colored output')
       .option('--silent', 'Suppress all output except errors')
+      .option('--json', 'Print the result as JSON on stdout; logs and progress go to stderr')
       .hook('preAction', (thisCommand) => {
         const options = thisCommand.opts();
         
@@ -190,6 +423,10 @@ class CliApplication {
         if (options.noColor) {
           process.env.FORCE_COLOR = '0';
         }
+
+        if (options.json) {
+          enableJsonOutput();
+        }
         
         logger.withOptions({
           verbose: options.verbose || false,
@@ -198,7 +435,6 @@ class CliApplication {
       });
 
     // Error handling
-    this.program.exitOverride();
     this.program.configureOutput({
       writeErr: (str) => process.stderr.write(`${chalk.red('Error:')} ${str}`),
     });
@@ -217,17 +453,148 @@ class CliApplication {
       
       logger.debug('Starting commit command', options);
 
+      if (options.watch && options.split) {
+        throw new ConfigError('--watch and --split cannot be used together');
+      }
+
+      if (options.amend && (options.watch || options.split)) {
+        throw new ConfigError('--amend cannot be used with --watch or --split');
+      }
+
+      if (isJsonOutput() && (options.watch || options.split)) {
+        throw new ConfigError('--json does not support --watch or --split');
+      }
+
       if (options.watch) {
         await this.handleWatchMode(options);
         return;
       }
 
       await coreOrchestrator.initialize();
-      await coreOrchestrator.generateCommit(options);
+
+      if (options.split) {
+        await coreOrchestrator.splitCommit(options);
+        return;
+      }
+
+      const result = await coreOrchestrator.generateCommit({ ...options, json: isJsonOutput() });
+
+      if (isJsonOutput()) {
+        if (!result) {
+          this.fail('Command failed', new GitError('No staged changes to commit'));
+        }
+        writeJson(result);
+      }
 
     } catch (error) {
-      logger.error('Command failed', error as Error);
-      process.exit(1);
+      this.fail('Command failed', error);
+    }
+  }
+
+  /**
+   * Handle stage command
+   */
+  private async handleStageCommand(options: CliOptions): Promise<void> {
+    try {
+      logger.debug('Starting stage command', options);
+
+      if (isJsonOutput()) {
+        throw new ConfigError('--json is not supported by orc stage, which picks hunks interactively');
+      }
+
+      await coreOrchestrator.initialize();
+      await coreOrchestrator.stageChanges(options);
+    } catch (error) {
+      this.fail('Command failed', error);
+    }
+  }
+
+  /**
+   * Handle reword command
+   */
+  private async handleRewordCommand(range: string, options: CliOptions): Promise<void> {
+    try {
+      logger.debug('Starting reword command', { range, ...options });
+
+      if (isJsonOutput()) {
+        throw new ConfigError('--json is not supported by orc reword');
+      }
+
+      await coreOrchestrator.initialize();
+      await coreOrchestrator.reword(range, options);
+    } catch (error) {
+      this.fail('Command failed', error);
+    }
+  }
+
+  /**
+   * Handle pull request command. Progress is written to stderr so stdout
+   * carries only the result, e.g. for `gh pr create --body-file`.
+   */
+  private async handlePrCommand(options: CliOptions): Promise<void> {
+    const restoreStdout = redirectStdoutToStderr();
+
+    try {
+      logger.debug('Starting pr command', options);
+
+      await coreOrchestrator.initialize();
+      const draft = await coreOrchestrator.generatePullRequest(options);
+
+      if (options.output) {
+        await fs.writeFile(options.output, `${draft.body}\n`, 'utf8');
+        logger.success(`Pull request description written to ${options.output}`);
+      }
+
+      restoreStdout();
+      if (isJsonOutput()) {
+        writeJson({ ...draft, output: options.output ?? null });
+      } else {
+        console.log(options.output ? draft.title : `${draft.title}\n\n${draft.body}`);
+      }
+    } catch (error) {
+      restoreStdout();
+      this.fail('Command failed', error);
+    }
+  }
+
+  /**
+   * Handle changelog command. Like `orc pr`, progress goes to stderr and the
+   * section alone to stdout unless it is written to a file.
+   */
+  private async handleChangelogCommand(options: CliOptions): Promise<void> {
+    const restoreStdout = redirectStdoutToStderr();
+
+    try {
+      logger.debug('Starting changelog command', options);
+
+      await coreOrchestrator.initialize();
+      const section = await coreOrchestrator.generateChangelog(options);
+
+      if (options.output) {
+        const existing = await fs.readFile(options.output, 'utf8').catch((error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          throw error;
+        });
+        await fs.writeFile(options.output, prependToChangelog(existing, section), 'utf8');
+        logger.success(`Changelog written to ${options.output}`);
+        restoreStdout();
+        if (isJsonOutput()) {
+          writeJson({ section, output: options.output });
+        }
+        return;
+      }
+
+      restoreStdout();
+      if (isJsonOutput()) {
+        writeJson({ section, output: null });
+      } else {
+        process.stdout.write(section);
+      }
+    } catch (error) {
+      restoreStdout();
+      this.fail('Command failed', error);
     }
   }
 
@@ -237,16 +604,18 @@ class CliApplication {
   private async handleConfigSet(provider: string, key: string): Promise<void> {
     try {
       if (!this.isValidProvider(provider)) {
-        logger.error(`Invalid provider name: ${provider}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${provider}`);
       }
 
       await configManager.setApiKey(provider, key);
       logger.success(`API key set for ${provider}`);
 
+      if (isJsonOutput()) {
+        writeJson({ provider, apiKey: await configManager.getMaskedApiKey(provider) });
+      }
+
     } catch (error) {
-      logger.error('Failed to set configuration', error as Error);
-      process.exit(1);
+      this.fail('Failed to set configuration', error);
     }
   }
 
@@ -255,71 +624,204 @@ class CliApplication {
    */
   private async handleConfigGet(provider?: string): Promise<void> {
     try {
-      const config = await configManager.load();
+      const { config, sources, projectConfigPath } = await configManager.loadWithSources();
+
+      // Effective value annotated with the layer it came from
+      const withSource = (value: unknown, key: string): string =>
+        `${Array.isArray(value) ? value.join(', ') : String(value)} (${sources[key] ?? 'default'})`;
 
       if (provider) {
         if (!this.isValidProvider(provider)) {
-          logger.error(`Invalid provider name: ${provider}`);
-          process.exit(1);
+          throw new ConfigError(`Invalid provider name: ${provider}`);
         }
 
         const maskedKey = await configManager.getMaskedApiKey(provider);
         const providerConfig = config.providers[provider];
-        const model = providerConfig?.model || 'default';
+        const model = providerConfig?.model
+          ? withSource(providerConfig.model, `providers.${provider}.model`)
+          : 'default';
+        const isLocal = providerConfig?.type === 'local';
+        const protocol = resolveProtocol(providerConfig);
+
+        if (isJsonOutput()) {
+          writeJson({
+            provider,
+            ...providerConfig,
+            apiKey: maskedKey,
+            protocol,
+            sources: Object.fromEntries(
+              Object.entries(sources).filter(([key]) => key.startsWith(`providers.${provider}.`))
+            ),
+          });
+          return;
+        }
 
         logger.table({
           Provider: provider,
-          'API Key': maskedKey,
+          'API Key': isLocal && !providerConfig?.apiKey ? 'not needed (local)' : maskedKey,
           Model: model,
-          'Base URL': providerConfig?.baseUrl || 'default',
-          'Auth Header': providerConfig?.authHeader || 'Authorization',
+          Protocol: protocol,
+          'Base URL': providerConfig?.baseUrl ||
+            (isLocal ? LOCAL_SERVER_URLS[providerConfig.server ?? 'ollama'] : PROTOCOL_BASE_URLS[protocol] ?? 'default'),
+          ...(isLocal
+            ? { Server: providerConfig.server ?? 'ollama' }
+            : { 'Auth Header': providerConfig?.authHeader || getAdapter(protocol).authHeader }),
         });
       } else {
         // Show all configuration — iterate over every configured provider.
         const providers = await configManager.listProviders();
+        const { preferences } = config;
+
+        if (isJsonOutput()) {
+          const masked: Record<string, unknown> = {};
+          for (const name of providers) {
+            masked[name] = { ...config.providers[name], apiKey: await configManager.getMaskedApiKey(name) };
+          }
+          writeJson({ providers: masked, preferences, sources, projectConfig: projectConfigPath || null });
+          return;
+        }
 
         const table: Record<string, string | number | boolean> = {
-          'Default Provider': config.preferences.defaultProvider,
+          'Default Provider': withSource(preferences.defaultProvider, 'preferences.defaultProvider'),
         };
 
         for (const name of providers) {
           const maskedKey = await configManager.getMaskedApiKey(name);
-          const model = config.providers[name]?.model || 'default';
-          table[`${name} API Key`] = maskedKey;
-          table[`${name} Model`] = model;
+          const model = config.providers[name]?.model;
+          table[`${name} API Key`] = config.providers[name]?.type === 'local' && maskedKey === 'Not set'
+            ? 'not needed (local)'
+            : maskedKey;
+          table[`${name} Model`] = model ? withSource(model, `providers.${name}.model`) : 'default';
+        }
+
+        table['Max Tokens'] = withSource(preferences.maxTokens, 'preferences.maxTokens');
+        table['Temperature'] = withSource(preferences.temperature, 'preferences.temperature');
+        table['Auto Confirm'] = withSource(preferences.autoConfirm, 'preferences.autoConfirm');
+        table['Language'] = withSource(preferences.language, 'preferences.language');
+        table['Format'] = withSource(preferences.commitFormat, 'preferences.commitFormat');
+
+        if (preferences.maxCommitLength !== undefined) {
+          table['Max Commit Length'] = withSource(preferences.maxCommitLength, 'preferences.maxCommitLength');
+        }
+        if (preferences.types?.length) {
+          table['Types'] = withSource(preferences.types, 'preferences.types');
+        }
+        if (preferences.scopes?.length) {
+          table['Scopes'] = withSource(preferences.scopes, 'preferences.scopes');
+        }
+        if (preferences.scopeMap && Object.keys(preferences.scopeMap).length > 0) {
+          table['Scope Map'] = withSource(
+            Object.entries(preferences.scopeMap).map(([glob, scope]) => `${glob} → ${scope}`).join(', '),
+            'preferences.scopeMap'
+          );
+        }
+        if (preferences.customPrompt) {
+          table['Custom Prompt'] = withSource('set', 'preferences.customPrompt');
+        }
+        if (preferences.fallbackProviders?.length) {
+          table['Fallback Providers'] = withSource(preferences.fallbackProviders, 'preferences.fallbackProviders');
+        }
+        if (preferences.monthlyBudget) {
+          table['Monthly Budget'] = withSource(
+            `${formatUsd(preferences.monthlyBudget)} (${preferences.budgetAction ?? 'warn'})`,
+            'preferences.monthlyBudget'
+          );
         }
 
-        table['Max Tokens'] = config.preferences.maxTokens;
-        table['Temperature'] = config.preferences.temperature;
-        table['Auto Confirm'] = config.preferences.autoConfirm;
-        table['Language'] = config.preferences.language;
-        table['Format'] = config.preferences.commitFormat;
+        if (preferences.privacy && preferences.privacy !== 'off') {
+          const patterns = preferences.privacy === 'strict' ? preferences.privacyPatterns ?? [] : [];
+          table['Privacy'] = withSource(
+            patterns.length > 0 ? `${preferences.privacy} (${patterns.join(', ')})` : preferences.privacy,
+            'preferences.privacy'
+          );
+        }
+
+        if (preferences.tickets) {
+          const { placement, styles, pattern } = preferences.tickets;
+          table['Tickets'] = withSource(
+            `${placement} (${pattern ? `/${pattern}/` : (styles ?? ['jira', 'github']).join(', ')})`,
+            'preferences.tickets'
+          );
+        }
+
+        if (preferences.trailers?.length) {
+          table['Trailers'] = withSource(preferences.trailers, 'preferences.trailers');
+        }
+        if (preferences.signoff) {
+          table['Sign-off'] = withSource('enabled', 'preferences.signoff');
+        }
+
+        table['Project Config'] = projectConfigPath || 'none';
 
         logger.table(table);
       }
 
     } catch (error) {
-      logger.error('Failed to get configuration', error as Error);
-      process.exit(1);
+      this.fail('Failed to get configuration', error);
     }
   }
 
   /**
    * Handle model configuration command
    */
-  private async handleConfigModel(provider: string, model: string): Promise<void> {
+  private async handleConfigModel(provider: string, model?: string): Promise<void> {
     try {
       if (!this.isValidProvider(provider)) {
-        logger.error(`Invalid provider name: ${provider}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${provider}`);
+      }
+
+      const config = await configManager.load();
+      const providerConfig = config.providers[provider];
+
+      if (providerConfig?.type === 'local') {
+        // Discover what the server has installed
+        let installed: string[] | null = null;
+        try {
+          apiManager.initializeProvider(provider, config);
+          installed = await apiManager.listLocalModels(provider);
+        } catch (error) {
+          logger.warn(`Could not list models of ${provider}: ${(error as Error).message}`);
+        }
+
+        if (!model) {
+          if (isJsonOutput()) {
+            throw new ConfigError(`Specify the model: orc config model ${provider} <model>`);
+          }
+          if (!installed?.length) {
+            throw new ConfigError(
+              installed
+                ? `No models installed on ${provider}. Pull one first (e.g. ollama pull llama3.2).`
+                : `Start ${provider} or name the model: orc config model ${provider} <model>`
+            );
+          }
+
+          const choice = await select({
+            message: `Model for ${provider}`,
+            options: installed.map(name => ({ value: name, label: name })),
+            initialValue: providerConfig.model && installed.includes(providerConfig.model)
+              ? providerConfig.model
+              : installed[0],
+          });
+          if (isCancel(choice)) {
+            return;
+          }
+          model = choice;
+        } else if (installed && providerConfig.server !== 'llamacpp' && !isModelInstalled(installed, model)) {
+          logger.warn(`${model} is not installed on ${provider} (installed: ${installed.join(', ') || 'none'})`);
+        }
+      } else if (!model) {
+        throw new ConfigError(`Specify the model: orc config model ${provider} <model>`);
       }
 
       await configManager.setModel(provider, model);
       logger.success(`Model set to ${model} for ${provider}`);
 
+      if (isJsonOutput()) {
+        writeJson({ provider, model });
+      }
+
     } catch (error) {
-      logger.error('Failed to set model', error as Error);
-      process.exit(1);
+      this.fail('Failed to set model', error);
     }
   }
 
@@ -328,27 +830,46 @@ class CliApplication {
    */
   private async handleConfigProvider(
     name: string,
-    opts: { baseUrl?: string; key?: string; model?: string; authHeader?: string; authScheme?: string }
+    opts: { baseUrl?: string; key?: string; model?: string; authHeader?: string; authScheme?: string; local?: string | boolean; protocol?: string }
   ): Promise<void> {
     try {
       if (!this.isValidProvider(name)) {
-        logger.error(`Invalid provider name: ${name}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${name}`);
+      }
+
+      let server: LocalServer | undefined;
+      if (opts.local !== undefined) {
+        const requested = opts.local === true ? 'ollama' : String(opts.local);
+        if (requested !== 'ollama' && requested !== 'llamacpp') {
+          throw new ConfigError(`Unknown local server '${requested}' (use 'ollama' or 'llamacpp')`);
+        }
+        server = requested;
+      }
+
+      if (opts.protocol !== undefined && !PROVIDER_PROTOCOLS.includes(opts.protocol as ProviderProtocol)) {
+        throw new ConfigError(`Unknown protocol '${opts.protocol}' (use ${PROVIDER_PROTOCOLS.map(p => `'${p}'`).join(', ')})`);
       }
 
       await configManager.setProvider(name, {
-        baseUrl: opts.baseUrl,
+        baseUrl: opts.baseUrl ?? (server ? LOCAL_SERVER_URLS[server] : undefined),
         apiKey: opts.key,
         model: opts.model,
         authHeader: opts.authHeader,
         authScheme: opts.authScheme,
+        type: server ? 'local' : undefined,
+        server,
+        protocol: opts.protocol as ProviderProtocol | undefined,
       });
 
       logger.success(`Provider '${name}' configured`);
 
+      if (isJsonOutput()) {
+        const config = await configManager.load();
+        writeJson({ provider: name, ...config.providers[name], apiKey: await configManager.getMaskedApiKey(name) });
+      }
+
     } catch (error) {
-      logger.error('Failed to configure provider', error as Error);
-      process.exit(1);
+      this.fail('Failed to configure provider', error);
     }
   }
 
@@ -358,16 +879,18 @@ class CliApplication {
   private async handleConfigRemoveProvider(name: string): Promise<void> {
     try {
       if (!this.isValidProvider(name)) {
-        logger.error(`Invalid provider name: ${name}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${name}`);
       }
 
       await configManager.removeProvider(name);
       logger.success(`Provider '${name}' removed`);
 
+      if (isJsonOutput()) {
+        writeJson({ provider: name, removed: true });
+      }
+
     } catch (error) {
-      logger.error('Failed to remove provider', error as Error);
-      process.exit(1);
+      this.fail('Failed to remove provider', error);
     }
   }
 
@@ -377,16 +900,18 @@ class CliApplication {
   private async handleConfigDefault(name: string): Promise<void> {
     try {
       if (!this.isValidProvider(name)) {
-        logger.error(`Invalid provider name: ${name}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${name}`);
       }
 
       await configManager.setDefaultProvider(name);
       logger.success(`Active provider set to '${name}'`);
 
+      if (isJsonOutput()) {
+        writeJson({ defaultProvider: name });
+      }
+
     } catch (error) {
-      logger.error('Failed to set default provider', error as Error);
-      process.exit(1);
+      this.fail('Failed to set default provider', error);
     }
   }
 
@@ -405,9 +930,260 @@ class CliApplication {
         logger.success('Custom prompt saved successfully');
         logger.info(`Preview: ${text.substring(0, 100)}${text.length > 100 ? '...' : ''}`);
       }
+
+      const { sources, projectConfigPath } = await configManager.loadWithSources();
+      const overridden = sources['preferences.customPrompt'] === 'project';
+      if (overridden) {
+        logger.warn(`This repository's ${projectConfigPath} sets its own custom prompt, which takes precedence here`);
+      }
+
+      if (isJsonOutput()) {
+        writeJson({ customPrompt: text?.trim() ? text : null, overriddenByProject: overridden });
+      }
     } catch (error) {
-      logger.error('Failed to set custom prompt', error as Error);
-      process.exit(1);
+      this.fail('Failed to set custom prompt', error);
+    }
+  }
+
+  /**
+   * Handle setting or clearing the fallback provider chain
+   */
+  private async handleConfigFallback(entries: string[]): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await configManager.updatePreferences({ fallbackProviders: undefined });
+        logger.success('Fallback providers cleared');
+        if (isJsonOutput()) {
+          writeJson({ fallbackProviders: [] });
+        }
+        return;
+      }
+
+      const config = await configManager.load();
+      for (const entry of entries) {
+        const { provider } = parseFallbackEntry(entry);
+        if (!this.isValidProvider(provider) || !config.providers[provider]) {
+          throw new ConfigError(`Provider '${provider}' is not configured (from '${entry}')`);
+        }
+      }
+
+      await configManager.updatePreferences({ fallbackProviders: entries });
+      logger.success(`Failing over to: ${entries.join(' → ')}`);
+
+      if (isJsonOutput()) {
+        writeJson({ fallbackProviders: entries });
+      }
+    } catch (error) {
+      this.fail('Failed to set fallback providers', error);
+    }
+  }
+
+  /**
+   * Handle setting or clearing the monthly budget
+   */
+  private async handleConfigBudget(usd: string | undefined, refuse: boolean): Promise<void> {
+    try {
+      if (usd === undefined) {
+        await configManager.updatePreferences({ monthlyBudget: undefined, budgetAction: undefined });
+        logger.success('Monthly budget cleared');
+        if (isJsonOutput()) {
+          writeJson({ monthlyBudget: null, budgetAction: null });
+        }
+        return;
+      }
+
+      const budget = Number(usd.replace(/^\$/, ''));
+      if (!Number.isFinite(budget) || budget <= 0) {
+        throw new ConfigError(`Invalid budget: ${usd} (expected a positive amount in USD)`);
+      }
+
+      await configManager.updatePreferences({
+        monthlyBudget: budget,
+        budgetAction: refuse ? 'refuse' : 'warn',
+      });
+      logger.success(`Monthly budget set to ${formatUsd(budget)} (${refuse ? 'refuse' : 'warn'} when reached)`);
+
+      if (isJsonOutput()) {
+        writeJson({ monthlyBudget: budget, budgetAction: refuse ? 'refuse' : 'warn' });
+      }
+    } catch (error) {
+      this.fail('Failed to set monthly budget', error);
+    }
+  }
+
+  /**
+   * Handle setting the privacy mode and its identifier patterns
+   */
+  private async handleConfigPrivacy(mode: string | undefined, identifiers: string[] | undefined): Promise<void> {
+    try {
+      const privacy = (mode ?? 'off') as PrivacyMode;
+      if (!PRIVACY_MODES.includes(privacy)) {
+        throw new ConfigError(`Invalid privacy mode: ${mode} (expected ${PRIVACY_MODES.join(', ')})`);
+      }
+      if (identifiers?.length && privacy !== 'strict') {
+        throw new ConfigError("Identifier patterns only apply in 'strict' mode");
+      }
+      for (const pattern of identifiers ?? []) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          throw new ConfigError(`Invalid identifier pattern: ${pattern}`);
+        }
+      }
+
+      await configManager.updatePreferences({
+        privacy: privacy === 'off' ? undefined : privacy,
+        ...(identifiers?.length ? { privacyPatterns: identifiers } : {}),
+      });
+
+      if (privacy === 'off') {
+        logger.success('Privacy mode turned off');
+      } else {
+        logger.success(
+          privacy === 'strict'
+            ? 'Privacy mode set to strict: file paths and matching identifiers are aliased in prompts'
+            : 'Privacy mode set to paths: file paths are aliased in prompts'
+        );
+      }
+
+      if (isJsonOutput()) {
+        const { preferences } = await configManager.load();
+        writeJson({
+          privacy,
+          privacyPatterns: privacy === 'strict' ? preferences.privacyPatterns ?? [] : [],
+        });
+      }
+    } catch (error) {
+      this.fail('Failed to set privacy mode', error);
+    }
+  }
+
+  /**
+   * Handle turning ticket references from branch names on or off
+   */
+  private async handleConfigTickets(
+    placement: string | undefined,
+    opts: { style?: string[]; pattern?: string; footerKey?: string }
+  ): Promise<void> {
+    try {
+      if (placement === undefined) {
+        await configManager.updatePreferences({ tickets: undefined });
+        logger.success('Ticket references turned off');
+        if (isJsonOutput()) {
+          writeJson({ tickets: null });
+        }
+        return;
+      }
+
+      if (!(TICKET_PLACEMENTS as readonly string[]).includes(placement)) {
+        throw new ConfigError(`Invalid ticket placement: ${placement} (expected ${TICKET_PLACEMENTS.join(', ')})`);
+      }
+      const unknown = opts.style?.filter(style => !(TICKET_STYLES as readonly string[]).includes(style)) ?? [];
+      if (unknown.length > 0) {
+        throw new ConfigError(`Unknown ticket style: ${unknown.join(', ')} (expected ${TICKET_STYLES.join(', ')})`);
+      }
+      if (opts.pattern) {
+        try {
+          new RegExp(opts.pattern);
+        } catch {
+          throw new ConfigError(`Invalid ticket pattern: ${opts.pattern}`);
+        }
+      }
+      if (opts.footerKey && !/^[\w-]+$/.test(opts.footerKey)) {
+        throw new ConfigError(`Invalid footer key: ${opts.footerKey} (letters, digits and dashes only)`);
+      }
+
+      const tickets: TicketSettings = {
+        placement: placement as TicketSettings['placement'],
+        ...(opts.style?.length ? { styles: opts.style as TicketStyle[] } : {}),
+        ...(opts.pattern ? { pattern: opts.pattern } : {}),
+        ...(opts.footerKey ? { footerKey: opts.footerKey } : {}),
+      };
+      await configManager.updatePreferences({ tickets });
+
+      logger.success(
+        placement === 'prefix'
+          ? 'Ticket references from the branch name will start each commit description'
+          : `Ticket references from the branch name will be added as a '${tickets.footerKey ?? 'Refs'}:' footer`
+      );
+
+      if (isJsonOutput()) {
+        writeJson({ tickets });
+      }
+    } catch (error) {
+      this.fail('Failed to set ticket references', error);
+    }
+  }
+
+  /**
+   * Handle setting the default trailers and sign-off
+   */
+  private async handleConfigTrailers(trailers: string[], signoff: boolean | undefined): Promise<void> {
+    try {
+      const invalid = trailers.filter(spec => !parseTrailer(spec));
+      if (invalid.length > 0) {
+        throw new ConfigError(`Invalid trailer: ${invalid.join(', ')} (expected 'Key: value')`);
+      }
+
+      if (signoff !== undefined) {
+        await configManager.updatePreferences({ signoff: signoff || undefined });
+        logger.success(signoff ? 'Every commit will be signed off' : 'Commits will no longer be signed off');
+      }
+
+      if (signoff === undefined || trailers.length > 0) {
+        await configManager.updatePreferences({ trailers: trailers.length > 0 ? trailers : undefined });
+        logger.success(
+          trailers.length > 0 ? `Every commit will get: ${trailers.join(', ')}` : 'Default trailers cleared'
+        );
+      }
+
+      if (isJsonOutput()) {
+        const { preferences } = await configManager.load();
+        writeJson({ trailers: preferences.trailers ?? [], signoff: preferences.signoff ?? false });
+      }
+    } catch (error) {
+      this.fail('Failed to set trailers', error);
+    }
+  }
+
+  /**
+   * Handle usage command
+   */
+  private async handleUsageCommand(options: { since?: string; by: string }): Promise<void> {
+    try {
+      if (!USAGE_GROUPINGS.includes(options.by as UsageGrouping)) {
+        throw new ConfigError(`Invalid grouping: ${options.by} (use ${USAGE_GROUPINGS.join(', ')})`);
+      }
+
+      const since = options.since ? parseSince(options.since) : startOfMonth();
+      if (!since) {
+        throw new ConfigError(`Invalid --since value: ${options.since} (use YYYY-MM-DD, 7d or 2w)`);
+      }
+
+      const config = await configManager.load();
+      const records = await usageLedger.read(since);
+      const report = summarizeUsage(records, options.by as UsageGrouping, await loadPriceBook(config), since);
+
+      if (isJsonOutput()) {
+        writeJson(report);
+        return;
+      }
+
+      if (records.length === 0) {
+        logger.info(`No usage recorded since ${since.toLocaleDateString()}`);
+        return;
+      }
+
+      console.log(`Usage since ${since.toLocaleDateString()}\n`);
+      console.log(formatUsageReport(report));
+
+      const { monthlyBudget } = config.preferences;
+      if (monthlyBudget) {
+        const spent = await monthToDateCost(config);
+        console.log(`\nMonthly budget: ${formatUsd(spent)} of ${formatUsd(monthlyBudget)} spent`);
+      }
+    } catch (error) {
+      this.fail('Failed to build usage report', error);
     }
   }
 
@@ -420,8 +1196,7 @@ class CliApplication {
       const testProvider = provider || config.preferences.defaultProvider;
 
       if (!this.isValidProvider(testProvider)) {
-        logger.error(`Invalid provider name: ${testProvider}`);
-        process.exit(1);
+        throw new ConfigError(`Invalid provider name: ${testProvider}`);
       }
 
       const progress = logger.startProgress(`Testing ${testProvider} connection...`);
@@ -436,12 +1211,40 @@ class CliApplication {
         progress.succeed(`${testProvider} connection test passed`);
       } else {
         progress.fail(`${testProvider} connection test failed - check API key`);
+      }
+
+      if (isJsonOutput()) {
+        writeJson({ provider: testProvider, passed: isValid });
+      }
+      if (!isValid) {
         process.exit(1);
       }
 
     } catch (error) {
-      logger.error('Test failed', error as Error);
-      process.exit(1);
+      this.fail('Test failed', error);
+    }
+  }
+
+  /**
+   * Handle serve command. Protocol messages own stdout, so everything else
+   * goes to stderr until the client disconnects.
+   */
+  private async handleServeCommand(options: { stdio: boolean }): Promise<void> {
+    try {
+      if (!options.stdio) {
+        throw new ConfigError('Choose a transport: orc serve --stdio');
+      }
+      if (isJsonOutput()) {
+        throw new ConfigError('--json is not supported by orc serve, which speaks JSON-RPC on stdout');
+      }
+
+      const write = process.stdout.write.bind(process.stdout);
+      redirectStdoutToStderr();
+
+      await new EditorServer(packageJson.version, process.stdin, data => write(data)).listen();
+      process.exit(0);
+    } catch (error) {
+      this.fail('Server failed', error);
     }
   }
 
@@ -450,13 +1253,132 @@ class CliApplication {
    */
   private async handleDoctorCommand(): Promise<void> {
     try {
-      const doctor = new Doctor(packageJson.version);
+      // A broken config must not stop the install diagnostics
+      const config = await configManager.load().catch(() => null);
+      const localServers: LocalServerProbe[] = Object.entries(config?.providers ?? {})
+        .filter(([, providerConfig]) => providerConfig.type === 'local')
+        .map(([name, providerConfig]) => ({
+          name,
+          server: providerConfig.server ?? 'ollama',
+          baseUrl: providerConfig.baseUrl || LOCAL_SERVER_URLS[providerConfig.server ?? 'ollama'],
+          model: providerConfig.model,
+          listModels: () => {
+            apiManager.initializeProvider(name, config!);
+            return apiManager.listLocalModels(name);
+          },
+        }));
+
+      const doctor = new Doctor(packageJson.version, localServers);
       const report = await doctor.run();
-      Doctor.print(report);
+      if (isJsonOutput()) {
+        writeJson(report);
+      } else {
+        Doctor.print(report);
+      }
       process.exit(report.hasProblems ? 1 : 0);
     } catch (error) {
-      logger.error('Doctor failed', error as Error);
-      process.exit(1);
+      this.fail('Doctor failed', error);
+    }
+  }
+
+  /**
+   * Handle hook install command
+   */
+  private async handleHookInstall(): Promise<void> {
+    try {
+      const { hookManager } = await import('./modules/hooks.js');
+      const status = await hookManager.install();
+
+      logger.success(`prepare-commit-msg hook installed at ${status.hookPath}`);
+      if (status.chainedHook) {
+        logger.info(`Existing hook chained: ${status.chainedHook}`);
+      }
+      if (status.husky) {
+        logger.info('Husky detected — commit the hook so your team gets it too');
+      }
+
+      if (isJsonOutput()) {
+        writeJson(status);
+      }
+
+    } catch (error) {
+      this.fail('Failed to install hook', error);
+    }
+  }
+
+  /**
+   * Handle hook uninstall command
+   */
+  private async handleHookUninstall(): Promise<void> {
+    try {
+      const { hookManager } = await import('./modules/hooks.js');
+      const before = await hookManager.status();
+
+      if (!before.installed) {
+        logger.info('prepare-commit-msg hook is not installed');
+        if (isJsonOutput()) {
+          writeJson(before);
+        }
+        return;
+      }
+
+      const status = await hookManager.uninstall();
+      logger.success('prepare-commit-msg hook removed');
+      if (before.chainedHook && !status.chainedHook) {
+        logger.info(`Original hook restored at ${status.hookPath}`);
+      }
+
+      if (isJsonOutput()) {
+        writeJson(status);
+      }
+
+    } catch (error) {
+      this.fail('Failed to uninstall hook', error);
+    }
+  }
+
+  /**
+   * Handle hook status command
+   */
+  private async handleHookStatus(): Promise<void> {
+    try {
+      const { hookManager } = await import('./modules/hooks.js');
+      const status = await hookManager.status();
+
+      if (isJsonOutput()) {
+        writeJson(status);
+        return;
+      }
+
+      logger.table({
+        'Hooks Directory': status.hooksDir,
+        Installed: status.installed,
+        'Chained Hook': status.chainedHook || 'none',
+        'Foreign Hook': status.foreignHook,
+        Husky: status.husky,
+      });
+
+    } catch (error) {
+      this.fail('Failed to get hook status', error);
+    }
+  }
+
+  /**
+   * Handle a prepare-commit-msg invocation from the installed hook. Always
+   * exits 0: a missing draft must never block the commit.
+   */
+  private async handleHookRun(messageFile: string, source: string | undefined, options: CliOptions): Promise<void> {
+    try {
+      await coreOrchestrator.initialize();
+      const drafted = await coreOrchestrator.prepareCommitMessageFile(messageFile, source, options);
+      if (isJsonOutput()) {
+        writeJson({ messageFile, drafted });
+      }
+    } catch (error) {
+      logger.debug('Hook run failed', error as Error);
+      if (isJsonOutput()) {
+        writeJson({ messageFile, drafted: false });
+      }
     }
   }
 
@@ -464,11 +1386,8 @@ class CliApplication {
    * Handle watch mode
    */
   private async handleWatchMode(options: CliOptions): Promise<void> {
-    logger.info('Watch mode not yet implemented');
-    logger.info('This would monitor git changes and auto-generate commits');
-    
-    // TODO: Implement file watching with chokidar or similar
-    // Watch for changes in git status and auto-trigger commit generation
+    await coreOrchestrator.initialize();
+    await coreOrchestrator.watch(options);
   }
 
   /**
@@ -479,6 +1398,15 @@ class CliApplication {
       const { cacheManager } = await import('./modules/cache.js');
       const stats = await cacheManager.getStats();
 
+      if (isJsonOutput()) {
+        writeJson({
+          ...stats,
+          oldestEntry: stats.oldestEntry?.toISOString() ?? null,
+          newestEntry: stats.newestEntry?.toISOString() ?? null,
+        });
+        return;
+      }
+
       logger.table({
         'Memory Entries': stats.memoryEntries,
         'Disk Entries': stats.diskEntries,
@@ -488,8 +1416,7 @@ class CliApplication {
       });
 
     } catch (error) {
-      logger.error('Failed to get cache stats', error as Error);
-      process.exit(1);
+      this.fail('Failed to get cache stats', error);
     }
   }
 
@@ -504,9 +1431,12 @@ class CliApplication {
       await cacheManager.clear();
       progress.succeed('Cache cleared successfully');
 
+      if (isJsonOutput()) {
+        writeJson({ cleared: true });
+      }
+
     } catch (error) {
-      logger.error('Failed to clear cache', error as Error);
-      process.exit(1);
+      this.fail('Failed to clear cache', error);
     }
   }
 
@@ -521,9 +1451,13 @@ class CliApplication {
       await cacheManager.cleanup();
       progress.succeed('Cache cleanup completed');
 
+      if (isJsonOutput()) {
+        const stats = await cacheManager.getStats();
+        writeJson({ memoryEntries: stats.memoryEntries, diskEntries: stats.diskEntries, totalSize: stats.totalSize });
+      }
+
     } catch (error) {
-      logger.error('Failed to cleanup cache', error as Error);
-      process.exit(1);
+      this.fail('Failed to cleanup cache', error);
     }
   }
 
@@ -556,7 +1490,7 @@ class CliApplication {
     ];
 
     if (!validTypes.includes(value as CommitType)) {
-      throw new Error(`Invalid commit type: ${value}. Valid types: ${validTypes.join(', ')}`);
+      throw new ConfigError(`Invalid commit type: ${value}. Valid types: ${validTypes.join(', ')}`);
     }
 
     return value as CommitType;
@@ -567,13 +1501,52 @@ class CliApplication {
   // check, not a whitelist of two literals.
   private static readonly PROVIDER_NAME_RE = /^[a-zA-Z0-9_-]+$/;
 
+  // Commander parse failures caused by the arguments themselves
+  private static readonly USAGE_ERROR_CODES = new Set([
+    'commander.invalidArgument',
+    'commander.unknownOption',
+    'commander.unknownCommand',
+    'commander.missingArgument',
+    'commander.optionMissingArgument',
+    'commander.missingMandatoryOptionValue',
+    'commander.excessArguments',
+    'commander.conflictingOption',
+  ]);
+
+  /**
+   * Report a failed command and exit with the code for its error class (see
+   * EXIT_CODES). In --json mode the error is also printed on stdout, so
+   * scripts always get a JSON document.
+   */
+  private fail(message: string, error?: unknown): never {
+    logger.error(message, error instanceof Error ? error : undefined);
+    this.exitWith(message, error);
+  }
+
+  /**
+   * Exit like fail() without logging, for errors that were already printed
+   */
+  private exitWith(message: string, error?: unknown): never {
+    if (isJsonOutput()) {
+      writeJson({
+        error: {
+          code: error instanceof BaseError ? error.code : 'ERROR',
+          message: error instanceof Error ? error.message : message,
+          ...(error instanceof HookError ? { hook: error.hook, output: error.output } : {}),
+        },
+      });
+    }
+
+    process.exit(exitCodeFor(error));
+  }
+
   /**
    * Validate provider name (commander option parser). Accepts any
    * syntactically valid provider identifier.
    */
   private validateProvider(value: string): string {
     if (!value || !CliApplication.PROVIDER_NAME_RE.test(value)) {
-      throw new Error(`Invalid provider name: ${value}`);
+      throw new ConfigError(`Invalid provider name: ${value}`);
     }
     return value;
   }
@@ -604,15 +1577,29 @@ class CliApplication {
         'commander.version',
         'commander.helpDisplayed',
         'commander.help',
-        'commander.missingArgument', // commander already printed a usage message
       ]);
 
+      // Invalid arguments exit like a ConfigError (2). The preAction hook has
+      // not run yet, so --json is read from the parsed global options.
+      if (this.program.opts().json) {
+        enableJsonOutput();
+      }
+
+      if (error instanceof ConfigError) {
+        this.fail('Invalid arguments', error);
+      }
+
       if (commanderError && typeof commanderError.code === 'string') {
         if (cleanExitCodes.has(commanderError.code)) {
           process.exit(commanderError.exitCode ?? 0);
         }
-        // Other commander.* errors (e.g. unknown option) already printed a
-        // helpful message via configureOutput; exit with its code, no stack.
+        // Commander already printed a usage message via configureOutput
+        if (CliApplication.USAGE_ERROR_CODES.has(commanderError.code)) {
+          const message = (error as Error).message.replace(/^error: /, '');
+          this.exitWith(message, new ConfigError(message));
+        }
+        // Other commander.* errors already printed a helpful message too;
+        // exit with its code, no stack.
         if (commanderError.code.startsWith('commander.')) {
           process.exit(commanderError.exitCode ?? 1);
         }
@@ -1,22 +1,33 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import axiosRetry from 'axios-retry';
 import PQueue from 'p-queue';
+import { StringDecoder } from 'string_decoder';
 import { 
   ApiRequest, 
   ApiResponse, 
   ApiError, 
+  BaseError,
+  CancelledError,
   NetworkError, 
   ProcessingResult, 
   RETRY_CONFIG, 
   CHUNK_LIMITS,
-  Config
+  Config,
+  StreamListener,
+  TokenUsage,
+  LOCAL_SERVER_URLS,
+  PROTOCOL_BASE_URLS
 } from '../types/index.js';
 import { logger } from './logger.js';
+import { usageLedger } from './usage.js';
+import { ProviderAdapter, getAdapter, resolveProtocol } from './provider-adapters.js';
 
 export class ApiManager {
   private readonly queue: PQueue;
   private readonly clients: Map<string, AxiosInstance> = new Map();
   private config?: Config;
+  // Aborted by cancelPending(); every request made until then listens to it
+  private abortController = new AbortController();
 
   constructor(concurrency: number = CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS) {
     this.queue = new PQueue({
@@ -35,23 +46,31 @@ export class ApiManager {
   initializeProvider(provider: string, config: Config): void {
     this.config = config; // Store config for later use
     const providerConfig = config.providers[provider];
+    const isLocal = providerConfig?.type === 'local';
 
-    if (!providerConfig?.apiKey) {
+    // Local servers (Ollama, llama.cpp) run without authentication
+    if (!providerConfig || (!providerConfig.apiKey && !isLocal)) {
       throw new ApiError(`API key not configured for ${provider}`);
     }
 
     const apiKey = providerConfig.apiKey;
+    const protocol = resolveProtocol(providerConfig);
+    const adapter = getAdapter(protocol);
 
-    // Build auth header from provider config. Default behaviour is the classic
-    // `Authorization: Bearer <key>`. Custom providers may instead send the key
-    // raw in a different header (e.g. cmdop_router's `X-API-Key`).
+    // Build auth header from provider config. Default behaviour is the
+    // protocol's: the classic `Authorization: Bearer <key>`, or Anthropic's and
+    // Gemini's raw key headers. Custom providers may instead send the key raw
+    // in a different header (e.g. cmdop_router's `X-API-Key`).
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'User-Agent': 'orcommit/1.0.0',
+      ...adapter.headers,
     };
 
-    const authHeader = providerConfig.authHeader || 'Authorization';
-    if (authHeader.toLowerCase() === 'authorization') {
+    const authHeader = providerConfig.authHeader || adapter.authHeader;
+    if (!apiKey) {
+      // Keyless local server: no auth header at all
+    } else if (authHeader.toLowerCase() === 'authorization') {
       const scheme = providerConfig.authScheme ?? 'Bearer';
       headers[authHeader] = scheme ? `${scheme} ${apiKey}` : apiKey;
     } else {
@@ -67,7 +86,8 @@ export class ApiManager {
     }
 
     const client = axios.create({
-      baseURL: providerConfig.baseUrl,
+      baseURL: providerConfig.baseUrl ||
+        (isLocal ? LOCAL_SERVER_URLS[providerConfig.server ?? 'ollama'] : PROTOCOL_BASE_URLS[protocol]),
       timeout: providerConfig.timeout || 60000,
       headers,
     });
@@ -88,7 +108,7 @@ export class ApiManager {
           !this.isOpenRouter(provider) &&
           status !== undefined &&
           [400, 422, 500, 502].includes(status) &&
-          this.requestHadResponseFormat(error)
+          this.requestHadResponseFormat(error, adapter)
         ) {
           return false;
         }
@@ -110,16 +130,44 @@ export class ApiManager {
     );
 
     this.clients.set(provider, client);
-    logger.debug(`Initialized ${provider} client`, { baseUrl: providerConfig.baseUrl });
+    logger.debug(`Initialized ${provider} client`, { baseUrl: providerConfig.baseUrl, protocol });
   }
 
   /**
-   * Generate commit message using the specified provider
+   * Generate commit message using the specified provider.
+   *
+   * When `request.stream` is set, `onToken` is called for every streamed
+   * fragment; the resolved value is still the complete message.
    */
   async generateCommitMessage(
     request: ApiRequest,
-    provider: string
+    provider: string,
+    onToken?: StreamListener
+  ): Promise<ProcessingResult<string>> {
+    return this.send(request, provider, onToken, response => this.extractCommitMessage(response, provider));
+  }
+
+  /**
+   * Run a request whose answer is not a commit message (a split plan, a PR
+   * draft, a JSON summary): the text comes back as generated, without the
+   * commit-message cleanup and never cut to `maxCommitLength`
+   */
+  async generateCompletion(
+    request: ApiRequest,
+    provider: string,
+    onToken?: StreamListener
   ): Promise<ProcessingResult<string>> {
+    return this.send(request, provider, onToken, response => this.extractCompletion(response, provider));
+  }
+
+  private async send(
+    request: ApiRequest,
+    provider: string,
+    onToken: StreamListener | undefined,
+    extract: (response: ApiResponse) => string
+  ): Promise<ProcessingResult<string>> {
+    const { signal } = this.abortController;
+
     return this.queue.add(async (): Promise<ProcessingResult<string>> => {
       try {
         const client = this.clients.get(provider);
@@ -133,20 +181,33 @@ export class ApiManager {
           maxTokens: request.maxTokens 
         });
 
-        const response = await this.makeRequest(client, request, provider);
-        const commitMessage = this.extractCommitMessage(response, provider);
+        const started = Date.now();
+        const response = await this.makeRequest(client, request, provider, 0, onToken, signal);
+        await usageLedger.record({
+          provider,
+          model: request.model,
+          usage: response.usage,
+          latencyMs: Date.now() - started,
+          cached: false,
+        });
+
+        const text = extract(response);
 
         logger.debug(`Received response from ${provider}`, { 
-          messageLength: commitMessage.length,
+          messageLength: text.length,
           usage: response.usage 
         });
 
         return {
           success: true,
-          data: commitMessage,
+          data: text,
         };
 
       } catch (error) {
+        if (signal.aborted) {
+          return { success: false, error: new CancelledError(`Request to ${provider} cancelled`) };
+        }
+
         logger.error(`API request failed for ${provider}`, error as Error);
 
         // Preserve the original ApiError or NetworkError
@@ -171,11 +232,19 @@ export class ApiManager {
           error: apiError,
         };
       }
+    }, { signal }).catch((error: unknown): ProcessingResult<string> => {
+      // Removed from the queue before it started
+      if (signal.aborted) {
+        return { success: false, error: new CancelledError(`Request to ${provider} cancelled`) };
+      }
+      throw error;
     }) as Promise<ProcessingResult<string>>;
   }
 
   /**
-   * Process multiple chunks in parallel
+   * Process multiple chunks in parallel. Every chunk is one slice of the same
+   * change, so the result fails when any of them fails: a partial answer
+   * would silently leave slices out.
    */
   async processChunks(
     chunks: string[],
@@ -184,7 +253,7 @@ export class ApiManager {
   ): Promise<ProcessingResult<string[]>> {
     try {
       const promises = chunks.map(chunk =>
-        this.generateCommitMessage({
+        this.generateCompletion({
           provider: baseRequest.provider,
           model: baseRequest.model,
           maxTokens: baseRequest.maxTokens,
@@ -199,22 +268,26 @@ export class ApiManager {
 
       const results = await Promise.allSettled(promises);
       const successfulResults: string[] = [];
-      const errors: ApiError[] = [];
+      const errors: BaseError[] = [];
 
       for (const result of results) {
         if (result.status === 'fulfilled' && result.value.success && result.value.data) {
           successfulResults.push(result.value.data);
         } else if (result.status === 'fulfilled' && result.value.error) {
-          errors.push(result.value.error instanceof ApiError ? result.value.error : new ApiError('Unknown error'));
+          errors.push(result.value.error);
         } else if (result.status === 'rejected') {
           errors.push(new ApiError('Promise rejected', undefined, result.reason as Error));
         }
       }
 
-      if (successfulResults.length === 0) {
+      if (errors.length > 0) {
+        const message = successfulResults.length === 0
+          ? `All chunk processing failed. ${errors.length} errors occurred.`
+          : `Chunk processing failed for ${errors.length} of ${chunks.length} chunks: ${errors[0]!.message}`;
         return {
           success: false,
-          error: new ApiError(`All chunk processing failed. ${errors.length} errors occurred.`),
+          // The first failure tells callers whether trying elsewhere may help
+          error: new ApiError(message, undefined, errors[0]),
         };
       }
 
@@ -232,6 +305,30 @@ export class ApiManager {
     }
   }
 
+  /**
+   * List the models installed on a local server: Ollama's `/api/tags`, or the
+   * OpenAI-style `/models` of llama.cpp
+   */
+  async listLocalModels(provider: string): Promise<string[]> {
+    const client = this.clients.get(provider);
+    if (!client) {
+      throw new ApiError(`Client not initialized for ${provider}`);
+    }
+
+    // Discovery must not sit through the generation retries of a dead server
+    const config: AxiosRequestConfig = { timeout: 5000, 'axios-retry': { retries: 0 } };
+
+    if (this.isOllama(provider)) {
+      const response = await client.get('/api/tags', config);
+      const models: Array<{ name?: string }> = response.data?.models ?? [];
+      return models.map(model => model.name ?? '').filter(Boolean);
+    }
+
+    const response = await client.get('/models', config);
+    const models: Array<{ id?: string }> = response.data?.data ?? [];
+    return models.map(model => model.id ?? '').filter(Boolean);
+  }
+
   /**
    * Test API connection
    */
@@ -276,6 +373,16 @@ export class ApiManager {
     };
   }
 
+  /**
+   * Cancel every queued and running request: queued ones leave the queue,
+   * running ones are aborted. Both resolve as failed with a CancelledError,
+   * which is never failed over or retried. Later requests are unaffected.
+   */
+  cancelPending(): void {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+  }
+
   /**
    * Clear the queue and wait for ongoing requests
    */
@@ -292,47 +399,28 @@ export class ApiManager {
     client: AxiosInstance,
     request: ApiRequest,
     provider: string,
-    retryCount: number = 0
+    retryCount: number = 0,
+    onToken?: StreamListener,
+    signal?: AbortSignal
   ): Promise<ApiResponse> {
-    const endpoint = '/chat/completions';
+    const adapter = this.getProviderAdapter(provider);
+    const endpoint = adapter.endpoint(request);
     const maxRetries = 5; // Increased for overload resilience
 
-    const payload: Record<string, unknown> = {
-      model: request.model,
-      messages: request.messages,
-      max_tokens: request.maxTokens,
-      temperature: request.temperature,
-      stream: request.stream ?? false,
-    };
-
-    // Constrained decoding when a structured schema is requested.
-    if (request.responseFormat) {
-      payload.response_format = request.responseFormat;
-
-      // `provider` and `plugins` are OpenRouter-specific extensions. Other
-      // OpenAI-compatible endpoints reject unknown top-level fields (cmdop's
-      // router returns HTTP 422 "Extra inputs are not permitted"), so only send
-      // them to OpenRouter. Everyone else gets a clean OpenAI-shaped payload
-      // with just `response_format`.
-      if (this.isOpenRouter(provider)) {
-        // Route ONLY to providers/models that actually honor the schema. Without
-        // this OpenRouter may silently pick a model that ignores json_schema, the
-        // model returns free text or broken JSON, and downstream parsing degrades
-        // to "commit the raw response" — which is how a bare `{` ends up as the
-        // commit message. require_parameters makes the request fail loudly instead.
-        payload.provider = { require_parameters: true };
-
-        // Server-side repair of imperfect/truncated JSON (missing brace, trailing
-        // comma, markdown fences). Non-streaming only; harmless if unsupported.
-        payload.plugins = [{ id: 'response-healing' }];
-      }
-    }
+    const payload = adapter.buildPayload(request, { openRouter: this.isOpenRouter(provider) });
 
     const config: AxiosRequestConfig = {
-      timeout: 60000,
+      // Local models on a laptop can be slow: honor the provider's timeout there
+      timeout: this.isLocal(provider) ? this.config?.providers[provider]?.timeout || 120000 : 60000,
+      ...(signal ? { signal } : {}),
     };
 
     try {
+      if (request.stream) {
+        const response = await client.post(endpoint, payload, { ...config, responseType: 'stream' });
+        return await this.parseStreamingResponse(response.data, provider, onToken);
+      }
+
       const response = await client.post(endpoint, payload, config);
       return this.parseResponse(response.data, provider);
     } catch (error) {
@@ -355,10 +443,10 @@ export class ApiManager {
       if (schemaUnsupported) {
         logger.warn(
           `${provider} rejected structured output (${error.statusCode}); ` +
-            `retrying without response_format`
+            `retrying without ${adapter.schemaField}`
         );
         const { responseFormat: _omit, ...textRequest } = request;
-        return this.makeRequest(client, textRequest, provider, retryCount + 1);
+        return this.makeRequest(client, textRequest, provider, retryCount + 1, onToken, signal);
       }
 
       const msg = error.message.toLowerCase();
@@ -383,7 +471,7 @@ export class ApiManager {
         const delay = 1000 * Math.pow(2, retryCount);
         logger.warn(`Retry ${retryCount + 1}/3 for ${provider}: ${error.message} (${delay / 1000}s)`);
         await new Promise(resolve => setTimeout(resolve, delay));
-        return this.makeRequest(client, request, provider, retryCount + 1);
+        return this.makeRequest(client, request, provider, retryCount + 1, onToken, signal);
       }
 
       if (isOverloadError && retryCount < maxRetries) {
@@ -391,7 +479,7 @@ export class ApiManager {
         const delay = Math.min(2000 + retryCount * 2000, 10000);
         logger.warn(`Retry ${retryCount + 1}/${maxRetries} for ${provider}: ${error.message} (${delay / 1000}s)`);
         await new Promise(resolve => setTimeout(resolve, delay));
-        return this.makeRequest(client, request, provider, retryCount + 1);
+        return this.makeRequest(client, request, provider, retryCount + 1, onToken, signal);
       }
 
       throw error;
@@ -405,14 +493,31 @@ export class ApiManager {
    * conventional `openrouter` provider id.
    */
   /**
-   * Whether the failed request's body carried a `response_format`. Used by the
-   * retry condition to recognise schema-rejection failures (axios stores the
+   * Whether the failed request's body carried a structured-output schema
+   * (`response_format`, or the protocol's equivalent). Used by the retry
+   * condition to recognise schema-rejection failures (axios stores the
    * serialized request body on error.config.data).
    */
-  private requestHadResponseFormat(error: AxiosError): boolean {
+  private requestHadResponseFormat(error: AxiosError, adapter: ProviderAdapter): boolean {
     const data = error.config?.data;
     if (typeof data !== 'string') return false;
-    return data.includes('"response_format"');
+    return data.includes(`"${adapter.schemaField}":`);
+  }
+
+  private isLocal(provider: string): boolean {
+    return this.config?.providers[provider]?.type === 'local';
+  }
+
+  /**
+   * Whether a provider speaks Ollama's native API (`/api/tags` for models)
+   * rather than the OpenAI-compatible one
+   */
+  private isOllama(provider: string): boolean {
+    return this.getProviderAdapter(provider).protocol === 'ollama';
+  }
+
+  private getProviderAdapter(provider: string): ProviderAdapter {
+    return getAdapter(resolveProtocol(this.config?.providers[provider]));
   }
 
   private isOpenRouter(provider: string): boolean {
@@ -424,50 +529,126 @@ export class ApiManager {
 
   private parseResponse(data: any, provider: string): ApiResponse {
     // Check for API errors first
-    if (data.error) {
-      const errorMsg = typeof data.error === 'string'
-        ? data.error
-        : (data.error.message || 'Unknown API error');
+    if (data?.error) {
+      const errorMsg = this.getProviderAdapter(provider).errorDetail(data) || 'Unknown API error';
       throw new ApiError(`${provider} API error: ${errorMsg}`);
     }
 
-    // Try to extract message from different response formats
-    let message: string | undefined;
-    let choice: any;
+    return this.getProviderAdapter(provider).parseResponse(data ?? {}, provider);
+  }
+
+  /**
+   * Assemble an SSE stream (`data: {...}` lines, terminated by `data: [DONE]`
+   * for OpenAI-compatible APIs) into a regular ApiResponse, forwarding each
+   * content delta to `onToken`. Comment and `event:` lines (OpenRouter sends
+   * `: OPENROUTER PROCESSING` keep-alives) are skipped. Providers that ignore
+   * `stream: true` and answer with a plain JSON body are handled by parsing
+   * the collected body as a normal response. Ollama streams newline-delimited
+   * JSON (`ndjson`) instead, one object per line. What an event means is up
+   * to the provider's adapter.
+   */
+  private async parseStreamingResponse(
+    stream: AsyncIterable<Buffer | string>,
+    provider: string,
+    onToken?: StreamListener
+  ): Promise<ApiResponse> {
+    const adapter = this.getProviderAdapter(provider);
+    const format = adapter.streamFormat;
+    const decoder = new StringDecoder('utf8');
+    let body = '';
+    let buffer = '';
+    let message = '';
+    let model = 'unknown';
     let finishReason = 'unknown';
+    let usage: TokenUsage | undefined;
+    let sawEvent = false;
 
-    // Format 1: Standard OpenAI/OpenRouter format with choices array
-    if (data.choices && Array.isArray(data.choices) && data.choices.length > 0) {
-      choice = data.choices[0];
-      message = choice.message?.content || choice.text;
-      finishReason = choice.finish_reason || 'unknown';
+    const handleLine = (rawLine: string) => {
+      const line = rawLine.trim();
+      if (format === 'sse' ? !line.startsWith('data:') : !line.startsWith('{')) return;
+
+      const data = format === 'sse' ? line.slice(5).trim() : line;
+      if (data === '[DONE]') return;
+
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        logger.debug(`Skipping malformed stream event from ${provider}`, { data: data.substring(0, 100) });
+        return;
+      }
+      sawEvent = true;
+
+      if (event.error) {
+        throw new ApiError(`${provider} API error: ${adapter.errorDetail(event) || 'Unknown API error'}`);
+      }
+
+      const parsed = adapter.parseStreamEvent(event);
+      const delta: unknown = parsed.delta;
+      if (typeof delta === 'string' && delta.length > 0) {
+        message += delta;
+        onToken?.(delta, message);
+      }
+      if (parsed.finishReason) finishReason = parsed.finishReason;
+      if (parsed.model) model = parsed.model;
+      if (parsed.usage) {
+        // Anthropic reports input and output tokens in separate events
+        const promptTokens = parsed.usage.promptTokens ?? usage?.promptTokens ?? 0;
+        const completionTokens = parsed.usage.completionTokens ?? usage?.completionTokens ?? 0;
+        usage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: parsed.usage.totalTokens ?? promptTokens + completionTokens,
+        };
+      }
+    };
+
+    for await (const chunk of stream) {
+      const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+      body += text;
+      buffer += text;
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
     }
-    // Format 2: Direct response format (some providers)
-    else if (data.response || data.text || data.content) {
-      message = data.response || data.text || data.content;
-      finishReason = data.finish_reason || 'complete';
+
+    const rest = decoder.end();
+    body += rest;
+    buffer += rest;
+    if (buffer.trim()) {
+      handleLine(buffer);
     }
-    // Format 3: Message directly in data
-    else if (data.message) {
-      message = typeof data.message === 'string' ? data.message : data.message.content;
-      finishReason = data.finish_reason || 'complete';
+
+    if (!sawEvent) {
+      // Not SSE at all — the provider answered with a regular JSON body.
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch {
+        throw new ApiError(`Invalid response format from ${provider}: no choices found`);
+      }
+      const response = this.parseResponse(data, provider);
+      onToken?.(response.message, response.message);
+      return response;
     }
 
-    // If still no message found, throw error
-    if (!message || typeof message !== 'string' || message.trim().length === 0) {
-      throw new ApiError(`Invalid response format from ${provider}: no choices found`);
+    if (!message.trim()) {
+      throw new ApiError(`Invalid response format from ${provider}: no message content`);
     }
 
-    return {
-      message,
-      usage: data.usage ? {
-        promptTokens: data.usage.prompt_tokens || 0,
-        completionTokens: data.usage.completion_tokens || 0,
-        totalTokens: data.usage.total_tokens || 0,
-      } : undefined,
-      model: data.model || 'unknown',
-      finishReason,
-    };
+    return { message, usage, model, finishReason };
+  }
+
+  private extractCompletion(response: ApiResponse, provider: string): string {
+    const text = response.message.replace(/\r\n/g, '\n').trim();
+    if (!text) {
+      throw new ApiError(`Empty response from ${provider}`);
+    }
+    return text;
   }
 
   private extractCommitMessage(response: ApiResponse, provider: string): string {
@@ -524,14 +705,24 @@ export class ApiManager {
     return message;
   }
 
-  private handleApiError(error: AxiosError, provider: string): Promise<never> {
+  private async handleApiError(error: AxiosError, provider: string): Promise<never> {
+    // axios-retry runs the interceptors again on every retry, so an error may
+    // already be converted; wrapping it again would drop its status code
+    if ((error as unknown) instanceof BaseError) {
+      throw error;
+    }
+
+    if (error.code === 'ERR_CANCELED') {
+      throw new CancelledError(`Request to ${provider} cancelled`, error);
+    }
+
     if (error.response) {
       // HTTP error response
       const status = error.response.status;
-      const data = error.response.data as any;
+      const data = await this.readErrorBody(error.response.data);
 
       let message = `${provider} API error (${status})`;
-      const detail = this.extractErrorDetail(data);
+      const detail = this.getProviderAdapter(provider).errorDetail(data);
       if (detail) {
         message += `: ${detail}`;
       }
@@ -547,53 +738,31 @@ export class ApiManager {
   }
 
   /**
-   * Pull a human-readable detail out of an error response body. Providers are
-   * wildly inconsistent here, so we handle the common shapes instead of only
-   * OpenAI's `{ error: { message } }`:
-   *   - OpenAI/OpenRouter:  { error: { message } }  or  { error: "string" }
-   *   - FastAPI/Pydantic:   { detail: [ { loc, msg, type }, ... ] }  (e.g. cmdop)
-   *   - FastAPI simple:     { detail: "string" }
-   *   - misc:               { message: "string" }
-   *   - raw string body
-   * Returns undefined when nothing useful can be extracted, so the caller keeps
-   * the bare `provider API error (status)`.
+   * The body of an error response. Streaming requests receive it as a
+   * stream, which has to be read before the provider's message (and with it
+   * the overload and rate-limit hints the retries look for) can be found.
    */
-  private extractErrorDetail(data: unknown): string | undefined {
-    if (data == null) return undefined;
-
-    if (typeof data === 'string') {
-      const trimmed = data.trim();
-      return trimmed.length ? trimmed : undefined;
+  private async readErrorBody(data: unknown): Promise<unknown> {
+    if (data === null || typeof data !== 'object' || !(Symbol.asyncIterator in data)) {
+      return data;
     }
 
-    if (typeof data !== 'object') return undefined;
-    const obj = data as Record<string, any>;
-
-    // OpenAI / OpenRouter style.
-    if (obj.error) {
-      if (typeof obj.error === 'string') return obj.error;
-      if (typeof obj.error.message === 'string') return obj.error.message;
-    }
-
-    // FastAPI / Pydantic validation errors (what cmdop's router returns).
-    if (obj.detail !== undefined) {
-      if (typeof obj.detail === 'string') return obj.detail;
-      if (Array.isArray(obj.detail)) {
-        const parts = obj.detail
-          .map((d: any) => {
-            if (typeof d === 'string') return d;
-            const loc = Array.isArray(d?.loc) ? d.loc.join('.') : undefined;
-            const msg = d?.msg ?? d?.message;
-            return loc && msg ? `${loc}: ${msg}` : msg || undefined;
-          })
-          .filter(Boolean);
-        if (parts.length) return parts.join('; ');
+    const decoder = new StringDecoder('utf8');
+    let body = '';
+    try {
+      for await (const chunk of data as AsyncIterable<Buffer | string>) {
+        body += typeof chunk === 'string' ? chunk : decoder.write(chunk);
       }
+    } catch {
+      // Keep what arrived before the connection dropped
     }
+    body += decoder.end();
 
-    if (typeof obj.message === 'string') return obj.message;
-
-    return undefined;
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
   }
 
   private calculateRetryDelay(statusCode?: number): number {
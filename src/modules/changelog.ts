@@ -0,0 +1,252 @@
+import { CommitLogEntry } from '../types/index.js';
+import { parseConventionalCommit } from '../utils/index.js';
+
+/** Keep a Changelog section names, in the order they are rendered */
+const SECTIONS = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'] as const;
+
+type ChangelogSection = (typeof SECTIONS)[number];
+
+// Commit types that describe user-facing changes; the rest (docs, test,
+// chore, ci, build, style) are housekeeping and stay out of the changelog
+const TYPE_SECTIONS: Record<string, ChangelogSection> = {
+  feat: 'Added',
+  fix: 'Fixed',
+  perf: 'Changed',
+  refactor: 'Changed',
+  revert: 'Changed',
+  security: 'Security',
+  deprecate: 'Deprecated',
+  remove: 'Removed',
+};
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).`;
+
+export interface ChangelogEntry {
+  hash: string;
+  type: string | null; // null for commits that are not Conventional Commits
+  scope?: string;
+  description: string;
+  section: ChangelogSection;
+  breaking: string | null; // Migration note, or the description for a bare `!`
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export class ChangelogBuilder {
+  readonly entries: ChangelogEntry[] = [];
+  readonly skipped: number;
+
+  /**
+   * @param commits - Commits of the release, newest first
+   */
+  constructor(commits: CommitLogEntry[]) {
+    let skipped = 0;
+
+    for (const commit of commits) {
+      const entry = parseEntry(commit);
+      if (entry) {
+        this.entries.push(entry);
+      } else {
+        skipped++;
+      }
+    }
+
+    this.skipped = skipped;
+  }
+
+  get breaking(): ChangelogEntry[] {
+    return this.entries.filter(entry => entry.breaking !== null);
+  }
+
+  /**
+   * The semver bump the entries call for: major for breaking changes, minor
+   * for features, patch for anything else
+   */
+  get bump(): VersionBump | null {
+    if (this.entries.length === 0) {
+      return null;
+    }
+    if (this.breaking.length > 0) {
+      return 'major';
+    }
+    return this.entries.some(entry => entry.type === 'feat') ? 'minor' : 'patch';
+  }
+
+  /**
+   * Suggest the next version after `current` (a tag such as `v1.4.2`), or
+   * after 0.0.0 for the first release. Breaking changes only bump the minor
+   * version before 1.0.0, as is usual for initial development. Returns null
+   * when the tag is not a version or nothing changed.
+   */
+  suggestVersion(current: string | null): string | null {
+    const match = (current ?? '0.0.0').match(/^(v?)(\d+)\.(\d+)\.(\d+)/);
+    const bump = this.bump;
+    if (!match || !bump) {
+      return null;
+    }
+
+    const prefix = match[1]!;
+    let [major, minor, patch] = [Number(match[2]), Number(match[3]), Number(match[4])];
+
+    if (bump === 'major' && major > 0) {
+      [major, minor, patch] = [major + 1, 0, 0];
+    } else if (bump === 'major' || bump === 'minor') {
+      [minor, patch] = [minor + 1, 0];
+    } else {
+      patch++;
+    }
+
+    return `${prefix}${major}.${minor}.${patch}`;
+  }
+
+  /**
+   * Render one release as Keep a Changelog Markdown. Breaking changes are
+   * listed first with their migration notes; within a section, unscoped
+   * entries come first, then entries grouped by scope.
+   */
+  render(version: string, date?: string, highlights?: string): string {
+    const heading = version === 'Unreleased' ? '## [Unreleased]' : `## [${version.replace(/^v(?=\d)/, '')}]`;
+    const lines: string[] = [date ? `${heading} - ${date}` : heading, ''];
+
+    if (highlights?.trim()) {
+      lines.push(highlights.trim(), '');
+    }
+
+    if (this.breaking.length > 0) {
+      lines.push('### BREAKING CHANGES', '');
+      for (const entry of this.breaking) {
+        lines.push(formatLine(entry, entry.breaking!));
+      }
+      lines.push('');
+    }
+
+    for (const section of SECTIONS) {
+      const entries = this.entries
+        .filter(entry => entry.section === section)
+        .sort((a, b) => (a.scope ?? '').localeCompare(b.scope ?? ''));
+
+      if (entries.length > 0) {
+        lines.push(`### ${section}`, '');
+        entries.forEach(entry => lines.push(formatLine(entry, entry.description)));
+        lines.push('');
+      }
+    }
+
+    if (this.entries.length === 0) {
+      lines.push('No user-facing changes.', '');
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+}
+
+/**
+ * Insert a release section into an existing CHANGELOG.md above the latest
+ * release. A section with the same heading is replaced, so regenerating
+ * `[Unreleased]` does not duplicate it, and a release replaces the
+ * `[Unreleased]` section it ships. A missing or empty file gets the Keep a
+ * Changelog header.
+ */
+export function prependToChangelog(existing: string | null, section: string): string {
+  if (!existing?.trim()) {
+    return `${CHANGELOG_HEADER}\n\n${section}`;
+  }
+
+  const lines = existing.replace(/\r\n/g, '\n').split('\n');
+  const heading = section.split('\n')[0]!.replace(/ - .*$/, '');
+  const isRelease = (line: string): boolean => line.startsWith('## ');
+
+  const findHeading = (wanted: string): number =>
+    lines.findIndex(line => isRelease(line) && line.replace(/ - .*$/, '') === wanted);
+
+  let same = findHeading(heading);
+  if (same < 0 && heading !== '## [Unreleased]') {
+    same = findHeading('## [Unreleased]');
+  }
+  if (same >= 0) {
+    const next = lines.findIndex((line, i) => i > same && isRelease(line));
+    const after = next >= 0 ? lines.slice(next) : [];
+    return [...lines.slice(0, same), ...section.trimEnd().split('\n'), '', ...after].join('\n').trimEnd() + '\n';
+  }
+
+  const first = lines.findIndex(isRelease);
+  if (first < 0) {
+    return `${existing.trimEnd()}\n\n${section}`;
+  }
+
+  return [...lines.slice(0, first), ...section.trimEnd().split('\n'), '', ...lines.slice(first)].join('\n');
+}
+
+function parseEntry(commit: CommitLogEntry): ChangelogEntry | null {
+  const [subject = '', ...body] = commit.message.split('\n');
+  const parsed = parseConventionalCommit(subject.trim());
+  const note = parseBreakingNote(body);
+
+  if (!parsed) {
+    // Not a Conventional Commit: still a change worth listing
+    return {
+      hash: commit.hash,
+      type: null,
+      description: subject.trim(),
+      section: 'Changed',
+      breaking: note,
+    };
+  }
+
+  const type = parsed.type.toLowerCase();
+  const breaking = note ?? (parsed.breaking ? parsed.description : null);
+  let section = TYPE_SECTIONS[type];
+
+  if (parsed.scope?.toLowerCase() === 'security') {
+    section = 'Security';
+  } else if (section && /^deprecat/i.test(parsed.description)) {
+    section = 'Deprecated';
+  } else if (section && /^(remove|drop|delete)[sd]?\b/i.test(parsed.description)) {
+    section = 'Removed';
+  }
+
+  // Housekeeping is left out, unless it breaks something
+  if (!section && breaking === null) {
+    return null;
+  }
+
+  return {
+    hash: commit.hash,
+    type,
+    scope: parsed.scope,
+    description: parsed.description.trim(),
+    section: section ?? 'Changed',
+    breaking,
+  };
+}
+
+/**
+ * Read a `BREAKING CHANGE:` (or `BREAKING-CHANGE:`) footer, including its
+ * continuation lines up to the next blank line or footer
+ */
+function parseBreakingNote(body: string[]): string | null {
+  const start = body.findIndex(line => /^BREAKING[ -]CHANGE:/.test(line));
+  if (start < 0) {
+    return null;
+  }
+
+  const note = [body[start]!.replace(/^BREAKING[ -]CHANGE:\s*/, '')];
+  for (const line of body.slice(start + 1)) {
+    if (!line.trim() || /^[\w-]+(: | #)/.test(line)) {
+      break;
+    }
+    note.push(line.trim());
+  }
+
+  return note.join(' ').trim() || null;
+}
+
+function formatLine(entry: ChangelogEntry, text: string): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  return `- ${scope}${text} (${entry.hash.slice(0, 7)})`;
+}
@@ -1,18 +1,38 @@
 import { promises as fs } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
-import { Config, ConfigError, DEFAULT_CONFIG, ProviderConfig } from '../types/index.js';
+import {
+  Config,
+  ConfigError,
+  ConfigLayer,
+  DEFAULT_CONFIG,
+  PRIVACY_MODES,
+  TICKET_PLACEMENTS,
+  TICKET_STYLES,
+  PROJECT_PREFERENCE_KEYS,
+  ProjectConfig,
+  ProviderConfig,
+} from '../types/index.js';
+import { gitManager } from './git.js';
+import { parseTrailer } from './trailers.js';
+
+/** Repository config file names, in lookup order */
+const PROJECT_CONFIG_FILES = ['.orcommitrc', '.orcommitrc.json'];
 
 export class ConfigManager {
   private readonly configPath: string;
   private cachedConfig?: Config;
+  private cachedUserConfig?: Config;
+  // undefined = not looked up yet, null = no project config in this repository
+  private cachedProjectConfig?: { path: string; config: ProjectConfig } | null;
 
   constructor() {
     this.configPath = join(homedir(), '.config', 'orcommit.json');
   }
 
   /**
-   * Load configuration from file or create default if not exists
+   * Load the effective configuration: defaults, then the user config, then
+   * the repository's `.orcommitrc` (if any)
    */
   async load(): Promise<Config> {
     if (this.cachedConfig) {
@@ -20,18 +40,10 @@ export class ConfigManager {
     }
 
     try {
-      await this.ensureConfigDirectory();
-      
-      const configExists = await this.fileExists(this.configPath);
-      if (!configExists) {
-        await this.createDefaultConfig();
-      }
+      const userConfig = await this.loadUserConfig();
+      const project = await this.loadProjectConfig();
 
-      const configData = await fs.readFile(this.configPath, 'utf-8');
-      const parsedConfig = JSON.parse(configData) as Config;
-      
-      // Merge with defaults to ensure all properties exist
-      this.cachedConfig = this.mergeWithDefaults(parsedConfig);
+      this.cachedConfig = project ? this.mergeWithDefaults(userConfig, project.config) : userConfig;
       return this.cachedConfig;
     } catch (error) {
       throw new ConfigError(
@@ -41,6 +53,53 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Load the effective configuration together with the layer each preference
+   * and provider model came from, keyed by dotted path
+   * (`preferences.language`, `providers.openrouter.model`).
+   */
+  async loadWithSources(): Promise<{
+    config: Config;
+    sources: Record<string, ConfigLayer>;
+    projectConfigPath: string | null;
+  }> {
+    const config = await this.load();
+    const userConfig = await this.loadUserConfig();
+    const project = await this.loadProjectConfig();
+    const sources: Record<string, ConfigLayer> = {};
+
+    const layerOf = (projectValue: unknown, userValue: unknown, defaultValue: unknown): ConfigLayer => {
+      if (projectValue !== undefined) return 'project';
+      if (userValue !== undefined && JSON.stringify(userValue) !== JSON.stringify(defaultValue)) {
+        return 'user';
+      }
+      return 'default';
+    };
+
+    const preferences = config.preferences as unknown as Record<string, unknown>;
+    const userPreferences = userConfig.preferences as unknown as Record<string, unknown>;
+    const defaultPreferences = DEFAULT_CONFIG.preferences as unknown as Record<string, unknown>;
+    const projectPreferences = (project?.config.preferences ?? {}) as Record<string, unknown>;
+
+    for (const key of Object.keys(preferences)) {
+      sources[`preferences.${key}`] = layerOf(
+        projectPreferences[key],
+        userPreferences[key],
+        defaultPreferences[key]
+      );
+    }
+
+    for (const name of Object.keys(config.providers)) {
+      sources[`providers.${name}.model`] = layerOf(
+        project?.config.providers?.[name]?.model,
+        userConfig.providers[name]?.model,
+        DEFAULT_CONFIG.providers[name]?.model
+      );
+    }
+
+    return { config, sources, projectConfigPath: project?.path ?? null };
+  }
+
   /**
    * Save configuration to file
    */
@@ -54,7 +113,9 @@ export class ConfigManager {
       // Set secure permissions (600 - owner read/write only)
       await fs.chmod(this.configPath, 0o600);
       
-      this.cachedConfig = config;
+      // The effective config is re-merged with the project layer on next load
+      this.cachedUserConfig = config;
+      this.cachedConfig = undefined;
     } catch (error) {
       throw new ConfigError(
         `Failed to save configuration: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -69,7 +130,7 @@ export class ConfigManager {
    * `orc config set <new-provider> <key>` can register a brand-new provider.
    */
   async setApiKey(provider: string, apiKey: string): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
     const updatedConfig: Config = {
       ...config,
       providers: {
@@ -101,7 +162,7 @@ export class ConfigManager {
    * Creates the provider entry if it does not exist yet.
    */
   async setModel(provider: string, model: string): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
     const updatedConfig: Config = {
       ...config,
       providers: {
@@ -131,9 +192,12 @@ export class ConfigManager {
       model?: string;
       authHeader?: string;
       authScheme?: string;
+      type?: ProviderConfig['type'];
+      server?: ProviderConfig['server'];
+      protocol?: ProviderConfig['protocol'];
     }
   ): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
 
     // Only merge keys that were actually provided.
     const patch: { -readonly [K in keyof ProviderConfig]?: ProviderConfig[K] } = {};
@@ -142,6 +206,9 @@ export class ConfigManager {
     if (opts.model !== undefined) patch.model = opts.model;
     if (opts.authHeader !== undefined) patch.authHeader = opts.authHeader;
     if (opts.authScheme !== undefined) patch.authScheme = opts.authScheme;
+    if (opts.type !== undefined) patch.type = opts.type;
+    if (opts.server !== undefined) patch.server = opts.server;
+    if (opts.protocol !== undefined) patch.protocol = opts.protocol;
 
     const updatedConfig: Config = {
       ...config,
@@ -166,7 +233,7 @@ export class ConfigManager {
    * Refuses unknown providers so the default can never point at a missing entry.
    */
   async setDefaultProvider(provider: string): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
 
     if (!(provider in config.providers)) {
       throw new ConfigError(
@@ -186,7 +253,7 @@ export class ConfigManager {
    * is currently set as the default.
    */
   async removeProvider(provider: string): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
 
     if (!(provider in config.providers)) {
       throw new ConfigError(`Provider '${provider}' is not configured.`);
@@ -240,7 +307,7 @@ export class ConfigManager {
    * Update user preferences
    */
   async updatePreferences(preferences: Partial<Config['preferences']>): Promise<void> {
-    const config = await this.load();
+    const config = await this.loadUserConfig();
     const updatedConfig: Config = {
       ...config,
       preferences: {
@@ -259,6 +326,10 @@ export class ConfigManager {
     const config = await this.load();
     const providerConfig = config.providers[provider];
 
+    if (providerConfig?.type === 'local') {
+      return true; // Local servers need no key
+    }
+
     return Boolean(providerConfig?.apiKey && providerConfig.apiKey.trim().length > 0);
   }
 
@@ -274,10 +345,186 @@ export class ConfigManager {
    */
   clearCache(): void {
     this.cachedConfig = undefined;
+    this.cachedUserConfig = undefined;
+    this.cachedProjectConfig = undefined;
   }
 
   // Private methods
 
+  /**
+   * The user layer on its own (merged with defaults). Everything that writes
+   * the config file starts from this, so project values never leak into
+   * ~/.config/orcommit.json.
+   */
+  private async loadUserConfig(): Promise<Config> {
+    if (this.cachedUserConfig) {
+      return this.cachedUserConfig;
+    }
+
+    await this.ensureConfigDirectory();
+
+    const configExists = await this.fileExists(this.configPath);
+    if (!configExists) {
+      await this.createDefaultConfig();
+    }
+
+    const configData = await fs.readFile(this.configPath, 'utf-8');
+    const parsedConfig = JSON.parse(configData) as Config;
+
+    // Merge with defaults to ensure all properties exist
+    this.cachedUserConfig = this.mergeWithDefaults(parsedConfig);
+    return this.cachedUserConfig;
+  }
+
+  /**
+   * Find and validate `.orcommitrc` at the repository root. Outside a git
+   * repository there is simply no project layer.
+   */
+  private async loadProjectConfig(): Promise<{ path: string; config: ProjectConfig } | null> {
+    if (this.cachedProjectConfig !== undefined) {
+      return this.cachedProjectConfig;
+    }
+
+    let root: string;
+    try {
+      root = await gitManager.getRepositoryRoot();
+    } catch {
+      this.cachedProjectConfig = null;
+      return null;
+    }
+
+    for (const fileName of PROJECT_CONFIG_FILES) {
+      const path = join(root, fileName);
+      if (!(await this.fileExists(path))) {
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(path, 'utf-8'));
+      } catch (error) {
+        throw new ConfigError(
+          `Invalid ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      this.cachedProjectConfig = { path, config: this.validateProjectConfig(parsed, fileName) };
+      return this.cachedProjectConfig;
+    }
+
+    this.cachedProjectConfig = null;
+    return null;
+  }
+
+  /**
+   * Reject anything a repository has no business setting. API keys get their
+   * own message: committing one is the mistake this check exists for.
+   */
+  private validateProjectConfig(raw: unknown, fileName: string): ProjectConfig {
+    if (!this.isPlainObject(raw)) {
+      throw new ConfigError(`Invalid ${fileName}: expected a JSON object`);
+    }
+
+    if (this.containsApiKey(raw)) {
+      throw new ConfigError(
+        `${fileName} must not contain API keys — it is committed with the repository. ` +
+          `Use 'orc config set <provider> <key>' instead.`
+      );
+    }
+
+    for (const key of Object.keys(raw)) {
+      if (key !== 'preferences' && key !== 'providers') {
+        throw new ConfigError(`Invalid ${fileName}: unknown section '${key}'`);
+      }
+    }
+
+    const preferences = raw.preferences ?? {};
+    if (!this.isPlainObject(preferences)) {
+      throw new ConfigError(`Invalid ${fileName}: 'preferences' must be an object`);
+    }
+
+    const allowed: readonly string[] = PROJECT_PREFERENCE_KEYS;
+    for (const [key, value] of Object.entries(preferences)) {
+      if (!allowed.includes(key)) {
+        throw new ConfigError(
+          `Invalid ${fileName}: 'preferences.${key}' cannot be set per repository ` +
+            `(allowed: ${PROJECT_PREFERENCE_KEYS.join(', ')})`
+        );
+      }
+
+      const valid =
+        key === 'types' || key === 'scopes' || key === 'privacyPatterns'
+          ? Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim())
+          : key === 'commitFormat'
+            ? value === 'conventional' || value === 'simple'
+            : key === 'privacy'
+              ? (PRIVACY_MODES as readonly unknown[]).includes(value)
+              : key === 'scopeMap'
+                ? this.isPlainObject(value) && Object.values(value).every(item => typeof item === 'string' && item.trim())
+                : key === 'tickets'
+                  ? this.isValidTicketSettings(value)
+                  : key === 'trailers'
+                    ? Array.isArray(value) && value.every(item => typeof item === 'string' && parseTrailer(item))
+                    : key === 'signoff'
+                      ? typeof value === 'boolean'
+                      : key === 'maxCommitLength' || key === 'maxTokens' || key === 'temperature'
+                        ? typeof value === 'number' && value >= 0
+                        : typeof value === 'string';
+
+      if (!valid) {
+        throw new ConfigError(`Invalid ${fileName}: unsupported value for 'preferences.${key}'`);
+      }
+    }
+
+    const providers = raw.providers ?? {};
+    if (!this.isPlainObject(providers)) {
+      throw new ConfigError(`Invalid ${fileName}: 'providers' must be an object`);
+    }
+
+    for (const [name, providerConfig] of Object.entries(providers)) {
+      if (!this.isPlainObject(providerConfig)) {
+        throw new ConfigError(`Invalid ${fileName}: 'providers.${name}' must be an object`);
+      }
+      for (const [key, value] of Object.entries(providerConfig)) {
+        if (key !== 'model' || typeof value !== 'string') {
+          throw new ConfigError(
+            `Invalid ${fileName}: only 'providers.${name}.model' can be set per repository`
+          );
+        }
+      }
+    }
+
+    return raw as ProjectConfig;
+  }
+
+  private containsApiKey(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.some(item => this.containsApiKey(item));
+    }
+    if (!this.isPlainObject(value)) {
+      return false;
+    }
+    return Object.entries(value).some(([key, nested]) =>
+      /^api[-_]?key$/i.test(key) || this.containsApiKey(nested)
+    );
+  }
+
+  private isValidTicketSettings(value: unknown): boolean {
+    return (
+      this.isPlainObject(value) &&
+      (TICKET_PLACEMENTS as readonly unknown[]).includes(value.placement) &&
+      (value.styles === undefined ||
+        (Array.isArray(value.styles) && value.styles.every(style => (TICKET_STYLES as readonly unknown[]).includes(style)))) &&
+      (value.pattern === undefined || typeof value.pattern === 'string') &&
+      (value.footerKey === undefined || (typeof value.footerKey === 'string' && /^[\w-]+$/.test(value.footerKey)))
+    );
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   private async ensureConfigDirectory(): Promise<void> {
     const configDir = join(homedir(), '.config');
     try {
@@ -300,13 +547,15 @@ export class ConfigManager {
     await this.save(DEFAULT_CONFIG);
   }
 
-  private mergeWithDefaults(config: Partial<Config>): Config {
+  private mergeWithDefaults(config: Partial<Config>, project?: ProjectConfig): Config {
     const userProviders = config.providers ?? {};
+    const projectProviders = project?.providers ?? {};
     const defaultProviders = DEFAULT_CONFIG.providers;
 
     // Union of all provider keys: built-in defaults plus any custom providers
     // the user has registered. Built-ins keep their default baseUrl/timeout
-    // when the user hasn't overridden them.
+    // when the user hasn't overridden them. A project can only pin the model
+    // of a provider, never introduce one.
     const providerNames = new Set<string>([
       ...Object.keys(defaultProviders),
       ...Object.keys(userProviders),
@@ -314,7 +563,10 @@ export class ConfigManager {
 
     const providers: Record<string, ProviderConfig> = {};
     for (const name of providerNames) {
-      providers[name] = this.mergeProviderConfig(defaultProviders[name], userProviders[name]);
+      providers[name] = this.mergeProviderConfig(
+        this.mergeProviderConfig(defaultProviders[name], userProviders[name]),
+        projectProviders[name]
+      );
     }
 
     return {
@@ -322,6 +574,7 @@ export class ConfigManager {
       preferences: {
         ...DEFAULT_CONFIG.preferences,
         ...config.preferences,
+        ...project?.preferences,
       },
       version: config.version || DEFAULT_CONFIG.version,
     };
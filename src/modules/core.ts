@@ -9,35 +9,119 @@ import {
   CHUNK_LIMITS,
   ConfigError,
   GitError,
+  HookError,
   ApiError,
-  FileSafetyAnalysis
+  FileSafetyAnalysis,
+  PullRequestDraft,
+  CommitOptions,
+  CommitResult,
+  SecretFinding
 } from '../types/index.js';
+import { circuitBreaker, isFailoverError, parseFallbackEntry } from './failover.js';
 import { configManager } from './config.js';
 import { gitManager } from './git.js';
 import { apiManager } from './api.js';
-import { logger, ProgressIndicator } from './logger.js';
+import { getProgressReporter, logger, ProgressIndicator } from './logger.js';
 import { tokenManager } from './tokenizer.js';
 import { cacheManager } from './cache.js';
 import { diffFilter } from './diff-filter.js';
 import { AIFileSelector } from './file-selector.js';
 import { maybeShowPromo } from './promo.js';
-import { secretScanner } from './secret-scanner.js';
-import { confirm, isCancel, text } from '@clack/prompts';
+import { SCAN_ENGINE_NAMES, secretScanner } from './secret-scanner.js';
+import { PLACEHOLDER_PATTERN, Redactor, stripPlaceholders } from './redactor.js';
+import { PrivacyMask } from './privacy.js';
+import { styleProfiler, styleRules } from './style-profile.js';
+import { ScopeInference, scopeResolver } from './scope-resolver.js';
+import { TicketReference, applyTicketReference, ticketPromptRule, ticketReferenceFor } from './tickets.js';
+import {
+  IDENTITY_TRAILER_KEYS,
+  Trailer,
+  addTrailers,
+  coAuthorRegistry,
+  formatIdentity,
+  joinTrailers,
+  parseTrailer,
+  removeTrailers,
+  splitTrailers,
+} from './trailers.js';
+import { ChangeWatcher } from './watcher.js';
+import { HookManager } from './hooks.js';
+import { CommitSplitter, DescribeView, SplitCommit, parseSplitPlan } from './splitter.js';
+import { ChangelogBuilder } from './changelog.js';
+import { ChunkSummary, groupSummaries, parseChunkSummary, renderSummaries } from './summarizer.js';
+import { formatUsd, monthToDateCost, usageLedger } from './usage.js';
+import { confirm, groupMultiselect, isCancel, multiselect, select, text } from '@clack/prompts';
 import chalk from 'chalk';
+import readline from 'readline';
+import { promises as fs } from 'fs';
+import { join } from 'path';
 import {
   wrapInstructions,
   wrapRules,
   wrapContext,
   wrapUserFeedback,
   wrapDiffContent,
+  wrapGitContext,
   wrapInBlock,
   parseAIResponse,
-  COMMIT_RESPONSE_FORMAT
+  extractStreamingCommitMessage,
+  formatSideBySide,
+  parsePullRequestResponse,
+  COMMIT_RESPONSE_FORMAT,
+  CHUNK_SUMMARY_RESPONSE_FORMAT,
+  SPLIT_RESPONSE_FORMAT,
+  PR_RESPONSE_FORMAT
 } from '../utils/formatting.js';
-import { createAIThinkingSpinner, createProcessingSpinner } from './spinner.js';
+import {
+  CommitLintRules,
+  LintViolation,
+  RuleConfig,
+  getDefaultCommitRules,
+  loadCommitLintRules,
+  lintCommitMessage,
+  formatLintFeedback
+} from '../utils/commit-lint.js';
+import { AnimatedSpinner, createAIThinkingSpinner, createProcessingSpinner } from './spinner.js';
+
+// Regenerations spent on commit-rule violations the linter cannot fix itself
+const MAX_RULE_REPAIRS = 2;
+
+// Changed lines shown per hunk when planning a split, tried in order until the
+// whole staged change fits in one request (0 = hunk headers only)
+const SPLIT_PREVIEW_LINES = [40, 12, 0];
+
+// Output budget for a split plan, which carries one message per commit
+const SPLIT_MIN_TOKENS = 2000;
+
+// Output budget for a pull request body, which is longer than a commit message
+const PR_MIN_TOKENS = 2000;
+
+// Commit subjects of the branch passed to the pull request prompt
+const PR_MAX_COMMITS = 50;
+
+// Where GitHub, GitLab and friends look for a pull request template
+const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+  '.gitlab/merge_request_templates/Default.md',
+];
+
+/**
+ * What the commit prompt knows about the repository's own conventions
+ */
+interface PromptConventions {
+  readonly styleGuide?: string; // Rules learned from the commit history
+  readonly scope?: ScopeInference | null; // Scope of the changed workspace packages
+  readonly tickets?: TicketReference | null; // Ticket references added after generation
+}
 
 export class CoreOrchestrator {
   private config?: Config;
+  private commitRules?: CommitLintRules;
 
   /**
    * Initialize the core orchestrator
@@ -55,13 +139,18 @@ export class CoreOrchestrator {
   }
 
   /**
-   * Main entry point for generating and creating commits
+   * Main entry point for generating and creating commits. Returns null when
+   * there was nothing to commit.
    */
-  async generateCommit(options: CliOptions): Promise<void> {
+  async generateCommit(options: CliOptions): Promise<CommitResult | null> {
     if (!this.config) {
       throw new ConfigError('Core orchestrator not initialized');
     }
 
+    if (options.json && !options.dryRun && !options.yes) {
+      throw new ConfigError('--json cannot ask for confirmation: add --dry-run or --yes');
+    }
+
     // Set up logger based on options
     const contextualLogger = logger.withOptions({ 
       verbose: options.verbose || false,
@@ -71,6 +160,7 @@ export class CoreOrchestrator {
     try {
       // Validate environment
       await this.validateEnvironment(options);
+      await this.checkBudget(contextualLogger);
 
       // Handle cache clearing if requested
       if (options.clearCache) {
@@ -90,16 +180,17 @@ export class CoreOrchestrator {
 
       analyzeProgress.update('Reading staged changes');
       
+      // An amended commit is described whole: its own changes plus the staged ones
       const rawDiff = await gitManager.getStagedDiff({
         maxChunkSize: CHUNK_LIMITS.MAX_CHUNK_SIZE,
         preserveContext: true,
         maxConcurrency: CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS,
-      });
+      }, options.amend ? await gitManager.getAmendBase() : undefined);
 
       if (rawDiff.files.length === 0) {
         analyzeProgress.fail('No staged changes found');
         contextualLogger.warn('Use `git add` to stage files first.');
-        return;
+        return null;
       }
 
       analyzeProgress.succeed(`Found ${rawDiff.files.length} staged files`);
@@ -115,59 +206,12 @@ export class CoreOrchestrator {
       // Phase 2: Filter and process
       const filterProgress = contextualLogger.startProgress('Processing and filtering changes');
 
-      // Step 1: Quick filter to remove obvious junk
-      let diff = diffFilter.quickFilter(rawDiff);
-      filterProgress.update(`Quick filter: ${diff.files.length} files remaining`);
-
-      // Step 2: AI file selection for medium-sized commits (20-150 files)
-      if (this.shouldUseAISelection(diff.files.length)) {
-        filterProgress.update('AI analyzing file relevance...');
-
-        const fileSelector = new AIFileSelector(this.config!);
-        const maxFiles = options.maxFiles || 30;
-
-        try {
-          const selectedFiles = await fileSelector.selectRelevantFiles(diff.files, maxFiles);
-          diff = {
-            ...diff,
-            files: selectedFiles,
-            totalLines: selectedFiles.reduce((sum, file) =>
-              sum + file.chunks.reduce((chunkSum, chunk) => chunkSum + chunk.lines.length, 0), 0
-            ),
-            totalSize: selectedFiles.reduce((sum, file) =>
-              sum + JSON.stringify(file).length, 0
-            ),
-          };
-          filterProgress.update(`AI selected ${diff.files.length} most relevant files`);
-        } catch (error) {
-          contextualLogger.warn('AI file selection failed, using standard filtering');
-          // Fall through to standard filtering
-        }
-      }
-
-      // Step 3: Apply traditional filtering (for small commits or if AI selection was skipped)
-      if (!this.shouldUseAISelection(rawDiff.files.length)) {
-        diff = diffFilter.filterDiff(diff, {
-          ignoreGenerated: options.ignoreGenerated,
-          ignoreWhitespace: options.ignoreWhitespace,
-          maxFileSize: 1024 * 1024, // 1MB
-          relevancyThreshold: 0.05, // Lowered from 0.1 to reduce false filtering
-        });
-      }
-
-      // Limit files if requested
-      if (options.maxFiles && diff.files.length > options.maxFiles) {
-        diff = {
-          ...diff,
-          files: diff.files.slice(0, options.maxFiles)
-        };
-        contextualLogger.info(`Limited analysis to ${options.maxFiles} most relevant files`);
-      }
+      const diff = await this.selectRelevantChanges(rawDiff, options, contextualLogger, filterProgress);
 
       if (diff.files.length === 0) {
         filterProgress.fail('No relevant changes found');
         contextualLogger.warn('All changes were filtered out. Try adjusting filter settings.');
-        return;
+        return null;
       }
 
       const filterSummary = diffFilter.getFilteringSummary(rawDiff, diff);
@@ -178,94 +222,11 @@ export class CoreOrchestrator {
       }
 
       // Phase 2.5: Secret scanning (skip if --no-secret-scan flag is set)
-      if (options.secretScan !== false) {
-        filterProgress.update('Scanning for secrets with Gitleaks');
-
-        try {
-          const scanResult = await secretScanner.scanStagedChanges();
-
-        if (scanResult.criticalSecrets.length > 0) {
-          filterProgress.fail(`Secrets detected (${scanResult.criticalSecrets.length} critical)`);
-
-          console.log(chalk.red('\n🚨 BLOCKED: Secrets detected in staged files!\n'));
-          console.log(chalk.yellow('Critical secrets found:\n'));
-
-          // Group by file
-          const secretsByFile = new Map<string, typeof scanResult.criticalSecrets>();
-          scanResult.criticalSecrets.forEach(secret => {
-            if (!secretsByFile.has(secret.file)) {
-              secretsByFile.set(secret.file, []);
-            }
-            secretsByFile.get(secret.file)!.push(secret);
-          });
-
-          // Display grouped by file
-          secretsByFile.forEach((secrets, file) => {
-            console.log(chalk.yellow(`  ${file}:`));
-            secrets.forEach(secret => {
-              console.log(chalk.gray(`    Line ${secret.line}:${secret.column}`));
-              console.log(chalk.gray(`    ${secret.message}`));
-              if (secret.data) {
-                console.log(chalk.gray(`    Found: ${secret.data}`));
-              }
-              console.log(chalk.gray(`    Rule: ${secret.ruleId}\n`));
-            });
-          });
-
-          console.log(chalk.gray('To fix this issue:'));
-          console.log(chalk.gray('  1. Remove secrets from code'));
-          console.log(chalk.gray('  2. Use environment variables instead'));
-          console.log(chalk.gray('  3. Add affected files to .gitignore'));
-          console.log(chalk.gray('  4. Create .gitleaksignore file to suppress false positives'));
-          console.log(chalk.gray('  5. Or skip secret scan: orc commit --no-secret-scan (not recommended!)\n'));
-
-          throw new GitError('Commit blocked: Critical secrets detected');
-        }
-
-        // Show warnings if any
-        if (scanResult.warnings.length > 0) {
-          contextualLogger.warn(`Found ${scanResult.warnings.length} potential secrets (warnings)`);
-
-          if (!options.yes) {
-            console.log(chalk.yellow('\n⚠️  Warning: Potential secrets detected\n'));
-
-            scanResult.warnings.slice(0, 3).forEach(secret => {
-              console.log(chalk.yellow(`  ${secret.file}:${secret.line}`));
-              console.log(chalk.gray(`  ${secret.message}\n`));
-            });
-
-            if (scanResult.warnings.length > 3) {
-              console.log(chalk.gray(`  ... and ${scanResult.warnings.length - 3} more\n`));
-            }
-
-            const proceed = await confirm({
-              message: 'Continue with commit?',
-              initialValue: false
-            });
-
-            if (isCancel(proceed) || !proceed) {
-              throw new GitError('Commit cancelled: User declined due to secret warnings');
-            }
-          }
-        } else {
-          filterProgress.succeed(`Ready to analyze ${diff.files.length} files (no secrets detected)`);
-        }
-      } catch (error) {
-        if (error instanceof GitError) {
-          throw error; // Re-throw blocking errors
-        }
-        // If secret scanning fails, log but don't block commit
-        contextualLogger.warn(`Secret scanning failed: ${(error as Error).message}`);
-        filterProgress.succeed(`Ready to analyze ${diff.files.length} files (scan skipped)`);
-      }
-    } else {
-      // Secret scanning disabled by --no-secret-scan flag
-      contextualLogger.warn('Secret scanning disabled by --no-secret-scan flag');
-      filterProgress.succeed(`Ready to analyze ${diff.files.length} files (secret scan disabled)`);
-    }
+      const secrets = await this.scanForSecrets(diff.files.length, options, contextualLogger, filterProgress, rawDiff);
 
       // Phase 3: Generate commit message
       const provider = options.provider || this.config.preferences.defaultProvider;
+      const usageMark = usageLedger.sessionMark();
 
       // Initialize API client
       apiManager.initializeProvider(provider, this.config);
@@ -273,16 +234,31 @@ export class CoreOrchestrator {
       // Generate commit message with regeneration loop
       let commitMessage: string;
       let codeAssessment: string | null = null;
-      let userFeedback: string | undefined;
+      let generatedBy = { provider, model: this.getModel(provider) };
+      let userFeedback = options.feedback;
       let regenerationAttempt = 0;
       const maxRegenerations = 5; // Prevent infinite loops
 
+      const promptDiff = this.redactDiff(diff, secrets);
+      const analyzedPaths = new Set(diff.files.map(file => file.path));
+      const outcome = (committed: boolean): CommitResult => ({
+        message: commitMessage,
+        assessment: codeAssessment,
+        ...generatedBy,
+        usage: usageLedger.sessionUsage(usageMark),
+        filesAnalyzed: [...analyzedPaths],
+        filteredFiles: rawDiff.files.map(file => file.path).filter(path => !analyzedPaths.has(path)),
+        secrets,
+        committed,
+      });
+
       // eslint-disable-next-line no-constant-condition
       while (true) {
         // Generate commit message (with optional user feedback)
-        const result = await this.generateCommitMessage(diff, options, provider, userFeedback);
+        const result = await this.generateCommitMessage(promptDiff, options, provider, userFeedback);
         commitMessage = result.commitMessage;
         codeAssessment = result.assessment;
+        generatedBy = { provider: result.provider, model: result.model };
 
         if (options.dryRun) {
           console.log(chalk.blue('\n📝 Generated commit message (dry run):'));
@@ -294,7 +270,7 @@ export class CoreOrchestrator {
             console.log(chalk.yellow(`Regenerated with feedback: ${userFeedback}\n`));
           }
 
-          return;
+          return outcome(false);
         }
 
         // Confirm or regenerate
@@ -304,7 +280,7 @@ export class CoreOrchestrator {
           break; // Exit loop and proceed to commit
         } else if (confirmation.action === 'cancel') {
           console.log(chalk.yellow('\n✖ Commit cancelled by user'));
-          return;
+          return outcome(false);
         } else if (confirmation.action === 'regenerate') {
           regenerationAttempt++;
 
@@ -316,7 +292,7 @@ export class CoreOrchestrator {
 
             if (isCancel(forceCommit) || !forceCommit) {
               console.log(chalk.yellow('\n✖ Commit cancelled'));
-              return;
+              return outcome(false);
             }
             break;
           }
@@ -329,11 +305,18 @@ export class CoreOrchestrator {
 
       // Create the commit
       if (commitMessage) {
-        const commitSpinner = createProcessingSpinner('Creating commit');
+        const commitSpinner = createProcessingSpinner(options.amend ? 'Amending commit' : 'Creating commit');
         commitSpinner.start();
 
-        await gitManager.createCommit(commitMessage);
-        commitSpinner.succeed('Commit created');
+        try {
+          await gitManager.createCommit(commitMessage, { ...this.commitOptions(options), amend: options.amend });
+        } catch (error) {
+          commitSpinner.fail(error instanceof HookError ? `The ${error.hook} hook rejected the commit` : 'Commit failed');
+          // Keep the message at hand for a retry after fixing what the hook reported
+          console.log(chalk.gray('\n💬 Message: ') + chalk.white(commitMessage));
+          throw error;
+        }
+        commitSpinner.succeed(options.amend ? 'Commit amended' : 'Commit created');
 
         console.log(chalk.gray('\n💬 Message: ') + chalk.white(commitMessage));
 
@@ -357,8 +340,11 @@ export class CoreOrchestrator {
             // If interactive prompts fail (e.g., in CI), skip push silently
           }
         }
+
+        return outcome(true);
       } else {
         contextualLogger.info('Commit cancelled by user');
+        return outcome(false);
       }
 
     } catch (error) {
@@ -375,164 +361,1785 @@ export class CoreOrchestrator {
   }
 
   /**
-   * Generate commit message from diff with optional user feedback
+   * Watch the index and working tree, keeping a draft commit message in sync
+   * with the staged diff. Drafts are regenerated only when the staged diff
+   * actually changes; going back to a previously seen diff is served from
+   * cacheManager by generateCommitMessage, so it costs no API call. Nothing is
+   * committed until the user presses a key.
    */
-  private async generateCommitMessage(
-    diff: GitDiff,
-    options: CliOptions,
-    provider: string,
-    userFeedback?: string
-  ): Promise<{ commitMessage: string; assessment: string | null }> {
-    const spinner = createAIThinkingSpinner(
-      userFeedback ? 'Regenerating commit' : 'Generating commit'
-    );
-    spinner.start();
+  async watch(options: CliOptions): Promise<void> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
 
-    try {
-      // Create system prompt (with optional user feedback for regeneration)
-      const systemPrompt = this.createSystemPrompt(options, userFeedback);
+    if (!process.stdin.isTTY) {
+      throw new GitError('Watch mode requires an interactive terminal');
+    }
 
-      if (userFeedback) {
-        logger.debug('Regenerating with user feedback', { feedbackLength: userFeedback.length });
-      }
-      
-      // Prepare diff content for processing
-      const rawDiffContent = this.prepareDiffContent(diff);
-      let diffContent = wrapDiffContent(rawDiffContent); // Wrap in DIFF_CONTENT block
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
 
-      // Add git context for better understanding (history + branch)
-      const gitContext = await gitManager.getGitContextForAI(5);
-      if (gitContext) {
-        diffContent = gitContext + '\n\n' + diffContent;
-        logger.debug('Added git context to prompt', { contextLength: gitContext.length });
+    const isGitRepo = await gitManager.isGitRepository();
+    if (!isGitRepo) {
+      throw new GitError('Not in a git repository');
+    }
+
+    const provider = options.provider || this.config.preferences.defaultProvider;
+    const isConfigValid = await configManager.validateConfig(provider);
+    if (!isConfigValid) {
+      throw new ConfigError(
+        `API key not configured for ${provider}. Use 'orc config set ${provider} <api-key>' to set it.`
+      );
+    }
+    apiManager.initializeProvider(provider, this.config);
+
+    const watcher = new ChangeWatcher({
+      gitDir: await gitManager.getGitDir(),
+      workTree: await gitManager.getRepositoryRoot(),
+    });
+
+    let draft: string | null = null;
+    let lastFingerprint: string | null = null;
+    let busy = false;
+    let rerun = false;
+    let rerunForced = false;
+
+    const printHints = () => {
+      console.log(chalk.gray('  [c] commit draft   [r] regenerate   [q] quit\n'));
+    };
+
+    // Re-read the staged diff and refresh the draft if it changed. Calls that
+    // arrive while a generation is in flight are coalesced into one re-run.
+    const refresh = async (force = false): Promise<void> => {
+      if (busy) {
+        rerun = true;
+        rerunForced ||= force;
+        return;
       }
+      busy = true;
 
-      const model = this.getModel(provider);
+      try {
+        const rawDiff = await gitManager.getStagedDiff({
+          maxChunkSize: CHUNK_LIMITS.MAX_CHUNK_SIZE,
+          preserveContext: true,
+          maxConcurrency: CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS,
+        });
 
-      // Repository-scoped cache key prevents cross-project collisions
-      const cacheScope = await gitManager.getCacheScope();
+        // Fingerprint the raw diff: file selection may itself call the API
+        const fingerprint = rawDiff.files.length > 0 ? this.prepareDiffContent(rawDiff) : '';
 
-      // Check cache first (unless disabled or regenerating with feedback)
-      if (!options.noCache && !userFeedback) {
-        const cachedMessage = await cacheManager.get(
-          rawDiffContent, // Use raw content for cache key
-          model,
-          provider,
-          this.config!.preferences.temperature,
-          cacheScope
-        );
+        if (!force && fingerprint === lastFingerprint) {
+          return; // Working tree noise — staged diff is unchanged
+        }
+        lastFingerprint = fingerprint;
+        draft = null;
 
-        if (cachedMessage) {
-          spinner.succeed('Retrieved from cache');
-          return {
-            commitMessage: cachedMessage,
-            assessment: null // Cached messages don't have assessment
-          };
+        if (!fingerprint) {
+          console.log(chalk.gray('\n👀 Waiting for staged changes... (git add <files>)'));
+          printHints();
+          return;
         }
-      }
-      
-      // Get optimal chunk size for the model
-      const optimalChunkSize = tokenManager.getOptimalChunkSize(model);
-      const systemTokens = tokenManager.estimateSystemTokens(systemPrompt, model);
-      const availableTokens = optimalChunkSize - systemTokens;
-      
-      // Check if we need to chunk the content based on tokens
-      const contentTokens = tokenManager.countTokens(diffContent, model);
-      
-      if (contentTokens <= availableTokens) {
-        // Single request
-        const request: ApiRequest = {
-          provider,
-          model: this.getModel(provider),
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: diffContent },
-          ],
-          maxTokens: this.config!.preferences.maxTokens,
-          temperature: this.config!.preferences.temperature,
-          responseFormat: COMMIT_RESPONSE_FORMAT,
-        };
 
-        const result = await apiManager.generateCommitMessage(request, provider);
-        
-        if (!result.success || !result.data) {
-          throw new ApiError(result.error?.message || 'Failed to generate commit message');
+        const diff = await this.selectRelevantChanges(rawDiff, options, contextualLogger);
+
+        let warnings: SecretFinding[] = [];
+        if (options.secretScan !== false) {
+          const scanResult = await secretScanner.scanStagedChanges(rawDiff);
+          warnings = scanResult.warnings;
+          if (scanResult.criticalSecrets.length > 0) {
+            console.log(chalk.red(
+              `\n🚨 ${scanResult.criticalSecrets.length} critical secret(s) staged (${SCAN_ENGINE_NAMES[scanResult.engine]}) — no draft generated`
+            ));
+            scanResult.criticalSecrets.forEach(secret => {
+              console.log(chalk.gray(`  ${secret.file}:${secret.line} ${secret.message}`));
+            });
+            printHints();
+            return;
+          }
         }
 
-        const rawMessage = result.data;
+        const result = await this.generateCommitMessage(
+          this.redactDiff(diff, warnings),
+          force ? { ...options, noCache: true } : options,
+          provider
+        );
+        draft = result.commitMessage;
 
-        // Parse JSON response (with fallback to plain text)
-        logger.debug('Raw AI response:', { length: rawMessage.length, preview: rawMessage.substring(0, 200) });
-        const parsed = parseAIResponse(rawMessage);
-        logger.debug('Parsed response:', { hasAssessment: !!parsed.assessment, messageLength: parsed.commitMessage.length });
+        console.log(chalk.cyan('\n📝 Draft commit message:'));
+        console.log(chalk.gray('——————————————————'));
+        console.log(chalk.white(draft));
+        console.log(chalk.gray('——————————————————'));
+        printHints();
+      } catch (error) {
+        contextualLogger.warn(`Draft generation failed: ${(error as Error).message}`);
+        printHints();
+      } finally {
+        busy = false;
+        if (rerun) {
+          const forced = rerunForced;
+          rerun = false;
+          rerunForced = false;
+          void refresh(forced);
+        }
+      }
+    };
+
+    console.log(chalk.blue('👀 Watch mode — drafts follow your staged changes'));
+
+    await new Promise<void>((resolve) => {
+      const stop = () => {
+        watcher.stop();
+        process.stdin.off('keypress', onKeypress);
+        process.stdin.setRawMode(false);
+        process.stdin.pause();
+        resolve();
+      };
+
+      const onKeypress = (_input: string, key: { name?: string; ctrl?: boolean }) => {
+        if (key.name === 'q' || (key.ctrl && key.name === 'c')) {
+          console.log(chalk.yellow('\n✖ Watch mode stopped'));
+          stop();
+          return;
+        }
 
-        spinner.update('Polishing the message');
+        if (key.name === 'r') {
+          void refresh(true);
+          return;
+        }
 
-        // Clean the commit message locally — no second LLM round-trip needed.
-        // The model already returns the message inside structured JSON; we just
-        // strip artifacts (prefixes, quotes, code fences) deterministically.
-        const finalMessage = this.cleanCommitMessage(parsed.commitMessage);
+        if (key.name === 'c') {
+          if (busy || !draft) {
+            console.log(chalk.yellow('⚠ No draft ready to commit yet'));
+            return;
+          }
 
-        // Cache the finalized result (skip if regenerating with feedback)
-        if (!options.noCache && !userFeedback) {
-          await cacheManager.set(
-            rawDiffContent, // Use raw content for cache key
-            model,
-            provider,
-            this.config!.preferences.temperature,
-            finalMessage,
-            cacheScope
-          );
+          const message = draft;
+          draft = null;
+          busy = true;
+          const commitSpinner = createProcessingSpinner('Creating commit');
+          commitSpinner.start();
+
+          gitManager.createCommit(message, this.commitOptions(options))
+            .then(() => {
+              commitSpinner.succeed('Commit created');
+              console.log(chalk.gray('\n💬 Message: ') + chalk.white(message));
+            })
+            .catch((error: Error) => {
+              commitSpinner.fail(`Commit failed: ${error.message}`);
+              draft = message;
+            })
+            .finally(() => {
+              busy = false;
+              void refresh();
+            });
         }
+      };
 
-        spinner.succeed('Commit message generated');
-        return {
-          commitMessage: finalMessage,
-          assessment: parsed.assessment
-        };
+      readline.emitKeypressEvents(process.stdin);
+      process.stdin.setRawMode(true);
+      process.stdin.on('keypress', onKeypress);
+      process.stdin.resume();
 
-      } else {
-        // Multiple chunks processing with token-based splitting
-        spinner.update('Processing large diff in chunks');
+      watcher.start(
+        () => {
+          void refresh();
+        },
+        () => stop()
+      );
+      void refresh();
+    });
+  }
 
-        const chunks = tokenManager.splitIntoTokenChunks(diffContent, {
-          model,
-          maxTokens: optimalChunkSize,
-          reservedTokens: systemTokens,
-        });
+  /**
+   * Non-interactive entry point for the prepare-commit-msg hook: generate a
+   * message for the staged changes and write it into git's commit message
+   * file, above the comment lines git put there. Never prompts and never
+   * throws — on any problem (skipped source, secrets, API failure) the file is
+   * left exactly as it was and false is returned, so the commit proceeds with
+   * git's normal editor flow.
+   */
+  async prepareCommitMessageFile(
+    messageFile: string,
+    source: string | undefined,
+    options: CliOptions
+  ): Promise<boolean> {
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
 
-        const baseRequest = {
-          provider,
-          model,
-          maxTokens: this.config!.preferences.maxTokens,
-          temperature: this.config!.preferences.temperature,
-          systemPrompt,
-          responseFormat: COMMIT_RESPONSE_FORMAT,
-        };
+    if (!HookManager.shouldGenerate(source)) {
+      contextualLogger.debug(`Skipping hook for commit source '${source}'`);
+      return false;
+    }
 
-        const result = await apiManager.processChunks(chunks, baseRequest, provider);
+    try {
+      if (!this.config) {
+        throw new ConfigError('Core orchestrator not initialized');
+      }
 
-        if (!result.success || !result.data) {
-          throw new ApiError(result.error?.message || 'Failed to process chunks');
-        }
+      const existing = await fs.readFile(messageFile, 'utf-8');
+      const hasMessage = existing.split('\n').some(line => line.trim() && !line.startsWith('#'));
+      if (hasMessage) {
+        // A template or a chained hook already wrote a message — keep it
+        contextualLogger.debug('Commit message file already has content, leaving it untouched');
+        return false;
+      }
 
-        // Combine chunk results into a single commit message
-        const rawMessage = this.combineChunkResults(result.data, options);
+      await this.validateEnvironment(options);
 
-        // Parse JSON response (with fallback to plain text)
-        logger.debug('Raw AI response (chunks):', { length: rawMessage.length, preview: rawMessage.substring(0, 200) });
-        const parsed = parseAIResponse(rawMessage);
-        logger.debug('Parsed response (chunks):', { hasAssessment: !!parsed.assessment, messageLength: parsed.commitMessage.length });
+      const safetyAnalysis = await gitManager.analyzeStagedFilesSafety();
+      if (safetyAnalysis.riskLevel === 'dangerous') {
+        contextualLogger.warn('Staged changes look dangerous, no draft generated');
+        return false;
+      }
 
-        spinner.update('Polishing the message');
+      const rawDiff = await gitManager.getStagedDiff({
+        maxChunkSize: CHUNK_LIMITS.MAX_CHUNK_SIZE,
+        preserveContext: true,
+        maxConcurrency: CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS,
+      });
+      const diff = await this.selectRelevantChanges(rawDiff, options, contextualLogger);
+      if (diff.files.length === 0) {
+        return false;
+      }
+
+      // Never send staged secrets to the API, even without anyone watching
+      let warnings: SecretFinding[] = [];
+      if (options.secretScan !== false) {
+        const scanResult = await secretScanner.scanStagedChanges(rawDiff);
+        warnings = scanResult.warnings;
+        if (scanResult.criticalSecrets.length > 0) {
+          contextualLogger.warn(
+            `${scanResult.criticalSecrets.length} critical secret(s) staged (${SCAN_ENGINE_NAMES[scanResult.engine]}), no draft generated`
+          );
+          return false;
+        }
+      }
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      apiManager.initializeProvider(provider, this.config);
+
+      const { commitMessage } = await this.generateCommitMessage(this.redactDiff(diff, warnings), options, provider);
+      if (!commitMessage.trim()) {
+        return false;
+      }
+
+      await fs.writeFile(messageFile, `${commitMessage}\n${existing}`, 'utf-8');
+      return true;
+    } catch (error) {
+      contextualLogger.warn(
+        `Could not generate a commit message (${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Stage hunks of the working tree interactively. The unstaged hunks are
+   * grouped by the intent the model infers (or by file), the user picks some
+   * and only those are applied to the index; then the normal commit flow
+   * runs. The working tree is never touched.
+   */
+  async stageChanges(options: CliOptions): Promise<void> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
+
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
+
+    try {
+      if (!(await gitManager.isGitRepository())) {
+        throw new GitError('Not in a git repository');
+      }
+
+      const splitter = new CommitSplitter(await gitManager.getUnstagedPatch());
+      if (splitter.fileCount === 0) {
+        contextualLogger.warn('No unstaged changes to stage');
+        return;
+      }
+      contextualLogger.info(`Found ${splitter.fileCount} changed files (${splitter.units.length} hunks)`);
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      let groups: SplitCommit[] | null = null;
+
+      if (options.group !== false) {
+        try {
+          if (!(await configManager.validateConfig(provider))) {
+            throw new ConfigError(`API key not configured for ${provider}`);
+          }
+          apiManager.initializeProvider(provider, this.config);
+          groups = await this.planSplit(splitter, options, provider, undefined, 'unstaged');
+        } catch (error) {
+          contextualLogger.warn(`Could not group changes by intent (${(error as Error).message}); listing them by file`);
+        }
+      }
+
+      const selected = await this.pickHunks(splitter, groups ?? this.groupByFile(splitter));
+      if (!selected) {
+        console.log(chalk.yellow('\n✖ Staging cancelled by user'));
+        return;
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.blue('\n📝 Would stage (dry run):'));
+        splitter.summarize(selected).forEach(line => console.log(chalk.gray(`   ${line}`)));
+        return;
+      }
+
+      await gitManager.applyPatchToIndex(splitter.buildPatch(selected));
+      console.log(chalk.green('\n✓ Staged:'));
+      splitter.summarize(selected).forEach(line => console.log(chalk.gray(`   ${line}`)));
+
+      if (options.commit === false) {
+        return;
+      }
+
+      // The intents the user picked are a good hint for the message
+      const chosen = new Set(selected);
+      const intents = (groups ?? [])
+        .filter(group => group.units.some(unit => chosen.has(unit)))
+        .map(group => group.message.split('\n')[0]);
+      const context = options.context ?? (intents.length > 0 ? `Intent of the staged changes: ${intents.join('; ')}` : undefined);
+
+      console.log('');
+      await this.generateCommit({ ...options, context });
+    } catch (error) {
+      if (error instanceof ConfigError || error instanceof GitError || error instanceof ApiError) {
+        contextualLogger.error(error.message, error);
+      } else {
+        contextualLogger.error(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Let the user pick hunks, grouped as given. Returns the selected units in
+   * patch order, or null when the user cancels.
+   */
+  private async pickHunks(splitter: CommitSplitter, groups: SplitCommit[]): Promise<string[] | null> {
+    const options: Record<string, { value: string; label: string }[]> = {};
+    groups.forEach((group, index) => {
+      options[`${index + 1}. ${group.message.split('\n')[0]}`] = group.units.map(unit => ({
+        value: unit,
+        label: splitter.describeUnit(unit),
+      }));
+    });
+
+    const picked = await groupMultiselect({
+      message: 'Select the changes to stage (space to toggle, enter to confirm)',
+      options,
+      required: true,
+    });
+
+    if (isCancel(picked)) {
+      return null;
+    }
+
+    const chosen = new Set(picked);
+    return splitter.units.filter(unit => chosen.has(unit));
+  }
+
+  /**
+   * One group per file, for when no intent grouping is available
+   */
+  private groupByFile(splitter: CommitSplitter): SplitCommit[] {
+    const groups = new Map<string, string[]>();
+    for (const unit of splitter.units) {
+      const path = unit.replace(/#\d+$/, '');
+      groups.set(path, [...(groups.get(path) ?? []), unit]);
+    }
+    return [...groups].map(([path, units]) => ({ message: path, units }));
+  }
+
+  /**
+   * Split the staged changes into several atomic commits. The model groups
+   * files and hunks into a plan, the user reviews it, and each group is then
+   * restaged into the index and committed in order. The working tree is never
+   * touched; if any step fails the commits made so far are undone and the
+   * index is restored to exactly what was staged.
+   */
+  async splitCommit(options: CliOptions): Promise<void> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
+
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
+
+    try {
+      await this.validateEnvironment(options);
+
+      const analyzeProgress = contextualLogger.startProgress('Analyzing changes');
+
+      // A large commit is exactly what splitting is for, so only dangerous
+      // staging (dependency directories, thousands of files) still stops here
+      const safetyAnalysis = await gitManager.analyzeStagedFilesSafety();
+      if (safetyAnalysis.riskLevel === 'dangerous') {
+        await this.handleSafetyCheck(safetyAnalysis, options, contextualLogger, analyzeProgress);
+      }
+
+      const splitter = new CommitSplitter(await gitManager.getStagedPatch());
+      if (splitter.fileCount === 0) {
+        analyzeProgress.fail('No staged changes found');
+        return;
+      }
+      analyzeProgress.update(`Found ${splitter.fileCount} staged files (${splitter.units.length} hunks)`);
+
+      const secrets = await this.scanForSecrets(splitter.fileCount, options, contextualLogger, analyzeProgress);
+      // Warnings leave the progress running while the user confirms
+      analyzeProgress.stop();
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      apiManager.initializeProvider(provider, this.config);
+
+      let commits: SplitCommit[] | null = await this.planSplit(splitter, options, provider, undefined, 'staged', secrets);
+
+      if (options.dryRun) {
+        console.log(chalk.blue('\n📝 Split plan (dry run):'));
+        this.printSplitPlan(commits, splitter);
+        return;
+      }
+
+      if (!options.yes && !this.config.preferences.autoConfirm) {
+        commits = await this.reviewSplitPlan(commits, splitter, options, provider, secrets);
+        if (!commits) {
+          console.log(chalk.yellow('\n✖ Split cancelled by user'));
+          return;
+        }
+      }
+
+      await this.createSplitCommits(commits, splitter, this.commitOptions(options));
+
+      for (const commit of commits) {
+        console.log(chalk.gray('💬 ') + chalk.white(commit.message.split('\n')[0]));
+      }
+
+      if (options.autoPush || options.push) {
+        await this.performPush(contextualLogger);
+      }
+    } catch (error) {
+      if (error instanceof ConfigError || error instanceof GitError || error instanceof ApiError) {
+        contextualLogger.error(error.message, error);
+      } else {
+        contextualLogger.error(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the model to group the staged (or, for `orc stage`, unstaged) hunks
+   * into commits, then resolve the answer against the real patch and lint
+   * every message. `secrets` are the scanner's findings for the staged
+   * change, when the scan ran.
+   */
+  private async planSplit(
+    splitter: CommitSplitter,
+    options: CliOptions,
+    provider: string,
+    userFeedback?: string,
+    changes: 'staged' | 'unstaged' = 'staged',
+    secrets?: readonly SecretFinding[] | null
+  ): Promise<SplitCommit[]> {
+    const spinner = createAIThinkingSpinner(
+      changes === 'unstaged' ? 'Grouping changes by intent' : userFeedback ? 'Replanning commits' : 'Planning commits'
+    );
+    spinner.start();
+
+    try {
+      // Every path is aliased before any line, so that mentions of other
+      // files are aliased too (see PrivacyMask.maskDiff)
+      const privacy = this.createPrivacyMask();
+      splitter.paths.forEach(path => privacy.maskPath(path));
+
+      const tickets = await this.getTicketReference();
+      const systemPrompt = this.createSplitPrompt(options, userFeedback && privacy.maskText(userFeedback), changes, tickets);
+      const model = this.getModel(provider);
+      const availableTokens =
+        tokenManager.getOptimalChunkSize(model) - tokenManager.estimateSystemTokens(systemPrompt, model);
+
+      // Hunks are redacted and masked like any other diff before they go into the prompt
+      const redactor = new Redactor(this.config!.preferences.redaction);
+      const view: DescribeView = {
+        path: path => privacy.maskPath(path),
+        header: (header, path) => privacy.maskText(redactor.redactLine(header, path)),
+        lines: (lines, path) =>
+          redactor
+            .redactLines(lines, path, (secrets ?? []).filter(finding => finding.file === path))
+            .map(line => ({ ...line, content: privacy.maskText(line.content) })),
+      };
+
+      // The plan needs every hunk in one request: shrink the previews until it fits
+      let diffContent: string | null = null;
+      for (const lineLimit of SPLIT_PREVIEW_LINES) {
+        const content = this.withPrivacyNote(
+          this.withRedactionNote(wrapDiffContent(splitter.describe(lineLimit, changes, view))),
+          privacy
+        );
+        if (tokenManager.countTokens(content, model) <= availableTokens) {
+          diffContent = content;
+          break;
+        }
+      }
+      if (!diffContent) {
+        throw new GitError(`Too many ${changes} changes to plan in one request. ${changes === 'staged' ? 'Stage fewer files and split them in batches.' : 'Stage some files with git add first.'}`);
+      }
+
+      if (Object.keys(redactor.summary).length > 0) {
+        logger.debug('Redacted values from the prompt', redactor.summary);
+      }
+
+      const planContent = diffContent;
+      const { result } = await this.withFailover(provider, options, (target, targetModel) =>
+        apiManager.generateCompletion({
+          provider: target,
+          model: targetModel,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: planContent },
+          ],
+          // One message per commit needs more room than a single commit
+          maxTokens: Math.max(this.config!.preferences.maxTokens, SPLIT_MIN_TOKENS),
+          temperature: this.config!.preferences.temperature,
+          responseFormat: SPLIT_RESPONSE_FORMAT,
+        }, target),
+        spinner
+      );
+
+      if (!result.success || !result.data) {
+        throw new ApiError(result.error?.message || 'Failed to plan the split');
+      }
+
+      logger.debug('Raw split plan:', { length: result.data.length, preview: result.data.substring(0, 200) });
+      const plan = parseSplitPlan(result.data);
+      const commits = splitter.resolvePlan({
+        commits: plan.commits.map(entry => ({
+          commitMessage: entry.commitMessage && privacy.unmask(entry.commitMessage),
+          files: entry.files?.map(ref => ({ ...ref, path: ref.path && privacy.unmask(ref.path) })),
+        })),
+      });
+
+      const rules = await this.getCommitRules();
+      const trailers = await this.getTrailers(options);
+      for (const commit of commits) {
+        const message = this.cleanCommitMessage(commit.message, trailers, tickets);
+        const lint = lintCommitMessage(message, this.withTicketRoom(rules, message, tickets));
+        commit.message = addTrailers(applyTicketReference(lint.message, tickets), trailers);
+        this.reportLintResult(lint.fixed, lint.violations);
+      }
+
+      spinner.succeed(
+        changes === 'unstaged'
+          ? `Found ${commits.length} intent${commits.length === 1 ? '' : 's'}`
+          : `Planned ${commits.length} commit${commits.length === 1 ? '' : 's'}`
+      );
+      return commits;
+    } catch (error) {
+      spinner.fail(changes === 'unstaged' ? 'Failed to group the changes' : 'Failed to plan the split');
+      throw error;
+    }
+  }
+
+  /**
+   * System prompt for the split plan, sharing the format rules of a normal commit
+   */
+  private createSplitPrompt(
+    options: CliOptions,
+    userFeedback?: string,
+    changes: 'staged' | 'unstaged' = 'staged',
+    tickets?: TicketReference | null
+  ): string {
+    const { commitFormat: format, language } = this.config!.preferences;
+    const sections: string[] = [];
+
+    const task = changes === 'unstaged'
+      ? 'grouping the uncommitted changes of a working tree by intent, so the developer can pick which ones to stage and commit next'
+      : 'splitting one large staged change into a series of small, atomic commits';
+
+    sections.push(wrapInstructions(`You are a senior software engineer ${task}.
+
+The [DIFF_CONTENT] block lists every ${changes} file. Each hunk is labelled [path#N]; files without hunks (binary, mode-only) are labelled [path].
+
+HOW TO GROUP:
+- Put hunks that serve the same logical change (one feature, one fix, one refactor) in the same commit.
+- Keep tests and docs with the code they cover.
+- Order commits so each one builds on the earlier ones: shared groundwork (types, helpers, config) first.
+- Every hunk must appear in exactly one commit. Use an empty hunks list to take a whole file.
+- If everything is one logical change, return a single commit. Do not split for the sake of it.`));
+
+    sections.push(wrapRules(`- Each commitMessage describes ONLY the hunks in its own commit
+- Write in ${language === 'en' ? 'English' : language}
+- Follow ${format === 'conventional' ? 'Conventional Commits format strictly' : 'simple descriptive format'}${this.createFormatRules(options, { tickets })}`));
+
+    if (options.context) {
+      sections.push(wrapContext(options.context));
+    }
+
+    if (userFeedback) {
+      sections.push(wrapUserFeedback(userFeedback));
+    }
+
+    sections.push(wrapInBlock('RESPONSE_SCHEMA', `{
+  "commits": [
+    {
+      "commitMessage": "${format === 'conventional' ? 'type(scope): description' : 'Descriptive message'} for this group only",
+      "files": [
+        { "path": "src/example.ts", "hunks": [1, 3] },
+        { "path": "docs/example.md", "hunks": [] }
+      ]
+    }
+  ]
+}`, false));
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Show the plan and let the user edit messages, move hunks between commits
+   * or replan with feedback. Returns null when the user cancels.
+   */
+  private async reviewSplitPlan(
+    commits: SplitCommit[],
+    splitter: CommitSplitter,
+    options: CliOptions,
+    provider: string,
+    secrets?: readonly SecretFinding[] | null
+  ): Promise<SplitCommit[] | null> {
+    let plan = commits;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      this.printSplitPlan(plan, splitter);
+
+      const action = await select({
+        message: 'What next?',
+        options: [
+          { value: 'commit', label: `Create ${plan.length} commit${plan.length === 1 ? '' : 's'}` },
+          { value: 'edit', label: 'Edit a commit message' },
+          { value: 'move', label: 'Move changes to another commit' },
+          { value: 'replan', label: 'Replan with feedback' },
+          { value: 'cancel', label: 'Cancel' },
+        ],
+      });
+
+      if (isCancel(action) || action === 'cancel') {
+        return null;
+      }
+
+      if (action === 'commit') {
+        return plan;
+      }
+
+      if (action === 'replan') {
+        const feedback = await text({
+          message: 'How should the changes be grouped?',
+          placeholder: 'e.g., "Keep the migration and the model change together"',
+        });
+        if (!isCancel(feedback) && feedback.trim()) {
+          plan = await this.planSplit(splitter, options, provider, feedback, 'staged', secrets);
+        }
+        continue;
+      }
+
+      const index = await this.pickSplitCommit(plan, action === 'edit' ? 'Edit which commit?' : 'Move changes from which commit?');
+      const commit = index === null ? undefined : plan[index];
+      if (!commit) {
+        continue;
+      }
+
+      if (action === 'edit') {
+        // Prompts are single-line, so only the subject is edited; the body stays
+        const [subject = '', ...body] = commit.message.split('\n');
+        const edited = await text({ message: 'Commit subject', initialValue: subject });
+        if (!isCancel(edited) && edited.trim()) {
+          commit.message = [edited.trim(), ...body].join('\n');
+        }
+        continue;
+      }
+
+      const units = await multiselect({
+        message: 'Changes to move',
+        options: commit.units.map(unit => ({ value: unit, label: splitter.describeUnit(unit) })),
+        required: false,
+      });
+      if (isCancel(units) || units.length === 0) {
+        continue;
+      }
+
+      const target = await select({
+        message: 'Move to',
+        options: [
+          ...plan
+            .map((other, otherIndex) => ({ value: otherIndex, label: `${otherIndex + 1}. ${other.message.split('\n')[0]}` }))
+            .filter(option => option.value !== index),
+          { value: -1, label: 'A new commit' },
+        ],
+      });
+      if (isCancel(target)) {
+        continue;
+      }
+
+      let destination = plan[target];
+      if (!destination) {
+        const message = await text({ message: 'Message for the new commit' });
+        if (isCancel(message) || !message.trim()) {
+          continue;
+        }
+        destination = { message: message.trim(), units: [] };
+        plan = [...plan, destination];
+      }
+
+      const moved = new Set(units);
+      commit.units = commit.units.filter(unit => !moved.has(unit));
+      destination.units = splitter.units.filter(unit => moved.has(unit) || destination!.units.includes(unit));
+      plan = plan.filter(entry => entry.units.length > 0);
+    }
+  }
+
+  /**
+   * Pick a commit of the plan by number, or null when cancelled
+   */
+  private async pickSplitCommit(plan: SplitCommit[], message: string): Promise<number | null> {
+    if (plan.length === 1) {
+      return 0;
+    }
+
+    const picked = await select({
+      message,
+      options: plan.map((commit, index) => ({ value: index, label: `${index + 1}. ${commit.message.split('\n')[0]}` })),
+    });
+    return isCancel(picked) ? null : picked;
+  }
+
+  /**
+   * Print the numbered commits of a split plan with the changes in each
+   */
+  private printSplitPlan(commits: SplitCommit[], splitter: CommitSplitter): void {
+    console.log(chalk.gray('——————————————————'));
+    commits.forEach((commit, index) => {
+      console.log(chalk.cyan(`${index + 1}/${commits.length} `) + chalk.white(commit.message));
+      for (const line of splitter.summarize(commit.units)) {
+        console.log(chalk.gray(`   ${line}`));
+      }
+      console.log('');
+    });
+    console.log(chalk.gray('——————————————————\n'));
+  }
+
+  /**
+   * Create the planned commits one after another. Each group is staged from a
+   * clean index; the last commit takes the original index tree itself, so the
+   * final result matches what was staged exactly. Any failure rolls back.
+   */
+  private async createSplitCommits(
+    commits: SplitCommit[],
+    splitter: CommitSplitter,
+    commitOptions: CommitOptions
+  ): Promise<void> {
+    const head = await gitManager.getHeadCommit();
+    const stagedTree = await gitManager.writeIndexTree();
+
+    const spinner = createProcessingSpinner(`Creating ${commits.length} commit${commits.length === 1 ? '' : 's'}`);
+    spinner.start();
+
+    try {
+      await gitManager.readTreeIntoIndex();
+
+      for (const [index, commit] of commits.entries()) {
+        spinner.update(`Creating commit ${index + 1}/${commits.length}`);
+
+        if (index === commits.length - 1) {
+          await gitManager.readTreeIntoIndex(stagedTree);
+        } else {
+          await gitManager.applyPatchToIndex(splitter.buildPatch(commit.units));
+        }
+
+        await gitManager.createCommit(commit.message, commitOptions);
+      }
+
+      spinner.succeed(`Created ${commits.length} commit${commits.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      spinner.fail('Split failed, restoring the index');
+
+      try {
+        await gitManager.restoreIndex(head, stagedTree);
+        logger.info('Index restored; your staged changes are as they were');
+      } catch (restoreError) {
+        logger.error(
+          `Could not restore the index. Recover it with: git reset --soft ${head ?? 'HEAD'} && git read-tree ${stagedTree}`,
+          restoreError as Error
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate new messages for existing commits and rewrite them in place.
+   * Each commit's own diff goes through the normal filtering and prompt
+   * pipeline; old and new messages are shown side by side before history is
+   * rewritten. Commits that are already pushed are refused.
+   */
+  async reword(range: string, options: CliOptions): Promise<void> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
+
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
+
+    try {
+      if (!(await gitManager.isGitRepository())) {
+        throw new GitError('Not in a git repository');
+      }
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      if (!(await configManager.validateConfig(provider))) {
+        throw new ConfigError(
+          `API key not configured for ${provider}. Use 'orc config set ${provider} <api-key>' to set it.`
+        );
+      }
+
+      const commits = await gitManager.getCommitRange(range);
+      if (commits.length === 0) {
+        contextualLogger.warn(`No commits in ${range}`);
+        return;
+      }
+
+      const merge = commits.find(commit => commit.parents.length > 1);
+      if (merge) {
+        throw new GitError(`Cannot reword merge commit ${merge.hash.slice(0, 7)} (${merge.subject})`);
+      }
+
+      const pushed: string[] = [];
+      for (const commit of commits) {
+        if (await gitManager.isCommitPushed(commit.hash)) {
+          pushed.push(`${commit.hash.slice(0, 7)} ${commit.subject}`);
+        }
+      }
+      if (pushed.length > 0) {
+        console.log(chalk.yellow('\nAlready pushed, rewriting them would diverge from the remote:'));
+        pushed.forEach(line => console.log(chalk.gray(`  ${line}`)));
+        throw new GitError('Refusing to reword pushed commits. Narrow the range to unpushed commits.');
+      }
+
+      apiManager.initializeProvider(provider, this.config);
+
+      const rewrites = new Map<string, string>();
+      const width = Math.min(process.stdout.columns || 100, 140);
+
+      for (const [index, commit] of commits.entries()) {
+        const label = `${commit.hash.slice(0, 7)} (${index + 1}/${commits.length})`;
+        const rawDiff = await gitManager.getCommitDiff(commit.hash, {
+          maxChunkSize: CHUNK_LIMITS.MAX_CHUNK_SIZE,
+          preserveContext: true,
+          maxConcurrency: CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS,
+        });
+        const diff = await this.selectRelevantChanges(rawDiff, options, contextualLogger);
+
+        if (diff.files.length === 0) {
+          contextualLogger.warn(`${label}: no relevant changes, keeping its message`);
+          continue;
+        }
+
+        const oldMessage = await gitManager.getCommitMessage(commit.hash);
+        const generated = await this.generateCommitMessage(this.redactDiff(diff), options, provider);
+        // Sign-offs and co-authors of the old message stay with the commit
+        const commitMessage = addTrailers(generated.commitMessage, splitTrailers(oldMessage).trailers);
+
+        console.log(chalk.cyan(`\n${label}`));
+        console.log(chalk.gray(formatSideBySide('Old', 'New', width)[0]));
+        for (const row of formatSideBySide(oldMessage, commitMessage, width)) {
+          console.log(row);
+        }
+
+        if (commitMessage.trim() && commitMessage.trim() !== oldMessage) {
+          rewrites.set(commit.hash, commitMessage);
+        }
+      }
+
+      console.log('');
+
+      if (rewrites.size === 0) {
+        contextualLogger.info('No messages to change');
+        return;
+      }
+
+      if (options.dryRun) {
+        contextualLogger.info(`Dry run: ${rewrites.size} commit(s) would be reworded`);
+        return;
+      }
+
+      if (!options.yes && !this.config.preferences.autoConfirm) {
+        const proceed = await confirm({
+          message: `Rewrite ${rewrites.size} commit message${rewrites.size === 1 ? '' : 's'}?`,
+          initialValue: true,
+        });
+        if (isCancel(proceed) || !proceed) {
+          console.log(chalk.yellow('\n✖ Reword cancelled by user'));
+          return;
+        }
+      }
+
+      const previousHead = await gitManager.getHeadCommit();
+      const rewordSpinner = createProcessingSpinner('Rewriting history');
+      rewordSpinner.start();
+
+      try {
+        const newHead = await gitManager.rewordCommits(rewrites, { sign: options.gpgSign });
+        rewordSpinner.succeed(`Reworded ${rewrites.size} commit${rewrites.size === 1 ? '' : 's'}`);
+        contextualLogger.info(`HEAD is now ${newHead.slice(0, 7)} (was ${previousHead?.slice(0, 7)}, see git reflog to undo)`);
+      } catch (error) {
+        rewordSpinner.fail('Reword failed, history left unchanged');
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof ConfigError || error instanceof GitError || error instanceof ApiError) {
+        contextualLogger.error(error.message, error);
+      } else {
+        contextualLogger.error(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Draft a pull request title and Markdown body from everything the current
+   * branch committed since it forked from the target branch. The branch's
+   * commit subjects go along as context, and a template in the repository
+   * replaces the default Summary / Changes / Testing sections.
+   */
+  async generatePullRequest(options: CliOptions): Promise<PullRequestDraft> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
+
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
+
+    try {
+      if (!(await gitManager.isGitRepository())) {
+        throw new GitError('Not in a git repository');
+      }
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      if (!(await configManager.validateConfig(provider))) {
+        throw new ConfigError(
+          `API key not configured for ${provider}. Use 'orc config set ${provider} <api-key>' to set it.`
+        );
+      }
+
+      const target = options.base || (await gitManager.getDefaultBranch());
+      if (!target) {
+        throw new GitError('Could not determine the target branch. Pass it with --base <branch>.');
+      }
+
+      const analyzeProgress = contextualLogger.startProgress(`Comparing with ${target}`);
+      const base = await gitManager.getMergeBase(target);
+
+      if (base === (await gitManager.getHeadCommit())) {
+        analyzeProgress.fail(`No commits since ${target}`);
+        throw new GitError(`The current branch has no commits that are not on ${target}`);
+      }
+
+      const rawDiff = await gitManager.getBranchDiff(base, {
+        maxChunkSize: CHUNK_LIMITS.MAX_CHUNK_SIZE,
+        preserveContext: true,
+        maxConcurrency: CHUNK_LIMITS.MAX_CONCURRENT_REQUESTS,
+      });
+
+      if (rawDiff.files.length === 0) {
+        analyzeProgress.fail('No changes found');
+        throw new GitError(`The commits since ${target} do not change any files`);
+      }
+
+      // git log lists newest first; the story reads better oldest first
+      const subjects = (await gitManager.getCommitHistory(PR_MAX_COMMITS, `${base}..HEAD`)).reverse();
+      analyzeProgress.succeed(`Found ${subjects.length} commits changing ${rawDiff.files.length} files`);
+
+      const filterProgress = contextualLogger.startProgress('Processing and filtering changes');
+      const diff = await this.selectRelevantChanges(rawDiff, options, contextualLogger, filterProgress);
+
+      if (diff.files.length === 0) {
+        filterProgress.fail('No relevant changes found');
+        throw new GitError('All changes were filtered out. Try adjusting filter settings.');
+      }
+      filterProgress.succeed(`Ready to analyze ${diff.files.length} files`);
+
+      const template = await this.loadPullRequestTemplate(options);
+      if (template) {
+        contextualLogger.debug(`Using pull request template ${template.path}`);
+      }
+
+      apiManager.initializeProvider(provider, this.config);
+
+      const branch = await gitManager.getCurrentBranch();
+      const gitContext = wrapGitContext(`Branch: ${branch || 'HEAD'} (into ${target})
+
+Commits on this branch, oldest first (the author's intent; the diff is the source of truth):
+${subjects.map((line, i) => `${i + 1}. ${line}`).join('\n')}`);
+
+      return await this.draftPullRequest(diff, gitContext, options, provider, template?.content);
+    } catch (error) {
+      if (error instanceof ConfigError || error instanceof GitError || error instanceof ApiError) {
+        contextualLogger.error(error.message, error);
+      } else {
+        contextualLogger.error(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the model for the pull request. A diff too large for one request is
+   * described chunk by chunk, then the partial drafts are merged in a final
+   * request.
+   */
+  private async draftPullRequest(
+    diff: GitDiff,
+    gitContext: string,
+    options: CliOptions,
+    provider: string,
+    template?: string
+  ): Promise<PullRequestDraft> {
+    const spinner = createAIThinkingSpinner('Writing pull request');
+    spinner.start();
+
+    try {
+      const systemPrompt = this.createPullRequestPrompt(options, template);
+      const model = this.getModel(provider);
+      const maxTokens = Math.max(this.config!.preferences.maxTokens, PR_MIN_TOKENS);
+      const temperature = this.config!.preferences.temperature;
+
+      const privacy = this.createPrivacyMask();
+      const maskedDiff = privacy.maskDiff(this.redactDiff(diff));
+      const diffContent = `${privacy.maskText(gitContext)}\n\n${this.withPrivacyNote(this.withRedactionNote(wrapDiffContent(this.prepareDiffContent(maskedDiff))), privacy)}`;
+      const optimalChunkSize = tokenManager.getOptimalChunkSize(model);
+      const systemTokens = tokenManager.estimateSystemTokens(systemPrompt, model);
+
+      let userContent = diffContent;
+
+      if (tokenManager.countTokens(diffContent, model) > optimalChunkSize - systemTokens) {
+        spinner.update('Processing large diff in chunks');
+
+        const chunks = tokenManager.splitIntoTokenChunks(diffContent, {
+          model,
+          maxTokens: optimalChunkSize,
+          reservedTokens: systemTokens,
+        });
+
+        const { result: partials } = await this.withFailover(provider, options, (target, targetModel) =>
+          apiManager.processChunks(chunks, {
+            provider: target,
+            model: targetModel,
+            maxTokens,
+            temperature,
+            systemPrompt,
+            responseFormat: PR_RESPONSE_FORMAT,
+          }, target),
+          spinner
+        );
+
+        if (!partials.success || !partials.data) {
+          throw new ApiError(partials.error?.message || 'Failed to process chunks');
+        }
+
+        spinner.update('Merging partial descriptions');
+        const drafts = partials.data.map((raw, i) => {
+          const draft = parsePullRequestResponse(raw);
+          return `Part ${i + 1} of ${partials.data!.length}\nTitle: ${draft.title}\n\n${draft.body}`;
+        });
+        userContent = `${privacy.maskText(gitContext)}\n\n${wrapInBlock('PARTIAL_DESCRIPTIONS', drafts.join('\n\n---\n\n'), false)}
+
+Each part above describes one slice of the same diff. Merge them into ONE pull request: a single title for the whole change, and one body with the requested sections, without repeating items.`;
+      }
+
+      const { result } = await this.withFailover(provider, options, (target, targetModel) =>
+        apiManager.generateCompletion({
+          provider: target,
+          model: targetModel,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userContent },
+          ],
+          maxTokens,
+          temperature,
+          responseFormat: PR_RESPONSE_FORMAT,
+        }, target),
+        spinner
+      );
+
+      if (!result.success || !result.data) {
+        throw new ApiError(result.error?.message || 'Failed to generate the pull request');
+      }
+
+      logger.debug('Raw pull request response:', { length: result.data.length, preview: result.data.substring(0, 200) });
+      const draft = parsePullRequestResponse(result.data);
+      if (!draft.title) {
+        throw new ApiError('AI returned a pull request without a title');
+      }
+
+      spinner.succeed('Pull request drafted');
+      return {
+        title: stripPlaceholders(privacy.unmask(draft.title.split('\n')[0]!)).trim(),
+        body: stripPlaceholders(privacy.unmask(draft.body.replace(/\r\n/g, '\n'))).replace(/\n{3,}/g, '\n\n').trim(),
+      };
+    } catch (error) {
+      spinner.fail('Failed to draft the pull request');
+      throw error;
+    }
+  }
+
+  /**
+   * System prompt for `orc pr`: the default sections, or the repository's
+   * template when there is one
+   */
+  private createPullRequestPrompt(options: CliOptions, template?: string): string {
+    const { commitFormat: format, language } = this.config!.preferences;
+    const sections: string[] = [];
+
+    sections.push(wrapInstructions(`You are a senior software engineer writing a pull request for your reviewers.
+
+Describe ONLY the changes in the [DIFF_CONTENT] block: everything the branch changed since it forked from the target branch. The commit subjects in [GIT_CONTEXT] tell you what the author meant to do; when they disagree with the diff, the diff wins.
+
+- Ground every statement in a file or line from the diff. Never invent changes, motivation or test results.
+- Write for a reviewer who has not seen the branch: what changed, why, and what to look at.
+- Use the real file paths, function names and symbols from the diff.`));
+
+    let rules = `- Title: one line under 72 characters, in the imperative mood
+- Title format: ${format === 'conventional' ? 'type(scope): description, following Conventional Commits' : 'a plain descriptive sentence'}
+- Body: GitHub-flavored Markdown
+- Write in ${language === 'en' ? 'English' : language}`;
+
+    if (template) {
+      rules += `
+- Fill in the [PR_TEMPLATE] below: keep its headings and their order, replace its placeholder text and drop its HTML comments
+- Leave checklist boxes unchecked unless the diff proves the item`;
+    } else {
+      rules += `
+- Body sections, in this order:
+  ## Summary: 1-3 sentences on what the change does and why
+  ## Changes: bullet list of the concrete changes, grouped by area
+  ## Testing: the tests the diff adds or changes; if it has none, concrete steps a reviewer can take to verify the change. Never claim tests were run.`;
+    }
+
+    sections.push(wrapRules(rules));
+
+    if (template) {
+      sections.push(wrapInBlock('PR_TEMPLATE', template, false));
+    }
+
+    if (options.context) {
+      sections.push(wrapContext(options.context));
+    }
+
+    sections.push(wrapInBlock('RESPONSE_SCHEMA', `{
+  "title": "${format === 'conventional' ? 'type(scope): description' : 'Descriptive title'}",
+  "body": "Markdown description"
+}`, false));
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Find the pull request template: --template, then the `prTemplate`
+   * preference, then the usual locations in the repository
+   */
+  private async loadPullRequestTemplate(options: CliOptions): Promise<{ path: string; content: string } | null> {
+    const root = await gitManager.getRepositoryRoot();
+    const explicit = options.template || this.config!.preferences.prTemplate;
+
+    for (const candidate of explicit ? [explicit] : PR_TEMPLATE_PATHS) {
+      const path = options.template ? candidate : join(root, candidate);
+      try {
+        const content = (await fs.readFile(path, 'utf8')).trim();
+        if (content) {
+          return { path, content };
+        }
+      } catch (error) {
+        if (explicit) {
+          throw new ConfigError(`Cannot read pull request template ${candidate}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the changelog section for a range of Conventional Commits, by
+   * default everything since the latest tag. Logs the suggested next version;
+   * with --ai-summary a highlights paragraph is written by the model.
+   */
+  async generateChangelog(options: CliOptions): Promise<string> {
+    if (!this.config) {
+      throw new ConfigError('Core orchestrator not initialized');
+    }
+
+    const contextualLogger = logger.withOptions({
+      verbose: options.verbose || false,
+      silent: false,
+    });
+
+    try {
+      if (!(await gitManager.isGitRepository())) {
+        throw new GitError('Not in a git repository');
+      }
+
+      const to = options.to || 'HEAD';
+      const toIsTag = await gitManager.isTag(to);
+      // For a tag, describe the release it closes rather than an empty range
+      const from = options.from ?? (await gitManager.getLatestTag(toIsTag ? `${to}^` : to));
+
+      const commits = await gitManager.getCommitLog(from ? `${from}..${to}` : to);
+      const builder = new ChangelogBuilder(commits);
+
+      contextualLogger.info(
+        `${commits.length} commits since ${from ?? 'the first commit'}: ` +
+          `${builder.entries.length} listed, ${builder.skipped} housekeeping left out`
+      );
+
+      const suggestion = builder.suggestVersion(from);
+      if (suggestion) {
+        const features = builder.entries.filter(entry => entry.type === 'feat').length;
+        const fixes = builder.entries.filter(entry => entry.type === 'fix').length;
+        contextualLogger.info(
+          `Suggested next version: ${suggestion} (${builder.bump}: ${builder.breaking.length} breaking, ` +
+            `${features} features, ${fixes} fixes)`
+        );
+      }
+
+      const version = options.release || (toIsTag ? to : 'Unreleased');
+      const date = toIsTag
+        ? await gitManager.getCommitDate(to)
+        : options.release
+          ? new Date().toISOString().slice(0, 10)
+          : undefined;
+
+      if (!options.aiSummary || builder.entries.length === 0) {
+        return builder.render(version, date);
+      }
+
+      const provider = options.provider || this.config.preferences.defaultProvider;
+      if (!(await configManager.validateConfig(provider))) {
+        throw new ConfigError(
+          `API key not configured for ${provider}. Use 'orc config set ${provider} <api-key>' to set it.`
+        );
+      }
+      apiManager.initializeProvider(provider, this.config);
+
+      const highlights = await this.summarizeChangelog(builder.render(version, date), options, provider);
+      return builder.render(version, date, highlights);
+    } catch (error) {
+      if (error instanceof ConfigError || error instanceof GitError || error instanceof ApiError) {
+        contextualLogger.error(error.message, error);
+      } else {
+        contextualLogger.error(
+          `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the model for a short highlights paragraph for release notes
+   */
+  private async summarizeChangelog(changelog: string, options: CliOptions, provider: string): Promise<string> {
+    const spinner = createAIThinkingSpinner('Writing release highlights');
+    spinner.start();
+
+    try {
+      const language = this.config!.preferences.language;
+      const sections = [
+        wrapInstructions(`You are a release manager writing the highlights of a release for its users.
+
+Summarize the [CHANGELOG] below in ONE short paragraph of 2-4 sentences: the most important additions, fixes and breaking changes, in plain language.
+- Mention only changes listed in the changelog. Never invent features or numbers.
+- No headings, lists, commit hashes or Markdown links.
+- Write in ${language === 'en' ? 'English' : language}.
+- Return the paragraph only.`),
+      ];
+
+      if (options.context) {
+        sections.push(wrapContext(options.context));
+      }
+
+      const { result } = await this.withFailover(provider, options, (target, targetModel) =>
+        apiManager.generateCompletion({
+          provider: target,
+          model: targetModel,
+          messages: [
+            { role: 'system', content: sections.join('\n\n') },
+            { role: 'user', content: wrapInBlock('CHANGELOG', changelog, false) },
+          ],
+          maxTokens: this.config!.preferences.maxTokens,
+          temperature: this.config!.preferences.temperature,
+        }, target),
+        spinner
+      );
+
+      if (!result.success || !result.data) {
+        throw new ApiError(result.error?.message || 'Failed to summarize the changelog');
+      }
+
+      const highlights = result.data
+        .trim()
+        .replace(/^```(?:\w+)?\n([\s\S]*?)\n```$/, '$1')
+        .replace(/^(?:#+\s*)?highlights:?\s*/i, '')
+        .trim();
+
+      spinner.succeed('Release highlights written');
+      return highlights;
+    } catch (error) {
+      spinner.fail('Failed to write release highlights');
+      throw error;
+    }
+  }
+
+  /**
+   * Reduce a raw staged diff to the files worth sending to the model: quick
+   * junk filter, AI relevance selection for medium-sized commits, traditional
+   * relevancy filtering otherwise, then the --max-files cap.
+   */
+  private async selectRelevantChanges(
+    rawDiff: GitDiff,
+    options: CliOptions,
+    contextualLogger: typeof logger,
+    progress?: ProgressIndicator
+  ): Promise<GitDiff> {
+    // Step 1: Quick filter to remove obvious junk
+    let diff = diffFilter.quickFilter(rawDiff);
+    progress?.update(`Quick filter: ${diff.files.length} files remaining`);
+
+    // Step 2: AI file selection for medium-sized commits (20-150 files)
+    if (this.shouldUseAISelection(diff.files.length)) {
+      progress?.update('AI analyzing file relevance...');
+
+      const fileSelector = new AIFileSelector(this.config!);
+      const maxFiles = options.maxFiles || 30;
+
+      try {
+        const selectedFiles = await fileSelector.selectRelevantFiles(diff.files, maxFiles);
+        diff = {
+          ...diff,
+          files: selectedFiles,
+          totalLines: selectedFiles.reduce((sum, file) =>
+            sum + file.chunks.reduce((chunkSum, chunk) => chunkSum + chunk.lines.length, 0), 0
+          ),
+          totalSize: selectedFiles.reduce((sum, file) =>
+            sum + JSON.stringify(file).length, 0
+          ),
+        };
+        progress?.update(`AI selected ${diff.files.length} most relevant files`);
+      } catch (error) {
+        contextualLogger.warn('AI file selection failed, using standard filtering');
+        // Fall through to standard filtering
+      }
+    }
+
+    // Step 3: Apply traditional filtering (for small commits or if AI selection was skipped)
+    if (!this.shouldUseAISelection(rawDiff.files.length)) {
+      diff = diffFilter.filterDiff(diff, {
+        ignoreGenerated: options.ignoreGenerated,
+        ignoreWhitespace: options.ignoreWhitespace,
+        maxFileSize: 1024 * 1024, // 1MB
+        relevancyThreshold: 0.05, // Lowered from 0.1 to reduce false filtering
+      });
+    }
+
+    // Limit files if requested
+    if (options.maxFiles && diff.files.length > options.maxFiles) {
+      diff = {
+        ...diff,
+        files: diff.files.slice(0, options.maxFiles)
+      };
+      contextualLogger.info(`Limited analysis to ${options.maxFiles} most relevant files`);
+    }
+
+    return diff;
+  }
+
+  /**
+   * Scan the staged changes for secrets: critical findings block the commit,
+   * warnings need confirmation unless --yes is set
+   */
+  private async scanForSecrets(
+    fileCount: number,
+    options: CliOptions,
+    contextualLogger: typeof logger,
+    progress: ProgressIndicator,
+    stagedDiff?: GitDiff
+  ): Promise<SecretFinding[] | null> {
+    if (options.secretScan !== false) {
+      progress.update(`Scanning for secrets with ${SCAN_ENGINE_NAMES[secretScanner.getEngine()]}`);
+
+      try {
+        const scanResult = await secretScanner.scanStagedChanges(stagedDiff);
+
+        if (scanResult.criticalSecrets.length > 0) {
+          progress.fail(`Secrets detected (${scanResult.criticalSecrets.length} critical)`);
+
+          console.log(chalk.red('\n🚨 BLOCKED: Secrets detected in staged files!'));
+          console.log(chalk.gray(`Scanned with ${SCAN_ENGINE_NAMES[scanResult.engine]}\n`));
+          console.log(chalk.yellow('Critical secrets found:\n'));
+
+          // Group by file
+          const secretsByFile = new Map<string, typeof scanResult.criticalSecrets>();
+          scanResult.criticalSecrets.forEach(secret => {
+            if (!secretsByFile.has(secret.file)) {
+              secretsByFile.set(secret.file, []);
+            }
+            secretsByFile.get(secret.file)!.push(secret);
+          });
+
+          // Display grouped by file
+          secretsByFile.forEach((secrets, file) => {
+            console.log(chalk.yellow(`  ${file}:`));
+            secrets.forEach(secret => {
+              console.log(chalk.gray(`    Line ${secret.line}:${secret.column}`));
+              console.log(chalk.gray(`    ${secret.message}`));
+              if (secret.data) {
+                console.log(chalk.gray(`    Found: ${secret.data}`));
+              }
+              console.log(chalk.gray(`    Rule: ${secret.ruleId}`));
+              console.log(chalk.gray(`    Fingerprint: ${secret.fingerprint}\n`));
+            });
+          });
+
+          console.log(chalk.gray('To fix this issue:'));
+          console.log(chalk.gray('  1. Remove secrets from code'));
+          console.log(chalk.gray('  2. Use environment variables instead'));
+          console.log(chalk.gray('  3. Add affected files to .gitignore'));
+          console.log(chalk.gray('  4. Create .gitleaksignore file to suppress false positives'));
+          console.log(chalk.gray('  5. Or skip secret scan: orc commit --no-secret-scan (not recommended!)\n'));
+
+          throw new GitError('Commit blocked: Critical secrets detected');
+        }
+
+        // Show warnings if any
+        if (scanResult.warnings.length > 0) {
+          contextualLogger.warn(`Found ${scanResult.warnings.length} potential secrets (${SCAN_ENGINE_NAMES[scanResult.engine]} warnings)`);
+
+          if (!options.yes && options.json) {
+            throw new GitError('Commit stopped: potential secrets detected, add --yes to continue');
+          }
+
+          if (!options.yes) {
+            console.log(chalk.yellow('\n⚠️  Warning: Potential secrets detected\n'));
+
+            scanResult.warnings.slice(0, 3).forEach(secret => {
+              console.log(chalk.yellow(`  ${secret.file}:${secret.line}`));
+              console.log(chalk.gray(`  ${secret.message}\n`));
+            });
+
+            if (scanResult.warnings.length > 3) {
+              console.log(chalk.gray(`  ... and ${scanResult.warnings.length - 3} more\n`));
+            }
+
+            const proceed = await confirm({
+              message: 'Continue with commit?',
+              initialValue: false
+            });
+
+            if (isCancel(proceed) || !proceed) {
+              throw new GitError('Commit cancelled: User declined due to secret warnings');
+            }
+          }
+        } else {
+          progress.succeed(
+            `Ready to analyze ${fileCount} files (no secrets detected by ${SCAN_ENGINE_NAMES[scanResult.engine]})`
+          );
+        }
+
+        return scanResult.warnings.map(({ file, line, column, ruleId, severity, message }) => ({
+          file, line, column, ruleId, severity, message,
+        }));
+    } catch (error) {
+      if (error instanceof GitError) {
+        throw error; // Re-throw blocking errors
+      }
+      // If secret scanning fails, log but don't block commit
+      contextualLogger.warn(`Secret scanning failed: ${(error as Error).message}`);
+      progress.succeed(`Ready to analyze ${fileCount} files (scan skipped)`);
+      return null;
+    }
+  } else {
+    // Secret scanning disabled by --no-secret-scan flag
+    contextualLogger.warn('Secret scanning disabled by --no-secret-scan flag');
+    progress.succeed(`Ready to analyze ${fileCount} files (secret scan disabled)`);
+    return null;
+  }
+  }
+
+  /**
+   * Generate commit message from diff with optional user feedback
+   */
+  private async generateCommitMessage(
+    diff: GitDiff,
+    options: CliOptions,
+    provider: string,
+    userFeedback?: string,
+    repairAttempt = 0
+  ): Promise<{ commitMessage: string; assessment: string | null; provider: string; model: string }> {
+    const spinner = createAIThinkingSpinner(
+      userFeedback ? 'Regenerating commit' : 'Generating commit'
+    );
+    spinner.start();
+
+    try {
+      // Prepare diff content for processing; in privacy mode paths (and
+      // identifiers) are aliased here and mapped back in the answer
+      const privacy = this.createPrivacyMask();
+      const rawDiffContent = this.prepareDiffContent(privacy.maskDiff(diff));
+      let diffContent = this.withPrivacyNote(this.withRedactionNote(wrapDiffContent(rawDiffContent)), privacy); // Wrap in DIFF_CONTENT block
+
+      // Create system prompt (with optional user feedback for regeneration)
+      const inferredScope = await this.inferScope(diff, options);
+      const tickets = await this.getTicketReference();
+      const trailers = await this.getTrailers(options);
+      const systemPrompt = this.createSystemPrompt(options, userFeedback && privacy.maskText(userFeedback), {
+        styleGuide: privacy.maskText(await this.getStyleGuide()),
+        scope: inferredScope && { ...inferredScope, scope: privacy.maskText(inferredScope.scope) },
+        tickets,
+      });
+
+      if (userFeedback) {
+        logger.debug('Regenerating with user feedback', { feedbackLength: userFeedback.length });
+      }
+
+      // Add git context for better understanding (history + branch)
+      const gitContext = privacy.maskText(await gitManager.getGitContextForAI(5));
+      if (gitContext) {
+        diffContent = gitContext + '\n\n' + diffContent;
+        logger.debug('Added git context to prompt', { contextLength: gitContext.length });
+      }
+
+      const model = this.getModel(provider);
+
+      // Repository-scoped cache key prevents cross-project collisions
+      const cacheScope = await gitManager.getCacheScope();
+
+      // Check cache first (unless disabled or regenerating with feedback)
+      if (!options.noCache && !userFeedback) {
+        const cachedMessage = await cacheManager.get(
+          rawDiffContent, // Use raw (but redacted) content for cache key
+          model,
+          provider,
+          this.config!.preferences.temperature,
+          cacheScope
+        );
+
+        if (cachedMessage) {
+          await usageLedger.record({ provider, model, latencyMs: 0, cached: true });
+          spinner.succeed('Retrieved from cache');
+          return {
+            commitMessage: addTrailers(applyTicketReference(privacy.unmask(cachedMessage), tickets), trailers),
+            assessment: null, // Cached messages don't have assessment
+            provider,
+            model
+          };
+        }
+      }
+      
+      // Get optimal chunk size for the model
+      const optimalChunkSize = tokenManager.getOptimalChunkSize(model);
+      const systemTokens = tokenManager.estimateSystemTokens(systemPrompt, model);
+      const availableTokens = optimalChunkSize - systemTokens;
+      
+      // Check if we need to chunk the content based on tokens
+      const contentTokens = tokenManager.countTokens(diffContent, model);
+      
+      if (contentTokens <= availableTokens) {
+        // Single request
+        const stream = this.shouldStream(options);
+        const request: Omit<ApiRequest, 'provider' | 'model'> = {
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: diffContent },
+          ],
+          maxTokens: this.config!.preferences.maxTokens,
+          temperature: this.config!.preferences.temperature,
+          responseFormat: COMMIT_RESPONSE_FORMAT,
+          stream,
+        };
+
+        // Render the message as it streams in, instead of the thinking animation
+        const onToken = stream
+          ? (_delta: string, text: string) => {
+              const preview = extractStreamingCommitMessage(text);
+              if (preview) {
+                spinner.setPreview(privacy.unmask(preview));
+              }
+            }
+          : undefined;
+
+        const { result, provider: usedProvider, model: usedModel } = await this.withFailover(
+          provider,
+          options,
+          (target, targetModel) =>
+            apiManager.generateCommitMessage({ ...request, provider: target, model: targetModel }, target, onToken),
+          spinner
+        );
+
+        if (!result.success || !result.data) {
+          throw new ApiError(result.error?.message || 'Failed to generate commit message');
+        }
+
+        const rawMessage = result.data;
+
+        // Parse JSON response (with fallback to plain text)
+        logger.debug('Raw AI response:', { length: rawMessage.length, preview: rawMessage.substring(0, 200) });
+        const parsed = parseAIResponse(rawMessage);
+        logger.debug('Parsed response:', { hasAssessment: !!parsed.assessment, messageLength: parsed.commitMessage.length });
+
+        spinner.update('Polishing the message');
+
+        // Clean the commit message locally — no second LLM round-trip needed.
+        // The model already returns the message inside structured JSON; we just
+        // strip artifacts (prefixes, quotes, code fences) deterministically.
+        const cleaned = this.cleanCommitMessage(privacy.unmask(parsed.commitMessage), trailers, tickets);
+        const lint = lintCommitMessage(cleaned, this.withTicketRoom(await this.getCommitRules(), cleaned, tickets));
+        const finalMessage = lint.message;
+
+        if (!lint.valid && repairAttempt < MAX_RULE_REPAIRS) {
+          spinner.warn('Message breaks commit rules, regenerating');
+          return this.generateCommitMessage(
+            diff, options, provider,
+            this.mergeFeedback(userFeedback, formatLintFeedback(finalMessage, lint.violations)),
+            repairAttempt + 1
+          );
+        }
+        this.reportLintResult(lint.fixed, lint.violations);
+
+        // Cache the finalized result (skip if regenerating with feedback)
+        if (!options.noCache && !userFeedback) {
+          await cacheManager.set(
+            rawDiffContent, // Use raw (but redacted) content for cache key
+            model,
+            provider,
+            this.config!.preferences.temperature,
+            privacy.maskText(finalMessage), // Stored masked, like its key
+            cacheScope
+          );
+        }
+
+        spinner.succeed(this.generatedBy('Commit message generated', usedProvider));
+        return {
+          commitMessage: addTrailers(applyTicketReference(finalMessage, tickets), trailers),
+          assessment: parsed.assessment && privacy.unmask(parsed.assessment),
+          provider: usedProvider,
+          model: usedModel
+        };
+
+      } else {
+        // Map-reduce: summarize every chunk, merge the summaries until they
+        // fit one request, then write the message from them
+        spinner.update('Processing large diff in chunks');
+
+        const chunks = tokenManager.splitIntoTokenChunks(diffContent, {
+          model,
+          maxTokens: optimalChunkSize,
+          reservedTokens: systemTokens,
+        });
+
+        const summaries = await this.summarizeChunks(chunks, provider, systemTokens, options, spinner);
+
+        spinner.update('Writing the message from the partial summaries');
+        const synthesisContent = `${gitContext ? `${gitContext}\n\n` : ''}${wrapInBlock('PARTIAL_SUMMARIES', renderSummaries(summaries), false)}
+
+The diff was too large for one request, so each part above summarizes one slice of it. Write ONE commit message for the whole change: choose the type and scope that fit the change as a whole, lead with its main purpose, and cover the other parts in the body without repeating items.`;
+
+        const { result, provider: usedProvider, model: usedModel } = await this.withFailover(
+          provider,
+          options,
+          (target, targetModel) =>
+            apiManager.generateCommitMessage({
+              provider: target,
+              model: targetModel,
+              messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: synthesisContent },
+              ],
+              maxTokens: this.config!.preferences.maxTokens,
+              temperature: this.config!.preferences.temperature,
+              responseFormat: COMMIT_RESPONSE_FORMAT,
+            }, target),
+          spinner
+        );
+
+        if (!result.success || !result.data) {
+          throw new ApiError(result.error?.message || 'Failed to generate commit message');
+        }
+
+        const rawMessage = result.data;
+
+        // Parse JSON response (with fallback to plain text)
+        logger.debug('Raw AI response (chunks):', { length: rawMessage.length, preview: rawMessage.substring(0, 200) });
+        const parsed = parseAIResponse(rawMessage);
+        logger.debug('Parsed response (chunks):', { hasAssessment: !!parsed.assessment, messageLength: parsed.commitMessage.length });
+
+        spinner.update('Polishing the message');
+
+        // Clean and lint locally (see single-request path above)
+        const cleaned = this.cleanCommitMessage(privacy.unmask(parsed.commitMessage), trailers, tickets);
+        const lint = lintCommitMessage(cleaned, this.withTicketRoom(await this.getCommitRules(), cleaned, tickets));
+        const finalMessage = lint.message;
+
+        if (!lint.valid && repairAttempt < MAX_RULE_REPAIRS) {
+          spinner.warn('Message breaks commit rules, regenerating');
+          return this.generateCommitMessage(
+            diff, options, provider,
+            this.mergeFeedback(userFeedback, formatLintFeedback(finalMessage, lint.violations)),
+            repairAttempt + 1
+          );
+        }
+        this.reportLintResult(lint.fixed, lint.violations);
 
-        // Clean locally (see single-request path above) — no extra LLM call.
-        const finalMessage = this.cleanCommitMessage(parsed.commitMessage);
+        // Cache like the single request: a large diff is the costliest to redo
+        if (!options.noCache && !userFeedback) {
+          await cacheManager.set(
+            rawDiffContent,
+            model,
+            provider,
+            this.config!.preferences.temperature,
+            privacy.maskText(finalMessage),
+            cacheScope
+          );
+        }
 
-        spinner.succeed('Commit message generated');
+        spinner.succeed(this.generatedBy('Commit message generated', usedProvider));
         return {
-          commitMessage: finalMessage,
-          assessment: parsed.assessment
+          commitMessage: addTrailers(applyTicketReference(finalMessage, tickets), trailers),
+          assessment: parsed.assessment && privacy.unmask(parsed.assessment),
+          provider: usedProvider,
+          model: usedModel
         };
       }
 
@@ -543,9 +2150,10 @@ export class CoreOrchestrator {
   }
 
   /**
-   * Create system prompt based on options and preferences
+   * Create system prompt based on options, preferences and the repository's
+   * conventions
    */
-  private createSystemPrompt(options: CliOptions, userFeedback?: string): string {
+  private createSystemPrompt(options: CliOptions, userFeedback?: string, conventions: PromptConventions = {}): string {
     // Use custom prompt from CLI option first, then from config, then default
     if (options.prompt) {
       return options.prompt;
@@ -597,49 +2205,18 @@ THINK STEP BY STEP (about THIS diff, not commits in general):
 4. Which secondary changes are actually present?
 5. What is the smallest accurate description of all of the above?`;
 
-    // Add formatting constraints to rules
-    if (options.oneLine) {
-      rules += `\n- Generate a single-line commit message only`;
-    } else {
-      rules += `\n- Keep subject line under 72 characters\n- Add body if needed for complex changes`;
-    }
-
-    if (options.descriptionLength) {
-      rules += `\n- Limit description to ${options.descriptionLength} characters`;
-    }
-
-    // Add max commit length constraint from config
-    const maxLength = this.config!.preferences.maxCommitLength;
-    if (maxLength && maxLength > 0) {
-      rules += `\n- ⚠️ CRITICAL LENGTH LIMIT: Total message (subject + body + footer) MUST be ${maxLength} characters or less. This is MANDATORY.`;
-    }
-
-    if (options.emoji) {
-      rules += `\n- Include appropriate emoji at the start of the commit message`;
-    }
-
-    if (format === 'conventional') {
-      rules += `\n\nConventional Commits format:\n<type>[optional scope]: <description>\n\nTypes: feat, fix, docs, style, refactor, test, chore, perf, ci, build, revert`;
-
-      if (options.emoji) {
-        rules += `\n\nEmoji mapping:\n- feat: ✨\n- fix: 🐛\n- docs: 📝\n- style: 💄\n- refactor: ♻️\n- test: ✅\n- chore: 🔧\n- perf: ⚡\n- ci: 👷\n- build: 📦\n- revert: ⏪`;
-      }
-    }
-
-    if (options.type) {
-      rules += `\n\nRequired type: ${options.type}`;
-    }
+    rules += this.createFormatRules(options, conventions);
 
-    if (options.scope) {
-      rules += `\nRequired scope: ${options.scope}`;
-    }
+    sections.push(wrapRules(rules));
 
-    if (options.breaking) {
-      rules += `\n\n⚠️ CRITICAL: This is a BREAKING CHANGE - MUST include "BREAKING CHANGE:" in the commit message footer with explanation.`;
+    const { styleGuide } = conventions;
+    if (styleGuide) {
+      sections.push(wrapInBlock(
+        'REPOSITORY_STYLE',
+        `Commits in this repository follow these conventions; match them. Where they differ from the RULES above, the RULES win.\n${styleGuide}`
+      ));
     }
 
-    sections.push(wrapRules(rules));
-
     // Add context if provided
     if (options.context) {
       sections.push(wrapContext(options.context));
@@ -681,6 +2258,89 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
     return sections.join('\n\n');
   }
 
+  /**
+   * Format constraints shared by every generation prompt: length, emoji,
+   * Conventional Commits types and scopes, and the user's required type,
+   * scope and breaking flag. An inferred scope applies when the user did
+   * not give one.
+   */
+  private createFormatRules(options: CliOptions, conventions: PromptConventions = {}): string {
+    const { scope: inferredScope, tickets } = conventions;
+    let rules = '';
+
+    if (options.oneLine) {
+      rules += `\n- Generate a single-line commit message only`;
+    } else {
+      rules += `\n- Keep subject line under 72 characters\n- Add body if needed for complex changes`;
+    }
+
+    if (options.descriptionLength) {
+      rules += `\n- Limit description to ${options.descriptionLength} characters`;
+    }
+
+    // Add max commit length constraint from config
+    const maxLength = this.config!.preferences.maxCommitLength;
+    if (maxLength && maxLength > 0) {
+      rules += `\n- ⚠️ CRITICAL LENGTH LIMIT: Total message (subject + body + footer) MUST be ${maxLength} characters or less. This is MANDATORY.`;
+    }
+
+    if (options.emoji) {
+      rules += `\n- Include appropriate emoji at the start of the commit message`;
+    }
+
+    const format = this.config!.preferences.commitFormat;
+    const { types: allowedTypes, scopes: allowedScopes } = this.config!.preferences;
+
+    if (format === 'conventional') {
+      const types = allowedTypes?.length
+        ? allowedTypes.join(', ')
+        : 'feat, fix, docs, style, refactor, test, chore, perf, ci, build, revert';
+      rules += `\n\nConventional Commits format:\n<type>[optional scope]: <description>\n\nTypes: ${types}`;
+
+      if (allowedTypes?.length) {
+        rules += `\n- Use ONLY the types listed above`;
+      }
+
+      if (allowedScopes?.length && !options.scope && !inferredScope?.required) {
+        rules += `\n\nAllowed scopes: ${allowedScopes.join(', ')}\n- Use one of these scopes when it fits the change, otherwise omit the scope. Never invent a scope.`;
+      }
+
+      if (options.emoji) {
+        rules += `\n\nEmoji mapping:\n- feat: ✨\n- fix: 🐛\n- docs: 📝\n- style: 💄\n- refactor: ♻️\n- test: ✅\n- chore: 🔧\n- perf: ⚡\n- ci: 👷\n- build: 📦\n- revert: ⏪`;
+      }
+    }
+
+    if (options.type) {
+      rules += `\n\nRequired type: ${options.type}`;
+    }
+
+    if (options.scope) {
+      rules += `\nRequired scope: ${options.scope}`;
+    } else if (inferredScope && format === 'conventional') {
+      const packages = inferredScope.scope.includes(',') ? 'packages' : 'package';
+      rules += inferredScope.required
+        ? `\nRequired scope: ${inferredScope.scope} (the workspace ${packages} all changed files belong to)`
+        : `\nSuggested scope: ${inferredScope.scope} (the workspace ${packages} of the changed files; some belong to none); use it unless another scope describes the change better`;
+    }
+
+    if (tickets) {
+      rules += `\n${ticketPromptRule(tickets)}`;
+    }
+
+    const trailerKeys = new Set<string>(IDENTITY_TRAILER_KEYS);
+    for (const spec of this.config!.preferences.trailers ?? []) {
+      trailerKeys.add(parseTrailer(spec)?.key ?? spec);
+    }
+    const keys = [...trailerKeys];
+    rules += `\n- Never write ${keys.slice(0, -1).join(', ')} or ${keys.at(-1)} trailers: they are added when committing`;
+
+    if (options.breaking) {
+      rules += `\n\n⚠️ CRITICAL: This is a BREAKING CHANGE - MUST include "BREAKING CHANGE:" in the commit message footer with explanation.`;
+    }
+
+    return rules;
+  }
+
   /**
    * Clean up a commit message locally (no LLM round-trip).
    *
@@ -689,8 +2349,16 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
    * whitespace and line endings, and enforce the configured max length. This
    * replaces the old "Stage 2" finalization LLM call, removing ~half the token
    * cost and latency plus a failure point, with identical end results.
+   *
+   * `trailers` are the ones added after cleaning (see getTrailers): identity
+   * trailers the model wrote are dropped in their favour, and the length
+   * limit leaves room for them and for the ticket reference.
    */
-  private cleanCommitMessage(rawMessage: string): string {
+  private cleanCommitMessage(
+    rawMessage: string,
+    trailers: readonly Trailer[] = [],
+    tickets: TicketReference | null = null
+  ): string {
     let message = (rawMessage || '').replace(/\r\n/g, '\n').trim();
 
     // Strip surrounding markdown code fences (```...``` or ```lang ... ```)
@@ -716,28 +2384,264 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
     // Remove wrapping quotes around the whole message
     message = message.replace(/^"([\s\S]+)"$/, '$1').replace(/^'([\s\S]+)'$/, '$1');
 
+    // Redacted values must never reach the commit, not even as placeholders
+    message = stripPlaceholders(message);
+
     // Collapse excessive blank lines, trim trailing spaces per line
     message = message
       .replace(/[ \t]+\n/g, '\n')
       .replace(/\n{3,}/g, '\n\n')
       .trim();
 
-    // Enforce configured max length as a final safety net
+    // Sign-offs and co-authors come from the committer, never from the model
+    message = removeTrailers(message, IDENTITY_TRAILER_KEYS);
+
+    // Enforce configured max length as a final safety net. Trailers and the
+    // ticket reference are kept whole: only the subject and body are cut, to
+    // the room they leave
     const maxLength = this.config!.preferences.maxCommitLength;
-    if (maxLength && maxLength > 0 && message.length > maxLength) {
-      const lines = message.split('\n');
-      const subject = lines[0] || '';
-      if (subject.length > maxLength) {
-        message = subject.substring(0, maxLength - 3) + '...';
+    const ticketLength = applyTicketReference(message, tickets).length - message.length;
+    const reserved = (trailers.length > 0 ? joinTrailers('', trailers).length : 0) + ticketLength;
+    if (maxLength && maxLength > 0 && message.length + reserved > maxLength) {
+      const { body, trailers: footer } = splitTrailers(message);
+      const subject = body.split('\n')[0] || '';
+      const room = maxLength - reserved - (message.length - body.length);
+      const subjectRoom = maxLength - (tickets?.placement === 'prefix' ? ticketLength : 0);
+      let text: string;
+      if (subject.length > subjectRoom) {
+        text = subject.substring(0, subjectRoom - 3) + '...';
+      } else if (body.length <= room) {
+        text = body;
+      } else if (room - 3 <= subject.length) {
+        text = subject;
       } else {
-        message = message.substring(0, maxLength - 3) + '...';
+        text = body.substring(0, room - 3) + '...';
       }
+      message = joinTrailers(text, footer);
       logger.debug(`Commit message trimmed to ${maxLength} chars`);
     }
 
     return message;
   }
 
+  /**
+   * The commit rules with the header limits shortened by the ticket reference
+   * applyTicketReference will still put in front of the subject
+   */
+  private withTicketRoom(rules: CommitLintRules, message: string, tickets: TicketReference | null): CommitLintRules {
+    if (tickets?.placement !== 'prefix') {
+      return rules;
+    }
+
+    const subject = message.split('\n')[0] ?? '';
+    const room = applyTicketReference(subject, tickets).length - subject.length;
+    if (room === 0) {
+      return rules;
+    }
+
+    const shortened: Record<string, RuleConfig> = { ...rules };
+    for (const name of ['header-max-length', 'subject-max-length']) {
+      const [severity, condition, value] = rules[name] ?? [0];
+      if (typeof value === 'number') {
+        shortened[name] = [severity, condition, Math.max(value - room, 0)];
+      }
+    }
+    return shortened;
+  }
+
+  /**
+   * Commit rules for this repository: its commitlint config when it has one,
+   * otherwise the defaults derived from the commit format preferences
+   */
+  private async getCommitRules(): Promise<CommitLintRules> {
+    if (this.commitRules) {
+      return this.commitRules;
+    }
+
+    const preferences = this.config!.preferences;
+    let root: string;
+    try {
+      root = await gitManager.getRepositoryRoot();
+    } catch {
+      root = process.cwd();
+    }
+
+    const commitlint = await loadCommitLintRules(root, preferences);
+    if (commitlint) {
+      logger.debug(`Using commit rules from ${commitlint.source}`);
+    }
+
+    this.commitRules = commitlint?.rules ?? getDefaultCommitRules(preferences);
+    return this.commitRules;
+  }
+
+  /**
+   * Scope of the changed files per the workspace layout (see ScopeResolver),
+   * when the format has scopes and the user did not pick one. Scopes outside
+   * the allowed list are dropped: the commit rules would reject them.
+   */
+  private async inferScope(diff: GitDiff, options: CliOptions): Promise<ScopeInference | null> {
+    const { commitFormat, scopeMap, scopes } = this.config!.preferences;
+    if (options.scope || commitFormat !== 'conventional') {
+      return null;
+    }
+
+    const inferred = await scopeResolver.resolve(diff.files.map(file => file.path), scopeMap);
+    if (!inferred || (scopes?.length && inferred.scope.split(',').some(scope => !scopes.includes(scope)))) {
+      return null;
+    }
+
+    logger.debug('Inferred scope from the workspace layout', inferred);
+    return inferred;
+  }
+
+  /**
+   * Tickets the current branch names, when ticket references are configured
+   */
+  private async getTicketReference(): Promise<TicketReference | null> {
+    const settings = this.config!.preferences.tickets;
+    if (!settings) {
+      return null;
+    }
+
+    let branch: string;
+    try {
+      branch = await gitManager.getCurrentBranch();
+    } catch (error) {
+      logger.debug('No branch to take ticket references from', error);
+      return null;
+    }
+
+    const reference = ticketReferenceFor(branch, settings);
+    if (reference) {
+      logger.debug('Ticket references from the branch', { branch, tickets: reference.ids });
+    }
+    return reference;
+  }
+
+  /**
+   * Trailers added to every generated message, in order: the configured
+   * defaults, a Co-authored-by per --co-author, and Signed-off-by for the
+   * committer (--signoff or the signoff preference), as `git commit -s` would
+   */
+  private async getTrailers(options: CliOptions): Promise<Trailer[]> {
+    const preferences = this.config!.preferences;
+    const trailers: Trailer[] = [];
+
+    for (const spec of preferences.trailers ?? []) {
+      const trailer = parseTrailer(spec);
+      if (!trailer) {
+        throw new ConfigError(`Invalid trailer in 'preferences.trailers': '${spec}' (expected 'Key: value')`);
+      }
+      trailers.push(trailer);
+    }
+
+    for (const alias of options.coAuthor ?? []) {
+      const author = await coAuthorRegistry.resolve(alias);
+      trailers.push({ key: 'Co-authored-by', value: formatIdentity(author) });
+    }
+
+    if (options.signoff ?? preferences.signoff) {
+      trailers.push({ key: 'Signed-off-by', value: formatIdentity(await gitManager.getCommitterIdentity()) });
+    }
+
+    return trailers;
+  }
+
+  /**
+   * How commits are created: signing, hooks and author overrides from the
+   * command line. Amending applies to the main commit flow only.
+   */
+  private commitOptions(options: CliOptions): CommitOptions {
+    return {
+      sign: options.gpgSign,
+      noVerify: options.verify === false,
+      author: options.author,
+      date: options.date,
+    };
+  }
+
+  /**
+   * Prompt rules learned from the repository's commit history, empty when
+   * the history is too short to learn from (see StyleProfiler)
+   */
+  private async getStyleGuide(): Promise<string> {
+    const profile = await styleProfiler.getProfile();
+    return profile ? styleRules(profile).map(rule => `- ${rule}`).join('\n') : '';
+  }
+
+  /**
+   * Log auto-fixed rules and any violations left after the repair attempts
+   */
+  private reportLintResult(fixed: string[], violations: LintViolation[]): void {
+    if (fixed.length > 0) {
+      logger.debug('Auto-fixed commit rules', { rules: fixed });
+    }
+
+    const errors = violations.filter(violation => violation.severity === 2);
+    if (errors.length > 0) {
+      logger.warn(`Commit message still breaks ${errors.length} rule(s): ${errors.map(e => e.rule).join(', ')}`);
+    } else if (violations.length > 0) {
+      logger.debug('Commit rule warnings', { violations });
+    }
+  }
+
+  /**
+   * Combine the user's regeneration feedback with rule-violation feedback
+   */
+  private mergeFeedback(userFeedback: string | undefined, feedback: string): string {
+    return userFeedback ? `${userFeedback}\n\n${feedback}` : feedback;
+  }
+
+  /**
+   * Redact a diff before it goes into a prompt (see Redactor). `secrets` are
+   * the scanner's findings for it, when the scan ran.
+   */
+  private redactDiff(diff: GitDiff, secrets?: readonly SecretFinding[] | null): GitDiff {
+    const redactor = new Redactor(this.config!.preferences.redaction);
+    const redacted = redactor.redactDiff(diff, secrets ?? []);
+
+    const summary = redactor.summary;
+    if (Object.keys(summary).length > 0) {
+      logger.debug('Redacted values from the prompt', summary);
+    }
+    return redacted;
+  }
+
+  /**
+   * Tell the model about redaction placeholders in the content, if any, so it
+   * describes those changes without quoting them
+   */
+  private withRedactionNote(content: string): string {
+    if (!content.match(PLACEHOLDER_PATTERN)) {
+      return content;
+    }
+    return `${content}
+
+Values shown as <REDACTED:kind#n> were removed before sending. The same placeholder means the same value. Never write a placeholder in your answer; describe the change instead (for example "rotate the Stripe key").`;
+  }
+
+  /**
+   * The privacy mask for one prompt, from `preferences.privacy`
+   */
+  private createPrivacyMask(): PrivacyMask {
+    const { privacy, privacyPatterns } = this.config!.preferences;
+    return new PrivacyMask(privacy ?? 'off', privacyPatterns ?? []);
+  }
+
+  /**
+   * Tell the model that the names it sees are aliases, so it uses them as
+   * they are instead of remarking on them
+   */
+  private withPrivacyNote(content: string, privacy: PrivacyMask): string {
+    if (!privacy.enabled) {
+      return content;
+    }
+    return `${content}
+
+Names like dir_1, file_2 and sym_3 are aliases of the real paths and identifiers. Use them exactly as written wherever you would name a file, directory, scope or symbol.`;
+  }
+
   /**
    * Prepare diff content for API consumption
    */
@@ -798,54 +2702,176 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
   }
 
   /**
-   * Split large diff content into manageable chunks
+   * Map and reduce steps for a diff too large for one request: summarize
+   * every chunk, then merge the partial summaries in batches, level by level,
+   * until they fit next to the commit prompt (`reservedTokens`)
    */
-  private splitDiffIntoChunks(content: string): string[] {
-    const chunks: string[] = [];
-    const lines = content.split('\n');
-    let currentChunk: string[] = [];
-    let currentSize = 0;
-
-    for (const line of lines) {
-      const lineSize = line.length + 1; // +1 for newline
-      
-      if (currentSize + lineSize > CHUNK_LIMITS.MAX_CHUNK_SIZE && currentChunk.length > 0) {
-        chunks.push(currentChunk.join('\n'));
-        currentChunk = [];
-        currentSize = 0;
+  private async summarizeChunks(
+    chunks: string[],
+    provider: string,
+    reservedTokens: number,
+    options: CliOptions,
+    spinner: AnimatedSpinner
+  ): Promise<ChunkSummary[]> {
+    const model = this.getModel(provider);
+    const available = tokenManager.getOptimalChunkSize(model) - reservedTokens;
+    const fits = (text: string): boolean => tokenManager.countTokens(text, model) <= available;
+
+    const summarize = async (inputs: string[], systemPrompt: string): Promise<ChunkSummary[]> => {
+      const { result } = await this.withFailover(provider, options, (target, targetModel) =>
+        apiManager.processChunks(inputs, {
+          provider: target,
+          model: targetModel,
+          maxTokens: this.config!.preferences.maxTokens,
+          temperature: this.config!.preferences.temperature,
+          systemPrompt,
+          responseFormat: CHUNK_SUMMARY_RESPONSE_FORMAT,
+        }, target),
+        spinner
+      );
+
+      if (!result.success || !result.data) {
+        throw new ApiError(result.error?.message || 'Failed to process chunks');
       }
-      
-      currentChunk.push(line);
-      currentSize += lineSize;
+      return result.data.map(parseChunkSummary);
+    };
+
+    let summaries = await summarize(chunks, this.createChunkSummaryPrompt(options, false));
+    logger.debug('Summarized diff chunks', { chunks: chunks.length, summaries: summaries.length });
+
+    while (summaries.length > 1 && !fits(renderSummaries(summaries))) {
+      const groups = groupSummaries(summaries, fits);
+      spinner.update(`Merging ${summaries.length} partial summaries`);
+      summaries = await summarize(
+        groups.map(group => wrapInBlock('PARTIAL_SUMMARIES', renderSummaries(group), false)),
+        this.createChunkSummaryPrompt(options, true)
+      );
+      logger.debug('Merged partial summaries', { groups: groups.length, summaries: summaries.length });
     }
 
-    if (currentChunk.length > 0) {
-      chunks.push(currentChunk.join('\n'));
+    return summaries;
+  }
+
+  /**
+   * System prompt for the map-reduce steps of a large diff: summarize one
+   * slice of it, or merge partial summaries of several slices into one
+   */
+  private createChunkSummaryPrompt(options: CliOptions, merging: boolean): string {
+    const task = merging
+      ? 'Merge the partial summaries in the [PARTIAL_SUMMARIES] block into ONE summary. Each part summarizes one slice of the same diff, which was too large for a single request.'
+      : 'Summarize the [DIFF_CONTENT] block. It is one slice of a diff that was too large for a single request; the other slices are summarized separately, and all summaries are merged into one commit message later.';
+
+    const { commitFormat, types, scopes } = this.config!.preferences;
+    const typeList = types?.length
+      ? types.join(', ')
+      : 'feat, fix, docs, style, refactor, test, chore, perf, ci, build, revert';
+
+    let rules = merging
+      ? `- files: every file listed in the parts
+- changes: every distinct change of the parts, most significant first; combine duplicates, drop nothing else`
+      : `- files: the path of every file changed in this slice
+- changes: one short line per concrete change, using the real names of files, functions and symbols`;
+
+    rules += commitFormat === 'conventional'
+      ? `
+- type: the commit type that fits ${merging ? 'the parts as a whole' : 'this slice'}, one of: ${typeList}; an empty string when unsure
+- scope: the scope that fits, ${scopes?.length ? `one of: ${scopes.join(', ')}, ` : ''}or an empty string for none`
+      : `
+- type and scope: empty strings`;
+
+    if (options.type) {
+      rules += `\n- The user requires type ${options.type}${options.scope ? ` and scope ${options.scope}` : ''}`;
     }
 
-    return chunks;
+    rules += `\n- Never invent changes that are not in the ${merging ? 'parts' : 'diff'}`;
+
+    return [
+      wrapInstructions(`You are a senior software engineer preparing a commit message for a large change.\n\n${task}`),
+      wrapRules(rules),
+    ].join('\n\n');
   }
 
   /**
-   * Combine results from multiple chunks into a single commit message
+   * Run an AI request against `provider`, failing over along
+   * `preferences.fallbackProviders` when it is down or rate-limited. Other
+   * failures (bad key, rejected request) are returned as they are: another
+   * provider would not fix them. Providers that failed within the last few
+   * minutes are tried last, and only when everything else failed too.
    */
-  private combineChunkResults(results: string[], options: CliOptions): string {
-    if (results.length === 1) {
-      return results[0]!;
+  private async withFailover<T>(
+    provider: string,
+    options: CliOptions,
+    attempt: (provider: string, model: string) => Promise<ProcessingResult<T>>,
+    spinner?: AnimatedSpinner
+  ): Promise<{ result: ProcessingResult<T>; provider: string; model: string }> {
+    const verboseLogger = logger.withOptions({ verbose: options.verbose || false, silent: false });
+    const fallbacks = (this.config!.preferences.fallbackProviders ?? []).map(parseFallbackEntry);
+
+    if (fallbacks.length === 0) {
+      const model = this.getModel(provider);
+      const result = await attempt(provider, model);
+      if (result.success) {
+        verboseLogger.debug(`Response generated by ${provider} (${model})`);
+      }
+      return { result, provider, model };
     }
 
-    // Find the most comprehensive result or combine them intelligently
-    const longestResult = results.reduce((longest, current) => 
-      current.length > longest.length ? current : longest
-    );
+    const chain: { provider: string; model: string }[] = [{ provider, model: this.getModel(provider) }];
+    for (const target of fallbacks) {
+      if (!this.config!.providers[target.provider]) {
+        verboseLogger.warn(`Fallback provider '${target.provider}' is not configured, skipping it`);
+        continue;
+      }
+
+      try {
+        const model = target.model ?? this.getModel(target.provider);
+        if (!chain.some(entry => entry.provider === target.provider && entry.model === model)) {
+          apiManager.initializeProvider(target.provider, this.config!);
+          chain.push({ provider: target.provider, model });
+        }
+      } catch (error) {
+        verboseLogger.warn(`Cannot fail over to '${target.provider}': ${(error as Error).message}`);
+      }
+    }
+
+    const open = await Promise.all(chain.map(target => circuitBreaker.isOpen(`${target.provider}:${target.model}`)));
+    const ordered = [...chain.filter((_, i) => !open[i]), ...chain.filter((_, i) => open[i])];
+
+    for (const [i, target] of ordered.entries()) {
+      const key = `${target.provider}:${target.model}`;
+      const next = ordered[i + 1];
+
+      if (open[chain.indexOf(target)]) {
+        verboseLogger.debug(`${target.provider} failed recently, trying it anyway`);
+      }
 
-    // If we have a type preference, ensure it's reflected
-    if (options.type && !longestResult.toLowerCase().includes(options.type)) {
-      const typePrefix = options.scope ? `${options.type}(${options.scope}):` : `${options.type}:`;
-      return `${typePrefix} ${longestResult.replace(/^[a-z]+(\([^)]+\))?\s*:\s*/i, '')}`;
+      const result = await attempt(target.provider, target.model);
+
+      if (result.success) {
+        await circuitBreaker.close(key);
+        verboseLogger.debug(`Response generated by ${target.provider} (${target.model})`);
+        return { result, provider: target.provider, model: target.model };
+      }
+
+      if (!next || !isFailoverError(result.error)) {
+        return { result, provider: target.provider, model: target.model };
+      }
+
+      await circuitBreaker.open(key, result.error?.message ?? 'unknown error');
+      verboseLogger.debug(`${target.provider} failed (${result.error?.message}), failing over to ${next.provider} (${next.model})`);
+      spinner?.update(`${target.provider} unavailable, trying ${next.provider}`);
     }
 
-    return longestResult;
+    // Unreachable: the chain always holds the requested provider
+    throw new ApiError(`No provider available for ${provider}`);
+  }
+
+  /**
+   * Spinner text naming the provider that answered, once a fallback chain
+   * makes that worth knowing
+   */
+  private generatedBy(text: string, provider: string): string {
+    return this.config!.preferences.fallbackProviders?.length ? `${text} by ${provider}` : text;
   }
 
   /**
@@ -990,6 +3016,28 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
     });
   }
 
+  /**
+   * Enforce `preferences.monthlyBudget` against this month's recorded spend:
+   * warn by default, or refuse to generate with `budgetAction: 'refuse'`
+   */
+  private async checkBudget(contextualLogger: typeof logger): Promise<void> {
+    const { monthlyBudget, budgetAction } = this.config!.preferences;
+    if (!monthlyBudget || monthlyBudget <= 0) {
+      return;
+    }
+
+    const spent = await monthToDateCost(this.config!);
+    if (spent < monthlyBudget) {
+      return;
+    }
+
+    const message = `Monthly budget of ${formatUsd(monthlyBudget)} reached: ${formatUsd(spent)} spent this month`;
+    if (budgetAction === 'refuse') {
+      throw new ConfigError(`${message}. Raise it with \`orc config budget <usd>\` or see \`orc usage\`.`);
+    }
+    contextualLogger.warn(`${message} (see \`orc usage\`)`);
+  }
+
   /**
    * Perform push operation with proper messaging
    */
@@ -1092,6 +3140,10 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
       if (options.yes) {
         return; // Silent proceed with --yes
       }
+
+      if (options.json) {
+        throw new GitError(`Large commit detected (${totalFiles} files), add --yes to continue`);
+      }
       
       // Stop progress before showing dialog
       if (progress) {
@@ -1139,6 +3191,15 @@ Never emit a generic, memorized message (e.g. "restructure X", "migrate from A t
     return options.push || false;
   }
 
+  /**
+   * Stream tokens only when someone is watching: a terminal, or a front end
+   * receiving progress reports. Piped output (hooks, CI) gets nothing from
+   * live rendering.
+   */
+  private shouldStream(options: CliOptions): boolean {
+    return options.stream !== false && (Boolean(process.stdout.isTTY) || getProgressReporter() !== null);
+  }
+
   /**
    * Determine if AI file selection should be used
    * Uses AI for medium-sized commits (20-150 files)
@@ -3,6 +3,8 @@ import { accessSync, constants as fsConstants } from 'fs';
 import { join, delimiter } from 'path';
 import { homedir } from 'os';
 import chalk from 'chalk';
+import { LocalServer } from '../types/index.js';
+import { isModelInstalled } from '../utils/index.js';
 
 /**
  * Self-diagnostics for the `orc` installation.
@@ -26,8 +28,22 @@ export interface DoctorReport {
   readonly hasProblems: boolean;
 }
 
+/** A configured local model server, with a way to ask it for its models */
+export interface LocalServerProbe {
+  readonly name: string;
+  readonly server: LocalServer;
+  readonly baseUrl: string;
+  readonly model?: string;
+  readonly listModels: () => Promise<string[]>;
+}
+
 const BIN_NAME = 'orc';
 
+const LOCAL_SERVER_START: Record<LocalServer, string> = {
+  ollama: 'ollama serve',
+  llamacpp: 'llama-server -m <model.gguf> --port 8080',
+};
+
 /** Run a command, returning trimmed stdout or null on any failure. */
 function safeExec(command: string): string | null {
   try {
@@ -60,7 +76,10 @@ function findBinariesOnPath(): string[] {
 }
 
 export class Doctor {
-  constructor(private readonly currentVersion: string) {}
+  constructor(
+    private readonly currentVersion: string,
+    private readonly localServers: LocalServerProbe[] = []
+  ) {}
 
   async run(): Promise<DoctorReport> {
     const checks: DoctorCheck[] = [];
@@ -181,6 +200,11 @@ export class Doctor {
       });
     }
 
+    // 5. Configured local model servers answer and have the model
+    for (const local of this.localServers) {
+      checks.push(await this.checkLocalServer(local));
+    }
+
     const hasProblems = checks.some(c => c.status === 'error' || c.status === 'warn');
     return { checks, hasProblems };
   }
@@ -217,6 +241,47 @@ export class Doctor {
     }
   }
 
+  private async checkLocalServer(local: LocalServerProbe): Promise<DoctorCheck> {
+    const name = `local provider ${local.name}`;
+
+    let models: string[];
+    try {
+      models = await local.listModels();
+    } catch (error) {
+      return {
+        name,
+        status: 'error',
+        detail: `${local.server} is not reachable at ${local.baseUrl} (${(error as Error).message}).`,
+        fix: `Start the server: ${LOCAL_SERVER_START[local.server]}`,
+      };
+    }
+
+    if (!local.model) {
+      return {
+        name,
+        status: 'warn',
+        detail: `Reachable at ${local.baseUrl}, ${models.length} models installed, but none selected.`,
+        fix: `orc config model ${local.name}`,
+      };
+    }
+
+    // llama.cpp serves whatever model it was started with, whatever its name
+    if (local.server === 'ollama' && !isModelInstalled(models, local.model)) {
+      return {
+        name,
+        status: 'warn',
+        detail: `Reachable at ${local.baseUrl}, but model ${local.model} is not installed.`,
+        fix: `ollama pull ${local.model}\nor pick an installed one: orc config model ${local.name}`,
+      };
+    }
+
+    return {
+      name,
+      status: 'ok',
+      detail: `Reachable at ${local.baseUrl} (${local.model})`,
+    };
+  }
+
   private isNewer(latest: string, current: string): boolean {
     const a = latest.replace(/^v/, '').split('.').map(Number);
     const b = current.replace(/^v/, '').split('.').map(Number);
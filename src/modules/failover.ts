@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { BaseError } from '../types/index.js';
+import { logger } from './logger.js';
+
+/** A provider to try, optionally pinned to a model other than its default */
+export interface ProviderTarget {
+  readonly provider: string;
+  readonly model?: string;
+}
+
+interface BreakerEntry {
+  until: number; // Epoch ms until which the target is skipped
+  reason: string;
+}
+
+// How long a failing provider is skipped before it is tried again
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Parse a `preferences.fallbackProviders` entry: `provider`, or
+ * `provider:model` to fail over to another model. Only the first colon
+ * separates the two, as model ids may contain colons (`llama3.2:latest`).
+ */
+export function parseFallbackEntry(entry: string): ProviderTarget {
+  const separator = entry.indexOf(':');
+  if (separator < 0) {
+    return { provider: entry.trim() };
+  }
+  const model = entry.slice(separator + 1).trim();
+  return { provider: entry.slice(0, separator).trim(), ...(model ? { model } : {}) };
+}
+
+/**
+ * Whether a failed request is worth repeating elsewhere: rate limits, server
+ * errors and network failures, also when wrapped (processChunks reports the
+ * first chunk failure as the cause)
+ */
+export function isFailoverError(error: BaseError | undefined): boolean {
+  if (!error) {
+    return false;
+  }
+  return error.isRetryable || (error.cause instanceof BaseError && error.cause.isRetryable);
+}
+
+/**
+ * Remembers providers that failed recently, so the next commits go straight
+ * to a fallback instead of sitting through the retries of a provider that is
+ * down. State lives in the cache directory because every `orc` run is a new
+ * process (in `state/`, which cache clearing and stats leave alone); a missing
+ * or unreadable file just means nothing is open.
+ */
+export class CircuitBreaker {
+  constructor(
+    private readonly filePath: string = join(homedir(), '.cache', 'orcommit', 'state', 'circuit-breaker.json'),
+    private readonly cooldownMs: number = DEFAULT_COOLDOWN_MS
+  ) {}
+
+  /**
+   * Whether `key` failed within the cooldown
+   */
+  async isOpen(key: string): Promise<boolean> {
+    const entry = (await this.read())[key];
+    return entry !== undefined && entry.until > Date.now();
+  }
+
+  /**
+   * Record a failure: `key` is skipped for the cooldown
+   */
+  async open(key: string, reason: string): Promise<void> {
+    const state = await this.read();
+    state[key] = { until: Date.now() + this.cooldownMs, reason };
+    await this.write(state);
+  }
+
+  /**
+   * Record a success, clearing any earlier failure of `key`
+   */
+  async close(key: string): Promise<void> {
+    const state = await this.read();
+    if (key in state) {
+      delete state[key];
+      await this.write(state);
+    }
+  }
+
+  private async read(): Promise<Record<string, BreakerEntry>> {
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, BreakerEntry>)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async write(state: Record<string, BreakerEntry>): Promise<void> {
+    const now = Date.now();
+    const active = Object.fromEntries(Object.entries(state).filter(([, entry]) => entry.until > now));
+
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(active, null, 2));
+    } catch (error) {
+      logger.debug('Failed to persist circuit breaker state', error);
+    }
+  }
+}
+
+// Singleton instance
+export const circuitBreaker = new CircuitBreaker();
@@ -1,6 +1,8 @@
 import { GitFile, GitDiff, Config } from '../types/index.js';
 import { logger } from './logger.js';
 import { apiManager } from './api.js';
+import { PrivacyMask } from './privacy.js';
+import { Redactor } from './redactor.js';
 
 export interface FilePreview {
   path: string;
@@ -49,16 +51,19 @@ export class AIFileSelector {
     logger.debug('Medium commit detected, using AI selection');
 
     try {
-      const previews = this.createPreviews(files);
+      const privacy = new PrivacyMask(this.config.preferences.privacy ?? 'off', this.config.preferences.privacyPatterns ?? []);
+      const redactor = new Redactor(this.config.preferences.redaction);
+      const previews = this.createPreviews(files.map(file => redactor.redactFile(file)), privacy);
       const result = await this.askAI(previews, maxFiles);
+      const selectedFiles = result.selectedFiles.map(path => privacy.unmask(path));
 
       logger.debug('AI file selection completed', {
-        selectedCount: result.selectedFiles.length,
+        selectedCount: selectedFiles.length,
         confidence: result.confidence,
         reasoning: result.reasoning,
       });
 
-      return files.filter(f => result.selectedFiles.includes(f.path));
+      return files.filter(f => selectedFiles.includes(f.path));
     } catch (error) {
       logger.warn(`AI selection failed, falling back to heuristic: ${(error as Error).message}`);
       return this.heuristicSelection(files, maxFiles);
@@ -66,10 +71,14 @@ export class AIFileSelector {
   }
 
   /**
-   * Create file previews with smart sizing
+   * Create file previews with smart sizing from already redacted files.
+   * Paths and preview lines go through the privacy mask; every path is
+   * aliased before any preview so mentions of other files are aliased too.
    */
-  private createPreviews(files: GitFile[]): FilePreview[] {
-    return files.map(file => {
+  private createPreviews(files: GitFile[], privacy: PrivacyMask): FilePreview[] {
+    const paths = files.map(file => privacy.maskPath(file.path));
+
+    return files.map((file, i) => {
       const priority = this.calculatePriority(file);
       const changedLines = this.getChangedLines(file);
 
@@ -77,12 +86,12 @@ export class AIFileSelector {
       const previewSize = priority === 'high' ? 50 : priority === 'medium' ? 30 : 20;
 
       return {
-        path: file.path,
+        path: paths[i]!,
         status: file.status,
         size: changedLines.length,
         language: this.detectLanguage(file.path),
         priority,
-        preview: changedLines.slice(0, previewSize).join('\n'),
+        preview: privacy.maskText(changedLines.slice(0, previewSize).join('\n')),
       };
     });
   }
@@ -189,7 +198,7 @@ export class AIFileSelector {
     const provider = this.config.preferences.defaultProvider;
     const model = this.getSelectionModel();
 
-    const response = await apiManager.generateCommitMessage({
+    const response = await apiManager.generateCompletion({
       provider,
       model,
       messages: [{ role: 'user', content: prompt }],
@@ -378,8 +387,10 @@ Return ONLY valid JSON, no markdown, no explanations outside JSON.`;
     // Use cheaper models for file selection
     if (provider === 'openrouter') {
       return 'anthropic/claude-3-haiku:beta';
-    } else {
-      return 'gpt-3.5-turbo';
     }
+
+    // Other catalogs (Anthropic, Gemini, local servers) may not know the
+    // OpenAI id, so prefer the model the provider is configured with
+    return this.config.providers[provider]?.model || 'gpt-3.5-turbo';
   }
 }
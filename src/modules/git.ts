@@ -1,16 +1,95 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
 import { promisify } from 'util';
-import { GitDiff, GitFile, GitChunk, GitLine, GitError, GitFileStatus, ChunkProcessingOptions, CHUNK_LIMITS, FileSafetyAnalysis, FILE_SAFETY_LIMITS } from '../types/index.js';
+import { join, resolve } from 'path';
+import { GitDiff, GitFile, GitChunk, CommitInfo, CommitLogEntry, CommitOptions, GitIdentity, GitLine, GitError, HookError, GitFileStatus, ChunkProcessingOptions, CHUNK_LIMITS, FileSafetyAnalysis, FILE_SAFETY_LIMITS } from '../types/index.js';
 import { logger } from './logger.js';
 import { wrapGitContext } from '../utils/formatting.js';
 
 // Increase buffer size for large repositories (200MB)
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 const EXEC_OPTIONS = {
   maxBuffer: 200 * 1024 * 1024, // 200MB buffer
   timeout: 120000, // 120 seconds timeout
 };
 
+// Revisions and ranges are interpolated into commands: allow only the
+// characters of ref names and revision syntax
+const REVISION_PATTERN = /^[\w./~^@{}:-]+$/;
+
+// Hooks `git commit` runs that can reject the commit
+const COMMIT_HOOKS = new Set(['pre-commit', 'prepare-commit-msg', 'commit-msg']);
+
+// Signing keys that are SSH keys: a public key file or a literal `ssh-ed25519 AAAA…`
+const SSH_KEY_PATTERN = /\.pub$|^(?:key::)?(?:ssh-|sk-ssh-|ecdsa-sha2-)/;
+
+// The tree of a repository without files, the base of a root commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Quote an arbitrary value (a file path) as a single shell word
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The commit hook that exited non-zero, from a trace2 event stream:
+ * `child_start` names the hook and `child_exit` carries its code. Only the
+ * session of the first event counts; git commands run by the hooks log
+ * nested sessions to the same file.
+ */
+function failedCommitHook(trace: string): string | null {
+  const hooks = new Map<number, string>();
+  let session: string | undefined;
+
+  for (const line of trace.split('\n')) {
+    let event: { event?: string; sid?: string; child_id?: number; child_class?: string; hook_name?: string; argv?: string[]; code?: number };
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    session ??= event.sid;
+    if (event.sid !== session || event.child_id === undefined) {
+      continue;
+    }
+
+    if (event.event === 'child_start' && event.child_class === 'hook') {
+      // Older versions of git name the hook only in argv
+      const name = event.hook_name ?? event.argv?.[0]?.split(/[/\\]/).pop() ?? '';
+      if (COMMIT_HOOKS.has(name)) {
+        hooks.set(event.child_id, name);
+      }
+    } else if (event.event === 'child_exit' && event.code !== 0 && hooks.has(event.child_id)) {
+      return hooks.get(event.child_id)!;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * `-c` options for signing with `sign` (see CommitOptions): an SSH key signs
+ * with gpg.format=ssh whatever the configured format
+ */
+function signConfigArgs(sign: CommitOptions['sign']): string[] {
+  return typeof sign === 'string' && SSH_KEY_PATTERN.test(sign) ? ['-c', 'gpg.format=ssh'] : [];
+}
+
+/**
+ * `git commit` / `git commit-tree` flags for signing with `sign`
+ */
+function signFlagArgs(sign: CommitOptions['sign']): string[] {
+  if (sign === undefined) {
+    return [];
+  }
+  return [sign === false ? '--no-gpg-sign' : sign === true ? '--gpg-sign' : `--gpg-sign=${sign}`];
+}
+
 export class GitManager {
   /**
    * Check if current directory is a git repository
@@ -57,21 +136,26 @@ export class GitManager {
   }
 
   /**
-   * Get staged changes as a structured diff
+   * Get staged changes as a structured diff. `base` compares the index with
+   * another commit than HEAD (see getAmendBase).
    */
-  async getStagedDiff(options?: Partial<ChunkProcessingOptions>): Promise<GitDiff> {
+  async getStagedDiff(options?: Partial<ChunkProcessingOptions>, base?: string): Promise<GitDiff> {
     const mergedOptions = this.mergeChunkOptions(options);
-    
+    if (base !== undefined && !REVISION_PATTERN.test(base)) {
+      throw new GitError(`Invalid revision: ${base}`);
+    }
+    const against = base ? ` ${base}` : '';
+
     try {
       // Check if there are staged changes
-      const { stdout: statusOutput } = await execAsync('git diff --cached --name-status', EXEC_OPTIONS);
+      const { stdout: statusOutput } = await execAsync(`git diff --cached --name-status${against}`, EXEC_OPTIONS);
       if (!statusOutput.trim()) {
         return { files: [], totalLines: 0, totalSize: 0 };
       }
 
       // Get the raw diff with optimized flags
       const { stdout: diffOutput } = await execAsync(
-        'git diff --cached --ignore-space-change --ignore-blank-lines --no-color --no-prefix',
+        `git diff --cached --ignore-space-change --ignore-blank-lines --no-color --no-prefix${against}`,
         EXEC_OPTIONS
       );
 
@@ -110,23 +194,221 @@ export class GitManager {
   }
 
   /**
-   * Create a commit with the given message
+   * Create a commit with the given message. The message goes through a file
+   * (`git commit -F`) and git runs without a shell, so nothing in it needs
+   * escaping. A hook rejecting the commit throws a HookError with the hook's
+   * output.
    */
-  async createCommit(message: string): Promise<string> {
+  async createCommit(message: string, options: CommitOptions = {}): Promise<string> {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'orcommit-commit-'));
+    const messageFile = join(dir, 'COMMIT_MSG');
+    const traceFile = join(dir, 'trace.json');
+
     try {
-      // Properly escape the message for shell execution
-      const escapedMessage = message
-        .replace(/\\/g, '\\\\')  // Escape backslashes first
-        .replace(/"/g, '\\"')    // Escape double quotes
-        .replace(/`/g, '\\`')    // Escape backticks
-        .replace(/\$/g, '\\$');  // Escape dollar signs
-      
-      const { stdout } = await execAsync(`git commit -m "${escapedMessage}"`, EXEC_OPTIONS);
+      await fs.writeFile(messageFile, `${message}\n`);
+      const { stdout } = await execFileAsync('git', this.commitArgs(messageFile, options), {
+        ...EXEC_OPTIONS,
+        // The trace names the hooks git ran and how they exited, should one reject the commit
+        env: { ...process.env, GIT_TRACE2_EVENT: traceFile },
+      });
       logger.debug('Commit created successfully', { output: stdout });
       return stdout;
+    } catch (error) {
+      throw await this.commitError(error, traceFile);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private commitArgs(messageFile: string, options: CommitOptions): string[] {
+    const { sign } = options;
+    const args = [...signConfigArgs(sign), 'commit', '-F', messageFile, ...signFlagArgs(sign)];
+    if (options.noVerify) {
+      args.push('--no-verify');
+    }
+    if (options.amend) {
+      args.push('--amend');
+    }
+    if (options.author) {
+      args.push(`--author=${options.author}`);
+    }
+    if (options.date) {
+      args.push(`--date=${options.date}`);
+    }
+    return args;
+  }
+
+  /**
+   * The GitError for a failed `git commit`: a HookError when the trace shows
+   * a commit hook exiting non-zero, since git then prints nothing of its own.
+   * Any other failure, also one after hooks that passed, is git's.
+   */
+  private async commitError(error: unknown, traceFile: string): Promise<GitError> {
+    const { stdout = '', stderr = '' } = error as { stdout?: string; stderr?: string };
+    const cause = error instanceof Error ? error : undefined;
+
+    const hook = failedCommitHook(await fs.readFile(traceFile, 'utf8').catch(() => ''));
+    if (hook) {
+      // Git sends the output of hooks to stderr
+      return new HookError(hook, (stderr || stdout).trim(), cause);
+    }
+
+    return new GitError(
+      `Failed to create commit: ${stderr.trim() || stdout.trim() || cause?.message || 'Unknown error'}`,
+      cause
+    );
+  }
+
+  /**
+   * Get the staged changes as a patch that `git apply --cached` accepts back:
+   * full context, binary payloads included and renames kept as delete + add so
+   * every path can be restaged on its own
+   */
+  async getStagedPatch(): Promise<string> {
+    try {
+      const { stdout } = await execAsync(
+        'git diff --cached --no-color --no-ext-diff --no-renames --binary --full-index --src-prefix=a/ --dst-prefix=b/',
+        EXEC_OPTIONS
+      );
+      return stdout;
+    } catch (error) {
+      throw new GitError(
+        `Failed to get staged patch: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the working-tree changes that are not staged, in the same form as
+   * getStagedPatch so selected hunks can be applied to the index. Untracked
+   * files (minus ignored ones) are included as new-file patches.
+   */
+  async getUnstagedPatch(): Promise<string> {
+    const options = { ...EXEC_OPTIONS, cwd: await this.getRepositoryRoot() };
+    const flags = '--no-color --no-ext-diff --no-renames --binary --full-index --src-prefix=a/ --dst-prefix=b/';
+
+    try {
+      const { stdout: tracked } = await execAsync(`git diff ${flags}`, options);
+      const { stdout: untracked } = await execAsync('git ls-files --others --exclude-standard -z', options);
+
+      const patches = [tracked];
+      for (const path of untracked.split('\0').filter(Boolean)) {
+        try {
+          await execAsync(`git diff --no-index ${flags} -- /dev/null ${shellQuote(path)}`, options);
+        } catch (error) {
+          // --no-index exits with 1 when the files differ, which they always do here
+          const stdout = (error as { stdout?: string }).stdout;
+          if (!stdout) {
+            throw error;
+          }
+          patches.push(stdout);
+        }
+      }
+
+      return patches.join('');
+    } catch (error) {
+      throw new GitError(
+        `Failed to get unstaged changes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the current HEAD commit, or null on a branch without commits yet
+   */
+  async getHeadCommit(): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync('git rev-parse --verify -q HEAD', EXEC_OPTIONS);
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * What an amended HEAD is compared with: its parent, or the empty tree
+   * when HEAD is the root commit
+   */
+  async getAmendBase(): Promise<string> {
+    if (!(await this.getHeadCommit())) {
+      throw new GitError('There is no commit to amend yet');
+    }
+
+    try {
+      const { stdout } = await execAsync('git rev-parse --verify -q HEAD^', EXEC_OPTIONS);
+      return stdout.trim();
+    } catch {
+      return EMPTY_TREE;
+    }
+  }
+
+  /**
+   * Write the index to a tree object, a snapshot that restoreIndex can return to
+   */
+  async writeIndexTree(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('git write-tree', EXEC_OPTIONS);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(
+        `Failed to snapshot the index: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Load a tree into the index without touching the working tree. Without a
+   * tree the index is reset to HEAD (or emptied before the first commit).
+   */
+  async readTreeIntoIndex(tree?: string): Promise<void> {
+    try {
+      const target = tree ?? ((await this.getHeadCommit()) ? 'HEAD' : '--empty');
+      await execAsync(`git read-tree ${target}`, EXEC_OPTIONS);
+    } catch (error) {
+      throw new GitError(
+        `Failed to reset the index: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Stage a patch directly into the index (`git apply --cached`), leaving the
+   * working tree alone. Runs from the repository root: from a subdirectory,
+   * git apply silently skips paths outside it.
+   */
+  async applyPatchToIndex(patch: string): Promise<void> {
+    try {
+      const options = { ...EXEC_OPTIONS, cwd: await this.getRepositoryRoot() };
+      const pending = execAsync('git apply --cached --whitespace=nowarn -', options);
+      pending.child.stdin?.end(patch);
+      await pending;
     } catch (error) {
       throw new GitError(
-        `Failed to create commit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to stage patch: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Undo commits made since `head` and put the index back to `tree`. The
+   * working tree is never touched, so nothing the user had is lost.
+   */
+  async restoreIndex(head: string | null, tree: string): Promise<void> {
+    try {
+      const current = await this.getHeadCommit();
+      if (current !== head) {
+        // A branch without commits has nothing to reset to: drop the new ref
+        await execAsync(head ? `git reset -q --soft ${head}` : 'git update-ref -d HEAD', EXEC_OPTIONS);
+      }
+      await execAsync(`git read-tree ${tree}`, EXEC_OPTIONS);
+    } catch (error) {
+      throw new GitError(
+        `Failed to restore the index: ${error instanceof Error ? error.message : 'Unknown error'}`,
         error instanceof Error ? error : undefined
       );
     }
@@ -177,6 +459,38 @@ export class GitManager {
     }
   }
 
+  /**
+   * Get the absolute path of the repository's git directory (usually
+   * `<root>/.git`, but worktrees and submodules point elsewhere)
+   */
+  async getGitDir(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('git rev-parse --absolute-git-dir', EXEC_OPTIONS);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(
+        `Failed to get git directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the absolute path of the directory git runs hooks from. Honors
+   * `core.hooksPath` (husky and friends) as well as linked worktrees.
+   */
+  async getHooksDir(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('git rev-parse --git-path hooks', EXEC_OPTIONS);
+      return resolve(process.cwd(), stdout.trim());
+    } catch (error) {
+      throw new GitError(
+        `Failed to get hooks directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Stable identifier for the current repository + branch, used to namespace
    * the commit-message cache so unrelated projects never collide on the same
@@ -295,6 +609,7 @@ export class GitManager {
     const chunks: GitChunk[] = [];
     let currentChunk: Partial<GitChunk> | null = null;
     let chunkLines: GitLine[] = [];
+    let newLine = 0;
 
     for (const line of lines) {
       if (line.startsWith('@@')) {
@@ -312,9 +627,14 @@ export class GitManager {
         if (chunkHeader) {
           currentChunk = chunkHeader;
           chunkLines = [];
+          newLine = chunkHeader.newStart ?? 0;
         }
       } else if (currentChunk && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-'))) {
-        chunkLines.push(this.parseGitLine(line));
+        const gitLine = this.parseGitLine(line, newLine);
+        if (gitLine.lineNumber !== undefined) {
+          newLine++;
+        }
+        chunkLines.push(gitLine);
       }
     }
 
@@ -345,12 +665,13 @@ export class GitManager {
     };
   }
 
-  private parseGitLine(line: string): GitLine {
+  private parseGitLine(line: string, newLine: number): GitLine {
     const type = line.startsWith('+') ? 'added' : 
                  line.startsWith('-') ? 'removed' : 'context';
     const content = line.slice(1); // Remove the prefix character
 
-    return { type, content };
+    // Removed lines have no place in the new file
+    return type === 'removed' ? { type, content } : { type, content, lineNumber: newLine };
   }
 
   private generateChunkContext(lines: GitLine[]): string {
@@ -673,7 +994,7 @@ export class GitManager {
       recommendations.push('⚠️  Large commit detected - please review carefully');
 
       if (totalFiles > FILE_SAFETY_LIMITS.CRITICAL_FILE_COUNT) {
-        recommendations.push(`Consider splitting ${totalFiles} files into multiple commits`);
+        recommendations.push(`Consider splitting ${totalFiles} files into multiple commits: orc commit --split`);
       }
 
       if (largeFiles > 5) {
@@ -699,12 +1020,13 @@ export class GitManager {
   /**
    * Get recent commit history for context
    * @param depth Number of recent commits to retrieve (default: 5)
+   * @param range Revision range to list instead of HEAD's history (e.g. `base..HEAD`)
    * @returns Array of commit messages in format: "hash subject"
    */
-  async getCommitHistory(depth: number = 5): Promise<string[]> {
+  async getCommitHistory(depth: number = 5, range?: string): Promise<string[]> {
     try {
       const { stdout } = await execAsync(
-        `git log -${depth} --oneline --no-decorate`,
+        `git log -${depth} --oneline --no-decorate${range ? ` '${range}'` : ''}`,
         EXEC_OPTIONS
       );
 
@@ -718,6 +1040,417 @@ export class GitManager {
     }
   }
 
+  /**
+   * Guess the branch pull requests target: the remote's HEAD when known,
+   * otherwise the first existing main/master/develop branch
+   */
+  async getDefaultBranch(): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync('git symbolic-ref --quiet --short refs/remotes/origin/HEAD', EXEC_OPTIONS);
+      if (stdout.trim()) {
+        return stdout.trim();
+      }
+    } catch {
+      // No remote HEAD recorded, try the usual names
+    }
+
+    for (const candidate of ['main', 'master', 'develop', 'origin/main', 'origin/master', 'origin/develop']) {
+      try {
+        await execAsync(`git rev-parse --verify --quiet '${candidate}^{commit}'`, EXEC_OPTIONS);
+        return candidate;
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the commit HEAD forked from `target`
+   */
+  async getMergeBase(target: string): Promise<string> {
+    if (!REVISION_PATTERN.test(target)) {
+      throw new GitError(`Invalid branch name: ${target}`);
+    }
+
+    try {
+      const { stdout } = await execAsync(`git merge-base HEAD '${target}'`, EXEC_OPTIONS);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(
+        `Failed to find merge base with ${target}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get everything committed since `base` (usually a merge base) as a
+   * structured diff. Uncommitted changes are not included.
+   */
+  async getBranchDiff(base: string, options?: Partial<ChunkProcessingOptions>): Promise<GitDiff> {
+    const mergedOptions = this.mergeChunkOptions(options);
+
+    try {
+      const { stdout } = await execAsync(
+        `git diff --ignore-space-change --ignore-blank-lines --no-color --no-prefix ${base} HEAD`,
+        EXEC_OPTIONS
+      );
+
+      return this.parseDiff(stdout, mergedOptions);
+    } catch (error) {
+      throw new GitError(
+        `Failed to get diff since ${base}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * List the commits of a revision range, oldest first. A single revision
+   * (no `..`) selects just that commit.
+   */
+  async getCommitRange(range: string): Promise<CommitInfo[]> {
+    if (!REVISION_PATTERN.test(range)) {
+      throw new GitError(`Invalid revision range: ${range}`);
+    }
+
+    try {
+      const spec = range.includes('..') ? `'${range}'` : `--no-walk '${range}'`;
+      const { stdout } = await execAsync(
+        `git rev-list --reverse --topo-order --parents --format=%s ${spec}`,
+        EXEC_OPTIONS
+      );
+
+      // --format prints a "commit <hash> <parents>" line, then the subject
+      const lines = stdout.split('\n');
+      const commits: CommitInfo[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        const match = lines[i]!.match(/^commit ([0-9a-f]+)((?: [0-9a-f]+)*)$/);
+        if (match) {
+          commits.push({
+            hash: match[1]!,
+            parents: match[2]!.trim().split(' ').filter(Boolean),
+            subject: lines[i + 1] ?? '',
+          });
+          i++; // Skip the subject, it could look like a commit line itself
+        }
+      }
+      return commits;
+    } catch (error) {
+      throw new GitError(
+        `Failed to resolve revision range ${range}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the full messages of the non-merge commits in a revision range (or
+   * all history reachable from a single revision), newest first
+   * @param limit Maximum number of commits to return
+   */
+  async getCommitLog(range: string, limit?: number): Promise<CommitLogEntry[]> {
+    if (!REVISION_PATTERN.test(range)) {
+      throw new GitError(`Invalid revision range: ${range}`);
+    }
+
+    try {
+      // NUL separates hash and message, RS separates commits: neither can
+      // appear in a commit message
+      const { stdout } = await execAsync(
+        `git log --no-merges${limit ? ` -n ${Math.floor(limit)}` : ''} --format=%H%x00%B%x1e '${range}'`,
+        EXEC_OPTIONS
+      );
+
+      return stdout
+        .split('\x1e')
+        .map(record => record.replace(/^\n/, ''))
+        .filter(record => record.includes('\0'))
+        .map(record => {
+          const [hash = '', message = ''] = record.split('\0');
+          return { hash, message: message.trim() };
+        });
+    } catch (error) {
+      throw new GitError(
+        `Failed to read commits of ${range}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the distinct authors of the last `limit` commits, most recent first,
+   * with names and emails mapped through .mailmap
+   */
+  async getAuthors(limit: number): Promise<GitIdentity[]> {
+    try {
+      const { stdout } = await execAsync(`git log -n ${Math.floor(limit)} --format=%aN%x00%aE`, EXEC_OPTIONS);
+
+      const authors = new Map<string, GitIdentity>();
+      for (const line of stdout.split('\n')) {
+        const [name = '', email = ''] = line.split('\0');
+        const key = `${name}\0${email.toLowerCase()}`;
+        if (name && email && !authors.has(key)) {
+          authors.set(key, { name, email });
+        }
+      }
+      return [...authors.values()];
+    } catch (error) {
+      throw new GitError(
+        `Failed to read commit authors: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the identity commits are made as (`user.name` and `user.email`, or
+   * whatever git falls back to), the one `git commit --signoff` signs with
+   */
+  async getCommitterIdentity(): Promise<GitIdentity> {
+    try {
+      // `Name <email> 1700000000 +0000`
+      const { stdout } = await execAsync('git var GIT_COMMITTER_IDENT', EXEC_OPTIONS);
+      const match = stdout.trim().match(/^(.*?)\s*<([^>]*)>/);
+      if (!match) {
+        throw new Error(`unexpected identity '${stdout.trim()}'`);
+      }
+      return { name: match[1]!, email: match[2]! };
+    } catch (error) {
+      throw new GitError(
+        `Failed to read the committer identity (set user.name and user.email): ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the most recent tag reachable from `rev`, or null when there is none
+   */
+  async getLatestTag(rev = 'HEAD'): Promise<string | null> {
+    if (!REVISION_PATTERN.test(rev)) {
+      return null;
+    }
+
+    try {
+      const { stdout } = await execAsync(`git describe --tags --abbrev=0 '${rev}'`, EXEC_OPTIONS);
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether `name` is a tag
+   */
+  async isTag(name: string): Promise<boolean> {
+    if (!REVISION_PATTERN.test(name)) {
+      return false;
+    }
+
+    try {
+      await execAsync(`git show-ref --verify --quiet 'refs/tags/${name}'`, EXEC_OPTIONS);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the committer date of a revision as YYYY-MM-DD
+   */
+  async getCommitDate(rev: string): Promise<string> {
+    if (!REVISION_PATTERN.test(rev)) {
+      throw new GitError(`Invalid revision: ${rev}`);
+    }
+
+    try {
+      const { stdout } = await execAsync(`git log -1 --format=%cs '${rev}'`, EXEC_OPTIONS);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(
+        `Failed to read date of ${rev}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the changes a commit introduced (against its first parent, or the
+   * empty tree for a root commit) as a structured diff
+   */
+  async getCommitDiff(hash: string, options?: Partial<ChunkProcessingOptions>): Promise<GitDiff> {
+    const mergedOptions = this.mergeChunkOptions(options);
+
+    try {
+      const { stdout } = await execAsync(
+        `git diff-tree -p --root --no-commit-id --ignore-space-change --ignore-blank-lines --no-color --no-prefix ${hash}`,
+        EXEC_OPTIONS
+      );
+
+      return this.parseDiff(stdout, mergedOptions);
+    } catch (error) {
+      throw new GitError(
+        `Failed to get diff of ${hash}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the full message of a commit
+   */
+  async getCommitMessage(hash: string): Promise<string> {
+    try {
+      const { stdout } = await execAsync(`git log -1 --format=%B ${hash}`, EXEC_OPTIONS);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(
+        `Failed to read message of ${hash}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Check whether a commit has already been pushed: it is reachable from the
+   * upstream branch, or (without one) from any remote-tracking branch
+   */
+  async isCommitPushed(hash: string): Promise<boolean> {
+    if (await this.hasUpstream()) {
+      try {
+        await execAsync(`git merge-base --is-ancestor ${hash} @{u}`, EXEC_OPTIONS);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    try {
+      const { stdout } = await execAsync(`git branch -r --contains ${hash}`, EXEC_OPTIONS);
+      return stdout.trim().length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Give existing commits new messages without an interactive rebase. Every
+   * commit from the oldest reworded one up to HEAD is recreated on top of its
+   * rewritten parent with the same tree and author; the branch is then moved
+   * to the new tip. Trees are unchanged, so the index and working tree stay
+   * exactly as they are. Returns the new HEAD.
+   *
+   * The new commits are signed like `git commit` would sign them: `sign` as
+   * in CommitOptions, else commit.gpgsign. Signed commits are not rewritten
+   * unsigned unless `sign` is false.
+   */
+  async rewordCommits(messages: Map<string, string>, options: Pick<CommitOptions, 'sign'> = {}): Promise<string> {
+    const head = await this.getHeadCommit();
+    if (!head || messages.size === 0) {
+      throw new GitError('Nothing to reword');
+    }
+
+    try {
+      // Oldest-first chain from the current tip back to the first reworded commit
+      const chain: CommitInfo[] = [];
+      let cursor: string | undefined = head;
+      const pending = new Set(messages.keys());
+
+      while (cursor && pending.size > 0) {
+        const [info] = await this.getCommitRange(cursor);
+        if (!info) break;
+        if (info.parents.length > 1) {
+          throw new GitError(`Cannot reword across merge commit ${info.hash.slice(0, 7)}`);
+        }
+        chain.unshift(info);
+        pending.delete(info.hash);
+        cursor = info.parents[0];
+      }
+
+      if (pending.size > 0) {
+        throw new GitError('Only commits on the current branch can be reworded');
+      }
+
+      // commit-tree ignores commit.gpgsign, unlike git commit
+      const sign = options.sign ?? ((await this.signsCommitsByDefault()) || undefined);
+      if (sign === undefined) {
+        const signed: string[] = [];
+        for (const commit of chain) {
+          if (await this.isCommitSigned(commit.hash)) {
+            signed.push(commit.hash.slice(0, 7));
+          }
+        }
+        if (signed.length > 0) {
+          throw new GitError(
+            `Rewording would drop the signatures of ${signed.join(', ')}: pass --gpg-sign to sign the new commits, or --no-gpg-sign to rewrite them unsigned`
+          );
+        }
+      }
+
+      let parent = chain[0]!.parents[0];
+      for (const commit of chain) {
+        const { stdout: meta } = await execAsync(
+          `git log -1 --format=%an%x00%ae%x00%ad%x00%T --date=raw ${commit.hash}`,
+          EXEC_OPTIONS
+        );
+        const [name = '', email = '', date = '', tree = ''] = meta.trim().split('\0');
+        const message = messages.get(commit.hash) ?? await this.getCommitMessage(commit.hash);
+
+        const args = [...signConfigArgs(sign), 'commit-tree', tree, ...(parent ? ['-p', parent] : []), '-F', '-', ...signFlagArgs(sign)];
+        const pendingCommit = execFileAsync('git', args, {
+          ...EXEC_OPTIONS,
+          env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: name,
+            GIT_AUTHOR_EMAIL: email,
+            GIT_AUTHOR_DATE: date,
+          },
+        });
+        pendingCommit.child.stdin?.end(`${message}\n`);
+        parent = (await pendingCommit).stdout.trim();
+      }
+
+      // Compare-and-swap: fails if the branch moved while we were working
+      await execAsync(`git update-ref -m "orc reword" HEAD ${parent} ${head}`, EXEC_OPTIONS);
+      return parent!;
+    } catch (error) {
+      if (error instanceof GitError) {
+        throw error;
+      }
+      throw new GitError(
+        `Failed to reword commits: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Whether commit.gpgsign asks for every commit to be signed
+   */
+  private async signsCommitsByDefault(): Promise<boolean> {
+    try {
+      const { stdout } = await execFileAsync('git', ['config', '--type=bool', 'commit.gpgsign'], {
+        ...EXEC_OPTIONS,
+        env: process.env,
+      });
+      return stdout.trim() === 'true';
+    } catch {
+      return false; // Unset
+    }
+  }
+
+  /**
+   * Whether a commit carries a GPG, SSH or X.509 signature
+   */
+  private async isCommitSigned(hash: string): Promise<boolean> {
+    const { stdout } = await execFileAsync('git', ['cat-file', 'commit', hash], EXEC_OPTIONS);
+    const headers = stdout.slice(0, stdout.indexOf('\n\n'));
+    return /^gpgsig(?:-sha256)? /m.test(headers);
+  }
+
   /**
    * Format git context for AI consumption
    * Includes recent commit history and current branch
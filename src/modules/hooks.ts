@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { GitError } from '../types/index.js';
+import { gitManager } from './git.js';
+import { logger } from './logger.js';
+
+/**
+ * `prepare-commit-msg` hook integration.
+ *
+ * The installed hook is a small POSIX shell script that hands the commit
+ * message file to `orc hook run`, so plain `git commit` and IDE commit buttons
+ * get an AI draft too. A hook that already lives at the same path is moved
+ * aside and chained (run first, with the same arguments) rather than
+ * overwritten, and restored on uninstall.
+ */
+
+export const HOOK_NAME = 'prepare-commit-msg';
+
+/** Marker line identifying a hook script written by `orc hook install`. */
+const HOOK_MARKER = '# orcommit: prepare-commit-msg hook';
+
+/** Suffix of the pre-existing hook we moved aside and now chain to. */
+const CHAINED_SUFFIX = '.orc-chained';
+
+/**
+ * Commit sources (git's second hook argument) that already carry a message we
+ * must not replace: merges, squashes, `-m`/`-F` messages and `-c`/`-C`/`--amend`.
+ */
+export const SKIPPED_HOOK_SOURCES: readonly string[] = ['merge', 'squash', 'message', 'commit'];
+
+export interface HookStatus {
+  /** Directory the hook lives in (resolved through core.hooksPath / husky) */
+  readonly hooksDir: string;
+  readonly hookPath: string;
+  readonly installed: boolean;
+  /** A hook that is not ours occupies the path */
+  readonly foreignHook: boolean;
+  /** Path of the chained original hook, if one was moved aside */
+  readonly chainedHook: string | null;
+  readonly husky: boolean;
+}
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER} (managed by \`orc hook install\`, remove with \`orc hook uninstall\`)
+HOOK_DIR=$(dirname "$0")
+CHAINED="$HOOK_DIR/${HOOK_NAME}${CHAINED_SUFFIX}"
+
+if [ -f "$CHAINED" ]; then
+  if [ -x "$CHAINED" ]; then
+    "$CHAINED" "$@" || exit $?
+  else
+    sh "$CHAINED" "$@" || exit $?
+  fi
+fi
+
+# A missing orc or a failed generation must never block the commit
+if command -v orc >/dev/null 2>&1; then
+  orc hook run "$1" "$2" "$3" </dev/null || true
+fi
+exit 0
+`;
+
+export class HookManager {
+  /**
+   * Install the hook, chaining any hook already present. Re-installing over
+   * our own hook just refreshes the script.
+   */
+  async install(): Promise<HookStatus> {
+    const before = await this.status();
+
+    try {
+      await fs.mkdir(before.hooksDir, { recursive: true });
+
+      if (before.foreignHook) {
+        if (before.chainedHook) {
+          throw new GitError(
+            `Cannot chain ${before.hookPath}: ${before.chainedHook} already exists. ` +
+              'Remove or merge one of them first.'
+          );
+        }
+        await fs.rename(before.hookPath, this.getChainedPath(before.hookPath));
+        logger.debug('Chained existing hook', { hook: before.hookPath });
+      }
+
+      await fs.writeFile(before.hookPath, HOOK_SCRIPT, { encoding: 'utf-8', mode: 0o755 });
+      await fs.chmod(before.hookPath, 0o755);
+    } catch (error) {
+      if (error instanceof GitError) {
+        throw error;
+      }
+      throw new GitError(
+        `Failed to install ${HOOK_NAME} hook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return this.status();
+  }
+
+  /**
+   * Remove our hook and put the chained original (if any) back in place.
+   * A hook that is not ours is never touched.
+   */
+  async uninstall(): Promise<HookStatus> {
+    const before = await this.status();
+
+    if (before.foreignHook) {
+      throw new GitError(`${before.hookPath} was not installed by orc; leaving it untouched`);
+    }
+
+    try {
+      if (before.installed) {
+        await fs.unlink(before.hookPath);
+      }
+      if (before.chainedHook) {
+        await fs.rename(before.chainedHook, before.hookPath);
+      }
+    } catch (error) {
+      throw new GitError(
+        `Failed to uninstall ${HOOK_NAME} hook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return this.status();
+  }
+
+  /**
+   * Inspect where the hook would live and what currently occupies that path
+   */
+  async status(): Promise<HookStatus> {
+    const { hooksDir, husky } = await this.resolveHooksDir();
+    const hookPath = join(hooksDir, HOOK_NAME);
+    const chainedPath = this.getChainedPath(hookPath);
+
+    const content = await this.readIfExists(hookPath);
+    const installed = content !== null && content.includes(HOOK_MARKER);
+
+    return {
+      hooksDir,
+      hookPath,
+      installed,
+      foreignHook: content !== null && !installed,
+      chainedHook: (await this.readIfExists(chainedPath)) !== null ? chainedPath : null,
+      husky,
+    };
+  }
+
+  /**
+   * Whether a hook invocation with this commit source should get a draft
+   */
+  static shouldGenerate(source?: string): boolean {
+    return !source || !SKIPPED_HOOK_SOURCES.includes(source);
+  }
+
+  /**
+   * Husky points core.hooksPath at its generated `.husky/_` directory, which
+   * it rewrites on every install and which only forwards to the user-level
+   * scripts in `.husky/`. Our hook belongs next to those scripts.
+   */
+  private async resolveHooksDir(): Promise<{ hooksDir: string; husky: boolean }> {
+    const hooksDir = await gitManager.getHooksDir();
+
+    if (basename(hooksDir) === '_' && basename(dirname(hooksDir)) === '.husky') {
+      return { hooksDir: dirname(hooksDir), husky: true };
+    }
+
+    return { hooksDir, husky: basename(hooksDir) === '.husky' };
+  }
+
+  private getChainedPath(hookPath: string): string {
+    return `${hookPath}${CHAINED_SUFFIX}`;
+  }
+
+  private async readIfExists(path: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new GitError(
+        `Failed to read ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+// Singleton instance
+export const hookManager = new HookManager();
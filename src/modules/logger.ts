@@ -8,6 +8,29 @@ export interface LoggerOptions {
   prefix?: string;
 }
 
+/** Spinner activity, for front ends that show progress themselves */
+export interface ProgressEvent {
+  readonly kind: 'begin' | 'report' | 'end';
+  readonly message: string;
+  readonly preview?: string; // Live text under the spinner, e.g. a streamed commit message
+}
+
+export type ProgressReporter = (event: ProgressEvent) => void;
+
+let progressReporter: ProgressReporter | null = null;
+
+/**
+ * Send spinner activity to `reporter` instead of drawing it on the terminal;
+ * null draws it again
+ */
+export function setProgressReporter(reporter: ProgressReporter | null): void {
+  progressReporter = reporter;
+}
+
+export function getProgressReporter(): ProgressReporter | null {
+  return progressReporter;
+}
+
 export class Logger {
   private readonly options: Required<LoggerOptions>;
 
@@ -205,13 +228,16 @@ export class ProgressIndicator {
   private readonly minDuration = 500; // Wait before showing spinner
   private readonly maxDuration = 30000; // 30 second timeout
   private isActive = false;
+  private readonly reporter = progressReporter;
 
   constructor(
     private readonly message: string,
     private readonly silent: boolean
   ) {
     this.startTime = Date.now();
-    if (!this.silent) {
+    if (this.reporter) {
+      this.reporter({ kind: 'begin', message });
+    } else if (!this.silent) {
       // Show immediate status without spinner for fast operations
       process.stdout.write(`⏳ ${this.message}`);
       
@@ -247,8 +273,10 @@ export class ProgressIndicator {
 
   stop(finalMessage?: string): void {
     this.cleanup();
-    
-    if (!this.silent) {
+
+    if (this.reporter) {
+      this.reporter({ kind: 'end', message: finalMessage ?? this.message });
+    } else if (!this.silent) {
       process.stdout.write('\r\x1b[K'); // Clear current line
       if (finalMessage) {
         console.log(finalMessage);
@@ -260,12 +288,12 @@ export class ProgressIndicator {
     const duration = Date.now() - this.startTime;
     const durationText = duration > 1000 ? ` (${(duration / 1000).toFixed(1)}s)` : '';
     const finalMessage = message || this.message;
-    this.stop(`${chalk.green('✓')} ${finalMessage}${chalk.gray(durationText)}`);
+    this.stop(this.reporter ? finalMessage : `${chalk.green('✓')} ${finalMessage}${chalk.gray(durationText)}`);
   }
 
   fail(message?: string): void {
     const finalMessage = message || `${this.message} failed`;
-    this.stop(`${chalk.red('✗')} ${finalMessage}`);
+    this.stop(this.reporter ? finalMessage : `${chalk.red('✗')} ${finalMessage}`);
   }
 
   private cleanup(): void {
@@ -285,7 +313,9 @@ export class ProgressIndicator {
   }
 
   update(message: string): void {
-    if (!this.silent && this.interval) {
+    if (this.reporter) {
+      this.reporter({ kind: 'report', message });
+    } else if (!this.silent && this.interval) {
       process.stdout.write('\r\x1b[K'); // Clear current line
       process.stdout.write(`${chalk.cyan(this.frames[this.frame])} ${message}`);
     }
@@ -294,3 +324,43 @@ export class ProgressIndicator {
 
 // Default logger instance
 export const logger = new Logger();
+
+/**
+ * Send everything written to stdout (logs, spinners, prompts) to stderr until
+ * the returned function is called, so a command's result can be printed alone
+ * on stdout for scripts to capture
+ */
+export function redirectStdoutToStderr(): () => void {
+  const write = process.stdout.write;
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  return () => {
+    process.stdout.write = write;
+  };
+}
+
+// The real stdout once --json mode has moved human output to stderr
+let jsonStdoutWrite: typeof process.stdout.write | null = null;
+
+/**
+ * Switch to --json mode for the rest of the process: logs, spinners and
+ * prompts go to stderr, and stdout carries only what writeJson prints
+ */
+export function enableJsonOutput(): void {
+  if (jsonStdoutWrite) {
+    return;
+  }
+  jsonStdoutWrite = process.stdout.write.bind(process.stdout) as typeof process.stdout.write;
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonStdoutWrite !== null;
+}
+
+/**
+ * Print a command's result as one JSON document on stdout
+ */
+export function writeJson(value: unknown): void {
+  const write = jsonStdoutWrite ?? process.stdout.write.bind(process.stdout);
+  write(JSON.stringify(value, null, 2) + '\n');
+}
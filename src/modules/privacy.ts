@@ -0,0 +1,170 @@
+import { ConfigError, GitDiff, PRIVACY_MODES, PrivacyMode } from '../types/index.js';
+
+// Path segments too common to tell anyone anything; kept readable so the
+// model still sees the shape of the project
+const PUBLIC_SEGMENTS = new Set([
+  'src', 'lib', 'app', 'apps', 'packages', 'pkg', 'cmd', 'internal', 'core', 'common', 'shared',
+  'test', 'tests', '__tests__', 'spec', 'e2e', 'fixtures', 'mocks', 'docs', 'doc', 'examples',
+  'scripts', 'bin', 'config', 'configs', 'public', 'static', 'assets', 'styles', 'types',
+  'utils', 'helpers', 'components', 'hooks', 'models', 'services', 'api', 'routes', 'migrations',
+  '.github', 'workflows', 'index', 'main', 'mod', 'init', '__init__', 'setup', 'readme',
+  'changelog', 'license', 'contributing', 'package', 'package-lock', 'tsconfig', 'dockerfile',
+  'makefile', 'cargo', 'go', 'pyproject', 'requirements', 'gemfile', 'vite', 'jest', 'eslint', 'webpack',
+]);
+
+type AliasKind = 'dir' | 'file' | 'sym';
+
+const ALIAS_PATTERN = /\b(?:dir|file|sym)_\d+\b/g;
+const ALIAS = /^(?:dir|file|sym)_\d+$/;
+
+/**
+ * Reversible aliasing of what a prompt would reveal about a private codebase.
+ * In `paths` mode every non-generic path segment (`src/billing/acme.ts`
+ * becomes `src/dir_1/file_1.ts`) and its other mentions in the diff are
+ * aliased; `strict` also aliases identifiers matching the configured
+ * patterns (`sym_1`). Aliases are numbered in order of first appearance, so
+ * the same diff always masks to the same prompt, and `unmask` maps the
+ * model's answer back to the real names.
+ */
+export class PrivacyMask {
+  private readonly aliases = new Map<string, string>();
+  private readonly originals = new Map<string, string>();
+  private readonly counts: Record<AliasKind, number> = { dir: 0, file: 0, sym: 0 };
+  private readonly identifiers: RegExp[] = [];
+  private readonly pathNames: string[] = [];
+  private namePattern: RegExp | null = null;
+
+  constructor(readonly mode: PrivacyMode = 'off', identifierPatterns: readonly string[] = []) {
+    if (!PRIVACY_MODES.includes(mode)) {
+      throw new ConfigError(`Invalid 'preferences.privacy': ${mode} (expected ${PRIVACY_MODES.join(', ')})`);
+    }
+    if (mode !== 'strict') {
+      return;
+    }
+
+    for (const source of identifierPatterns) {
+      try {
+        this.identifiers.push(new RegExp(source, 'g'));
+      } catch (error) {
+        throw new ConfigError(`Invalid pattern in 'preferences.privacyPatterns': ${(error as Error).message}`);
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Alias a repository path, registering its segments for maskText
+   */
+  maskPath(path: string): string {
+    if (!this.enabled) {
+      return path;
+    }
+
+    const segments = path.split('/');
+    return segments
+      .map((segment, i) => {
+        if (i < segments.length - 1) {
+          return this.alias(segment, 'dir');
+        }
+        // Keep the extension: the model should still know what kind of file it is
+        const dot = segment.indexOf('.', 1);
+        return dot > 0
+          ? `${this.alias(segment.slice(0, dot), 'file')}${segment.slice(dot)}`
+          : this.alias(segment, 'file');
+      })
+      .join('/');
+  }
+
+  /**
+   * Mask a diff for a prompt: paths first, so that every mention of a file
+   * or directory name in the changed lines is aliased the same way
+   */
+  maskDiff(diff: GitDiff): GitDiff {
+    if (!this.enabled) {
+      return diff;
+    }
+
+    const paths = diff.files.map(file => this.maskPath(file.path));
+
+    return {
+      ...diff,
+      files: diff.files.map((file, i) => ({
+        ...file,
+        path: paths[i]!,
+        chunks: file.chunks.map(chunk => ({
+          ...chunk,
+          header: this.maskText(chunk.header),
+          context: this.maskText(chunk.context),
+          lines: chunk.lines.map(line => ({ ...line, content: this.maskText(line.content) })),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Alias the names registered so far, and in strict mode the identifiers
+   * matching the configured patterns, wherever they appear in `text`
+   */
+  maskText(text: string): string {
+    if (!this.enabled || !text) {
+      return text;
+    }
+
+    let masked = text;
+    if (this.namePattern) {
+      masked = masked.replace(this.namePattern, name => this.aliases.get(name) ?? name);
+    }
+
+    for (const pattern of this.identifiers) {
+      masked = masked.replace(pattern, match => (match && !ALIAS.test(match) ? this.alias(match, 'sym') : match));
+    }
+
+    return masked;
+  }
+
+  /**
+   * Map aliases in generated text back to the real names
+   */
+  unmask(text: string): string {
+    if (!this.enabled || !text) {
+      return text;
+    }
+    return text.replace(ALIAS_PATTERN, alias => this.originals.get(alias) ?? alias);
+  }
+
+  private alias(name: string, kind: AliasKind): string {
+    if (!name || PUBLIC_SEGMENTS.has(name.toLowerCase()) || name.startsWith('.')) {
+      return name;
+    }
+
+    let alias = this.aliases.get(name);
+    if (!alias) {
+      alias = `${kind}_${++this.counts[kind]}`;
+      this.aliases.set(name, alias);
+      this.originals.set(alias, name);
+
+      if (kind !== 'sym') {
+        this.pathNames.push(name);
+        this.namePattern = namesPattern(this.pathNames);
+      }
+    }
+    return alias;
+  }
+}
+
+/**
+ * Whole-word alternation of the names, longest first so a name never
+ * shadows a longer one containing it. Names shorter than three characters
+ * are only aliased in paths: as words they are too common to replace.
+ */
+function namesPattern(names: string[]): RegExp | null {
+  const words = names
+    .filter(name => name.length >= 3)
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  return words.length > 0 ? new RegExp(`(?<![\\w-])(?:${words.join('|')})(?![\\w-])`, 'g') : null;
+}
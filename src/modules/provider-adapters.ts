@@ -0,0 +1,526 @@
+import {
+  ApiError,
+  ApiMessage,
+  ApiRequest,
+  ApiResponse,
+  ProviderConfig,
+  ProviderProtocol,
+  TokenUsage,
+} from '../types/index.js';
+
+/**
+ * Wire-format adapters for the APIs ApiManager talks to. Each adapter maps an
+ * ApiRequest to its protocol's payload and the protocol's responses, stream
+ * events and error bodies back to ApiResponse, TokenUsage and a readable
+ * error detail. ApiManager owns transport, retries and fallbacks; nothing in
+ * it needs to know what a response looks like.
+ */
+
+/** What a single stream event contributes to the assembled response */
+export interface StreamEvent {
+  readonly delta?: string;
+  readonly finishReason?: string;
+  readonly model?: string;
+  readonly usage?: Partial<TokenUsage>;
+}
+
+export interface PayloadOptions {
+  /** OpenRouter accepts its `provider` / `plugins` payload extensions */
+  readonly openRouter: boolean;
+}
+
+export interface ProviderAdapter {
+  readonly protocol: ProviderProtocol;
+  /** Header the API key is sent in unless the provider overrides it */
+  readonly authHeader: string;
+  /** Extra headers every request carries */
+  readonly headers: Readonly<Record<string, string>>;
+  /** How streamed responses are framed */
+  readonly streamFormat: 'sse' | 'ndjson';
+  /** Payload field carrying the structured-output schema */
+  readonly schemaField: string;
+  endpoint(request: ApiRequest): string;
+  buildPayload(request: ApiRequest, options: PayloadOptions): Record<string, unknown>;
+  /** Map a response body, throwing ApiError when it holds no message */
+  parseResponse(data: any, provider: string): ApiResponse;
+  parseStreamEvent(event: any): StreamEvent;
+  /** A human-readable detail from an error body, if there is one */
+  errorDetail(data: unknown): string | undefined;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * The protocol a provider speaks: explicit `protocol`, else native Ollama for
+ * local Ollama servers, else OpenAI-compatible
+ */
+export function resolveProtocol(providerConfig: ProviderConfig | undefined): ProviderProtocol {
+  if (providerConfig?.protocol) {
+    return providerConfig.protocol;
+  }
+  if (providerConfig?.type === 'local' && (providerConfig.server ?? 'ollama') === 'ollama') {
+    return 'ollama';
+  }
+  return 'openai';
+}
+
+export function getAdapter(protocol: ProviderProtocol): ProviderAdapter {
+  return ADAPTERS[protocol];
+}
+
+function noMessage(provider: string): ApiError {
+  return new ApiError(`Invalid response format from ${provider}: no choices found`);
+}
+
+function toUsage(promptTokens: unknown, completionTokens: unknown, totalTokens?: unknown): TokenUsage {
+  const prompt = typeof promptTokens === 'number' ? promptTokens : 0;
+  const completion = typeof completionTokens === 'number' ? completionTokens : 0;
+  return {
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: typeof totalTokens === 'number' ? totalTokens : prompt + completion,
+  };
+}
+
+/** The `json_schema` block of an OpenAI-style `response_format`, if any */
+function jsonSchemaOf(request: ApiRequest): { name?: string; schema?: Record<string, unknown> } | undefined {
+  return request.responseFormat?.json_schema as { name?: string; schema?: Record<string, unknown> } | undefined;
+}
+
+function splitSystem(messages: ApiMessage[]): { system: string; conversation: ApiMessage[] } {
+  return {
+    system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+    conversation: messages.filter(m => m.role !== 'system'),
+  };
+}
+
+/**
+ * Pull a human-readable detail out of an error response body. Providers are
+ * wildly inconsistent here, so we handle the common shapes instead of only
+ * OpenAI's `{ error: { message } }`:
+ *   - OpenAI/OpenRouter:  { error: { message } }  or  { error: "string" }
+ *   - FastAPI/Pydantic:   { detail: [ { loc, msg, type }, ... ] }  (e.g. cmdop)
+ *   - FastAPI simple:     { detail: "string" }
+ *   - misc:               { message: "string" }
+ *   - raw string body
+ * Returns undefined when nothing useful can be extracted, so the caller keeps
+ * the bare `provider API error (status)`.
+ */
+function extractErrorDetail(data: unknown): string | undefined {
+  if (data == null) return undefined;
+
+  if (typeof data === 'string') {
+    const trimmed = data.trim();
+    return trimmed.length ? trimmed : undefined;
+  }
+
+  if (typeof data !== 'object') return undefined;
+  const obj = data as Record<string, any>;
+
+  // OpenAI / OpenRouter style (Anthropic and Gemini nest the same way).
+  if (obj.error) {
+    if (typeof obj.error === 'string') return obj.error;
+    if (typeof obj.error.message === 'string') return obj.error.message;
+  }
+
+  // FastAPI / Pydantic validation errors (what cmdop's router returns).
+  if (obj.detail !== undefined) {
+    if (typeof obj.detail === 'string') return obj.detail;
+    if (Array.isArray(obj.detail)) {
+      const parts = obj.detail
+        .map((d: any) => {
+          if (typeof d === 'string') return d;
+          const loc = Array.isArray(d?.loc) ? d.loc.join('.') : undefined;
+          const msg = d?.msg ?? d?.message;
+          return loc && msg ? `${loc}: ${msg}` : msg || undefined;
+        })
+        .filter(Boolean);
+      if (parts.length) return parts.join('; ');
+    }
+  }
+
+  if (typeof obj.message === 'string') return obj.message;
+
+  return undefined;
+}
+
+/** OpenAI `/chat/completions`, spoken by OpenRouter and most gateways */
+const openAIAdapter: ProviderAdapter = {
+  protocol: 'openai',
+  authHeader: 'Authorization',
+  headers: {},
+  streamFormat: 'sse',
+  schemaField: 'response_format',
+
+  endpoint: () => '/chat/completions',
+
+  buildPayload(request, { openRouter }) {
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: request.stream ?? false,
+    };
+
+    // Streams only report token usage, which the usage ledger and the
+    // monthly budget rely on, when asked to in a final chunk
+    if (request.stream) {
+      payload.stream_options = { include_usage: true };
+    }
+
+    // Constrained decoding when a structured schema is requested.
+    if (request.responseFormat) {
+      payload.response_format = request.responseFormat;
+
+      // `provider` and `plugins` are OpenRouter-specific extensions. Other
+      // OpenAI-compatible endpoints reject unknown top-level fields (cmdop's
+      // router returns HTTP 422 "Extra inputs are not permitted"), so only send
+      // them to OpenRouter. Everyone else gets a clean OpenAI-shaped payload
+      // with just `response_format`.
+      if (openRouter) {
+        // Route ONLY to providers/models that actually honor the schema. Without
+        // this OpenRouter may silently pick a model that ignores json_schema, the
+        // model returns free text or broken JSON, and downstream parsing degrades
+        // to "commit the raw response" — which is how a bare `{` ends up as the
+        // commit message. require_parameters makes the request fail loudly instead.
+        payload.provider = { require_parameters: true };
+
+        // Server-side repair of imperfect/truncated JSON (missing brace, trailing
+        // comma, markdown fences). Non-streaming only; harmless if unsupported.
+        if (!request.stream) {
+          payload.plugins = [{ id: 'response-healing' }];
+        }
+      }
+    }
+
+    return payload;
+  },
+
+  parseResponse(data, provider) {
+    let message: string | undefined;
+    let finishReason = 'unknown';
+
+    // Format 1: Standard OpenAI/OpenRouter format with choices array
+    if (Array.isArray(data.choices) && data.choices.length > 0) {
+      const choice = data.choices[0];
+      message = choice.message?.content || choice.text;
+      finishReason = choice.finish_reason || 'unknown';
+    }
+    // Format 2: Direct response format (some providers)
+    else if (data.response || data.text || data.content) {
+      message = data.response || data.text || data.content;
+      finishReason = data.finish_reason || 'complete';
+    }
+    // Format 3: Message directly in data
+    else if (data.message) {
+      message = typeof data.message === 'string' ? data.message : data.message.content;
+      finishReason = data.finish_reason || 'complete';
+    }
+
+    if (!message || typeof message !== 'string' || message.trim().length === 0) {
+      throw noMessage(provider);
+    }
+
+    return {
+      message,
+      usage: data.usage
+        ? toUsage(data.usage.prompt_tokens, data.usage.completion_tokens, data.usage.total_tokens)
+        : undefined,
+      model: data.model || 'unknown',
+      finishReason,
+    };
+  },
+
+  parseStreamEvent(event) {
+    const choice = Array.isArray(event.choices) ? event.choices[0] : undefined;
+    return {
+      delta: choice?.delta?.content ?? choice?.text,
+      finishReason: choice?.finish_reason ?? undefined,
+      model: event.model,
+      usage: event.usage
+        ? toUsage(event.usage.prompt_tokens, event.usage.completion_tokens, event.usage.total_tokens)
+        : undefined,
+    };
+  },
+
+  errorDetail: extractErrorDetail,
+};
+
+/**
+ * Ollama's native `/api/chat`. It takes the bare JSON schema in `format` and
+ * reports token counts as `prompt_eval_count` / `eval_count` on the final
+ * message; streams are newline-delimited JSON.
+ */
+const ollamaAdapter: ProviderAdapter = {
+  protocol: 'ollama',
+  authHeader: 'Authorization',
+  headers: {},
+  streamFormat: 'ndjson',
+  schemaField: 'format',
+
+  endpoint: () => '/api/chat',
+
+  buildPayload(request) {
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      stream: request.stream ?? false,
+      options: { temperature: request.temperature, num_predict: request.maxTokens },
+    };
+
+    if (request.responseFormat) {
+      payload.format = jsonSchemaOf(request)?.schema ?? 'json';
+    }
+
+    return payload;
+  },
+
+  parseResponse(data, provider) {
+    const message = data.message?.content;
+    if (typeof message !== 'string' || message.trim().length === 0) {
+      throw noMessage(provider);
+    }
+
+    return {
+      message,
+      usage: ollamaUsage(data),
+      model: data.model || 'unknown',
+      finishReason: data.done_reason || 'complete',
+    };
+  },
+
+  parseStreamEvent(event) {
+    return {
+      delta: event.message?.content,
+      finishReason: event.done_reason,
+      model: event.model,
+      usage: event.done ? ollamaUsage(event) : undefined,
+    };
+  },
+
+  errorDetail: extractErrorDetail,
+};
+
+function ollamaUsage(data: any): TokenUsage | undefined {
+  if (typeof data?.prompt_eval_count !== 'number' && typeof data?.eval_count !== 'number') {
+    return undefined;
+  }
+  return toUsage(data.prompt_eval_count, data.eval_count);
+}
+
+/**
+ * Anthropic Messages API. System prompts travel in `system`, and structured
+ * output is a forced call of a single tool whose input schema is the
+ * requested JSON schema; the tool input is returned as the message text.
+ */
+const anthropicAdapter: ProviderAdapter = {
+  protocol: 'anthropic',
+  authHeader: 'x-api-key',
+  headers: { 'anthropic-version': ANTHROPIC_VERSION },
+  streamFormat: 'sse',
+  schemaField: 'tools',
+
+  endpoint: () => '/messages',
+
+  buildPayload(request) {
+    const { system, conversation } = splitSystem(request.messages);
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: conversation.map(m => ({ role: m.role, content: m.content })),
+      stream: request.stream ?? false,
+    };
+
+    if (system) {
+      payload.system = system;
+    }
+
+    const jsonSchema = jsonSchemaOf(request);
+    if (jsonSchema?.schema) {
+      const name = jsonSchema.name || 'structured_output';
+      payload.tools = [{ name, description: 'Return the result in this structure.', input_schema: jsonSchema.schema }];
+      payload.tool_choice = { type: 'tool', name };
+    }
+
+    return payload;
+  },
+
+  parseResponse(data, provider) {
+    const blocks: any[] = Array.isArray(data.content) ? data.content : [];
+    const toolUse = blocks.find(block => block?.type === 'tool_use');
+    const message = toolUse
+      ? JSON.stringify(toolUse.input ?? {})
+      : blocks.filter(block => block?.type === 'text').map(block => block.text ?? '').join('');
+
+    if (!message.trim()) {
+      throw noMessage(provider);
+    }
+
+    return {
+      message,
+      usage: data.usage ? toUsage(data.usage.input_tokens, data.usage.output_tokens) : undefined,
+      model: data.model || 'unknown',
+      finishReason: data.stop_reason || 'unknown',
+    };
+  },
+
+  // message_start carries the model and input tokens, content_block_delta
+  // the text (or tool input JSON), message_delta the stop reason and output
+  // tokens
+  parseStreamEvent(event) {
+    switch (event.type) {
+      case 'message_start':
+        return {
+          model: event.message?.model,
+          usage: event.message?.usage ? { promptTokens: event.message.usage.input_tokens ?? 0 } : undefined,
+        };
+      case 'content_block_delta':
+        return { delta: event.delta?.text ?? event.delta?.partial_json };
+      case 'message_delta':
+        return {
+          finishReason: event.delta?.stop_reason ?? undefined,
+          usage: event.usage ? { completionTokens: event.usage.output_tokens ?? 0 } : undefined,
+        };
+      default:
+        return {};
+    }
+  },
+
+  errorDetail: extractErrorDetail,
+};
+
+/**
+ * Google Gemini `generateContent`. Structured output uses `responseSchema`,
+ * which takes an OpenAPI subset of JSON Schema.
+ */
+const geminiAdapter: ProviderAdapter = {
+  protocol: 'gemini',
+  authHeader: 'x-goog-api-key',
+  headers: {},
+  streamFormat: 'sse',
+  schemaField: 'responseSchema',
+
+  endpoint(request) {
+    const model = encodeURIComponent(request.model.replace(/^models\//, ''));
+    return request.stream
+      ? `/models/${model}:streamGenerateContent?alt=sse`
+      : `/models/${model}:generateContent`;
+  },
+
+  buildPayload(request) {
+    const { system, conversation } = splitSystem(request.messages);
+    const generationConfig: Record<string, unknown> = {
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+
+    const jsonSchema = jsonSchemaOf(request);
+    if (request.responseFormat) {
+      generationConfig.responseMimeType = 'application/json';
+      if (jsonSchema?.schema) {
+        generationConfig.responseSchema = toGeminiSchema(jsonSchema.schema);
+      }
+    }
+
+    const payload: Record<string, unknown> = {
+      contents: conversation.map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+      generationConfig,
+    };
+
+    if (system) {
+      payload.systemInstruction = { parts: [{ text: system }] };
+    }
+
+    return payload;
+  },
+
+  parseResponse(data, provider) {
+    const event = geminiEvent(data);
+    const candidate = Array.isArray(event.candidates) ? event.candidates[0] : undefined;
+    const message = geminiText(candidate);
+
+    if (!message.trim()) {
+      const blocked = event.promptFeedback?.blockReason;
+      if (blocked) {
+        throw new ApiError(`${provider} API error: prompt blocked (${blocked})`);
+      }
+      throw noMessage(provider);
+    }
+
+    return {
+      message,
+      usage: geminiUsage(event),
+      model: event.modelVersion || 'unknown',
+      finishReason: candidate?.finishReason || 'unknown',
+    };
+  },
+
+  parseStreamEvent(event) {
+    const candidate = Array.isArray(event.candidates) ? event.candidates[0] : undefined;
+    return {
+      delta: geminiText(candidate),
+      finishReason: candidate?.finishReason,
+      model: event.modelVersion,
+      usage: geminiUsage(event),
+    };
+  },
+
+  errorDetail(data) {
+    // Errors of streamed requests arrive as a one-element array
+    return extractErrorDetail(Array.isArray(data) ? data[0] : data);
+  },
+};
+
+function geminiEvent(data: any): any {
+  return Array.isArray(data) ? (data[0] ?? {}) : data;
+}
+
+function geminiText(candidate: any): string {
+  const parts: any[] = Array.isArray(candidate?.content?.parts) ? candidate.content.parts : [];
+  return parts.map(part => (typeof part?.text === 'string' ? part.text : '')).join('');
+}
+
+function geminiUsage(event: any): TokenUsage | undefined {
+  const usage = event.usageMetadata;
+  return usage ? toUsage(usage.promptTokenCount, usage.candidatesTokenCount, usage.totalTokenCount) : undefined;
+}
+
+/**
+ * Reduce a JSON schema to what Gemini's `responseSchema` accepts: it rejects
+ * `additionalProperties` and other keywords outside its OpenAPI subset
+ */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties' || key === '$schema' || key === 'strict') {
+      continue;
+    }
+    if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else {
+      result[key] = toGeminiSchema(value);
+    }
+  }
+  return result;
+}
+
+const ADAPTERS: Readonly<Record<ProviderProtocol, ProviderAdapter>> = {
+  openai: openAIAdapter,
+  ollama: ollamaAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+};
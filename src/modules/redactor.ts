@@ -0,0 +1,230 @@
+import { ConfigError, GitDiff, GitFile, GitLine, RedactionSettings, SecretFinding } from '../types/index.js';
+import { matchSecrets } from './secret-rules.js';
+
+/** What a redacted value looks like in a prompt: `<REDACTED:aws-key#1>` */
+export const PLACEHOLDER_PATTERN = /<REDACTED:[\w-]+#\d+>/g;
+
+// Placeholder kinds for scanner rule ids, Gitleaks' and the built-in ones
+const SECRET_LABELS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/private-key/, 'private-key'],
+  [/^aws/, 'aws-key'],
+  [/^(?:gcp|google)/, 'gcp-key'],
+  [/^github/, 'github-token'],
+  [/^slack/, 'slack-token'],
+  [/^stripe/, 'stripe-key'],
+  [/^openai/, 'openai-key'],
+];
+
+const EMAIL_PATTERN = /\b[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g;
+const IPV4_PATTERN = /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w.])/g;
+const IPV6_PATTERN = /(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])|(?<![\w:])(?:[0-9a-f]{1,4}:){2,6}(?::[0-9a-f]{1,4}){1,5}(?![\w:])/gi;
+
+// Addresses that identify nobody
+const NEUTRAL_IPS = new Set(['0.0.0.0', '127.0.0.1', '255.255.255.255']);
+
+const PEM_BEGIN = /-----BEGIN[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----/;
+const PEM_END = /-----END[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----/;
+
+// Characters a token found by position may span
+const TOKEN_CHAR = /[\w+/=.~-]/;
+
+/**
+ * Replaces secrets, email addresses, IP addresses and the user's own
+ * patterns in a diff with placeholders before it is put into a prompt. Each
+ * distinct value gets one numbered placeholder per kind, in order of first
+ * appearance, so the same diff always redacts to the same text: cache keys
+ * stay stable, and a value changed from one line to the next stays visible
+ * as `#1` becoming `#2`.
+ */
+export class Redactor {
+  private readonly placeholders = new Map<string, string>();
+  private readonly counts = new Map<string, number>();
+  private readonly patterns: Array<{ label: string; pattern: RegExp }> = [];
+
+  constructor(private readonly settings: RedactionSettings = {}) {
+    for (const [name, source] of Object.entries(settings.patterns ?? {})) {
+      const label = name.replace(/[^\w-]+/g, '-');
+      try {
+        this.patterns.push({ label, pattern: new RegExp(source, 'g') });
+      } catch (error) {
+        throw new ConfigError(
+          `Invalid pattern for 'preferences.redaction.patterns.${name}': ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Number of distinct values redacted so far, by kind
+   */
+  get summary(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  /**
+   * Redact every line of a diff. `findings` are scanner results: the token
+   * at each position is redacted even when no built-in rule recognizes it.
+   */
+  redactDiff(diff: GitDiff, findings: readonly SecretFinding[] = []): GitDiff {
+    if (this.settings.enabled === false) {
+      return diff;
+    }
+
+    return {
+      ...diff,
+      files: diff.files.map(file => this.redactFile(file, findings)),
+    };
+  }
+
+  /**
+   * Redact every line of one file of a diff; `findings` may cover other
+   * files as well
+   */
+  redactFile(file: GitFile, findings: readonly SecretFinding[] = []): GitFile {
+    if (this.settings.enabled === false) {
+      return file;
+    }
+
+    const flagged = findings.filter(finding => finding.file === file.path);
+    return {
+      ...file,
+      chunks: file.chunks.map(chunk => ({ ...chunk, lines: this.redactLines(chunk.lines, file.path, flagged) })),
+    };
+  }
+
+  /**
+   * Redact the lines of one hunk of `path`. Private key blocks are collapsed
+   * into their placeholder.
+   */
+  redactLines(lines: readonly GitLine[], path: string, findings: readonly SecretFinding[] = []): GitLine[] {
+    if (this.settings.enabled === false) {
+      return [...lines];
+    }
+
+    const redacted: GitLine[] = [];
+    let inPrivateKey = false;
+
+    for (const line of lines) {
+      let content = line.content;
+
+      if (inPrivateKey) {
+        const end = content.match(PEM_END);
+        if (!end) {
+          continue; // Key material: drop the line
+        }
+        inPrivateKey = false;
+        content = content.slice((end.index ?? 0) + end[0].length);
+      }
+
+      const begin = content.match(PEM_BEGIN);
+      if (begin) {
+        const start = begin.index ?? 0;
+        const rest = content.slice(start);
+        const end = rest.match(PEM_END);
+        const block = end ? rest.slice(0, (end.index ?? 0) + end[0].length) : rest;
+        inPrivateKey = !end;
+        content = content.slice(0, start) + this.placeholder('private-key', block) + rest.slice(block.length);
+      }
+
+      const positions = line.type !== 'removed' && line.lineNumber !== undefined
+        ? findings.filter(finding => finding.line === line.lineNumber)
+        : [];
+      redacted.push({ ...line, content: this.redactLine(content, path, positions) });
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact one line of text from `path`
+   */
+  redactLine(content: string, path: string, findings: readonly SecretFinding[] = []): string {
+    if (this.settings.enabled === false) {
+      return content;
+    }
+
+    let redacted = content;
+
+    for (const finding of findings) {
+      const token = tokenAt(content, finding.column - 1);
+      if (token) {
+        redacted = redacted.split(token).join(this.placeholder(labelFor(finding.ruleId), token));
+      }
+    }
+
+    for (const { rule, secret } of matchSecrets(redacted, path)) {
+      redacted = redacted.split(secret).join(this.placeholder(labelFor(rule.id), secret));
+    }
+
+    for (const { label, pattern } of this.patterns) {
+      redacted = redacted.replace(pattern, match => (match ? this.placeholder(label, match) : match));
+    }
+
+    if (this.settings.emails !== false) {
+      redacted = redacted.replace(EMAIL_PATTERN, match => this.placeholder('email', match));
+    }
+
+    if (this.settings.ipAddresses !== false) {
+      redacted = redacted
+        .replace(IPV4_PATTERN, match => (NEUTRAL_IPS.has(match) ? match : this.placeholder('ip', match)))
+        .replace(IPV6_PATTERN, match => (/^[\d:]+$/.test(match) ? match : this.placeholder('ip', match)));
+    }
+
+    return redacted;
+  }
+
+  private placeholder(label: string, value: string): string {
+    const key = `${label}\0${value}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      const count = (this.counts.get(label) ?? 0) + 1;
+      this.counts.set(label, count);
+      placeholder = `<REDACTED:${label}#${count}>`;
+      this.placeholders.set(key, placeholder);
+    }
+    return placeholder;
+  }
+}
+
+/**
+ * Remove redaction placeholders from generated text. Models are told not to
+ * quote them, but one must never end up in a commit or a pull request.
+ */
+export function stripPlaceholders(text: string): string {
+  if (!text.match(PLACEHOLDER_PATTERN)) {
+    return text;
+  }
+
+  return text
+    .replace(/(["'`])?<REDACTED:[\w-]+#\d+>\1/g, '')
+    .split('\n')
+    .map(line => line.replace(/(\S)[ \t]{2,}/g, '$1 ').replace(/(\S)[ \t]+([,.;)])/g, '$1$2').replace(/ ?\(\s*\)/g, '').trimEnd())
+    .join('\n');
+}
+
+function labelFor(ruleId: string): string {
+  const lower = ruleId.toLowerCase();
+  return SECRET_LABELS.find(([pattern]) => pattern.test(lower))?.[1] ?? 'secret';
+}
+
+/**
+ * The run of token characters at `index`: scanners report where a secret
+ * starts, not always where it ends
+ */
+function tokenAt(content: string, index: number): string | null {
+  let start = Math.max(0, Math.min(index, content.length - 1));
+  if (!TOKEN_CHAR.test(content[start] ?? '') && TOKEN_CHAR.test(content[start + 1] ?? '')) {
+    start++;
+  }
+
+  let end = start;
+  while (start > 0 && TOKEN_CHAR.test(content[start - 1]!)) {
+    start--;
+  }
+  while (end < content.length && TOKEN_CHAR.test(content[end]!)) {
+    end++;
+  }
+
+  const token = content.slice(start, end);
+  return token.length >= 8 ? token : null;
+}
@@ -0,0 +1,351 @@
+import { promises as fs } from 'fs';
+import { join, posix } from 'path';
+import { globToRegExp } from '../utils/index.js';
+import { gitManager } from './git.js';
+import { logger } from './logger.js';
+
+export type ScopeSource = 'scopeMap' | 'workspaces' | 'cargo' | 'go' | 'nx' | 'codeowners';
+
+/**
+ * The scope inferred for a set of changed files
+ */
+export interface ScopeInference {
+  readonly scope: string; // `api`, or `api,web` when several packages change
+  readonly required: boolean; // Every changed file belongs to one of the packages
+  readonly sources: readonly ScopeSource[];
+}
+
+/**
+ * What a repository declares about its packages, read from its root
+ */
+interface WorkspaceLayout {
+  readonly packages: GlobSet; // npm, pnpm, yarn and lerna workspaces
+  readonly crates: GlobSet; // Cargo workspace members
+  readonly goModules: ReadonlySet<string> | null; // `use` directories of go.work
+  readonly nx: boolean;
+  readonly owners: readonly OwnerRule[]; // CODEOWNERS, in file order
+}
+
+interface OwnerRule {
+  readonly pattern: RegExp;
+  readonly scope: string | null; // The owning team, null when no team owns the path
+}
+
+interface GlobSet {
+  readonly include: readonly RegExp[];
+  readonly exclude: readonly RegExp[];
+}
+
+// Beyond this many packages a scope stops describing the change
+const MAX_SCOPES = 3;
+
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+/**
+ * Infers the Conventional Commits scope from the workspace layout: the
+ * packages the changed files belong to, per npm/pnpm/yarn workspaces,
+ * `lerna.json`, Nx projects, Cargo workspaces and Go modules, with
+ * CODEOWNERS teams as a fallback. `scopeMap` globs take precedence over all
+ * of them.
+ */
+export class ScopeResolver {
+  async resolve(paths: readonly string[], scopeMap: Readonly<Record<string, string>> = {}): Promise<ScopeInference | null> {
+    if (paths.length === 0) {
+      return null;
+    }
+
+    let root: string;
+    try {
+      root = await gitManager.getRepositoryRoot();
+    } catch {
+      root = process.cwd();
+    }
+
+    const layout = await this.loadLayout(root);
+    const overrides = Object.entries(scopeMap).map(([glob, scope]) => ({ pattern: globToRegExp(trimPath(glob)), scope }));
+    // Package lookups per directory, shared by the files of one call
+    const packages = new Map<string, Promise<Scoped | null>>();
+
+    const scopes = new Map<string, ScopeSource>();
+    let unscoped = 0;
+
+    for (const path of paths) {
+      const override = overrides.find(({ pattern }) => matchesPathOrParent(pattern, path));
+      const found: Scoped | null = override
+        ? { scope: override.scope, source: 'scopeMap' }
+        : (await this.findPackage(root, layout, path, packages)) ?? ownerOf(layout, path);
+
+      if (found) {
+        scopes.set(found.scope, found.source);
+      } else {
+        unscoped++;
+      }
+    }
+
+    if (scopes.size === 0 || scopes.size > MAX_SCOPES) {
+      logger.debug('No scope inferred from the workspace layout', { packages: scopes.size });
+      return null;
+    }
+
+    return {
+      scope: [...scopes.keys()].sort().join(','),
+      required: unscoped === 0,
+      sources: [...new Set(scopes.values())],
+    };
+  }
+
+  /**
+   * The nearest package directory above `path`; the repository root itself
+   * is never a package
+   */
+  private async findPackage(
+    root: string,
+    layout: WorkspaceLayout,
+    path: string,
+    cache: Map<string, Promise<Scoped | null>>
+  ): Promise<Scoped | null> {
+    for (let dir = posix.dirname(path); dir !== '.' && dir !== '/'; dir = posix.dirname(dir)) {
+      let found = cache.get(dir);
+      if (!found) {
+        found = this.packageAt(root, layout, dir);
+        cache.set(dir, found);
+      }
+
+      const scoped = await found;
+      if (scoped) {
+        return scoped;
+      }
+    }
+    return null;
+  }
+
+  private async packageAt(root: string, layout: WorkspaceLayout, dir: string): Promise<Scoped | null> {
+    if (matchesGlobSet(layout.packages, dir)) {
+      const manifest = parseJson(await readText(join(root, dir, 'package.json')));
+      if (manifest) {
+        return { scope: packageScope(manifest.name, dir), source: 'workspaces' };
+      }
+    }
+
+    if (matchesGlobSet(layout.crates, dir)) {
+      const manifest = await readText(join(root, dir, 'Cargo.toml'));
+      if (manifest !== null) {
+        return { scope: tomlString(tomlSection(manifest, 'package'), 'name') ?? posix.basename(dir), source: 'cargo' };
+      }
+    }
+
+    if (!layout.goModules || layout.goModules.has(dir)) {
+      const goMod = await readText(join(root, dir, 'go.mod'));
+      if (goMod !== null) {
+        // `example.com/svc/billing/v2` is the billing module
+        const module = goMod.match(/^module\s+(\S+)/m)?.[1] ?? dir;
+        const segments = module.split('/').filter(segment => !/^v\d+$/.test(segment));
+        return { scope: segments.at(-1) ?? posix.basename(dir), source: 'go' };
+      }
+    }
+
+    if (layout.nx) {
+      const project = parseJson(await readText(join(root, dir, 'project.json')));
+      if (project) {
+        return { scope: packageScope(project.name, dir), source: 'nx' };
+      }
+    }
+
+    return null;
+  }
+
+  private async loadLayout(root: string): Promise<WorkspaceLayout> {
+    const read = (path: string): Promise<string | null> => readText(join(root, path));
+    const [packageJson, pnpmWorkspace, lerna, cargo, goWork, nx, codeowners] = await Promise.all([
+      read('package.json'),
+      read('pnpm-workspace.yaml'),
+      read('lerna.json'),
+      read('Cargo.toml'),
+      read('go.work'),
+      read('nx.json'),
+      Promise.all(CODEOWNERS_PATHS.map(read)).then(files => files.find(file => file !== null) ?? null),
+    ]);
+
+    const workspaces = parseJson(packageJson)?.workspaces;
+    const packageGlobs = [
+      ...stringArray(Array.isArray(workspaces) ? workspaces : isRecord(workspaces) ? workspaces.packages : []),
+      ...(pnpmWorkspace ? yamlList(pnpmWorkspace, 'packages') : []),
+      // Lerna defaults to packages/* when the list is omitted
+      ...(lerna !== null ? stringArray(parseJson(lerna)?.packages ?? ['packages/*']) : []),
+    ];
+    const workspace = cargo !== null ? tomlSection(cargo, 'workspace') : '';
+
+    return {
+      packages: globSet(packageGlobs),
+      crates: globSet([
+        ...tomlArray(workspace, 'members'),
+        ...tomlArray(workspace, 'exclude').map(glob => `!${glob}`),
+      ]),
+      goModules: goWork !== null ? new Set(goWorkModules(goWork)) : null,
+      nx: nx !== null,
+      owners: codeowners ? parseCodeowners(codeowners) : [],
+    };
+  }
+}
+
+interface Scoped {
+  readonly scope: string;
+  readonly source: ScopeSource;
+}
+
+/**
+ * CODEOWNERS semantics: the last matching rule wins. Only team owners name
+ * a scope; individual users and emails do not.
+ */
+function ownerOf(layout: WorkspaceLayout, path: string): Scoped | null {
+  for (let i = layout.owners.length - 1; i >= 0; i--) {
+    const rule = layout.owners[i]!;
+    if (matchesPathOrParent(rule.pattern, path)) {
+      return rule.scope ? { scope: rule.scope, source: 'codeowners' } : null;
+    }
+  }
+  return null;
+}
+
+function parseCodeowners(content: string): OwnerRule[] {
+  const rules: OwnerRule[] = [];
+
+  for (const raw of content.split('\n')) {
+    const [pattern, ...owners] = raw.replace(/#.*/, '').trim().split(/\s+/);
+    // Catch-all owners say nothing about what part of the code changed
+    if (!pattern || /^\/?\*{1,2}$/.test(pattern)) {
+      continue;
+    }
+
+    // A pattern without an inner slash matches at any depth, as in .gitignore
+    const path = trimPath(pattern);
+    const anchored = pattern.startsWith('/') || path.includes('/');
+    const team = owners.find(owner => /^@[\w.-]+\/[\w.-]+$/.test(owner));
+    rules.push({
+      pattern: globToRegExp(anchored ? path : `**/${path}`),
+      scope: team ? team.split('/')[1]!.replace(/[-_]team$/i, '') : null,
+    });
+  }
+
+  return rules;
+}
+
+function packageScope(name: unknown, dir: string): string {
+  // `@acme/api` is the api package
+  return typeof name === 'string' && name.trim() ? name.trim().replace(/^@[^/]+\//, '') : posix.basename(dir);
+}
+
+function globSet(globs: readonly string[]): GlobSet {
+  const compile = (list: string[]): RegExp[] => list.map(glob => globToRegExp(trimPath(glob)));
+  return {
+    include: compile(globs.filter(glob => !glob.startsWith('!'))),
+    exclude: compile(globs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1))),
+  };
+}
+
+function matchesGlobSet(set: GlobSet, dir: string): boolean {
+  return set.include.some(pattern => pattern.test(dir)) && !set.exclude.some(pattern => pattern.test(dir));
+}
+
+/**
+ * Whether `pattern` matches the path or one of its directories, so that a
+ * directory glob covers the files inside it
+ */
+function matchesPathOrParent(pattern: RegExp, path: string): boolean {
+  for (let current = path; current !== '.' && current !== '/'; current = posix.dirname(current)) {
+    if (pattern.test(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function trimPath(glob: string): string {
+  return glob.trim().replace(/^\.?\//, '').replace(/\/+$/, '');
+}
+
+function goWorkModules(content: string): string[] {
+  const block = content.match(/^use\s*\(([\s\S]*?)\)/m)?.[1] ?? '';
+  const single = [...content.matchAll(/^use\s+([^\s(]+)/gm)].map(match => match[1]!);
+
+  return [...block.split('\n'), ...single]
+    .map(line => trimPath(line.replace(/\/\/.*/, '')))
+    .filter(dir => dir && dir !== '.');
+}
+
+/**
+ * Items of a top-level YAML list, enough for pnpm-workspace.yaml
+ */
+function yamlList(content: string, key: string): string[] {
+  const items: string[] = [];
+  let inList = false;
+
+  for (const line of content.split('\n')) {
+    if (new RegExp(`^${key}\\s*:`).test(line)) {
+      inList = true;
+    } else if (inList) {
+      const item = line.match(/^\s+-\s*(['"]?)(.+?)\1\s*(?:#.*)?$/);
+      if (item) {
+        items.push(item[2]!);
+      } else if (/^\S/.test(line)) {
+        inList = false;
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Body of a TOML table, up to the next table header
+ */
+function tomlSection(content: string, table: string): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => line.trim() === `[${table}]`);
+  if (start < 0) {
+    return '';
+  }
+
+  const end = lines.findIndex((line, i) => i > start && /^\s*\[/.test(line));
+  return lines.slice(start + 1, end < 0 ? undefined : end).join('\n');
+}
+
+function tomlArray(section: string, key: string): string[] {
+  const array = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1] ?? '';
+  return [...array.replace(/#.*/g, '').matchAll(/["']([^"']+)["']/g)].map(match => match[1]!);
+}
+
+function tomlString(section: string, key: string): string | null {
+  return section.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, 'm'))?.[1] ?? null;
+}
+
+function parseJson(content: string | null): Record<string, unknown> | null {
+  if (content === null) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(content);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+// Singleton instance
+export const scopeResolver = new ScopeResolver();
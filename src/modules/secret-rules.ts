@@ -0,0 +1,287 @@
+import { GitDiff } from '../types/index.js';
+
+/**
+ * One detector of the built-in scanner. Rule ids follow Gitleaks, so
+ * `.gitleaksignore` fingerprints work with either engine.
+ */
+export interface SecretRule {
+  readonly id: string;
+  readonly description: string;
+  /** Global pattern; capture group 1 is the secret itself */
+  readonly pattern: RegExp;
+  readonly severity: 'error' | 'warning';
+  /** Minimum Shannon entropy (bits per character) the secret must reach */
+  readonly minEntropy?: number;
+}
+
+/**
+ * A rule hit within one line; `column` is 1-based
+ */
+export interface SecretMatch {
+  readonly rule: SecretRule;
+  readonly secret: string;
+  readonly column: number;
+}
+
+/**
+ * A rule hit on an added line of the staged diff
+ */
+export interface RuleMatch {
+  readonly ruleId: string;
+  readonly description: string;
+  readonly severity: 'error' | 'warning';
+  readonly file: string;
+  readonly line: number;
+  readonly column: number;
+  readonly secret: string;
+  readonly match: string;
+}
+
+export const BUILTIN_RULES: readonly SecretRule[] = [
+  {
+    id: 'aws-access-token',
+    description: 'AWS access key ID',
+    pattern: /\b((?:A3T[A-Z0-9]|AKIA|ASIA|ABIA|ACCA)[A-Z2-7]{16})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*(?:[:=]|=>)\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    severity: 'error',
+  },
+  {
+    id: 'gcp-api-key',
+    description: 'Google Cloud API key',
+    pattern: /\b(AIza[\w-]{35})(?![\w-])/g,
+    severity: 'error',
+  },
+  {
+    id: 'github-pat',
+    description: 'GitHub personal access token',
+    pattern: /\b(ghp_[0-9a-zA-Z]{36})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'github-fine-grained-pat',
+    description: 'GitHub fine-grained personal access token',
+    pattern: /\b(github_pat_\w{82})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'github-oauth',
+    description: 'GitHub OAuth access token',
+    pattern: /\b(gho_[0-9a-zA-Z]{36})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'github-app-token',
+    description: 'GitHub App token',
+    pattern: /\b((?:ghu|ghs)_[0-9a-zA-Z]{36})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'slack-bot-token',
+    description: 'Slack bot token',
+    pattern: /\b(xoxb-[0-9]{10,13}-[0-9]{10,13}[a-zA-Z0-9-]*)/g,
+    severity: 'error',
+  },
+  {
+    id: 'slack-user-token',
+    description: 'Slack user token',
+    pattern: /\b(xox[pe](?:-[0-9]{10,13}){3}-[a-zA-Z0-9-]{28,34})/g,
+    severity: 'error',
+  },
+  {
+    id: 'slack-webhook-url',
+    description: 'Slack incoming webhook URL',
+    pattern: /(https?:\/\/hooks\.slack\.com\/(?:services|workflows|triggers)\/[A-Za-z0-9+/]{43,56})/g,
+    severity: 'error',
+  },
+  {
+    id: 'stripe-access-token',
+    description: 'Stripe API key',
+    pattern: /\b((?:sk|rk)_(?:test|live|prod)_[a-zA-Z0-9]{10,99})\b/g,
+    severity: 'error',
+  },
+  {
+    id: 'openai-api-key',
+    description: 'OpenAI API key',
+    pattern: /\b(sk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,74}T3BlbkFJ[A-Za-z0-9_-]{20,74})(?![\w-])/g,
+    severity: 'error',
+  },
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /(-----BEGIN[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----)/g,
+    severity: 'error',
+  },
+];
+
+/**
+ * Values assigned to secret-looking names. Only reported when random enough
+ * to be a real credential rather than a variable name or a placeholder.
+ */
+export const GENERIC_RULE: SecretRule = {
+  id: 'generic-api-key',
+  description: 'Generic API key or secret',
+  pattern:
+    /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|auth[_-]?key|credential|access[_-]?key)[\w.-]{0,20}["']?\s*(?:=|:|:=|=>)\s*["'`]?([\w.=+/~@$%^&*!-]{10,150})/gi,
+  severity: 'warning',
+  minEntropy: 3.5,
+};
+
+/**
+ * Long quoted strings that look random whatever they are assigned to
+ */
+export const ENTROPY_RULE: SecretRule = {
+  id: 'high-entropy-string',
+  description: 'High-entropy string, possibly a secret',
+  pattern: /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/g,
+  severity: 'warning',
+  minEntropy: 4.5,
+};
+
+// Files full of hashes and checksums that are not secrets; the named
+// rules still apply to them, only the entropy-based ones are skipped
+const ENTROPY_EXEMPT_PATHS = [
+  /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/,
+  /(?:^|\/)(?:Cargo\.lock|go\.sum|poetry\.lock|Pipfile\.lock|composer\.lock|Gemfile\.lock)$/,
+  /\.(?:min\.js|map|svg)$/,
+];
+
+const PLACEHOLDER_VALUE = /example|placeholder|changeme|dummy|redacted|x{4,}|\*{3,}|<[^>]*>|\$\{|\{\{|process\.env|os\.environ/i;
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Read `.gitleaksignore` content into fingerprints of the form
+ * `file:rule-id:line`. Gitleaks also writes `commit:file:rule-id:line` for
+ * history scans; the commit is dropped since staged changes have none.
+ */
+export function parseGitleaksIgnore(content: string): Set<string> {
+  const fingerprints = new Set<string>();
+
+  for (const raw of content.split('\n')) {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith('#')) {
+      continue;
+    }
+
+    const parts = entry.split(':');
+    if (parts.length >= 4 && /^[0-9a-f]{7,40}$/i.test(parts[0]!)) {
+      parts.shift();
+    }
+    fingerprints.add(parts.join(':'));
+  }
+
+  return fingerprints;
+}
+
+/**
+ * The `.gitleaksignore` entry that suppresses a finding
+ */
+export function fingerprintOf(file: string, ruleId: string, line: number): string {
+  return `${file}:${ruleId}:${line}`;
+}
+
+/**
+ * Run the built-in rules over the added lines of a diff. Lines carrying a
+ * `gitleaks:allow` comment and findings listed in `ignored` are skipped, as
+ * Gitleaks does.
+ */
+export function detectSecrets(diff: GitDiff, ignored: ReadonlySet<string> = new Set()): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const file of diff.files) {
+    if (file.isBinary || file.status === 'deleted') {
+      continue;
+    }
+
+    for (const chunk of file.chunks) {
+      for (const line of chunk.lines) {
+        if (line.type !== 'added' || line.lineNumber === undefined || line.content.includes('gitleaks:allow')) {
+          continue;
+        }
+
+        for (const { rule, secret, column } of matchSecrets(line.content, file.path)) {
+          if (ignored.has(fingerprintOf(file.path, rule.id, line.lineNumber))) {
+            continue;
+          }
+          matches.push({
+            ruleId: rule.id,
+            description: rule.description,
+            severity: rule.severity,
+            file: file.path,
+            line: line.lineNumber,
+            column,
+            secret,
+            match: line.content.trim(),
+          });
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Secrets in one line of `path`. Entropy-based rules only report when no
+ * named rule matched, and at most once per line.
+ */
+export function matchSecrets(content: string, path: string): SecretMatch[] {
+  const named = matchLine(BUILTIN_RULES, content);
+  if (named.length > 0 || ENTROPY_EXEMPT_PATHS.some(pattern => pattern.test(path))) {
+    return named;
+  }
+  return matchLine([GENERIC_RULE, ENTROPY_RULE], content).slice(0, 1);
+}
+
+function matchLine(rules: readonly SecretRule[], content: string): SecretMatch[] {
+  const found: SecretMatch[] = [];
+
+  for (const rule of rules) {
+    for (const match of content.matchAll(rule.pattern)) {
+      const secret = match[1];
+      if (!secret) {
+        continue;
+      }
+      if (rule.minEntropy !== undefined && !looksRandom(secret, rule.minEntropy)) {
+        continue;
+      }
+      found.push({ rule, secret, column: (match.index ?? 0) + match[0].indexOf(secret) + 1 });
+    }
+  }
+
+  return found;
+}
+
+function looksRandom(value: string, minEntropy: number): boolean {
+  return (
+    !PLACEHOLDER_VALUE.test(value) &&
+    !/^sha(?:1|256|384|512)-/.test(value) && // Subresource integrity hashes
+    /[A-Za-z]/.test(value) &&
+    /\d/.test(value) &&
+    shannonEntropy(value) >= minEntropy
+  );
+}
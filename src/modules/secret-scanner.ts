@@ -1,6 +1,9 @@
 import { execSync } from 'child_process';
 import { existsSync, readFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
+import { GitDiff } from '../types/index.js';
+import { gitManager } from './git.js';
+import { detectSecrets, fingerprintOf, parseGitleaksIgnore } from './secret-rules.js';
 import { logger } from './logger.js';
 
 /**
@@ -36,7 +39,7 @@ export interface DetectedSecret {
   file: string;
   /** Line number in file */
   line: number;
-  /** Column number in line */
+  /** Column where the secret starts */
   column: number;
   /** Human-readable message describing the issue */
   message: string;
@@ -46,8 +49,21 @@ export interface DetectedSecret {
   severity: 'error' | 'warning';
   /** Matched secret text (redacted by Gitleaks) */
   data: string;
+  /** Entry that suppresses this finding in .gitleaksignore */
+  fingerprint: string;
 }
 
+/**
+ * Which scanner produced a result: Gitleaks when its binary is installed,
+ * otherwise the built-in rules of secret-rules.ts
+ */
+export type ScanEngine = 'gitleaks' | 'builtin';
+
+export const SCAN_ENGINE_NAMES: Record<ScanEngine, string> = {
+  gitleaks: 'Gitleaks',
+  builtin: 'built-in rules',
+};
+
 /**
  * Scan result summary
  */
@@ -62,10 +78,12 @@ export interface ScanResult {
   filesScanned: number;
   /** Files with issues */
   filesWithIssues: number;
+  /** Scanner that ran */
+  engine: ScanEngine;
 }
 
 /**
- * Secret scanner using Gitleaks engine
+ * Secret scanner using Gitleaks engine, with built-in rules as fallback
  * Detects API keys, passwords, tokens and other secrets in staged changes
  */
 export class SecretScanner {
@@ -77,8 +95,17 @@ export class SecretScanner {
   }
 
   /**
-   * Scan staged changes for secrets using Gitleaks
+   * Engine scanStagedChanges will use
+   */
+  getEngine(): ScanEngine {
+    return existsSync(this.gitleaksPath) ? 'gitleaks' : 'builtin';
+  }
+
+  /**
+   * Scan staged changes for secrets using Gitleaks, or the built-in rules
+   * when the Gitleaks binary is not installed in the current project
    *
+   * @param diff - Staged diff to scan with the built-in rules, read from git when omitted
    * @returns Scan results with detected secrets
    *
    * @example
@@ -91,14 +118,14 @@ export class SecretScanner {
    * }
    * ```
    */
-  async scanStagedChanges(): Promise<ScanResult> {
+  async scanStagedChanges(diff?: GitDiff): Promise<ScanResult> {
     const reportPath = join(process.cwd(), '.gitleaks-report.json');
 
     try {
       // Check if gitleaks is installed
-      if (!existsSync(this.gitleaksPath)) {
-        logger.debug('Gitleaks not found, skipping scan');
-        return this.emptyResult();
+      if (this.getEngine() === 'builtin') {
+        logger.debug('Gitleaks not found, scanning with built-in rules');
+        return await this.scanWithBuiltinRules(diff ?? (await gitManager.getStagedDiff()));
       }
 
       logger.debug('Starting Gitleaks scan on staged changes');
@@ -124,7 +151,7 @@ export class SecretScanner {
       // Read and parse the report
       if (!existsSync(reportPath)) {
         logger.debug('No Gitleaks report generated');
-        return this.emptyResult();
+        return this.emptyResult('gitleaks');
       }
 
       const reportContent = readFileSync(reportPath, 'utf-8');
@@ -136,32 +163,73 @@ export class SecretScanner {
       // Convert Gitleaks findings to our format
       const secrets = this.convertFindings(findings);
 
-      const criticalSecrets = secrets.filter(s => s.severity === 'error');
-      const warnings = secrets.filter(s => s.severity === 'warning');
-
-      // Count unique files
-      const filesWithIssues = new Set(secrets.map(s => s.file)).size;
-
-      logger.debug('Gitleaks scan completed', {
-        totalSecrets: secrets.length,
-        critical: criticalSecrets.length,
-        warnings: warnings.length,
-        filesWithIssues
-      });
-
-      return {
-        secrets,
-        criticalSecrets,
-        warnings,
-        filesScanned: filesWithIssues, // Gitleaks doesn't report total files
-        filesWithIssues
-      };
+      // Gitleaks doesn't report total files
+      return this.summarize(secrets, new Set(secrets.map(s => s.file)).size, 'gitleaks');
     } catch (error) {
-      logger.debug('Gitleaks scan failed', error);
+      logger.debug('Secret scan failed', error);
       throw error;
     }
   }
 
+  /**
+   * Scan the added lines of a diff with the built-in rules, honoring the
+   * repository's .gitleaksignore
+   */
+  private async scanWithBuiltinRules(diff: GitDiff): Promise<ScanResult> {
+    let root = process.cwd();
+    try {
+      root = await gitManager.getRepositoryRoot();
+    } catch {
+      // Not in a repository: diff paths are relative to the working directory then
+    }
+
+    const ignorePath = join(root, '.gitleaksignore');
+    const ignored = existsSync(ignorePath)
+      ? parseGitleaksIgnore(readFileSync(ignorePath, 'utf-8'))
+      : new Set<string>();
+
+    const secrets: DetectedSecret[] = detectSecrets(diff, ignored).map(match => ({
+      file: match.file,
+      line: match.line,
+      column: match.column,
+      message: match.description,
+      ruleId: match.ruleId,
+      severity: match.severity,
+      data: this.maskSecret(match.secret, match.match),
+      fingerprint: fingerprintOf(match.file, match.ruleId, match.line)
+    }));
+
+    return this.summarize(secrets, diff.files.length, 'builtin');
+  }
+
+  /**
+   * Split findings by severity
+   */
+  private summarize(secrets: DetectedSecret[], filesScanned: number, engine: ScanEngine): ScanResult {
+    const criticalSecrets = secrets.filter(s => s.severity === 'error');
+    const warnings = secrets.filter(s => s.severity === 'warning');
+
+    // Count unique files
+    const filesWithIssues = new Set(secrets.map(s => s.file)).size;
+
+    logger.debug('Secret scan completed', {
+      engine,
+      totalSecrets: secrets.length,
+      critical: criticalSecrets.length,
+      warnings: warnings.length,
+      filesWithIssues
+    });
+
+    return {
+      secrets,
+      criticalSecrets,
+      warnings,
+      filesScanned,
+      filesWithIssues,
+      engine
+    };
+  }
+
   /**
    * Convert Gitleaks findings to DetectedSecret format
    */
@@ -169,11 +237,13 @@ export class SecretScanner {
     return findings.map(finding => ({
       file: finding.File,
       line: finding.StartLine,
-      column: finding.StartColumn,
+      // StartColumn is where the rule's match starts; point at the secret itself
+      column: finding.StartColumn + Math.max(0, finding.Match.indexOf(finding.Secret)),
       message: finding.Description,
       ruleId: finding.RuleID,
       severity: this.getSeverity(finding.RuleID),
-      data: this.maskSecret(finding.Secret, finding.Match)
+      data: this.maskSecret(finding.Secret, finding.Match),
+      fingerprint: finding.Fingerprint
     }));
   }
 
@@ -221,13 +291,14 @@ export class SecretScanner {
   /**
    * Return empty scan result
    */
-  private emptyResult(): ScanResult {
+  private emptyResult(engine: ScanEngine): ScanResult {
     return {
       secrets: [],
       criticalSecrets: [],
       warnings: [],
       filesScanned: 0,
-      filesWithIssues: 0
+      filesWithIssues: 0,
+      engine
     };
   }
 }
@@ -0,0 +1,400 @@
+import { Readable } from 'stream';
+import {
+  BaseError,
+  CancelledError,
+  CliOptions,
+  CommitResult,
+  GitError,
+} from '../types/index.js';
+import { isValidCommitType } from '../utils/index.js';
+import { coreOrchestrator } from './core.js';
+import { configManager } from './config.js';
+import { apiManager } from './api.js';
+import { gitManager } from './git.js';
+import { secretScanner } from './secret-scanner.js';
+import { resolveProtocol } from './provider-adapters.js';
+import { ProgressEvent, logger, setProgressReporter } from './logger.js';
+
+type RpcId = number | string;
+
+interface RpcMessage {
+  readonly jsonrpc?: string;
+  readonly id?: RpcId | null;
+  readonly method?: string;
+  readonly params?: unknown;
+}
+
+interface RpcErrorObject {
+  readonly code: number;
+  readonly message: string;
+  readonly data?: unknown;
+}
+
+/** JSON-RPC 2.0 error codes, plus the two LSP ones editors already handle */
+export const RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  REQUEST_CANCELLED: -32800,
+  REQUEST_FAILED: -32803,
+} as const;
+
+export const SERVER_METHODS = [
+  'generateCommitMessage',
+  'regenerate',
+  'listProviders',
+  'scanSecrets',
+  'getStagedSummary',
+] as const;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Splits a byte stream into message bodies framed the LSP way: a
+ * `Content-Length` header, a blank line, then exactly that many bytes of JSON.
+ */
+export class FrameDecoder {
+  private buffer = Buffer.alloc(0);
+
+  /**
+   * Add received bytes; returns the bodies they complete, in order
+   */
+  push(chunk: Buffer | string): string[] {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+    const bodies: string[] = [];
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) {
+        return bodies;
+      }
+
+      const length = this.buffer.subarray(0, headerEnd).toString('ascii').match(/^content-length:\s*(\d+)\s*$/im);
+      if (!length) {
+        // Not a header we understand: drop it rather than stall the stream
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (this.buffer.length < bodyEnd) {
+        return bodies;
+      }
+
+      bodies.push(this.buffer.subarray(bodyStart, bodyEnd).toString('utf8'));
+      this.buffer = this.buffer.subarray(bodyEnd);
+    }
+  }
+}
+
+/**
+ * Frame a message for the wire, see FrameDecoder
+ */
+export function encodeFrame(message: unknown): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`;
+}
+
+/**
+ * Long-lived JSON-RPC server for editor integrations (`orc serve --stdio`).
+ * Configuration, API clients and tokenizer encoders are loaded once and
+ * shared by every request. Requests run one at a time, in order; spinner
+ * output becomes `$/progress` notifications carrying the request id as
+ * token, and `$/cancelRequest` aborts the request's API calls through the
+ * ApiManager queue.
+ */
+export class EditorServer {
+  private queue: Promise<void> = Promise.resolve();
+  private readonly pending = new Set<RpcId>();
+  private readonly cancelled = new Set<RpcId>();
+  private active: RpcId | null = null;
+  private initialized?: Promise<void>;
+  private lastOptions?: CliOptions;
+  private stop?: () => void;
+
+  constructor(
+    private readonly version: string,
+    private readonly input: Readable,
+    private readonly write: (data: string) => void
+  ) {}
+
+  /**
+   * Serve until the input ends or the client sends `exit`
+   */
+  listen(): Promise<void> {
+    const decoder = new FrameDecoder();
+
+    return new Promise(resolve => {
+      this.stop = resolve;
+      this.input.on('data', (chunk: Buffer) => {
+        for (const body of decoder.push(chunk)) {
+          this.receive(body);
+        }
+      });
+      this.input.on('end', () => {
+        void this.queue.then(resolve);
+      });
+    });
+  }
+
+  /**
+   * Handle one message body. Requests are queued; notifications that steer
+   * the queue (`$/cancelRequest`, `exit`) act immediately.
+   */
+  receive(body: string): void {
+    let message: RpcMessage;
+    try {
+      message = JSON.parse(body) as RpcMessage;
+    } catch {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+
+    if (typeof message !== 'object' || message === null || typeof message.method !== 'string') {
+      this.send({
+        jsonrpc: '2.0',
+        id: message?.id ?? null,
+        error: { code: RPC_ERRORS.INVALID_REQUEST, message: 'Invalid request' },
+      });
+      return;
+    }
+
+    if (message.method === '$/cancelRequest') {
+      this.cancel((message.params as { id?: RpcId } | undefined)?.id);
+      return;
+    }
+
+    if (message.method === 'exit') {
+      this.stop?.();
+      return;
+    }
+
+    const { id } = message;
+    if (id === undefined || id === null) {
+      // Other notifications (`initialized`, ...) need no answer
+      return;
+    }
+
+    this.pending.add(id);
+    this.queue = this.queue.then(() => this.handle(id, message.method!, message.params));
+  }
+
+  /**
+   * Wait for every queued request to be answered
+   */
+  async drain(): Promise<void> {
+    await this.queue;
+  }
+
+  private cancel(id: RpcId | undefined): void {
+    if (id === undefined || !this.pending.has(id)) {
+      return; // Already answered
+    }
+
+    this.cancelled.add(id);
+    if (id === this.active) {
+      apiManager.cancelPending();
+    }
+  }
+
+  private async handle(id: RpcId, method: string, params: unknown): Promise<void> {
+    if (this.cancelled.has(id)) {
+      this.finish(id);
+      this.send({ jsonrpc: '2.0', id, error: this.toRpcError(new CancelledError('Request cancelled'), id) });
+      return;
+    }
+
+    this.active = id;
+    this.notify('$/progress', { token: id, value: { kind: 'begin', title: method } });
+    setProgressReporter((event: ProgressEvent) => {
+      this.notify('$/progress', {
+        token: id,
+        value: { kind: 'report', message: event.message, ...(event.preview !== undefined ? { preview: event.preview } : {}) },
+      });
+    });
+
+    let response: Record<string, unknown>;
+    try {
+      const result = await this.dispatch(method, params);
+      if (this.cancelled.has(id)) {
+        throw new CancelledError('Request cancelled');
+      }
+      response = { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      logger.debug(`Request ${method} failed`, error instanceof Error ? error.message : error);
+      response = { jsonrpc: '2.0', id, error: this.toRpcError(error, id) };
+    }
+
+    setProgressReporter(null);
+    this.notify('$/progress', { token: id, value: { kind: 'end' } });
+    this.active = null;
+    this.finish(id);
+    this.send(response);
+  }
+
+  private finish(id: RpcId): void {
+    this.pending.delete(id);
+    this.cancelled.delete(id);
+  }
+
+  private async dispatch(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        this.initialized = coreOrchestrator.initialize();
+        await this.initialized;
+        return {
+          serverInfo: { name: 'orcommit', version: this.version },
+          capabilities: { methods: SERVER_METHODS },
+        };
+      case 'shutdown':
+        return null;
+      case 'generateCommitMessage':
+        return this.generate(this.commitOptions(params));
+      case 'regenerate':
+        return this.regenerate(params);
+      case 'listProviders':
+        return this.listProviders();
+      case 'scanSecrets':
+        return secretScanner.scanStagedChanges();
+      case 'getStagedSummary':
+        return this.stagedSummary();
+      default:
+        throw new RpcError(RPC_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${method}`);
+    }
+  }
+
+  /**
+   * Generate without committing. Secret warnings and large staging areas are
+   * reported in the result instead of asked about; critical secrets still
+   * fail the request.
+   */
+  private async generate(options: CliOptions): Promise<CommitResult> {
+    this.initialized ??= coreOrchestrator.initialize();
+    await this.initialized;
+
+    const result = await coreOrchestrator.generateCommit({ ...options, dryRun: true, yes: true, json: true });
+    if (!result) {
+      throw new GitError('No staged changes to commit');
+    }
+
+    this.lastOptions = options;
+    return result;
+  }
+
+  private async regenerate(params: unknown): Promise<CommitResult> {
+    const feedback = (params as { feedback?: unknown } | undefined)?.feedback;
+    if (typeof feedback !== 'string' || !feedback.trim()) {
+      throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'regenerate needs a non-empty "feedback" string');
+    }
+    if (!this.lastOptions) {
+      throw new RpcError(RPC_ERRORS.REQUEST_FAILED, 'Nothing to regenerate: call generateCommitMessage first');
+    }
+
+    return this.generate({ ...this.lastOptions, feedback: feedback.trim() });
+  }
+
+  /**
+   * The commit options an editor may set, checked by type
+   */
+  private commitOptions(params: unknown): CliOptions {
+    if (params === undefined || params === null) {
+      return {};
+    }
+    if (typeof params !== 'object' || Array.isArray(params)) {
+      throw new RpcError(RPC_ERRORS.INVALID_PARAMS, 'Parameters must be an object');
+    }
+
+    const values = params as Record<string, unknown>;
+    const options: Record<string, unknown> = {};
+    const fields: Record<string, 'string' | 'boolean' | 'number'> = {
+      provider: 'string',
+      type: 'string',
+      scope: 'string',
+      context: 'string',
+      breaking: 'boolean',
+      emoji: 'boolean',
+      oneLine: 'boolean',
+      noCache: 'boolean',
+      secretScan: 'boolean',
+      stream: 'boolean',
+      maxFiles: 'number',
+    };
+
+    for (const [name, expected] of Object.entries(fields)) {
+      const value = values[name];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== expected) {
+        throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `"${name}" must be a ${expected}`);
+      }
+      options[name] = value;
+    }
+
+    if (typeof options.type === 'string' && !isValidCommitType(options.type)) {
+      throw new RpcError(RPC_ERRORS.INVALID_PARAMS, `Invalid commit type: ${options.type}`);
+    }
+
+    return options as CliOptions;
+  }
+
+  private async listProviders(): Promise<unknown[]> {
+    const config = await configManager.load();
+
+    return Object.entries(config.providers).map(([name, provider]) => ({
+      name,
+      model: provider.model ?? null,
+      protocol: resolveProtocol(provider),
+      local: provider.type === 'local',
+      hasApiKey: Boolean(provider.apiKey),
+      isDefault: name === config.preferences.defaultProvider,
+    }));
+  }
+
+  private async stagedSummary(): Promise<unknown> {
+    const diff = await gitManager.getStagedDiff();
+    const count = (file: (typeof diff.files)[number], type: 'added' | 'removed'): number =>
+      file.chunks.reduce((sum, chunk) => sum + chunk.lines.filter(line => line.type === type).length, 0);
+
+    return {
+      branch: await gitManager.getCurrentBranch(),
+      files: diff.files.map(file => ({
+        path: file.path,
+        status: file.status,
+        binary: file.isBinary,
+        additions: count(file, 'added'),
+        deletions: count(file, 'removed'),
+      })),
+      totalLines: diff.totalLines,
+      totalSize: diff.totalSize,
+    };
+  }
+
+  private toRpcError(error: unknown, id: RpcId): RpcErrorObject {
+    if (this.cancelled.has(id) || error instanceof CancelledError) {
+      return { code: RPC_ERRORS.REQUEST_CANCELLED, message: 'Request cancelled' };
+    }
+    if (error instanceof RpcError) {
+      return { code: error.code, message: error.message };
+    }
+    if (error instanceof BaseError) {
+      return { code: RPC_ERRORS.REQUEST_FAILED, message: error.message, data: { code: error.code } };
+    }
+    return { code: RPC_ERRORS.INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) };
+  }
+
+  private notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: unknown): void {
+    this.write(encodeFrame(message));
+  }
+}
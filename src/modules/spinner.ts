@@ -4,6 +4,7 @@
 
 import chalk from 'chalk';
 import { getRandomThinkingPhrase } from '../data/thinking-phrases.js';
+import { getProgressReporter } from './logger.js';
 
 // Spinner frames with different styles
 const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
@@ -41,6 +42,9 @@ export class AnimatedSpinner {
   private phraseInterval: number;
   private frames: string[];
   private startTime: number;
+  private preview?: string;
+  private renderedRows = 1;
+  private readonly reporter = getProgressReporter();
 
   constructor(options: SpinnerOptions = {}) {
     this.text = options.text || 'Processing';
@@ -73,6 +77,11 @@ export class AnimatedSpinner {
       return; // Already running
     }
 
+    if (this.reporter) {
+      this.reporter({ kind: 'begin', message: this.text });
+      return;
+    }
+
     // Hide cursor
     process.stdout.write('\x1B[?25l');
 
@@ -97,9 +106,23 @@ export class AnimatedSpinner {
    */
   update(text: string): void {
     this.text = text;
+    if (this.reporter) {
+      this.reporter({ kind: 'report', message: text });
+      return;
+    }
     this.render();
   }
 
+  /**
+   * Show live text (e.g. a streamed commit message) under the spinner line.
+   * The preview replaces the rotating phrase and is picked up by the next
+   * animation frame, so callers may update it on every token.
+   */
+  setPreview(text: string): void {
+    this.preview = text;
+    this.reporter?.({ kind: 'report', message: this.text, preview: text });
+  }
+
   /**
    * Stop the spinner with success
    */
@@ -137,8 +160,13 @@ export class AnimatedSpinner {
       this.intervalId = undefined;
     }
 
-    // Clear line and show final message
-    this.clearLine();
+    if (this.reporter) {
+      this.reporter({ kind: 'end', message: text || this.text });
+      return;
+    }
+
+    // Clear spinner (and any preview) and show final message
+    this.clearRendered();
 
     const finalText = text || this.text;
     const finalColor = color || this.color;
@@ -163,7 +191,17 @@ export class AnimatedSpinner {
     const frame = this.frames[this.frameIndex] || '';
     const colorFn = COLOR_SCHEMES[this.color];
 
-    this.clearLine();
+    this.clearRendered();
+
+    if (this.preview !== undefined) {
+      // Live preview replaces the phrase animation
+      const output = colorFn(`${frame} ${this.text}`) + '\n' + chalk.white(this.fitPreview(this.preview));
+      process.stdout.write(output);
+      this.renderedRows = this.countRows(`${frame} ${this.text}\n${this.fitPreview(this.preview)}`);
+      return;
+    }
+
+    this.renderedRows = 1;
 
     if (this.showPhrase) {
       // Show main text + colorful phrase
@@ -178,6 +216,39 @@ export class AnimatedSpinner {
     }
   }
 
+  /**
+   * Clear everything written by the last render (spinner line plus preview)
+   */
+  private clearRendered(): void {
+    if (this.renderedRows > 1) {
+      // Move to the first rendered row and wipe to the end of the screen
+      process.stdout.write(`\x1b[${this.renderedRows - 1}A\r\x1b[0J`);
+      this.renderedRows = 1;
+      return;
+    }
+    this.clearLine();
+  }
+
+  /**
+   * Keep only the tail of the preview that fits on screen — rows scrolled off
+   * the top cannot be cleared on the next frame.
+   */
+  private fitPreview(text: string): string {
+    const maxRows = Math.max(3, (process.stdout.rows || 24) - 2);
+    const lines = text.split('\n');
+    return lines.slice(-maxRows).join('\n');
+  }
+
+  /**
+   * Terminal rows occupied by text, accounting for soft-wrapped long lines
+   */
+  private countRows(text: string): number {
+    const columns = process.stdout.columns || 80;
+    return text
+      .split('\n')
+      .reduce((rows, line) => rows + Math.max(1, Math.ceil(line.length / columns)), 0);
+  }
+
   /**
    * Clear current line
    */
@@ -0,0 +1,391 @@
+import { GitFileStatus, GitLine } from '../types/index.js';
+import { logger } from './logger.js';
+
+/**
+ * One file section of a staged patch: the `diff --git` header lines and the
+ * hunks below it, kept verbatim so any subset can be re-applied to the index
+ */
+interface PatchFile {
+  path: string;
+  status: GitFileStatus;
+  binary: boolean;
+  header: string[];
+  hunks: string[][];
+}
+
+/**
+ * A commit in a split plan. Units are `path#N` for hunk N (1-based) of a
+ * file, or a bare `path` for files without hunks (binary, mode-only, empty).
+ */
+export interface SplitCommit {
+  message: string;
+  units: string[];
+}
+
+/**
+ * Rewrites what describe() puts into a prompt, such as redaction or privacy
+ * aliases. Lines are passed per hunk, so multi-line values like private keys
+ * are seen whole; `path` also applies to the `[path#N]` labels.
+ */
+export interface DescribeView {
+  path?(path: string): string;
+  header?(header: string, path: string): string;
+  lines?(lines: GitLine[], path: string): GitLine[];
+}
+
+/** The model's answer, shaped by SPLIT_RESPONSE_FORMAT */
+export interface RawSplitPlan {
+  commits: Array<{ commitMessage?: string; files?: Array<{ path?: string; hunks?: number[] }> }>;
+}
+
+export class CommitSplitter {
+  private readonly files: PatchFile[];
+
+  constructor(patch: string) {
+    this.files = parseStagedPatch(patch);
+  }
+
+  get fileCount(): number {
+    return this.files.length;
+  }
+
+  /**
+   * Every file path of the staged change, in patch order
+   */
+  get paths(): string[] {
+    return this.files.map(file => file.path);
+  }
+
+  /**
+   * Every unit of the staged change, in patch order
+   */
+  get units(): string[] {
+    return this.files.flatMap(file => this.unitsOf(file));
+  }
+
+  /**
+   * Render the staged change for the model with every hunk labelled
+   * `[path#N]`. Each hunk shows at most `lineLimit` changed lines; 0 keeps only
+   * the hunk headers, which is the fallback for changes too large to show.
+   */
+  describe(lineLimit: number, changes: 'staged' | 'unstaged' = 'staged', view: DescribeView = {}): string {
+    const sections: string[] = [
+      `Summary: ${this.files.length} files, ${this.units.length} hunks ${changes}\n`,
+    ];
+
+    for (const file of this.files) {
+      const label = view.path ? view.path(file.path) : file.path;
+
+      if (file.hunks.length === 0) {
+        sections.push(
+          `--- ${label} (${file.status})`,
+          `[${label}] ${file.binary ? 'binary file' : 'no line changes (mode or empty file)'}`,
+          ''
+        );
+        continue;
+      }
+
+      sections.push(`--- ${label} (${file.status}, ${file.hunks.length} hunks)`);
+
+      file.hunks.forEach((hunk, index) => {
+        const header = hunk[0] ?? '';
+        sections.push(`[${label}#${index + 1}] ${view.header ? view.header(header, file.path) : header}`);
+
+        const changed = changedLines(hunk);
+        if (lineLimit > 0) {
+          const shown = changed.slice(0, lineLimit);
+          sections.push(
+            ...(view.lines ? view.lines(shown, file.path) : shown).map(line => `${line.type === 'added' ? '+' : '-'}${line.content}`)
+          );
+        }
+        if (changed.length > lineLimit) {
+          sections.push(`… ${changed.length - lineLimit} more changed lines`);
+        }
+      });
+
+      sections.push('');
+    }
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Turn the model's plan into commits that cover every staged unit exactly
+   * once. Unknown paths and hunk numbers are dropped, a unit claimed twice
+   * stays with its first commit, and anything the plan missed is added to the
+   * last commit so no staged change is ever left out.
+   */
+  resolvePlan(raw: RawSplitPlan): SplitCommit[] {
+    const known = new Set(this.units);
+    const claimed = new Set<string>();
+    const commits: SplitCommit[] = [];
+
+    for (const entry of raw.commits ?? []) {
+      const message = (entry.commitMessage ?? '').trim();
+      const units: string[] = [];
+
+      for (const ref of entry.files ?? []) {
+        const file = this.findFile(ref.path ?? '');
+        if (!file) {
+          logger.debug('Split plan references an unknown file', { path: ref.path });
+          continue;
+        }
+
+        const requested = ref.hunks?.length
+          ? ref.hunks.map(hunk => `${file.path}#${hunk}`)
+          : this.unitsOf(file);
+
+        for (const unit of requested) {
+          if (known.has(unit) && !claimed.has(unit)) {
+            claimed.add(unit);
+            units.push(unit);
+          }
+        }
+      }
+
+      if (message && units.length > 0) {
+        commits.push({ message, units: this.sortUnits(units) });
+      } else {
+        // Units of a dropped commit count as missed and go to the last commit
+        units.forEach(unit => claimed.delete(unit));
+      }
+    }
+
+    const last = commits[commits.length - 1];
+    if (!last) {
+      throw new Error('The split plan contains no usable commits');
+    }
+
+    const missed = this.units.filter(unit => !claimed.has(unit));
+    if (missed.length > 0) {
+      logger.warn(`Split plan missed ${missed.length} hunk(s); adding them to the last commit`);
+      last.units = this.sortUnits([...last.units, ...missed]);
+    }
+
+    return commits;
+  }
+
+  /**
+   * Build a patch holding only the given units, ready for `git apply --cached`.
+   * Hunks of a partially committed file still apply later: git locates them
+   * by their context when earlier hunks shift the line numbers.
+   */
+  buildPatch(units: string[]): string {
+    const selected = new Set(units);
+    const sections: string[] = [];
+
+    for (const file of this.files) {
+      if (file.hunks.length === 0) {
+        if (selected.has(file.path)) {
+          sections.push(...file.header);
+        }
+        continue;
+      }
+
+      const hunks = file.hunks.filter((_, index) => selected.has(`${file.path}#${index + 1}`));
+      if (hunks.length > 0) {
+        sections.push(...file.header, ...hunks.flat());
+      }
+    }
+
+    return sections.length > 0 ? `${sections.join('\n')}\n` : '';
+  }
+
+  /**
+   * Summarize units per file for display, e.g. `src/api.ts (hunks 1, 3 of 4)`
+   */
+  summarize(units: string[]): string[] {
+    const selected = new Set(units);
+
+    return this.files.flatMap(file => {
+      const own = this.unitsOf(file).filter(unit => selected.has(unit));
+      if (own.length === 0) {
+        return [];
+      }
+      if (own.length === this.unitsOf(file).length) {
+        return [`${file.path} (${file.status})`];
+      }
+      const numbers = own.map(unit => unit.slice(unit.lastIndexOf('#') + 1));
+      return [`${file.path} (hunks ${numbers.join(', ')} of ${file.hunks.length})`];
+    });
+  }
+
+  /**
+   * Human-readable label for a single unit
+   */
+  describeUnit(unit: string): string {
+    const file = this.files.find(candidate => this.unitsOf(candidate).includes(unit));
+    if (!file || file.hunks.length === 0) {
+      return unit;
+    }
+    const index = Number(unit.slice(unit.lastIndexOf('#') + 1)) - 1;
+    const context = file.hunks[index]?.[0]?.replace(/^@@[^@]*@@\s?/, '') ?? '';
+    return context ? `${unit} ${context}` : unit;
+  }
+
+  private unitsOf(file: PatchFile): string[] {
+    return file.hunks.length === 0
+      ? [file.path]
+      : file.hunks.map((_, index) => `${file.path}#${index + 1}`);
+  }
+
+  private findFile(path: string): PatchFile | undefined {
+    const normalized = path.trim().replace(/^\.\//, '').replace(/^[ab]\//, '');
+    return this.files.find(file => file.path === path.trim())
+      ?? this.files.find(file => file.path === normalized);
+  }
+
+  /**
+   * Keep units in patch order so patches and summaries read top to bottom
+   */
+  private sortUnits(units: string[]): string[] {
+    const order = this.units;
+    return [...units].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  }
+}
+
+/**
+ * The added and removed lines of a hunk. Added lines carry their line number
+ * in the new file, which is where secret scanners report findings.
+ */
+function changedLines(hunk: string[]): GitLine[] {
+  let newLine = Number(/^@@ -\d+(?:,\d+)? \+(\d+)/.exec(hunk[0] ?? '')?.[1] ?? 0);
+  const changed: GitLine[] = [];
+
+  for (const line of hunk.slice(1)) {
+    if (line.startsWith('+')) {
+      changed.push({ type: 'added', content: line.slice(1), lineNumber: newLine++ });
+    } else if (line.startsWith('-')) {
+      changed.push({ type: 'removed', content: line.slice(1) });
+    } else if (!line.startsWith('\\')) {
+      newLine++; // Context line
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Parse `git diff --cached --binary --no-renames` output into file sections
+ */
+function parseStagedPatch(patch: string): PatchFile[] {
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+
+  const lines = patch.split('\n');
+  // The patch ends with a newline; don't carry an empty line into the last hunk
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      current = {
+        path: pathFromDiffLine(line),
+        status: 'modified',
+        binary: false,
+        header: [line],
+        hunks: [],
+      };
+      files.push(current);
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith('@@') && !current.binary) {
+      current.hunks.push([line]);
+      continue;
+    }
+
+    const hunk = current.hunks[current.hunks.length - 1];
+    if (hunk) {
+      hunk.push(line);
+      continue;
+    }
+
+    current.header.push(line);
+
+    if (line.startsWith('new file mode')) {
+      current.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      current.status = 'deleted';
+    } else if (line.startsWith('GIT binary patch') || /^Binary files .* differ$/.test(line)) {
+      current.binary = true;
+    } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+      current.path = stripPrefix(line.slice(4));
+    } else if (line.startsWith('--- ') && line !== '--- /dev/null' && current.status === 'deleted') {
+      current.path = stripPrefix(line.slice(4));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Best-effort path from `diff --git a/x b/x`; the ---/+++ lines refine it
+ * when present (they are missing for binary and mode-only changes)
+ */
+function pathFromDiffLine(line: string): string {
+  const rest = line.slice('diff --git '.length);
+  if (rest.startsWith('"')) {
+    const match = rest.match(/^"((?:[^"\\]|\\.)*)"/);
+    return match ? stripPrefix(`"${match[1]}"`) : rest;
+  }
+  // Both sides name the same file without renames, so the halves are equal
+  const half = (rest.length - 1) / 2;
+  return Number.isInteger(half) ? stripPrefix(rest.slice(0, half)) : stripPrefix(rest.split(' ')[0] ?? rest);
+}
+
+/**
+ * Drop the a/ or b/ prefix, git's trailing tab and C-style quoting
+ */
+function stripPrefix(path: string): string {
+  let value = path.replace(/\t$/, '');
+  if (value.startsWith('"') && value.endsWith('"')) {
+    // Octal escapes are UTF-8 bytes, so decode the whole path as bytes
+    const bytes: number[] = [];
+    const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+    const quoted = value.slice(1, -1);
+
+    for (let i = 0; i < quoted.length; i++) {
+      const octal = quoted.slice(i + 1, i + 4);
+      if (quoted[i] === '\\' && /^[0-7]{3}$/.test(octal)) {
+        bytes.push(parseInt(octal, 8));
+        i += 3;
+      } else if (quoted[i] === '\\' && i + 1 < quoted.length) {
+        bytes.push(...Buffer.from(escapes[quoted[i + 1]!] ?? quoted[i + 1]!));
+        i += 1;
+      } else {
+        bytes.push(...Buffer.from(quoted[i]!));
+      }
+    }
+    value = Buffer.from(bytes).toString('utf8');
+  }
+  return value.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse the model's split plan. The schema normally guarantees clean JSON;
+ * models that ignore it may still wrap the object in prose or a code fence.
+ */
+export function parseSplitPlan(response: string): RawSplitPlan {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced?.[1] ?? trimmed;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  try {
+    const parsed = JSON.parse(start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate);
+    if (!parsed || !Array.isArray(parsed.commits)) {
+      throw new Error('missing commits array');
+    }
+    return parsed as RawSplitPlan;
+  } catch (error) {
+    logger.debug('Raw split plan was:', { response });
+    throw new Error(`Invalid split plan from AI: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,329 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { gitManager } from './git.js';
+import { logger } from './logger.js';
+
+/**
+ * How a repository writes its commit messages, measured over its recent
+ * history. Shares are fractions of the sampled commits, from 0 to 1.
+ */
+export interface StyleProfile {
+  readonly sampleSize: number;
+  readonly conventional: number; // Subjects in `type(scope): description` form
+  readonly types: Readonly<Record<string, number>>; // Commits per Conventional Commits type
+  readonly scopes: Readonly<Record<string, number>>; // Commits per scope
+  readonly scoped: number; // Share of the conventional subjects that have a scope
+  readonly lowercase: number; // Descriptions starting with a lowercase letter
+  readonly mood: SubjectMood;
+  readonly averageSubjectLength: number;
+  readonly trailingPeriod: number;
+  readonly withBody: number;
+  readonly withEmoji: number;
+  readonly tickets: number; // Commits referencing an issue or ticket
+  readonly ticketPlacement: TicketPlacement | null; // Where most of those references go
+  readonly ticketExample: string | null;
+  readonly trailers: Readonly<Record<string, number>>; // Share of commits per trailer key
+}
+
+export type SubjectMood = 'imperative' | 'past' | 'present' | 'mixed';
+
+export type TicketPlacement = 'prefix' | 'subject' | 'footer';
+
+// Fewer commits than this say nothing reliable about a team's habits
+const MIN_SAMPLE = 10;
+
+const HISTORY_SIZE = 300;
+const PROFILE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Above this share a habit is a convention, below RARE it is avoided
+const DOMINANT = 0.8;
+const RARE = 0.1;
+
+const CONVENTIONAL_SUBJECT = /^(\w+)(?:\(([^)]+)\))?!?: (.*)$/;
+const EMOJI = /^(?::\w+:|\p{Extended_Pictographic})/u;
+const TICKET = /\b[A-Z][A-Z0-9]{1,9}-\d+\b|(?<![\w&])#\d+\b/;
+const TICKET_PREFIX = /^\[?(?:[A-Z][A-Z0-9]{1,9}-\d+|#\d+)\]?:?\s/;
+const TRAILER = /^([A-Za-z][\w-]*): \S/;
+
+// Verbs commit subjects usually start with, in their base form
+const VERBS = new Set([
+  'add', 'adjust', 'allow', 'avoid', 'build', 'bump', 'change', 'clean', 'convert', 'correct', 'create',
+  'decrease', 'delete', 'disable', 'document', 'drop', 'enable', 'ensure', 'expose', 'extract', 'fix',
+  'handle', 'implement', 'improve', 'increase', 'introduce', 'load', 'make', 'merge', 'migrate', 'move',
+  'optimize', 'pass', 'prevent', 'reduce', 'refactor', 'release', 'remove', 'rename', 'replace',
+  'restore', 'revert', 'rewrite', 'show', 'simplify', 'skip', 'split', 'support', 'switch', 'tweak',
+  'update', 'upgrade', 'use',
+]);
+
+const IRREGULAR_PAST = new Set(['built', 'made', 'rewrote', 'wrote']);
+
+/**
+ * Measure the conventions of a list of commit messages, newest first.
+ * Returns null when there are too few to tell.
+ */
+export function profileCommitStyle(messages: readonly string[]): StyleProfile | null {
+  const commits = messages.map(message => message.trim()).filter(Boolean);
+  if (commits.length < MIN_SAMPLE) {
+    return null;
+  }
+
+  const types: Record<string, number> = {};
+  const scopes: Record<string, number> = {};
+  const trailers: Record<string, number> = {};
+  const placements: Record<TicketPlacement, number> = { prefix: 0, subject: 0, footer: 0 };
+  const moods: Record<Exclude<SubjectMood, 'mixed'>, number> = { imperative: 0, past: 0, present: 0 };
+  let conventional = 0;
+  let scoped = 0;
+  let lowercase = 0;
+  let subjectLength = 0;
+  let trailingPeriod = 0;
+  let withBody = 0;
+  let withEmoji = 0;
+  let tickets = 0;
+  const ticketExamples: Partial<Record<TicketPlacement, string>> = {};
+
+  for (const message of commits) {
+    const [subject = '', ...rest] = message.split('\n');
+    const paragraphs = rest.join('\n').trim().split(/\n\s*\n/).filter(Boolean);
+    const lastParagraph = paragraphs.at(-1)?.split('\n') ?? [];
+    const trailerLines = lastParagraph.every(line => TRAILER.test(line)) ? lastParagraph : [];
+    const body = trailerLines.length > 0 ? paragraphs.slice(0, -1) : paragraphs;
+
+    subjectLength += subject.length;
+    if (body.length > 0) {
+      withBody++;
+    }
+    if (/[^.]\.$/.test(subject)) {
+      trailingPeriod++;
+    }
+
+    let description = subject;
+    if (EMOJI.test(description)) {
+      withEmoji++;
+      description = description.replace(EMOJI, '').trim();
+    }
+    description = description.replace(TICKET_PREFIX, '');
+
+    const conventionalMatch = description.match(CONVENTIONAL_SUBJECT);
+    if (conventionalMatch) {
+      conventional++;
+      const type = conventionalMatch[1]!.toLowerCase();
+      types[type] = (types[type] ?? 0) + 1;
+      if (conventionalMatch[2]) {
+        scoped++;
+        for (const scope of conventionalMatch[2].split(',').map(scope => scope.trim()).filter(Boolean)) {
+          scopes[scope] = (scopes[scope] ?? 0) + 1;
+        }
+      }
+      description = conventionalMatch[3]!;
+    }
+
+    if (/^[a-z]/.test(description)) {
+      lowercase++;
+    }
+    const mood = moodOf(description.split(/\s/)[0] ?? '');
+    if (mood) {
+      moods[mood]++;
+    }
+
+    for (const key of new Set(trailerLines.map(line => line.match(TRAILER)![1]!))) {
+      trailers[key] = (trailers[key] ?? 0) + 1;
+    }
+
+    const ticket = subject.match(TICKET) ?? body.join('\n').match(TICKET) ?? trailerLines.join('\n').match(TICKET);
+    if (ticket) {
+      tickets++;
+      const placement: TicketPlacement = TICKET_PREFIX.test(subject.replace(EMOJI, '').trim())
+        ? 'prefix'
+        : subject.match(TICKET) ? 'subject' : 'footer';
+      placements[placement]++;
+      ticketExamples[placement] ??= ticket[0];
+    }
+  }
+
+  const total = commits.length;
+  const classified = moods.imperative + moods.past + moods.present;
+  const [topMood, topMoodCount] = mostCommon(moods);
+  const [ticketPlacement] = mostCommon(placements);
+
+  return {
+    sampleSize: total,
+    conventional: conventional / total,
+    types,
+    scopes,
+    scoped: conventional > 0 ? scoped / conventional : 0,
+    lowercase: lowercase / total,
+    mood: classified >= total / 2 && topMoodCount >= classified * DOMINANT ? topMood : 'mixed',
+    averageSubjectLength: Math.round(subjectLength / total),
+    trailingPeriod: trailingPeriod / total,
+    withBody: withBody / total,
+    withEmoji: withEmoji / total,
+    tickets: tickets / total,
+    ticketPlacement: tickets > 0 ? ticketPlacement : null,
+    ticketExample: ticketExamples[ticketPlacement] ?? null,
+    trailers: Object.fromEntries(Object.entries(trailers).map(([key, count]) => [key, count / total])),
+  };
+}
+
+/**
+ * Turn a profile into prompt rules. Only clear habits become rules: a
+ * history that is split on something says nothing about it.
+ */
+export function styleRules(profile: StyleProfile): string[] {
+  const rules: string[] = [];
+  const percent = (share: number): string => `${Math.round(share * 100)}%`;
+
+  if (profile.conventional >= DOMINANT) {
+    const types = ranked(profile.types, 8).map(([type, count]) => `${type} (${percent(count / profile.sampleSize)})`);
+    rules.push(`Commits follow Conventional Commits. Types in use, most frequent first: ${types.join(', ')}`);
+
+    const scopes = ranked(profile.scopes, 12).map(([scope]) => scope);
+    if (profile.scoped >= DOMINANT) {
+      rules.push(`Almost every commit has a scope; always include one. Scopes in use: ${scopes.join(', ')}`);
+    } else if (profile.scoped <= RARE) {
+      rules.push('Commits rarely have a scope; omit it');
+    } else if (scopes.length > 0) {
+      rules.push(`Scopes in use, when one fits: ${scopes.join(', ')}`);
+    }
+  }
+
+  if (profile.lowercase >= DOMINANT) {
+    rules.push('Start the description with a lowercase letter');
+  } else if (profile.lowercase <= RARE) {
+    rules.push('Start the description with a capital letter');
+  }
+
+  if (profile.mood === 'imperative') {
+    rules.push('Use the imperative mood ("add", not "added" or "adds")');
+  } else if (profile.mood === 'past') {
+    rules.push('Use the past tense ("added", "fixed")');
+  } else if (profile.mood === 'present') {
+    rules.push('Use the third person present tense ("adds", "fixes")');
+  }
+
+  rules.push(`Subjects average ${profile.averageSubjectLength} characters; aim for a similar length`);
+
+  if (profile.trailingPeriod >= DOMINANT) {
+    rules.push('End the subject with a period');
+  } else if (profile.trailingPeriod <= RARE) {
+    rules.push('Do not end the subject with a period');
+  }
+
+  if (profile.withBody >= 0.6) {
+    rules.push('Most commits have a body explaining the change; include one');
+  } else if (profile.withBody <= 0.2) {
+    rules.push('Most commits are a subject line only; add a body only when the change needs explaining');
+  }
+
+  if (profile.withEmoji >= 0.6) {
+    rules.push('Most subjects start with an emoji');
+  } else if (profile.withEmoji <= RARE / 2) {
+    rules.push('Do not use emoji');
+  }
+
+  if (profile.tickets >= 0.3 && profile.ticketExample) {
+    const where = { prefix: 'at the start of the subject', subject: 'in the subject', footer: 'in the body or footer' };
+    rules.push(
+      `${percent(profile.tickets)} of commits reference a ticket like ${profile.ticketExample}, ` +
+        `${where[profile.ticketPlacement ?? 'footer']}. Only reference a ticket named in the context; never invent one`
+    );
+  }
+
+  const trailers = ranked(profile.trailers, 5).filter(([, share]) => share >= 0.3).map(([key]) => key);
+  if (trailers.length > 0) {
+    rules.push(`Commits carry ${trailers.join(', ')} trailers; do not write trailers yourself, they are added when committing`);
+  }
+
+  return rules;
+}
+
+/**
+ * Profiles the current repository's recent history, once: profiles are kept
+ * per cache scope (see GitManager.getCacheScope) for a week
+ */
+export class StyleProfiler {
+  private readonly profiles = new Map<string, StyleProfile | null>();
+
+  constructor(
+    private readonly cacheFile: string = join(homedir(), '.cache', 'orcommit', 'state', 'commit-styles.json')
+  ) {}
+
+  async getProfile(): Promise<StyleProfile | null> {
+    const scope = await gitManager.getCacheScope();
+    if (this.profiles.has(scope)) {
+      return this.profiles.get(scope)!;
+    }
+
+    const cached = await this.readCache();
+    const entry = cached[scope];
+    if (entry && Date.now() - entry.analyzedAt < PROFILE_TTL_MS) {
+      this.profiles.set(scope, entry.profile);
+      return entry.profile;
+    }
+
+    let profile: StyleProfile | null = null;
+    try {
+      const log = await gitManager.getCommitLog('HEAD', HISTORY_SIZE);
+      profile = profileCommitStyle(log.map(commit => commit.message));
+    } catch (error) {
+      logger.debug('Failed to profile commit style', error);
+    }
+
+    this.profiles.set(scope, profile);
+    if (profile) {
+      logger.debug('Profiled commit style', { scope, commits: profile.sampleSize });
+      await this.writeCache({ ...cached, [scope]: { analyzedAt: Date.now(), profile } });
+    }
+    return profile;
+  }
+
+  private async readCache(): Promise<Record<string, { analyzedAt: number; profile: StyleProfile }>> {
+    try {
+      return JSON.parse(await fs.readFile(this.cacheFile, 'utf8'));
+    } catch {
+      return {}; // No profiles yet
+    }
+  }
+
+  private async writeCache(profiles: Record<string, { analyzedAt: number; profile: StyleProfile }>): Promise<void> {
+    try {
+      // Drop expired profiles so repositories no longer used do not pile up
+      const current = Object.entries(profiles).filter(([, entry]) => Date.now() - entry.analyzedAt < PROFILE_TTL_MS);
+      await fs.mkdir(dirname(this.cacheFile), { recursive: true });
+      await fs.writeFile(this.cacheFile, JSON.stringify(Object.fromEntries(current)));
+    } catch (error) {
+      logger.debug('Failed to cache commit style profile', error);
+    }
+  }
+}
+
+function moodOf(word: string): Exclude<SubjectMood, 'mixed'> | null {
+  const lower = word.toLowerCase();
+  if (VERBS.has(lower)) {
+    return 'imperative';
+  }
+  if (/ed$/.test(lower) && [lower.slice(0, -2), lower.slice(0, -1), lower.replace(/ied$/, 'y')].some(stem => VERBS.has(stem))) {
+    return 'past';
+  }
+  if (IRREGULAR_PAST.has(lower)) {
+    return 'past';
+  }
+  if (/s$/.test(lower) && [lower.slice(0, -1), lower.slice(0, -2)].some(stem => VERBS.has(stem))) {
+    return 'present';
+  }
+  return null;
+}
+
+function mostCommon<K extends string>(counts: Record<K, number>): [K, number] {
+  return (Object.entries(counts) as Array<[K, number]>).sort((a, b) => b[1] - a[1])[0]!;
+}
+
+function ranked(counts: Readonly<Record<string, number>>, limit: number): Array<[string, number]> {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
+// Singleton instance
+export const styleProfiler = new StyleProfiler();
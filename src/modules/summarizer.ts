@@ -0,0 +1,115 @@
+/**
+ * What the model reports about one slice of a diff too large for a single
+ * request, shaped by CHUNK_SUMMARY_RESPONSE_FORMAT. Partial summaries are
+ * merged level by level until they fit one synthesis request.
+ */
+export interface ChunkSummary {
+  files: string[];
+  changes: string[];
+  type: string; // Candidate Conventional Commits type, '' when unsure
+  scope: string; // Candidate scope, '' for none
+}
+
+/**
+ * Parse a partial summary. Models that ignore the schema and answer in prose
+ * keep their text as the list of changes, so nothing they said is lost.
+ */
+export function parseChunkSummary(response: string): ChunkSummary {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)```$/);
+  const body = (fenced?.[1] ?? trimmed).trim();
+
+  if (body.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(body) as Partial<Record<keyof ChunkSummary, unknown>>;
+      return {
+        files: stringList(parsed.files),
+        changes: stringList(parsed.changes),
+        type: typeof parsed.type === 'string' ? parsed.type.trim().toLowerCase() : '',
+        scope: typeof parsed.scope === 'string' ? parsed.scope.trim() : '',
+      };
+    } catch {
+      // Fall through to the plain-text layout
+    }
+  }
+
+  return {
+    files: [],
+    changes: body
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim())
+      .filter(Boolean),
+    type: '',
+    scope: '',
+  };
+}
+
+/**
+ * Render partial summaries for the model, numbered so it can tell the
+ * slices apart. Candidate types are tallied up front: the type of the whole
+ * change is usually the one most slices agree on.
+ */
+export function renderSummaries(summaries: readonly ChunkSummary[]): string {
+  const tally = new Map<string, number>();
+  for (const summary of summaries) {
+    if (summary.type) {
+      const candidate = summary.scope ? `${summary.type}(${summary.scope})` : summary.type;
+      tally.set(candidate, (tally.get(candidate) ?? 0) + 1);
+    }
+  }
+
+  const sections = summaries.map((summary, i) => {
+    const lines = [`Part ${i + 1} of ${summaries.length}`];
+    if (summary.files.length > 0) {
+      lines.push(`Files: ${summary.files.join(', ')}`);
+    }
+    if (summary.type) {
+      lines.push(`Candidate: ${summary.scope ? `${summary.type}(${summary.scope})` : summary.type}`);
+    }
+    lines.push('Changes:', ...summary.changes.map(change => `- ${change}`));
+    return lines.join('\n');
+  });
+
+  if (tally.size > 0) {
+    const candidates = [...tally].sort((a, b) => b[1] - a[1]).map(([candidate, count]) => `${candidate} ×${count}`);
+    sections.unshift(`Candidate types across parts: ${candidates.join(', ')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Batch summaries for the next merge level. Each batch is as large as
+ * `fits` allows but holds at least two summaries, so every level shrinks
+ * the tree even when single summaries are already near the limit.
+ */
+export function groupSummaries(
+  summaries: readonly ChunkSummary[],
+  fits: (rendered: string) => boolean
+): ChunkSummary[][] {
+  const groups: ChunkSummary[][] = [];
+  let current: ChunkSummary[] = [];
+
+  for (const summary of summaries) {
+    if (current.length >= 2 && !fits(renderSummaries([...current, summary]))) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(summary);
+  }
+
+  if (current.length === 1 && groups.length > 0) {
+    // A lone leftover joins the previous batch rather than passing through unmerged
+    groups[groups.length - 1]!.push(current[0]!);
+  } else if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)
+    : [];
+}
@@ -0,0 +1,124 @@
+import { ConfigError, TicketSettings, TicketStyle } from '../types/index.js';
+import { addTrailers } from './trailers.js';
+
+/**
+ * The tickets a commit must reference, and where
+ */
+export interface TicketReference {
+  readonly ids: readonly string[];
+  readonly placement: TicketSettings['placement'];
+  readonly footerKey: string;
+}
+
+// Names of standards and algorithms that look like Jira keys (fix/UTF-8-decoding)
+const NOT_JIRA = ['UTF', 'UCS', 'SHA', 'MD', 'ISO', 'RFC', 'IEEE', 'ECMA', 'ES', 'AES', 'RSA', 'TLS', 'SSL', 'HTTP', 'IPV'];
+
+// Ticket ids as they appear in branch names, and how each style writes them
+const STYLE_PATTERNS: Readonly<Record<TicketStyle, { pattern: RegExp; format: (id: string) => string }>> = {
+  // feature/PROJ-1234-login
+  jira: {
+    pattern: new RegExp(`(?<![A-Za-z0-9])(?!(?:${NOT_JIRA.join('|')})-)([A-Z][A-Z0-9]{1,9}-\\d+)(?=[-_/]|$)`, 'g'),
+    format: id => id,
+  },
+  // fix/123-crash, issue-123, gh-123
+  github: { pattern: /(?:^|[/#])(?:(?:issues?|gh)[-_]?)?(\d+)(?=[-_/]|$)/gi, format: id => `#${id}` },
+  // alice/eng-123-login
+  linear: { pattern: /(?:^|\/)([a-z][a-z0-9]{1,4}-\d+)(?=[-_/]|$)/gi, format: id => id.toUpperCase() },
+};
+
+const DEFAULT_STYLES: readonly TicketStyle[] = ['jira', 'github'];
+
+const CONVENTIONAL_HEADER = /^(\w+(?:\([^)]*\))?!?: )/;
+
+/**
+ * Ticket ids in a branch name, in order of appearance
+ */
+export function extractTickets(branch: string, settings: Pick<TicketSettings, 'styles' | 'pattern'> = {}): string[] {
+  const ids: string[] = [];
+
+  if (settings.pattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(settings.pattern, 'g');
+    } catch (error) {
+      throw new ConfigError(`Invalid 'preferences.tickets.pattern': ${(error as Error).message}`);
+    }
+    for (const match of branch.matchAll(pattern)) {
+      ids.push(match[1] ?? match[0]);
+    }
+  } else {
+    for (const style of settings.styles ?? DEFAULT_STYLES) {
+      const { pattern, format } = STYLE_PATTERNS[style];
+      for (const match of branch.matchAll(pattern)) {
+        ids.push(format(match[1]!));
+      }
+    }
+  }
+
+  return [...new Set(ids.filter(Boolean))];
+}
+
+/**
+ * What the commits on `branch` must reference, or null when ticket
+ * references are off or the branch names no ticket
+ */
+export function ticketReferenceFor(branch: string, settings: TicketSettings | undefined): TicketReference | null {
+  if (!settings) {
+    return null;
+  }
+
+  const ids = extractTickets(branch, settings);
+  return ids.length > 0 ? { ids, placement: settings.placement, footerKey: settings.footerKey || 'Refs' } : null;
+}
+
+/**
+ * Put the ticket reference where it belongs, unless it is already there.
+ * Applied to every generated message, so regenerating (with whatever
+ * feedback) cannot lose it.
+ */
+export function applyTicketReference(message: string, reference: TicketReference | null): string {
+  if (!reference) {
+    return message;
+  }
+
+  const lines = message.trimEnd().split('\n');
+  const [subject = '', ...rest] = lines;
+
+  if (reference.placement === 'prefix') {
+    const missing = reference.ids.filter(id => !mentions(subject, id));
+    if (missing.length === 0) {
+      return message;
+    }
+
+    // `feat(api): PROJ-1 add login`, or `PROJ-1: Add login` without a type
+    const header = subject.match(CONVENTIONAL_HEADER)?.[1];
+    const prefixed = header
+      ? `${header}${missing.join(' ')} ${subject.slice(header.length)}`
+      : `${missing.join(' ')}: ${subject}`;
+    return [prefixed, ...rest].join('\n');
+  }
+
+  const key = reference.footerKey.toLowerCase();
+  const footers = lines.filter(line => line.toLowerCase().startsWith(`${key}:`));
+  const missing = reference.ids.filter(id => !footers.some(line => mentions(line, id)));
+  if (missing.length === 0) {
+    return message;
+  }
+
+  return addTrailers(message, [{ key: reference.footerKey, value: missing.join(', ') }]);
+}
+
+/**
+ * Prompt rule telling the model the reference is taken care of
+ */
+export function ticketPromptRule(reference: TicketReference): string {
+  const ids = reference.ids.join(reference.placement === 'prefix' ? ' ' : ', ');
+  return reference.placement === 'prefix'
+    ? `- The subject will start with the ticket reference ${ids}, added automatically: do not write it yourself, and keep the subject ${ids.length + 2} characters shorter to leave room for it`
+    : `- A "${reference.footerKey}: ${ids}" footer is added automatically: do not write ticket references yourself`;
+}
+
+function mentions(text: string, id: string): boolean {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'i').test(text);
+}
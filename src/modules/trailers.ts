@@ -0,0 +1,176 @@
+import { ConfigError, GitIdentity } from '../types/index.js';
+import { gitManager } from './git.js';
+import { logger } from './logger.js';
+
+/**
+ * A `Key: value` line of the trailer block. Continuation lines stay part of
+ * the value, so a trailer is written back exactly as it was read.
+ */
+export interface Trailer {
+  readonly key: string;
+  readonly value: string;
+}
+
+// Trailers the committer adds, which the model must never write itself
+export const IDENTITY_TRAILER_KEYS = ['Signed-off-by', 'Co-authored-by'] as const;
+
+// `BREAKING CHANGE` is the one footer with a space in its key (Conventional Commits)
+const TRAILER_LINE = /^([A-Za-z0-9][\w-]*|BREAKING CHANGE)\s*:\s*(\S.*)$/;
+const CONTINUATION_LINE = /^[ \t]+\S/;
+
+// Authors read from the history to resolve co-author aliases
+const REGISTRY_DEPTH = 2000;
+
+/**
+ * Parse a `Key: value` trailer, or null when the line is not one
+ */
+export function parseTrailer(line: string): Trailer | null {
+  const match = line.match(TRAILER_LINE);
+  return match ? { key: match[1]!, value: match[2]!.trim() } : null;
+}
+
+export function formatTrailer(trailer: Trailer): string {
+  return `${trailer.key}: ${trailer.value}`;
+}
+
+/**
+ * Split a message into its text and its trailer block. As in
+ * `git interpret-trailers`, the block is the last paragraph when every line
+ * of it is a trailer or a continuation; the subject paragraph never is.
+ */
+export function splitTrailers(message: string): { body: string; trailers: Trailer[] } {
+  const text = message.replace(/\r\n/g, '\n').trimEnd();
+  const lastBreak = text.lastIndexOf('\n\n');
+  if (lastBreak < 0) {
+    return { body: text, trailers: [] };
+  }
+
+  const trailers: Trailer[] = [];
+  for (const line of text.slice(lastBreak + 2).split('\n')) {
+    const trailer = parseTrailer(line);
+    const previous = trailers.at(-1);
+    if (trailer) {
+      trailers.push(trailer);
+    } else if (previous && CONTINUATION_LINE.test(line)) {
+      trailers[trailers.length - 1] = { ...previous, value: `${previous.value}\n${line}` };
+    } else {
+      return { body: text, trailers: [] };
+    }
+  }
+
+  return { body: text.slice(0, lastBreak).trimEnd(), trailers };
+}
+
+/**
+ * Join a text and its trailer block back into one message
+ */
+export function joinTrailers(body: string, trailers: readonly Trailer[]): string {
+  return trailers.length > 0 ? `${body}\n\n${trailers.map(formatTrailer).join('\n')}` : body;
+}
+
+/**
+ * Append trailers to the message's trailer block (or start one), skipping any
+ * the block already has: `git interpret-trailers --if-exists addIfDifferent`.
+ * Keys compare case-insensitively, as git does.
+ */
+export function addTrailers(message: string, additions: readonly Trailer[]): string {
+  if (additions.length === 0) {
+    return message;
+  }
+
+  const { body, trailers } = splitTrailers(message);
+  const merged = [...trailers];
+  for (const trailer of additions) {
+    if (!merged.some(existing => sameTrailer(existing, trailer))) {
+      merged.push(trailer);
+    }
+  }
+
+  return joinTrailers(body, merged);
+}
+
+/**
+ * Drop the trailers with the given keys from the message's trailer block
+ */
+export function removeTrailers(message: string, keys: readonly string[]): string {
+  const { body, trailers } = splitTrailers(message);
+  const removed = new Set(keys.map(key => key.toLowerCase()));
+  const kept = trailers.filter(trailer => !removed.has(trailer.key.toLowerCase()));
+
+  return kept.length === trailers.length ? message.trimEnd() : joinTrailers(body, kept);
+}
+
+function sameTrailer(a: Trailer, b: Trailer): boolean {
+  return a.key.toLowerCase() === b.key.toLowerCase() && a.value === b.value;
+}
+
+export function formatIdentity(identity: GitIdentity): string {
+  return `${identity.name} <${identity.email}>`;
+}
+
+/**
+ * Resolves `--co-author` aliases to the authors of the repository's history,
+ * as `git log` (and .mailmap) name them. An alias is an email address, the
+ * part before the `@`, a GitHub login from a noreply address, a full name or
+ * a single word of one; `Name <email>` is taken as is.
+ */
+export class CoAuthorRegistry {
+  private authors: Promise<GitIdentity[]> | null = null;
+
+  async resolve(alias: string): Promise<GitIdentity> {
+    const literal = alias.trim().match(/^(.+?)\s*<([^<>\s]+@[^<>\s]+)>$/);
+    if (literal) {
+      return { name: literal[1]!, email: literal[2]! };
+    }
+
+    const authors = await this.getAuthors();
+    const wanted = alias.trim().toLowerCase();
+
+    // The most specific way of matching that finds anyone decides
+    const tiers: Array<(author: GitIdentity) => boolean> = [
+      author => author.email.toLowerCase() === wanted,
+      author => author.name.toLowerCase() === wanted || aliasesOf(author.email).includes(wanted),
+      author => author.name.toLowerCase().split(/\s+/).includes(wanted),
+    ];
+
+    for (const matches of tiers) {
+      const found = authors.filter(matches);
+      if (found.length === 1) {
+        return found[0]!;
+      }
+      if (found.length > 1) {
+        throw new ConfigError(
+          `Co-author '${alias}' is ambiguous: ${found.map(formatIdentity).join(', ')}. Use an email address instead.`
+        );
+      }
+    }
+
+    throw new ConfigError(
+      `No author in the history matches co-author '${alias}'. Use an email address, a name, or 'Name <email>'.`
+    );
+  }
+
+  /**
+   * Distinct authors of the recent history, most recent first
+   */
+  private getAuthors(): Promise<GitIdentity[]> {
+    this.authors ??= gitManager.getAuthors(REGISTRY_DEPTH).catch(error => {
+      logger.debug('No history to resolve co-authors from', error);
+      return [];
+    });
+    return this.authors;
+  }
+}
+
+/**
+ * Short names an email address goes by: its local part, and the login of a
+ * GitHub noreply address (`12345+octocat@users.noreply.github.com`)
+ */
+function aliasesOf(email: string): string[] {
+  const local = email.toLowerCase().split('@')[0] ?? '';
+  const login = local.replace(/^\d+\+/, '');
+  return login === local ? [local] : [local, login];
+}
+
+// Singleton instance
+export const coAuthorRegistry = new CoAuthorRegistry();
@@ -0,0 +1,394 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import axios from 'axios';
+import { Config, TokenUsage } from '../types/index.js';
+import { gitManager } from './git.js';
+import { logger } from './logger.js';
+
+/** One line of the usage ledger: a request, or a commit message served from the cache */
+export interface UsageRecord {
+  readonly timestamp: string; // ISO 8601
+  readonly provider: string;
+  readonly model: string;
+  readonly scope: string; // `repoRoot#branch`, see GitManager.getCacheScope
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  readonly latencyMs: number;
+  readonly cached: boolean;
+}
+
+/** USD per one million tokens */
+export interface ModelPrice {
+  readonly prompt: number;
+  readonly completion: number;
+}
+
+export type UsageGrouping = 'model' | 'repo' | 'day';
+
+export const USAGE_GROUPINGS: readonly UsageGrouping[] = ['model', 'repo', 'day'];
+
+export interface UsageSummaryRow {
+  readonly key: string;
+  readonly requests: number;
+  readonly cacheHits: number;
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  readonly cost: number; // USD, priced requests only
+  readonly unpriced: number; // Requests to models without a known price
+}
+
+export interface UsageReport {
+  readonly since: string;
+  readonly by: UsageGrouping;
+  readonly rows: UsageSummaryRow[];
+  readonly total: UsageSummaryRow;
+}
+
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const PRICING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Appends every request to a JSON Lines file. The ledger is a record of
+ * spend, so it lives under ~/.local/share rather than the cache directory
+ * that `orc cache clear` empties. Recording never fails a commit: errors are
+ * only logged.
+ */
+export class UsageLedger {
+  // What this process recorded, so a command can report its own usage
+  private readonly session: UsageRecord[] = [];
+
+  constructor(
+    private readonly filePath: string = join(homedir(), '.local', 'share', 'orcommit', 'usage.jsonl')
+  ) {}
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append one request; the repository scope is resolved from the working
+   * directory
+   */
+  async record(entry: {
+    provider: string;
+    model: string;
+    usage?: TokenUsage;
+    latencyMs: number;
+    cached: boolean;
+  }): Promise<void> {
+    try {
+      const record: UsageRecord = {
+        timestamp: new Date().toISOString(),
+        provider: entry.provider,
+        model: entry.model,
+        scope: await gitManager.getCacheScope(),
+        promptTokens: entry.usage?.promptTokens ?? 0,
+        completionTokens: entry.usage?.completionTokens ?? 0,
+        latencyMs: Math.round(entry.latencyMs),
+        cached: entry.cached,
+      };
+      this.session.push(record);
+
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    } catch (error) {
+      logger.debug('Failed to record usage', error);
+    }
+  }
+
+  /**
+   * Position in this process's records, to pass to sessionUsage later
+   */
+  sessionMark(): number {
+    return this.session.length;
+  }
+
+  /**
+   * Requests and tokens this process recorded since `mark`, cache hits
+   * included
+   */
+  sessionUsage(mark = 0): TokenUsage & { requests: number } {
+    const records = this.session.slice(mark);
+    const promptTokens = records.reduce((sum, record) => sum + record.promptTokens, 0);
+    const completionTokens = records.reduce((sum, record) => sum + record.completionTokens, 0);
+    return { requests: records.length, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  /**
+   * Records at or after `since`, oldest first. Lines that do not parse (a
+   * write cut short) are skipped.
+   */
+  async read(since?: Date): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (!since || new Date(record.timestamp) >= since) {
+          records.push(record);
+        }
+      } catch {
+        logger.debug('Skipping unreadable usage ledger line');
+      }
+    }
+
+    return records;
+  }
+}
+
+/**
+ * Resolves what a model costs: the user's `preferences.pricing` table first,
+ * then OpenRouter's published prices. Ids match exactly or by the part after
+ * the vendor prefix, so `gpt-4o-mini` on the OpenAI provider finds
+ * `openai/gpt-4o-mini`. Local servers are free; anything else is unpriced.
+ */
+export class PriceBook {
+  constructor(
+    private readonly userPrices: Readonly<Record<string, ModelPrice>>,
+    private readonly publishedPrices: Readonly<Record<string, ModelPrice>>,
+    private readonly freeProviders: ReadonlySet<string> = new Set()
+  ) {}
+
+  priceOf(provider: string, model: string): ModelPrice | null {
+    if (this.freeProviders.has(provider)) {
+      return { prompt: 0, completion: 0 };
+    }
+
+    for (const table of [this.userPrices, this.publishedPrices]) {
+      const price = table[model] ?? Object.entries(table).find(([id]) => id.endsWith(`/${model}`))?.[1];
+      if (price) {
+        return price;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * USD cost of a record: zero for cache hits, null when the model is unpriced
+   */
+  costOf(record: UsageRecord): number | null {
+    if (record.cached) {
+      return 0;
+    }
+    const price = this.priceOf(record.provider, record.model);
+    if (!price) {
+      return null;
+    }
+    return (record.promptTokens * price.prompt + record.completionTokens * price.completion) / 1_000_000;
+  }
+}
+
+/**
+ * Group records into report rows, most expensive first (days stay in
+ * chronological order)
+ */
+export function summarizeUsage(
+  records: readonly UsageRecord[],
+  by: UsageGrouping,
+  prices: PriceBook,
+  since: Date
+): UsageReport {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = groupKey(record, by);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const rows = [...groups].map(([key, group]) => summarizeGroup(key, group, prices));
+  rows.sort((a, b) => (by === 'day' ? a.key.localeCompare(b.key) : b.cost - a.cost || b.requests - a.requests));
+
+  return {
+    since: since.toISOString(),
+    by,
+    rows,
+    total: summarizeGroup('total', records, prices),
+  };
+}
+
+/**
+ * USD spent since the first day of the current month, for the budget check
+ */
+export async function monthToDateCost(config: Config, ledger: UsageLedger = usageLedger): Promise<number> {
+  const records = await ledger.read(startOfMonth());
+  if (records.length === 0) {
+    return 0;
+  }
+  const prices = await loadPriceBook(config);
+  return records.reduce((sum, record) => sum + (prices.costOf(record) ?? 0), 0);
+}
+
+/**
+ * Build the price book for a configuration. OpenRouter's prices are fetched
+ * at most once a day; without network access the user table still applies.
+ */
+export async function loadPriceBook(
+  config: Config,
+  cacheFile: string = join(homedir(), '.cache', 'orcommit', 'state', 'openrouter-pricing.json')
+): Promise<PriceBook> {
+  const freeProviders = new Set(
+    Object.entries(config.providers)
+      .filter(([, provider]) => provider?.type === 'local')
+      .map(([name]) => name)
+  );
+
+  return new PriceBook(config.preferences.pricing ?? {}, await loadPublishedPrices(cacheFile), freeProviders);
+}
+
+/**
+ * Parse `--since`: a date (`2026-01-31`) or a relative span (`7d`, `2w`).
+ * Returns null when the value is neither.
+ */
+export function parseSince(value: string, now: Date = new Date()): Date | null {
+  const relative = value.trim().match(/^(\d+)([dw])$/i);
+  if (relative) {
+    const days = Number(relative[1]) * (relative[2]!.toLowerCase() === 'w' ? 7 : 1);
+    const since = new Date(now);
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - days);
+    return since;
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value.trim())) {
+    return null;
+  }
+  const date = new Date(value.trim().length === 10 ? `${value.trim()}T00:00:00` : value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Local midnight on the first day of the month of `now`
+ */
+export function startOfMonth(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Render a report as an aligned plain-text table
+ */
+export function formatUsageReport(report: UsageReport): string {
+  const header = [report.by === 'repo' ? 'Repository' : report.by === 'day' ? 'Day' : 'Model', 'Requests', 'Cached', 'Prompt', 'Completion', 'Cost'];
+  const cells = (row: UsageSummaryRow): string[] => [
+    row.key,
+    String(row.requests),
+    String(row.cacheHits),
+    row.promptTokens.toLocaleString('en-US'),
+    row.completionTokens.toLocaleString('en-US'),
+    formatCost(row),
+  ];
+
+  const table = [header, ...report.rows.map(cells), cells(report.total)];
+  const widths = header.map((_, column) => Math.max(...table.map(line => line[column]!.length)));
+  const render = (line: string[]): string =>
+    line.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!))).join('  ');
+
+  return [
+    render(header),
+    widths.map(width => '─'.repeat(width)).join('  '),
+    ...table.slice(1, -1).map(render),
+    widths.map(width => '─'.repeat(width)).join('  '),
+    render(table[table.length - 1]!),
+  ].join('\n');
+}
+
+/**
+ * Format a USD amount, keeping sub-cent amounts visible
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+}
+
+function formatCost(row: UsageSummaryRow): string {
+  const cost = formatUsd(row.cost);
+  return row.unpriced > 0 ? `${cost} + ${row.unpriced} unpriced` : cost;
+}
+
+function groupKey(record: UsageRecord, by: UsageGrouping): string {
+  switch (by) {
+    case 'repo':
+      return record.scope.split('#')[0] || 'unknown';
+    case 'day': {
+      const date = new Date(record.timestamp);
+      const pad = (value: number): string => String(value).padStart(2, '0');
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    default:
+      return `${record.provider}/${record.model}`;
+  }
+}
+
+function summarizeGroup(key: string, records: readonly UsageRecord[], prices: PriceBook): UsageSummaryRow {
+  let cost = 0;
+  let unpriced = 0;
+  for (const record of records) {
+    const recordCost = prices.costOf(record);
+    if (recordCost === null) {
+      unpriced++;
+    } else {
+      cost += recordCost;
+    }
+  }
+
+  return {
+    key,
+    requests: records.length,
+    cacheHits: records.filter(record => record.cached).length,
+    promptTokens: records.reduce((sum, record) => sum + record.promptTokens, 0),
+    completionTokens: records.reduce((sum, record) => sum + record.completionTokens, 0),
+    cost,
+    unpriced,
+  };
+}
+
+/**
+ * OpenRouter's `/models` prices in USD per million tokens, cached for a day.
+ * A stale cache is still better than nothing when the fetch fails.
+ */
+async function loadPublishedPrices(cacheFile: string): Promise<Record<string, ModelPrice>> {
+  let cached: { fetchedAt: number; prices: Record<string, ModelPrice> } | null = null;
+  try {
+    cached = JSON.parse(await fs.readFile(cacheFile, 'utf8'));
+    if (cached && Date.now() - cached.fetchedAt < PRICING_TTL_MS) {
+      return cached.prices;
+    }
+  } catch {
+    // No cached prices yet
+  }
+
+  try {
+    const response = await axios.get<{ data?: Array<{ id: string; pricing?: { prompt?: string; completion?: string } }> }>(
+      OPENROUTER_MODELS_URL,
+      { timeout: 10000 }
+    );
+
+    const prices: Record<string, ModelPrice> = {};
+    for (const model of response.data.data ?? []) {
+      const prompt = Number(model.pricing?.prompt);
+      const completion = Number(model.pricing?.completion);
+      // Negative prices mark router models whose cost varies per request
+      if (Number.isFinite(prompt) && Number.isFinite(completion) && prompt >= 0 && completion >= 0) {
+        prices[model.id] = { prompt: prompt * 1_000_000, completion: completion * 1_000_000 };
+      }
+    }
+
+    await fs.mkdir(dirname(cacheFile), { recursive: true });
+    await fs.writeFile(cacheFile, JSON.stringify({ fetchedAt: Date.now(), prices }));
+    return prices;
+  } catch (error) {
+    logger.debug('Failed to fetch OpenRouter pricing', error);
+    return cached?.prices ?? {};
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,134 @@
+import { watch, FSWatcher } from 'fs';
+import { sep } from 'path';
+import { debounce } from '../utils/index.js';
+import { logger } from './logger.js';
+
+export interface WatchOptions {
+  /** Absolute path of the repository's git dir (`git rev-parse --absolute-git-dir`) */
+  gitDir: string;
+  /** Absolute path of the working tree root */
+  workTree: string;
+  /** Quiet period before a burst of filesystem events is reported (ms) */
+  debounceMs?: number;
+}
+
+export type ChangeSource = 'index' | 'worktree';
+
+/**
+ * Watches the git index and the working tree and reports debounced bursts of
+ * changes. It deliberately knows nothing about diffs or commits: the caller
+ * decides whether a burst actually changed the staged diff.
+ *
+ * The index is watched through its parent directory rather than the file
+ * itself — git replaces `.git/index` atomically via `index.lock` + rename, which
+ * silently detaches a watcher bound to the old inode.
+ */
+export class ChangeWatcher {
+  private readonly watchers: FSWatcher[] = [];
+  private readonly pending = new Set<ChangeSource>();
+  private readonly debounceMs: number;
+
+  constructor(private readonly options: WatchOptions) {
+    this.debounceMs = options.debounceMs ?? 500;
+  }
+
+  /**
+   * Start watching. `onChange` receives the set of sources that changed since
+   * the last call, at most once per debounce window. A watcher that fails
+   * (too many open files, no inotify watches left, a removed directory) is
+   * logged and stops the whole watch; `onError` is then told why.
+   */
+  start(onChange: (sources: ChangeSource[]) => void, onError?: (error: Error) => void): void {
+    if (this.watchers.length > 0) {
+      return; // Already running
+    }
+
+    const flush = debounce(() => {
+      const sources = Array.from(this.pending);
+      this.pending.clear();
+      if (sources.length > 0) {
+        onChange(sources);
+      }
+    }, this.debounceMs);
+
+    const record = (source: ChangeSource) => {
+      this.pending.add(source);
+      flush();
+    };
+
+    this.watchers.push(
+      watch(this.options.gitDir, (_event, filename) => {
+        if (filename && filename.toString() === 'index') {
+          record('index');
+        }
+      })
+    );
+
+    this.watchers.push(
+      this.watchWorkTree((_event, filename) => {
+        if (filename && !this.isIgnoredPath(filename.toString())) {
+          record('worktree');
+        }
+      })
+    );
+
+    for (const watcher of this.watchers) {
+      watcher.on('error', (error: Error) => {
+        if (this.watchers.length === 0) {
+          return; // Already stopped by an earlier error
+        }
+        logger.error(`Stopped watching for changes: ${error.message}`, error);
+        this.stop();
+        onError?.(error);
+      });
+    }
+
+    logger.debug('Watching for changes', {
+      gitDir: this.options.gitDir,
+      workTree: this.options.workTree,
+      debounceMs: this.debounceMs,
+    });
+  }
+
+  /**
+   * Stop all filesystem watchers
+   */
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+    this.pending.clear();
+  }
+
+  /**
+   * Recursive watching is not available on every platform/Node version (Linux
+   * only gained it in Node 20). Fall back to the top-level directory so watch
+   * mode still works, just with coarser working-tree coverage; index changes —
+   * the ones that matter for the staged diff — are unaffected.
+   */
+  private watchWorkTree(
+    listener: (event: string, filename: string | Buffer | null) => void
+  ): FSWatcher {
+    try {
+      return watch(this.options.workTree, { recursive: true }, listener);
+    } catch (error) {
+      logger.debug('Recursive watch unavailable, watching top-level directory only', error);
+      return watch(this.options.workTree, listener);
+    }
+  }
+
+  /**
+   * Paths inside the git dir are covered by the index watcher; dependency
+   * directories churn constantly and can never affect a sane staged diff.
+   */
+  private isIgnoredPath(filename: string): boolean {
+    const normalized = filename.split(sep).join('/');
+    return (
+      normalized === '.git' ||
+      normalized.startsWith('.git/') ||
+      normalized.startsWith('node_modules/') ||
+      normalized.includes('/node_modules/')
+    );
+  }
+}
@@ -27,8 +27,29 @@ export interface ProviderConfig {
    * the Authorization header.
    */
   readonly authScheme?: string;
+  /**
+   * `'local'` for a model server on this machine or network: no API key is
+   * needed and models are discovered from the server. Defaults to `'remote'`.
+   */
+  readonly type?: 'remote' | 'local';
+  /**
+   * Which local server `baseUrl` points at. Ollama is spoken natively
+   * (`/api/chat`), llama.cpp through its OpenAI-compatible endpoint.
+   * Defaults to `'ollama'`; ignored for remote providers.
+   */
+  readonly server?: LocalServer;
+  /**
+   * Wire protocol of the API. Defaults to `'openai'` (`/chat/completions`),
+   * or `'ollama'` for local Ollama servers. `'anthropic'` speaks the Messages
+   * API and `'gemini'` Google's `generateContent`.
+   */
+  readonly protocol?: ProviderProtocol;
 }
 
+export type LocalServer = 'ollama' | 'llamacpp';
+
+export type ProviderProtocol = 'openai' | 'ollama' | 'anthropic' | 'gemini';
+
 export interface UserPreferences {
   readonly defaultProvider: string;
   readonly maxTokens: number;
@@ -38,8 +59,96 @@ export interface UserPreferences {
   readonly commitFormat: 'conventional' | 'simple';
   readonly customPrompt?: string;
   readonly maxCommitLength?: number; // Maximum commit message length in characters (0 or undefined = unlimited)
+  readonly types?: readonly string[]; // Allowed commit types (undefined = the Conventional Commits set)
+  readonly scopes?: readonly string[]; // Allowed commit scopes (undefined = any scope)
+  readonly scopeMap?: Readonly<Record<string, string>>; // Path glob → scope, ahead of the inferred workspace scopes
+  readonly prTemplate?: string; // Pull request template, relative to the repository root
+  readonly fallbackProviders?: readonly string[]; // Tried in order when the provider is down: `name` or `name:model`
+  readonly pricing?: Readonly<Record<string, { prompt: number; completion: number }>>; // USD per 1M tokens, by model id
+  readonly monthlyBudget?: number; // USD; commits warn (or refuse) once this month's spend reaches it
+  readonly budgetAction?: 'warn' | 'refuse'; // What happens over budget (default: warn)
+  readonly redaction?: RedactionSettings; // What is masked in diffs before they reach a provider
+  readonly privacy?: PrivacyMode; // Alias paths (and identifiers) in prompts (default: off)
+  readonly privacyPatterns?: readonly string[]; // Identifier regexes aliased in 'strict' privacy mode
+  readonly tickets?: TicketSettings; // Reference the branch's ticket in every message (default: off)
+  readonly signoff?: boolean; // Add a Signed-off-by trailer for the committer to every commit (DCO)
+  readonly trailers?: readonly string[]; // Trailers added to every commit, as `Key: value`
 }
 
+export const PRIVACY_MODES = ['off', 'paths', 'strict'] as const;
+
+export type PrivacyMode = (typeof PRIVACY_MODES)[number];
+
+/**
+ * Redaction of prompt content. Secrets are always redacted while redaction
+ * is enabled; emails and IP addresses by default; `patterns` maps a
+ * placeholder kind to a regular expression of your own.
+ */
+export interface RedactionSettings {
+  readonly enabled?: boolean;
+  readonly emails?: boolean;
+  readonly ipAddresses?: boolean;
+  readonly patterns?: Readonly<Record<string, string>>;
+}
+
+export const TICKET_STYLES = ['jira', 'github', 'linear'] as const;
+
+export type TicketStyle = (typeof TICKET_STYLES)[number];
+
+export const TICKET_PLACEMENTS = ['footer', 'prefix'] as const;
+
+/**
+ * Ticket references taken from the branch name: `feature/PROJ-1234-login`
+ * gets a `Refs: PROJ-1234` footer, or `PROJ-1234` at the start of the
+ * description. `pattern` replaces the built-in styles; its first capture
+ * group (or the whole match) is the ticket id.
+ */
+export interface TicketSettings {
+  readonly placement: (typeof TICKET_PLACEMENTS)[number];
+  readonly styles?: readonly TicketStyle[]; // Default: jira and github
+  readonly pattern?: string;
+  readonly footerKey?: string; // Default: Refs
+}
+
+/**
+ * Preferences a repository may set in its `.orcommitrc`. Team conventions
+ * only — credentials, endpoints and personal behaviour (auto-confirm, default
+ * provider) stay in the user config.
+ */
+export const PROJECT_PREFERENCE_KEYS = [
+  'language',
+  'commitFormat',
+  'customPrompt',
+  'maxCommitLength',
+  'maxTokens',
+  'temperature',
+  'types',
+  'scopes',
+  'scopeMap',
+  'prTemplate',
+  'privacy',
+  'privacyPatterns',
+  'tickets',
+  'signoff',
+  'trailers',
+] as const;
+
+export type ProjectPreferenceKey = (typeof PROJECT_PREFERENCE_KEYS)[number];
+
+/**
+ * Repository-level configuration (`.orcommitrc` at the repository root),
+ * deep-merged over the user config. Providers may only pin a model: a cloned
+ * repository must never be able to supply an API key or redirect one to
+ * another base URL.
+ */
+export interface ProjectConfig {
+  readonly preferences?: Partial<Pick<UserPreferences, ProjectPreferenceKey>>;
+  readonly providers?: Record<string, Pick<ProviderConfig, 'model'>>;
+}
+
+/** Where an effective configuration value came from */
+export type ConfigLayer = 'default' | 'user' | 'project';
+
 // Git-related types
 export interface GitDiff {
   readonly files: GitFile[];
@@ -56,6 +165,34 @@ export interface GitFile {
 
 export type GitFileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
 
+export interface CommitInfo {
+  readonly hash: string;
+  readonly parents: string[];
+  readonly subject: string;
+}
+
+export interface CommitLogEntry {
+  readonly hash: string;
+  readonly message: string;
+}
+
+export interface GitIdentity {
+  readonly name: string;
+  readonly email: string;
+}
+
+/**
+ * How `git commit` is run, beyond the message. Unset fields leave the
+ * decision to git and its config (`commit.gpgsign`, `gpg.format`…).
+ */
+export interface CommitOptions {
+  readonly sign?: boolean | string; // true = sign with the configured key, a string picks the key, false = never sign
+  readonly noVerify?: boolean; // Skip the pre-commit and commit-msg hooks
+  readonly amend?: boolean;
+  readonly author?: string;
+  readonly date?: string;
+}
+
 export interface GitChunk {
   readonly header: string;
   readonly oldStart: number;
@@ -79,6 +216,11 @@ export interface ApiRequest {
   readonly messages: ApiMessage[];
   readonly maxTokens: number;
   readonly temperature: number;
+  /**
+   * Request Server-Sent Events streaming. The response is still assembled into
+   * a complete ApiResponse; pass a StreamListener to observe tokens as they
+   * arrive.
+   */
   readonly stream?: boolean;
   /**
    * OpenAI/OpenRouter `response_format`. When set to a json_schema block, the
@@ -100,6 +242,12 @@ export interface ApiResponse {
   readonly finishReason: string;
 }
 
+/**
+ * Receives streamed completion text: `delta` is the newly arrived fragment,
+ * `text` everything received so far.
+ */
+export type StreamListener = (delta: string, text: string) => void;
+
 export interface TokenUsage {
   readonly promptTokens: number;
   readonly completionTokens: number;
@@ -114,7 +262,9 @@ export interface CliOptions {
   readonly breaking?: boolean;
   readonly dryRun?: boolean;
   readonly verbose?: boolean;
+  readonly stream?: boolean; // false = wait for the full response (no live output)
   readonly watch?: boolean;
+  readonly split?: boolean; // Split staged changes into several atomic commits
   readonly provider?: string;
   // Extended formatting options
   readonly emoji?: boolean;
@@ -131,9 +281,62 @@ export interface CliOptions {
   // Git push options
   readonly push?: boolean;
   readonly autoPush?: boolean;
+  // Trailer options
+  readonly signoff?: boolean; // Add Signed-off-by for the committer
+  readonly coAuthor?: readonly string[]; // Co-authored-by aliases, resolved against the history's authors
+  // Commit creation options
+  readonly gpgSign?: boolean | string; // true = sign, a string picks the key, false = never sign
+  readonly verify?: boolean; // false = skip the pre-commit and commit-msg hooks
+  readonly amend?: boolean; // Replace the last commit, message included
+  readonly author?: string; // Author override, `Name <email>`
+  readonly date?: string; // Author date override, in any format git accepts
   // Custom prompt options
   readonly prompt?: string;
   readonly context?: string;
+  readonly feedback?: string; // What to change, when regenerating a message
+  // Pull request options
+  readonly base?: string; // Branch the pull request targets
+  readonly output?: string; // File to write the pull request body to
+  readonly template?: string; // Pull request template overriding the default sections
+  // Changelog options
+  readonly from?: string; // Start of the range (exclusive), usually the previous tag
+  readonly to?: string; // End of the range (inclusive)
+  readonly release?: string; // Version heading instead of the tag or "Unreleased"
+  readonly aiSummary?: boolean; // Add an AI-written highlights paragraph
+  // Stage options
+  readonly commit?: boolean; // false = stage the selected hunks without committing
+  readonly group?: boolean; // false = list hunks by file instead of by AI-inferred intent
+  // Output options
+  readonly json?: boolean; // Print the result as JSON on stdout, everything else on stderr
+}
+
+export interface PullRequestDraft {
+  readonly title: string;
+  readonly body: string;
+}
+
+/**
+ * Outcome of `orc commit`, printed as is in --json mode
+ */
+export interface CommitResult {
+  readonly message: string;
+  readonly assessment: string | null;
+  readonly provider: string; // The provider that answered, after any failover
+  readonly model: string;
+  readonly usage: TokenUsage & { readonly requests: number };
+  readonly filesAnalyzed: string[];
+  readonly filteredFiles: string[]; // Staged but left out of the prompt
+  readonly secrets: SecretFinding[] | null; // null when the scan was skipped
+  readonly committed: boolean;
+}
+
+export interface SecretFinding {
+  readonly file: string;
+  readonly line: number;
+  readonly column: number;
+  readonly ruleId: string;
+  readonly severity: 'error' | 'warning';
+  readonly message: string;
 }
 
 export type CommitType = 'feat' | 'fix' | 'docs' | 'style' | 'refactor' | 'test' | 'chore' | 'perf' | 'ci' | 'build' | 'revert';
@@ -159,6 +362,20 @@ export class GitError extends BaseError {
   readonly isRetryable = false;
 }
 
+/**
+ * A git hook (`pre-commit`, `commit-msg`…) rejected the commit. `output` is
+ * what the hook printed, usually the reason.
+ */
+export class HookError extends GitError {
+  constructor(
+    public readonly hook: string,
+    public readonly output: string,
+    cause?: Error
+  ) {
+    super(`The ${hook} hook rejected the commit${output ? `:\n${output}` : ''}`, cause);
+  }
+}
+
 export class ApiError extends BaseError {
   readonly code = 'API_ERROR';
   readonly isRetryable: boolean;
@@ -183,6 +400,26 @@ export class NetworkError extends BaseError {
   readonly isRetryable = true;
 }
 
+export class CancelledError extends BaseError {
+  readonly code = 'CANCELLED';
+  readonly isRetryable = false;
+}
+
+/**
+ * Process exit codes by BaseError code, stable for scripts. Any other failure
+ * exits with 1.
+ */
+export const EXIT_CODES: Readonly<Record<string, number>> = {
+  CONFIG_ERROR: 2,
+  GIT_ERROR: 3,
+  API_ERROR: 4,
+  NETWORK_ERROR: 5,
+};
+
+export function exitCodeFor(error: unknown): number {
+  return error instanceof BaseError ? EXIT_CODES[error.code] ?? 1 : 1;
+}
+
 // Utility types
 export interface ProcessingResult<T> {
   readonly success: boolean;
@@ -248,6 +485,20 @@ export const DEFAULT_CONFIG: Readonly<Config> = {
   version: '1.0.0',
 } as const;
 
+// Where local servers listen out of the box
+export const LOCAL_SERVER_URLS: Readonly<Record<LocalServer, string>> = {
+  ollama: 'http://127.0.0.1:11434',
+  llamacpp: 'http://127.0.0.1:8080/v1',
+};
+
+export const PROVIDER_PROTOCOLS: readonly ProviderProtocol[] = ['openai', 'ollama', 'anthropic', 'gemini'];
+
+// API roots of the hosted native protocols, used when no baseUrl is set
+export const PROTOCOL_BASE_URLS: Readonly<Partial<Record<ProviderProtocol, string>>> = {
+  anthropic: 'https://api.anthropic.com/v1',
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+};
+
 export const CHUNK_LIMITS = {
   MAX_CHUNK_SIZE: 8000, // characters
   MAX_CHUNKS_PER_REQUEST: 10,
@@ -0,0 +1,498 @@
+/**
+ * Commitlint-style validation and deterministic repair of commit messages.
+ *
+ * Rules use commitlint's names and `[severity, condition, value]` tuples, so a
+ * repository's existing commitlint.config.* / .commitlintrc can be read as-is.
+ * Only the rules below are understood; anything else in a config is ignored.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+
+/** 0 = disabled, 1 = warning, 2 = error (commitlint semantics) */
+export type RuleSeverity = 0 | 1 | 2;
+export type RuleCondition = 'always' | 'never';
+export type RuleConfig = readonly [RuleSeverity, RuleCondition?, unknown?];
+export type CommitLintRules = Readonly<Record<string, RuleConfig>>;
+
+export interface LintViolation {
+  readonly rule: string;
+  readonly severity: 1 | 2;
+  readonly message: string;
+}
+
+export interface LintResult {
+  /** The message after every deterministic fix was applied */
+  readonly message: string;
+  /** Rules whose violations were repaired */
+  readonly fixed: string[];
+  /** Violations that are still present after repair */
+  readonly violations: LintViolation[];
+  /** True when no error-level violation remains */
+  readonly valid: boolean;
+}
+
+export const CONVENTIONAL_TYPES: readonly string[] = [
+  'build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test',
+];
+
+/** Built-in equivalent of @commitlint/config-conventional */
+export const CONVENTIONAL_RULES: CommitLintRules = {
+  'body-leading-blank': [1, 'always'],
+  'body-max-line-length': [2, 'always', 100],
+  'footer-leading-blank': [1, 'always'],
+  'header-max-length': [2, 'always', 100],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'type-case': [2, 'always', 'lower-case'],
+  'type-empty': [2, 'never'],
+  'type-enum': [2, 'always', CONVENTIONAL_TYPES],
+};
+
+/** Not a commitlint rule: the spec requires the exact `BREAKING CHANGE:` token */
+const BREAKING_CHANGE_RULE = 'footer-breaking-change-format';
+
+const COMMITLINT_CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+];
+
+// Types models commonly emit instead of the conventional one
+const TYPE_ALIASES: Record<string, string> = {
+  feature: 'feat',
+  features: 'feat',
+  bug: 'fix',
+  bugfix: 'fix',
+  hotfix: 'fix',
+  doc: 'docs',
+  tests: 'test',
+  refactoring: 'refactor',
+  performance: 'perf',
+};
+
+const HEADER_RE = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.*)$/;
+const FOOTER_RE = /^(?:BREAKING[ -]CHANGE|[\w-]+)(?::\s| #)/;
+const BREAKING_RE = /^breaking[ _-]?changes?\s*:\s*/i;
+// Leading emoji or :gitmoji: shortcode, kept aside while the header is parsed
+const EMOJI_PREFIX_RE = /^(?:\p{Extended_Pictographic}️?\s*|:[a-z0-9_+-]+:\s*)/u;
+
+/**
+ * Rules to apply when the repository has no commitlint config: the
+ * conventional set tightened to the prompt's 72-character subject, with the
+ * configured type/scope lists.
+ */
+export function getDefaultCommitRules(preferences: {
+  readonly commitFormat: 'conventional' | 'simple';
+  readonly types?: readonly string[];
+  readonly scopes?: readonly string[];
+}): CommitLintRules {
+  const layout: Record<string, RuleConfig> = {
+    'body-leading-blank': [2, 'always'],
+    'body-max-line-length': [2, 'always', 100],
+    'footer-leading-blank': [2, 'always'],
+    'header-max-length': [2, 'always', 72],
+    [BREAKING_CHANGE_RULE]: [2, 'always'],
+  };
+
+  if (preferences.commitFormat !== 'conventional') {
+    return layout;
+  }
+
+  return {
+    ...CONVENTIONAL_RULES,
+    ...layout,
+    ...withProjectLists({}, preferences),
+  };
+}
+
+/**
+ * Read the repository's commitlint rule set, or null when it has none we can
+ * load. `extends: ['@commitlint/config-conventional']` resolves to the
+ * built-in copy so the shareable config does not need to be installed. The
+ * configured type/scope lists fill in enums the file leaves unset.
+ */
+export async function loadCommitLintRules(
+  root: string,
+  preferences: { readonly types?: readonly string[]; readonly scopes?: readonly string[] } = {}
+): Promise<{ rules: CommitLintRules; source: string } | null> {
+  let raw: unknown = null;
+  let source = '';
+
+  for (const fileName of COMMITLINT_CONFIG_FILES) {
+    const path = join(root, fileName);
+    try {
+      await fs.access(path);
+    } catch {
+      continue;
+    }
+
+    raw = /\.(c|m)?js$/.test(fileName)
+      ? await importConfig(path)
+      : parseJson(await fs.readFile(path, 'utf-8'));
+    source = fileName;
+    break;
+  }
+
+  if (!raw) {
+    try {
+      const packageJson = parseJson(await fs.readFile(join(root, 'package.json'), 'utf-8'));
+      if (isObject(packageJson) && isObject(packageJson.commitlint)) {
+        raw = packageJson.commitlint;
+        source = 'package.json';
+      }
+    } catch {
+      // No package.json — no commitlint config either
+    }
+  }
+
+  if (!isObject(raw)) {
+    return null;
+  }
+
+  const extendsList = Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+  const base = extendsList.some(name => typeof name === 'string' && name.includes('config-conventional'))
+    ? CONVENTIONAL_RULES
+    : {};
+
+  const fileRules: Record<string, RuleConfig> = {};
+  if (isObject(raw.rules)) {
+    for (const [name, value] of Object.entries(raw.rules)) {
+      if (Array.isArray(value) && [0, 1, 2].includes(value[0])) {
+        fileRules[name] = value as unknown as RuleConfig;
+      }
+    }
+  }
+
+  return {
+    rules: {
+      ...withProjectLists(base, preferences),
+      [BREAKING_CHANGE_RULE]: [2, 'always'],
+      ...fileRules,
+    },
+    source,
+  };
+}
+
+/**
+ * Validate a commit message, repairing what can be repaired without guessing
+ * (case, blank lines, wrapping, footer tokens, type aliases). Everything
+ * else is reported for the model to fix.
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): LintResult {
+  const fixed = new Set<string>();
+  const violations: LintViolation[] = [];
+
+  const active = (name: string): RuleConfig | null => {
+    const rule = rules[name];
+    return rule && rule[0] > 0 ? rule : null;
+  };
+  const report = (name: string, text: string) => {
+    violations.push({ rule: name, severity: rules[name]![0] as 1 | 2, message: text });
+  };
+
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  let header = lines[0] ?? '';
+  let rest = lines.slice(1);
+
+  // --- Header -------------------------------------------------------------
+  const emoji = header.match(EMOJI_PREFIX_RE)?.[0] ?? '';
+  const match = header.slice(emoji.length).match(HEADER_RE);
+
+  if (match) {
+    const [, rawType = '', rawScope, bang = '', rawSubject = ''] = match;
+    let type = rawType;
+    let scope = rawScope;
+    let subject = rawSubject;
+
+    if (active('type-case') && rules['type-case']![2] === 'lower-case' && type !== type.toLowerCase()) {
+      type = type.toLowerCase();
+      fixed.add('type-case');
+    }
+
+    const typeEnum = active('type-enum');
+    if (typeEnum && Array.isArray(typeEnum[2]) && typeEnum[2].length > 0) {
+      const allowed = typeEnum[2] as string[];
+      const alias = TYPE_ALIASES[type.toLowerCase()];
+      if (!allowed.includes(type)) {
+        if (alias && allowed.includes(alias)) {
+          type = alias;
+          fixed.add('type-enum');
+        } else {
+          report('type-enum', `type "${type}" is not allowed; use one of: ${allowed.join(', ')}`);
+        }
+      }
+    }
+
+    const scopeEnum = active('scope-enum');
+    if (scopeEnum && scope && Array.isArray(scopeEnum[2]) && scopeEnum[2].length > 0) {
+      const allowed = scopeEnum[2] as string[];
+      const scopes = scope.split(/\s*[,/\\]\s*/).map(part => {
+        const canonical = allowed.find(item => item.toLowerCase() === part.toLowerCase());
+        return canonical ?? part;
+      });
+      const unknown = scopes.filter(part => !allowed.includes(part));
+
+      if (unknown.length > 0) {
+        report('scope-enum', `scope "${unknown.join(', ')}" is not allowed; use one of: ${allowed.join(', ')} (or no scope)`);
+      } else if (scopes.join(',') !== scope.split(/\s*[,/\\]\s*/).join(',')) {
+        scope = scopes.join(',');
+        fixed.add('scope-enum');
+      }
+    }
+
+    const fullStop = active('subject-full-stop');
+    if (fullStop && fullStop[1] !== 'always') {
+      const stop = typeof fullStop[2] === 'string' ? fullStop[2] : '.';
+      if (subject.endsWith(stop)) {
+        subject = subject.slice(0, -stop.length).trimEnd();
+        fixed.add('subject-full-stop');
+      }
+    }
+
+    const subjectCase = active('subject-case');
+    if (subjectCase && subject) {
+      const cases = (Array.isArray(subjectCase[2]) ? subjectCase[2] : [subjectCase[2]]) as string[];
+      const never = subjectCase[1] === 'never';
+      const satisfies = (value: string) =>
+        never ? !cases.some(name => matchesCase(value, name)) : cases.some(name => matchesCase(value, name));
+
+      if (!satisfies(subject)) {
+        // Only touch the first letter; lowering a whole subject mangles names
+        // and acronyms, so that is reserved for an explicit lower-case rule
+        const candidates = [lowerFirst(subject), upperFirst(subject)];
+        if (!never && cases.includes('lower-case')) {
+          candidates.push(subject.toLowerCase());
+        }
+        const repaired = candidates.find(satisfies);
+        if (repaired !== undefined) {
+          subject = repaired;
+          fixed.add('subject-case');
+        } else {
+          report('subject-case', `subject must ${never ? 'not ' : ''}be ${cases.join(' or ')}`);
+        }
+      }
+    }
+
+    if (active('subject-empty') && rules['subject-empty']![1] === 'never' && !subject.trim()) {
+      report('subject-empty', 'subject may not be empty');
+    }
+
+    header = `${emoji}${type}${scope ? `(${scope})` : ''}${bang}: ${subject}`;
+
+    const subjectMax = active('subject-max-length');
+    if (subjectMax && typeof subjectMax[2] === 'number' && subject.length > subjectMax[2]) {
+      report('subject-max-length', `subject must not be longer than ${subjectMax[2]} characters (currently ${subject.length})`);
+    }
+  } else if (active('type-empty') && rules['type-empty']![1] === 'never') {
+    report('type-empty', 'header must follow "<type>(<scope>): <subject>"');
+  }
+
+  const headerMax = active('header-max-length');
+  if (headerMax && typeof headerMax[2] === 'number' && header.length > headerMax[2]) {
+    report('header-max-length', `header must not be longer than ${headerMax[2]} characters (currently ${header.length})`);
+  }
+
+  // --- Body and footer ----------------------------------------------------
+  if (rest.some(line => line.trim())) {
+    if (active('body-leading-blank') && rules['body-leading-blank']![1] !== 'never' && rest[0]?.trim()) {
+      rest = ['', ...rest];
+      fixed.add('body-leading-blank');
+    }
+
+    if (active(BREAKING_CHANGE_RULE)) {
+      rest = rest.map(line => {
+        if (!BREAKING_RE.test(line) || /^BREAKING[ -]CHANGE: \S/.test(line)) {
+          return line;
+        }
+        const description = line.replace(BREAKING_RE, '').trim();
+        if (!description) {
+          report(BREAKING_CHANGE_RULE, 'BREAKING CHANGE footer needs a description of what breaks');
+          return line;
+        }
+        fixed.add(BREAKING_CHANGE_RULE);
+        return `BREAKING CHANGE: ${description}`;
+      });
+    }
+
+    const footerStart = findFooterStart(rest);
+
+    if (
+      footerStart > 0 &&
+      footerStart < rest.length &&
+      active('footer-leading-blank') &&
+      rules['footer-leading-blank']![1] !== 'never' &&
+      rest[footerStart - 1]?.trim()
+    ) {
+      rest = [...rest.slice(0, footerStart), '', ...rest.slice(footerStart)];
+      fixed.add('footer-leading-blank');
+    }
+
+    const bodyMax = active('body-max-line-length');
+    if (bodyMax && typeof bodyMax[2] === 'number') {
+      const limit = bodyMax[2];
+      const bodyEnd = findFooterStart(rest);
+      const body = rest.slice(0, bodyEnd);
+
+      if (body.some(line => line.length > limit)) {
+        const wrapped = body.flatMap(line => wrapLine(line, limit));
+        rest = [...wrapped, ...rest.slice(bodyEnd)];
+        fixed.add('body-max-line-length');
+
+        const tooLong = wrapped.filter(line => line.length > limit);
+        if (tooLong.length > 0) {
+          fixed.delete('body-max-line-length');
+          report('body-max-line-length', `body lines must not be longer than ${limit} characters`);
+        }
+      }
+    }
+  }
+
+  const repaired = [header, ...rest].join('\n').trimEnd();
+
+  return {
+    message: repaired,
+    fixed: [...fixed],
+    violations,
+    valid: !violations.some(violation => violation.severity === 2),
+  };
+}
+
+/**
+ * Describe the remaining violations as regeneration feedback for the model
+ */
+export function formatLintFeedback(message: string, violations: LintViolation[]): string {
+  return [
+    'The previous commit message broke the repository commit rules:',
+    ...violations.map(violation => `- ${violation.message} [${violation.rule}]`),
+    '',
+    'Previous message:',
+    message,
+    '',
+    'Write a new message for the same diff that satisfies ALL of these rules.',
+  ].join('\n');
+}
+
+// Helpers
+
+function withProjectLists(
+  base: CommitLintRules,
+  preferences: { readonly types?: readonly string[]; readonly scopes?: readonly string[] }
+): Record<string, RuleConfig> {
+  const rules: Record<string, RuleConfig> = { ...base };
+  if (preferences.types?.length) {
+    rules['type-enum'] = [2, 'always', preferences.types];
+  }
+  if (preferences.scopes?.length) {
+    rules['scope-enum'] = [2, 'always', preferences.scopes];
+  }
+  return rules;
+}
+
+/**
+ * Index of the first footer line, or lines.length when there is no footer.
+ * The footer is the trailing paragraph when every line in it is a
+ * `Token: value` trailer; a `BREAKING CHANGE:` line starts it early.
+ */
+function findFooterStart(lines: string[]): number {
+  let end = lines.length;
+  while (end > 0 && !lines[end - 1]!.trim()) end--;
+
+  let start = end;
+  while (start > 0 && lines[start - 1]!.trim()) start--;
+  const trailerStart = start < end && lines.slice(start, end).every(line => FOOTER_RE.test(line))
+    ? start
+    : lines.length;
+
+  const breakingStart = lines.findIndex(line => /^BREAKING[ -]CHANGE: /.test(line));
+  return breakingStart >= 0 ? Math.min(breakingStart, trailerStart) : trailerStart;
+}
+
+/** Greedy word wrap; list items keep a hanging indent. Unbreakable words stay long. */
+function wrapLine(line: string, limit: number): string[] {
+  if (line.length <= limit) return [line];
+
+  const indent = line.match(/^(\s*(?:[-*+]|\d+[.)])\s+|\s*)/)?.[0] ?? '';
+  const continuation = ' '.repeat(indent.length);
+  const words = line.slice(indent.length).split(/\s+/).filter(Boolean);
+
+  const result: string[] = [];
+  let current = indent;
+  for (const word of words) {
+    const prefix = result.length === 0 ? indent : continuation;
+    if (current.length > prefix.length && current.length + 1 + word.length > limit) {
+      result.push(current);
+      current = continuation + word;
+    } else {
+      current = current.length > prefix.length ? `${current} ${word}` : `${current}${word}`;
+    }
+  }
+  result.push(current);
+  return result;
+}
+
+function matchesCase(value: string, name: string): boolean {
+  const letters = value.replace(/[^\p{L}]/gu, '');
+  switch (name) {
+    case 'lower-case':
+    case 'lowercase':
+      return value === value.toLowerCase();
+    case 'upper-case':
+    case 'uppercase':
+      return letters.length > 0 && value === value.toUpperCase();
+    case 'sentence-case':
+    case 'sentencecase':
+      return /^\p{Lu}/u.test(value);
+    case 'start-case':
+      return value.split(/\s+/).length > 1 && value.split(/\s+/).every(word => /^\p{Lu}/u.test(word));
+    case 'pascal-case':
+      return /^\p{Lu}[\p{L}\d]*$/u.test(value) && /\p{Ll}/u.test(value);
+    case 'camel-case':
+      return /^\p{Ll}[\p{L}\d]*$/u.test(value) && /\p{Lu}/u.test(value);
+    case 'kebab-case':
+      return /^[a-z\d]+(?:-[a-z\d]+)+$/.test(value);
+    case 'snake-case':
+      return /^[a-z\d]+(?:_[a-z\d]+)+$/.test(value);
+    default:
+      return false;
+  }
+}
+
+function lowerFirst(value: string): string {
+  // Leave acronyms ("API", "CLI") alone — lowering them changes meaning
+  if (/^\p{Lu}{2,}\b/u.test(value)) return value;
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function upperFirst(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // YAML .commitlintrc files are not supported
+    return null;
+  }
+}
+
+async function importConfig(path: string): Promise<unknown> {
+  try {
+    const module = await import(pathToFileURL(path).href);
+    return module.default ?? module;
+  } catch {
+    return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
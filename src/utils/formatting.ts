@@ -128,6 +128,123 @@ export const COMMIT_RESPONSE_FORMAT: Record<string, unknown> = {
   },
 };
 
+/**
+ * Strict `response_format` for `orc commit --split`: the staged changes
+ * grouped into an ordered list of atomic commits. Each file entry lists the
+ * 1-based hunk numbers it takes (`path#N` in the prompt); an empty list takes
+ * the whole file.
+ */
+export const SPLIT_RESPONSE_FORMAT: Record<string, unknown> = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'commit_split_plan',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['commits'],
+      properties: {
+        commits: {
+          type: 'array',
+          description: 'Logical commits in the order they should be created.',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['commitMessage', 'files'],
+            properties: {
+              commitMessage: {
+                type: 'string',
+                description: 'Commit message describing only the changes in this group.',
+              },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  additionalProperties: false,
+                  required: ['path', 'hunks'],
+                  properties: {
+                    path: { type: 'string' },
+                    hunks: {
+                      type: 'array',
+                      description: 'Hunk numbers of this file in the group; empty for the whole file.',
+                      items: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Strict `response_format` for one slice of a diff too large for a single
+ * request: what it changes and the type and scope it suggests. The partial
+ * summaries are merged into one commit message by a final request.
+ */
+export const CHUNK_SUMMARY_RESPONSE_FORMAT: Record<string, unknown> = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'diff_chunk_summary',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['files', 'changes', 'type', 'scope'],
+      properties: {
+        files: {
+          type: 'array',
+          description: 'Paths of the files changed in this part.',
+          items: { type: 'string' },
+        },
+        changes: {
+          type: 'array',
+          description: 'One short line per concrete change, derived exclusively from the diff.',
+          items: { type: 'string' },
+        },
+        type: {
+          type: 'string',
+          description: 'Commit type that best fits this part, or an empty string when unsure.',
+        },
+        scope: {
+          type: 'string',
+          description: 'Commit scope that best fits this part, or an empty string for none.',
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Strict `response_format` for `orc pr`: a pull request title and its
+ * Markdown body.
+ */
+export const PR_RESPONSE_FORMAT: Record<string, unknown> = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'pull_request',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['title', 'body'],
+      properties: {
+        title: {
+          type: 'string',
+          description: 'One-line pull request title, derived from the actual changes.',
+        },
+        body: {
+          type: 'string',
+          description: 'Markdown pull request description following the requested sections or template.',
+        },
+      },
+    },
+  },
+};
+
 /**
  * Extract balanced JSON object from string
  * Handles nested braces correctly
@@ -221,7 +338,7 @@ export function parseAIResponse(response: string): {
   }
 
   // Strategy 3: Remove common prefixes and try again
-  let cleanResponse = originalResponse
+  const cleanResponse = originalResponse
     .replace(/^(?:Here is|Here's|This is|The|A)\s+(?:a\s+)?(?:professional[,.]?\s*)?(?:comprehensive\s+)?(?:the\s+)?(?:commit\s+message|JSON|response|result)[^:]*:?\s*/i, '')
     .trim();
 
@@ -330,8 +447,96 @@ function extractStringFieldFromPartialJson(text: string, field: string): string
   }
 }
 
+/**
+ * Parse a pull request draft. Models that ignore the schema and answer in
+ * Markdown get the first line as the title and the rest as the body.
+ */
+export function parsePullRequestResponse(response: string): { title: string; body: string } {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)```$/);
+  const json = extractBalancedJson(fenced?.[1] ?? trimmed);
+
+  if (json && (trimmed.startsWith('{') || fenced)) {
+    try {
+      const parsed = JSON.parse(json);
+      if (parsed && typeof parsed.title === 'string' && typeof parsed.body === 'string') {
+        return { title: parsed.title.trim(), body: parsed.body.trim() };
+      }
+    } catch {
+      // Fall through to the plain-text layout
+    }
+  }
+
+  if (trimmed.startsWith('{')) {
+    const title = extractStringFieldFromPartialJson(trimmed, 'title');
+    if (title?.trim()) {
+      return { title: title.trim(), body: (extractStringFieldFromPartialJson(trimmed, 'body') ?? '').trim() };
+    }
+    throw new Error('AI returned malformed structured output (no parseable title field)');
+  }
+
+  const [first = '', ...rest] = trimmed.split('\n');
+  return {
+    title: first.replace(/^#+\s*/, '').replace(/^title:\s*/i, '').trim(),
+    body: rest.join('\n').trim(),
+  };
+}
+
+/**
+ * Best-effort view of the commit message inside a response that is still
+ * streaming in. For the JSON envelope this is the `commitMessage` value
+ * received so far (null until the field starts); plain-text models are shown
+ * as-is. Display only — the final text always goes through parseAIResponse.
+ */
+export function extractStreamingCommitMessage(partial: string): string | null {
+  const trimmed = partial.trimStart();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('```')) {
+    return extractStringFieldFromPartialJson(trimmed, 'commitMessage');
+  }
+
+  return trimmed;
+}
+
 /** Recover the `commitMessage` field from a partial/truncated JSON response. */
 function recoverCommitMessageFromPartialJson(text: string): string | null {
   const msg = extractStringFieldFromPartialJson(text, 'commitMessage');
   return msg && msg.trim().length > 0 ? msg.trim() : null;
 }
+
+/**
+ * Lay out two texts in columns, e.g. an old and a new commit message.
+ * Long lines wrap at spaces inside their column instead of being cut.
+ * @param width - Total width of both columns and the separator
+ * @returns Rows of `left │ right`, padded so the separator lines up
+ */
+export function formatSideBySide(left: string, right: string, width: number): string[] {
+  const separator = ' │ ';
+  const column = Math.max(10, Math.floor((width - separator.length) / 2));
+
+  const wrap = (text: string): string[] =>
+    text.split('\n').flatMap(line => {
+      const pieces: string[] = [];
+      let rest = line;
+      while (rest.length > column) {
+        // Break at the last space that fits, or mid-word when there is none
+        const space = rest.lastIndexOf(' ', column);
+        const cut = space > 0 ? space : column;
+        pieces.push(rest.slice(0, cut));
+        rest = rest.slice(space > 0 ? cut + 1 : cut);
+      }
+      pieces.push(rest);
+      return pieces;
+    });
+
+  const leftLines = wrap(left);
+  const rightLines = wrap(right);
+  const rows: string[] = [];
+
+  for (let i = 0; i < Math.max(leftLines.length, rightLines.length); i++) {
+    rows.push(`${(leftLines[i] ?? '').padEnd(column)}${separator}${rightLines[i] ?? ''}`.trimEnd());
+  }
+
+  return rows;
+}
@@ -201,3 +201,46 @@ export function maskSensitive(value: string, visibleChars = 4): string {
   
   return start + middle + end;
 }
+
+/**
+ * Check whether a model is among those installed on a local server. Ollama
+ * lists `name:tag` and treats a bare name as `name:latest`.
+ */
+export function isModelInstalled(installed: readonly string[], model: string): boolean {
+  return installed.includes(model) || (!model.includes(':') && installed.includes(`${model}:latest`));
+}
+
+/**
+ * Compile a path glob into an anchored RegExp: `*` and `?` stay within one
+ * path segment, `**` spans any number of them and `{a,b}` is an alternation
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
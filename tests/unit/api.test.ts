@@ -1,6 +1,9 @@
 import axios, { AxiosError } from 'axios';
+import { Readable } from 'stream';
 import { ApiManager } from '../../src/modules/api.js';
-import { ApiRequest, Config, DEFAULT_CONFIG } from '../../src/types/index.js';
+import { getAdapter } from '../../src/modules/provider-adapters.js';
+import { usageLedger } from '../../src/modules/usage.js';
+import { ApiError, ApiRequest, CancelledError, Config, DEFAULT_CONFIG } from '../../src/types/index.js';
 
 // Mock axios
 jest.mock('axios', () => ({
@@ -17,6 +20,11 @@ jest.mock('axios', () => ({
 // Mock axios-retry
 jest.mock('axios-retry', () => jest.fn());
 
+// Keep the usage ledger out of the home directory
+jest.mock('../../src/modules/usage.js', () => ({
+  usageLedger: { record: jest.fn(() => Promise.resolve()) },
+}));
+
 // Mock p-queue
 jest.mock('p-queue', () => {
   return jest.fn().mockImplementation(() => ({
@@ -47,6 +55,7 @@ describe('ApiManager', () => {
   beforeEach(() => {
     mockAxiosInstance = {
       post: jest.fn(),
+      get: jest.fn(),
       interceptors: {
         response: {
           use: jest.fn((successHandler, errorHandler) => {
@@ -170,8 +179,14 @@ describe('ApiManager', () => {
           temperature: 0.6,
           stream: false,
         },
-        { timeout: 60000 }
+        { timeout: 60000, signal: expect.any(AbortSignal) }
       );
+      expect(usageLedger.record).toHaveBeenCalledWith(expect.objectContaining({
+        provider: 'openrouter',
+        model: 'gpt-3.5-turbo',
+        usage: { promptTokens: 50, completionTokens: 10, totalTokens: 60 },
+        cached: false,
+      }));
     });
 
     it('should handle API errors gracefully', async () => {
@@ -230,6 +245,26 @@ describe('ApiManager', () => {
       expect(result.error?.message).toContain('Network error');
     });
 
+    it('should report requests aborted by cancelPending as cancelled, not retryable', async () => {
+      mockAxiosInstance.post.mockImplementation((_url: string, _payload: unknown, config: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          config.signal.addEventListener('abort', () => {
+            const error = Object.assign(new Error('canceled'), { code: 'ERR_CANCELED', request: {} });
+            Promise.resolve().then(() => errorInterceptor!(error)).catch(reject);
+          });
+        })
+      );
+
+      const pending = apiManager.generateCommitMessage(mockRequest, 'openrouter');
+      apiManager.cancelPending();
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(CancelledError);
+      expect(result.error?.isRetryable).toBe(false);
+      expect(usageLedger.record).not.toHaveBeenCalled();
+    });
+
     it('should throw error for client not initialized', async () => {
       const uninitializedManager = new ApiManager();
 
@@ -384,6 +419,25 @@ describe('ApiManager', () => {
       expect(result.data).toMatch(/\.\.\.$/); // Should end with ...
     });
 
+    it('should return completions uncut, whatever maxCommitLength is', async () => {
+      const plan = JSON.stringify({
+        commits: Array.from({ length: 12 }, (_, i) => ({ message: `feat: change number ${i} of the plan`, units: [`src/file${i}.ts#1`] })),
+      });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { choices: [{ message: { content: `${plan}\r\n` }, finish_reason: 'stop' }], model: 'gpt-3.5-turbo' },
+      });
+
+      apiManager.initializeProvider('openrouter', {
+        ...mockConfig,
+        preferences: { ...mockConfig.preferences, maxCommitLength: 200 },
+      });
+
+      const result = await apiManager.generateCompletion(mockRequest, 'openrouter');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(plan);
+    });
+
     it('should reject very short commit messages', async () => {
       const mockResponse = {
         choices: [
@@ -434,7 +488,7 @@ describe('ApiManager', () => {
       expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
     });
 
-    it('should handle partial failures gracefully', async () => {
+    it('should fail when any chunk fails', async () => {
       mockAxiosInstance.post
         .mockResolvedValueOnce({ 
           data: { 
@@ -450,10 +504,8 @@ describe('ApiManager', () => {
 
       const result = await apiManager.processChunks(chunks, baseRequest, 'openrouter');
 
-      expect(result.success).toBe(true);
-      expect(result.data).toHaveLength(2); // Only successful ones
-      expect(result.data).toContain('success1');
-      expect(result.data).toContain('success3');
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('failed for 1 of 3 chunks');
     });
 
     it('should fail when all chunks fail', async () => {
@@ -517,8 +569,8 @@ describe('ApiManager', () => {
     });
   });
 
-  describe('extractErrorDetail', () => {
-    const detail = (data: unknown) => (apiManager as any).extractErrorDetail(data);
+  describe('error details', () => {
+    const detail = (data: unknown) => getAdapter('openai').errorDetail(data);
 
     it('reads OpenAI/OpenRouter { error: { message } }', () => {
       expect(detail({ error: { message: 'bad model' } })).toBe('bad model');
@@ -558,6 +610,320 @@ describe('ApiManager', () => {
     });
   });
 
+  describe('streaming', () => {
+    const streamRequest: ApiRequest = {
+      provider: 'openrouter',
+      model: 'gpt-3.5-turbo',
+      messages: [{ role: 'user', content: 'diff' }],
+      maxTokens: 100,
+      temperature: 0.6,
+      stream: true,
+      responseFormat: { type: 'json_schema' },
+    };
+
+    const sse = (...events: string[]) => Readable.from(events.map(e => Buffer.from(e)));
+
+    beforeEach(() => {
+      apiManager.initializeProvider('openrouter', mockConfig);
+    });
+
+    it('should assemble SSE deltas and forward them to the listener', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: sse(
+          ': OPENROUTER PROCESSING\n\n',
+          'data: {"model":"m1","choices":[{"delta":{"content":"feat: add "}}]}\n\n',
+          // Event split across two network chunks
+          'data: {"choices":[{"delta":{"con',
+          'tent":"streaming"},"finish_reason":"stop"}],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+          'data: [DONE]\n\n'
+        ),
+      });
+
+      const onToken = jest.fn();
+      const result = await apiManager.generateCommitMessage(streamRequest, 'openrouter', onToken);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('feat: add streaming');
+      expect(onToken).toHaveBeenNthCalledWith(1, 'feat: add ', 'feat: add ');
+      expect(onToken).toHaveBeenNthCalledWith(2, 'streaming', 'feat: add streaming');
+    });
+
+    it('should request a stream and skip the non-streaming response-healing plugin', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: sse('data: {"choices":[{"delta":{"content":"fix: typo"}}]}\n\n'),
+      });
+
+      await apiManager.generateCommitMessage(streamRequest, 'openrouter');
+
+      const [, payload, config] = mockAxiosInstance.post.mock.calls[0];
+      expect(payload.stream).toBe(true);
+      expect(payload.plugins).toBeUndefined();
+      expect(payload.provider).toEqual({ require_parameters: true });
+      expect(config.responseType).toBe('stream');
+    });
+
+    it('should fall back to a plain JSON body when the provider ignores streaming', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: sse(JSON.stringify({ choices: [{ message: { content: 'docs: update readme' } }] })),
+      });
+
+      const onToken = jest.fn();
+      const result = await apiManager.generateCommitMessage(streamRequest, 'openrouter', onToken);
+
+      expect(result.data).toBe('docs: update readme');
+      expect(onToken).toHaveBeenCalledWith('docs: update readme', 'docs: update readme');
+    });
+
+    it('should read the error body of a failed stream and retry overloads', async () => {
+      const overloaded = Object.assign(new Error('Request failed with status code 503'), {
+        isAxiosError: true,
+        request: {},
+        response: { status: 503, data: sse('{"error":{"message":"Provider ', 'is overloaded"}}') },
+      });
+      mockAxiosInstance.post
+        .mockImplementationOnce(() => errorInterceptor!(overloaded))
+        .mockResolvedValueOnce({ data: sse('data: {"choices":[{"delta":{"content":"fix: retry"}}]}\n\n') });
+
+      const pending = apiManager.generateCommitMessage(streamRequest, 'openrouter');
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await pending;
+
+      expect(result.data).toBe('fix: retry');
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the text of a failed stream in the error', async () => {
+      const rejected = Object.assign(new Error('Request failed with status code 400'), {
+        isAxiosError: true,
+        request: {},
+        response: { status: 400, data: sse('model not found') },
+      });
+
+      const error = await errorInterceptor!(rejected).catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe('openrouter API error (400): model not found');
+    });
+
+    it('should surface errors sent as stream events', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: sse('data: {"error":{"message":"model not found"}}\n\n'),
+      });
+
+      const result = await apiManager.generateCommitMessage(streamRequest, 'openrouter');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('model not found');
+    });
+  });
+
+  describe('local providers', () => {
+    const localConfig: Config = {
+      ...mockConfig,
+      providers: {
+        ...mockConfig.providers,
+        ol: { type: 'local', server: 'ollama', model: 'llama3.2' },
+        lc: { type: 'local', server: 'llamacpp', model: 'qwen' },
+      },
+    };
+
+    const localRequest: ApiRequest = {
+      provider: 'ol',
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'diff' }],
+      maxTokens: 100,
+      temperature: 0.6,
+      responseFormat: { type: 'json_schema', json_schema: { name: 'commit', schema: { type: 'object' } } },
+    };
+
+    it('should initialize without an API key and use the default server URL', () => {
+      expect(() => apiManager.initializeProvider('ol', localConfig)).not.toThrow();
+
+      const options = mockAxios.create.mock.calls[0]![0]!;
+      expect(options.baseURL).toBe('http://127.0.0.1:11434');
+      expect(options.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should call Ollama /api/chat with the schema in format', async () => {
+      apiManager.initializeProvider('ol', localConfig);
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          model: 'llama3.2',
+          message: { role: 'assistant', content: 'feat: add local models' },
+          done: true,
+          done_reason: 'stop',
+          prompt_eval_count: 40,
+          eval_count: 8,
+        },
+      });
+
+      const result = await apiManager.generateCommitMessage(localRequest, 'ol');
+
+      const [endpoint, payload, config] = mockAxiosInstance.post.mock.calls[0];
+      expect(endpoint).toBe('/api/chat');
+      expect(payload.format).toEqual({ type: 'object' });
+      expect(payload.options).toEqual({ temperature: 0.6, num_predict: 100 });
+      expect(payload.response_format).toBeUndefined();
+      expect(config.timeout).toBe(120000);
+      expect(result.data).toBe('feat: add local models');
+    });
+
+    it('should read Ollama token counts as usage', () => {
+      apiManager.initializeProvider('ol', localConfig);
+      const parsed = (apiManager as any).parseResponse(
+        { message: { content: 'fix: x' }, done_reason: 'stop', prompt_eval_count: 40, eval_count: 8 },
+        'ol'
+      );
+
+      expect(parsed.usage).toEqual({ promptTokens: 40, completionTokens: 8, totalTokens: 48 });
+      expect(parsed.finishReason).toBe('stop');
+    });
+
+    it('should assemble an Ollama NDJSON stream', async () => {
+      apiManager.initializeProvider('ol', localConfig);
+      mockAxiosInstance.post.mockResolvedValue({
+        data: Readable.from([
+          Buffer.from('{"model":"llama3.2","message":{"content":"fix: "},"done":false}\n{"message":{"con'),
+          Buffer.from('tent":"typo"},"done":false}\n{"message":{"content":""},"done":true,"done_reason":"stop","prompt_eval_count":3,"eval_count":2}\n'),
+        ]),
+      });
+
+      const onToken = jest.fn();
+      const result = await apiManager.generateCommitMessage({ ...localRequest, stream: true }, 'ol', onToken);
+
+      expect(result.data).toBe('fix: typo');
+      expect(onToken).toHaveBeenLastCalledWith('typo', 'fix: typo');
+    });
+
+    it('should list installed models from Ollama tags and llama.cpp /models', async () => {
+      apiManager.initializeProvider('ol', localConfig);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { models: [{ name: 'llama3.2:latest' }, { name: 'qwen2.5-coder:7b' }] } });
+      await expect(apiManager.listLocalModels('ol')).resolves.toEqual(['llama3.2:latest', 'qwen2.5-coder:7b']);
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/api/tags', expect.any(Object));
+
+      apiManager.initializeProvider('lc', localConfig);
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: [{ id: 'qwen' }] } });
+      await expect(apiManager.listLocalModels('lc')).resolves.toEqual(['qwen']);
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/models', expect.any(Object));
+    });
+  });
+
+  describe('retried errors', () => {
+    it('should keep the status of errors converted on an earlier attempt', async () => {
+      apiManager.initializeProvider('openrouter', mockConfig);
+      const converted = new ApiError('openrouter API error (503): overloaded', 503);
+
+      const rethrown = await (async () => errorInterceptor!(converted as any))().catch(e => e);
+
+      expect(rethrown).toBe(converted);
+      expect(rethrown.isRetryable).toBe(true);
+    });
+  });
+
+  describe('native protocols', () => {
+    const nativeConfig: Config = {
+      ...mockConfig,
+      providers: {
+        ...mockConfig.providers,
+        claude: { protocol: 'anthropic', apiKey: 'sk-ant', model: 'claude-sonnet-4-5' },
+        gemini: { protocol: 'gemini', apiKey: 'AIza', model: 'gemini-2.5-flash' },
+      },
+    };
+
+    it('should authenticate Anthropic with x-api-key and anthropic-version', () => {
+      apiManager.initializeProvider('claude', nativeConfig);
+
+      const options = mockAxios.create.mock.calls[0]![0]!;
+      expect(options.baseURL).toBe('https://api.anthropic.com/v1');
+      expect(options.headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+      expect(options.headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should authenticate Gemini with x-goog-api-key', () => {
+      apiManager.initializeProvider('gemini', nativeConfig);
+
+      const options = mockAxios.create.mock.calls[0]![0]!;
+      expect(options.baseURL).toBe('https://generativelanguage.googleapis.com/v1beta');
+      expect(options.headers).toMatchObject({ 'x-goog-api-key': 'AIza' });
+    });
+
+    it('should send Anthropic requests to /messages and read the forced tool call', async () => {
+      apiManager.initializeProvider('claude', nativeConfig);
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          model: 'claude-sonnet-4-5',
+          content: [{ type: 'tool_use', name: 'commit', input: { commitMessage: 'feat: add adapters' } }],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 20, output_tokens: 5 },
+        },
+      });
+
+      const result = await apiManager.generateCommitMessage({
+        provider: 'claude',
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'diff' }],
+        maxTokens: 100,
+        temperature: 0.3,
+        responseFormat: { type: 'json_schema', json_schema: { name: 'commit', schema: { type: 'object' } } },
+      }, 'claude');
+
+      const [endpoint, payload] = mockAxiosInstance.post.mock.calls[0];
+      expect(endpoint).toBe('/messages');
+      expect(payload.system).toBe('sys');
+      expect(payload.tool_choice).toEqual({ type: 'tool', name: 'commit' });
+      expect(result.data).toBe('{"commitMessage":"feat: add adapters"}');
+    });
+
+    it('should assemble an Anthropic event stream', async () => {
+      apiManager.initializeProvider('claude', nativeConfig);
+      mockAxiosInstance.post.mockResolvedValue({
+        data: Readable.from([
+          'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-sonnet-4-5","usage":{"input_tokens":9}}}\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"fix: "}}\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"typo"}}\n\n',
+          'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":3}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        ].map(e => Buffer.from(e))),
+      });
+
+      const onToken = jest.fn();
+      const result = await apiManager.generateCommitMessage({
+        provider: 'claude',
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'diff' }],
+        maxTokens: 100,
+        temperature: 0.3,
+        stream: true,
+      }, 'claude', onToken);
+
+      expect(result.data).toBe('fix: typo');
+      expect(onToken).toHaveBeenLastCalledWith('typo', 'fix: typo');
+    });
+
+    it('should report Anthropic error bodies with their message', async () => {
+      apiManager.initializeProvider('claude', nativeConfig);
+      const error = new Error('Bad request') as AxiosError;
+      error.response = {
+        status: 400,
+        data: { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens: required' } },
+      } as any;
+
+      mockAxiosInstance.post.mockImplementation(async () => {
+        throw await errorInterceptor!(error).catch(e => e);
+      });
+
+      const result = await apiManager.generateCommitMessage({
+        provider: 'claude',
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'diff' }],
+        maxTokens: 100,
+        temperature: 0.3,
+      }, 'claude');
+
+      expect(result.error?.message).toBe('claude API error (400): max_tokens: required');
+    });
+  });
+
   describe('isOpenRouter', () => {
     const isOR = (p: string) => (apiManager as any).isOpenRouter(p);
 
@@ -0,0 +1,97 @@
+import { ChangelogBuilder, prependToChangelog } from '../../src/modules/changelog.js';
+
+const commit = (hash: string, message: string) => ({ hash: hash.padEnd(40, '0'), message });
+
+const COMMITS = [
+  commit('aaaaaaa', 'feat(api): add paging'),
+  commit('bbbbbbb', 'fix: handle empty list'),
+  commit('ccccccc', 'docs: explain paging'),
+  commit('ddddddd', 'refactor(core)!: rename run\n\nBREAKING CHANGE: run() is now start().\nUpdate callers.\nRefs: #12'),
+  commit('eeeeeee', 'feat: remove the legacy flag'),
+  commit('fffffff', 'Update README'),
+];
+
+describe('ChangelogBuilder', () => {
+  it('should sort commits into Keep a Changelog sections and leave housekeeping out', () => {
+    const builder = new ChangelogBuilder(COMMITS);
+
+    expect(builder.skipped).toBe(1);
+    expect(builder.entries.map(entry => [entry.hash.slice(0, 7), entry.section])).toEqual([
+      ['aaaaaaa', 'Added'],
+      ['bbbbbbb', 'Fixed'],
+      ['ddddddd', 'Changed'],
+      ['eeeeeee', 'Removed'],
+      ['fffffff', 'Changed'],
+    ]);
+  });
+
+  it('should read multi-line BREAKING CHANGE footers up to the next footer', () => {
+    const builder = new ChangelogBuilder(COMMITS);
+    expect(builder.breaking.map(entry => entry.breaking)).toEqual(['run() is now start(). Update callers.']);
+  });
+
+  it('should render breaking changes first and scoped entries after unscoped ones', () => {
+    const markdown = new ChangelogBuilder([
+      commit('1111111', 'fix(ui): align button'),
+      commit('2222222', 'fix: crash on start'),
+      commit('3333333', 'feat!: drop node 16'),
+    ]).render('v2.0.0', '2026-01-31');
+
+    expect(markdown).toBe([
+      '## [2.0.0] - 2026-01-31',
+      '',
+      '### BREAKING CHANGES',
+      '',
+      '- drop node 16 (3333333)',
+      '',
+      '### Removed',
+      '',
+      '- drop node 16 (3333333)',
+      '',
+      '### Fixed',
+      '',
+      '- crash on start (2222222)',
+      '- **ui:** align button (1111111)',
+      '',
+    ].join('\n'));
+  });
+
+  it('should suggest the next version from breaking, feature and fix counts', () => {
+    const fixes = new ChangelogBuilder([commit('1', 'fix: a')]);
+    const features = new ChangelogBuilder([commit('1', 'fix: a'), commit('2', 'feat: b')]);
+    const breaking = new ChangelogBuilder([commit('1', 'feat!: c')]);
+
+    expect(fixes.suggestVersion('v1.4.2')).toBe('v1.4.3');
+    expect(features.suggestVersion('1.4.2')).toBe('1.5.0');
+    expect(breaking.suggestVersion('v1.4.2')).toBe('v2.0.0');
+    expect(breaking.suggestVersion('v0.3.1')).toBe('v0.4.0');
+    expect(features.suggestVersion(null)).toBe('0.1.0');
+    expect(fixes.suggestVersion('release-5')).toBeNull();
+    expect(new ChangelogBuilder([commit('1', 'chore: x')]).suggestVersion('v1.0.0')).toBeNull();
+  });
+});
+
+describe('prependToChangelog', () => {
+  const existing = '# Changelog\n\nIntro.\n\n## [1.0.0] - 2025-01-01\n\n- first\n';
+
+  it('should insert the section above the latest release', () => {
+    expect(prependToChangelog(existing, '## [1.1.0] - 2025-02-01\n\n- second\n')).toBe(
+      '# Changelog\n\nIntro.\n\n## [1.1.0] - 2025-02-01\n\n- second\n\n## [1.0.0] - 2025-01-01\n\n- first\n'
+    );
+  });
+
+  it('should replace the Unreleased section instead of duplicating it', () => {
+    const withUnreleased = prependToChangelog(existing, '## [Unreleased]\n\n- wip\n');
+
+    expect(prependToChangelog(withUnreleased, '## [Unreleased]\n\n- wip 2\n')).toBe(
+      '# Changelog\n\nIntro.\n\n## [Unreleased]\n\n- wip 2\n\n## [1.0.0] - 2025-01-01\n\n- first\n'
+    );
+    expect(prependToChangelog(withUnreleased, '## [1.1.0] - 2025-02-01\n\n- wip\n')).not.toContain('Unreleased');
+  });
+
+  it('should start a new file with the Keep a Changelog header', () => {
+    const created = prependToChangelog(null, '## [Unreleased]\n\n- wip\n');
+    expect(created.startsWith('# Changelog\n')).toBe(true);
+    expect(created.endsWith('## [Unreleased]\n\n- wip\n')).toBe(true);
+  });
+});
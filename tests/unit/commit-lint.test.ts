@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import {
+  CONVENTIONAL_RULES,
+  formatLintFeedback,
+  getDefaultCommitRules,
+  lintCommitMessage,
+  loadCommitLintRules,
+} from '../../src/utils/commit-lint.js';
+
+jest.mock('fs', () => ({
+  promises: {
+    access: jest.fn(),
+    readFile: jest.fn(),
+  },
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+describe('commit-lint', () => {
+  const rules = getDefaultCommitRules({ commitFormat: 'conventional' });
+
+  describe('lintCommitMessage', () => {
+    it('should accept a valid conventional message untouched', () => {
+      const message = 'feat(api): add pagination to list endpoints\n\nAdds cursor support.';
+      const result = lintCommitMessage(message, rules);
+
+      expect(result.message).toBe(message);
+      expect(result.fixed).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should fix subject case, type case and trailing full stop', () => {
+      const result = lintCommitMessage('Feat(api): Add pagination.', rules);
+
+      expect(result.message).toBe('feat(api): add pagination');
+      expect(result.fixed).toEqual(
+        expect.arrayContaining(['type-case', 'subject-case', 'subject-full-stop'])
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report rather than mangle a subject starting with an acronym', () => {
+      const result = lintCommitMessage('fix: API returns 500 on empty body', rules);
+
+      expect(result.message).toBe('fix: API returns 500 on empty body');
+      expect(result.violations.map(v => v.rule)).toEqual(['subject-case']);
+    });
+
+    it('should map common type aliases onto allowed types', () => {
+      const result = lintCommitMessage('feature: add export button', rules);
+      expect(result.message).toBe('feat: add export button');
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report types and scopes outside the configured lists', () => {
+      const scoped = getDefaultCommitRules({
+        commitFormat: 'conventional',
+        types: ['feat', 'fix'],
+        scopes: ['api', 'ui'],
+      });
+
+      const result = lintCommitMessage('docs(db): describe migrations', scoped);
+
+      expect(result.valid).toBe(false);
+      expect(result.violations.map(v => v.rule)).toEqual(['type-enum', 'scope-enum']);
+    });
+
+    it('should normalize scope case against the scope list', () => {
+      const scoped = getDefaultCommitRules({ commitFormat: 'conventional', scopes: ['api'] });
+      expect(lintCommitMessage('fix(API): handle timeouts', scoped).message).toBe('fix(api): handle timeouts');
+    });
+
+    it('should insert the blank line after the subject and before the footer', () => {
+      const result = lintCommitMessage(
+        'feat!: drop node 16\nRequires node 18.\nbreaking change: node 16 is no longer supported',
+        rules
+      );
+
+      expect(result.message).toBe(
+        'feat!: drop node 16\n\nRequires node 18.\n\nBREAKING CHANGE: node 16 is no longer supported'
+      );
+      expect(result.fixed).toEqual(
+        expect.arrayContaining(['body-leading-blank', 'footer-breaking-change-format', 'footer-leading-blank'])
+      );
+    });
+
+    it('should wrap long body lines and keep list indentation', () => {
+      const longLine = `- ${'word '.repeat(30).trim()}`;
+      const result = lintCommitMessage(`refactor: split parser\n\n${longLine}`, rules);
+
+      const bodyLines = result.message.split('\n').slice(2);
+      expect(bodyLines.length).toBeGreaterThan(1);
+      expect(bodyLines.every(line => line.length <= 100)).toBe(true);
+      expect(bodyLines[1]!.startsWith('  word')).toBe(true);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report a header that is too long for the model to fix', () => {
+      const result = lintCommitMessage(`fix: ${'x'.repeat(80)}`, rules);
+
+      expect(result.valid).toBe(false);
+      expect(result.violations[0]!.rule).toBe('header-max-length');
+    });
+
+    it('should keep an emoji prefix while checking the header', () => {
+      const result = lintCommitMessage('✨ feat: Add dark mode', rules);
+      expect(result.message).toBe('✨ feat: add dark mode');
+      expect(result.valid).toBe(true);
+    });
+
+    it('should only check layout rules for the simple format', () => {
+      const simple = getDefaultCommitRules({ commitFormat: 'simple' });
+      expect(lintCommitMessage('Update README links', simple).valid).toBe(true);
+    });
+
+    it('should treat warning-level violations as valid', () => {
+      const result = lintCommitMessage('feat: add thing', {
+        'header-max-length': [1, 'always', 5],
+      });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('formatLintFeedback', () => {
+    it('should list every violation and the previous message', () => {
+      const feedback = formatLintFeedback('docs: x', [
+        { rule: 'type-enum', severity: 2, message: 'type "docs" is not allowed' },
+      ]);
+
+      expect(feedback).toContain('- type "docs" is not allowed [type-enum]');
+      expect(feedback).toContain('Previous message:\ndocs: x');
+    });
+  });
+
+  describe('loadCommitLintRules', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return null when the repository has no commitlint config', async () => {
+      mockFs.access.mockRejectedValue(new Error('ENOENT'));
+      mockFs.readFile.mockResolvedValue(JSON.stringify({ name: 'pkg' }));
+
+      await expect(loadCommitLintRules('/repo')).resolves.toBeNull();
+    });
+
+    it('should read .commitlintrc.json and extend the conventional rules', async () => {
+      mockFs.access.mockImplementation((async (path: string) => {
+        if (path !== '/repo/.commitlintrc.json') throw new Error('ENOENT');
+      }) as never);
+      mockFs.readFile.mockResolvedValue(JSON.stringify({
+        extends: ['@commitlint/config-conventional'],
+        rules: { 'header-max-length': [2, 'always', 50], 'subject-case': [0] },
+      }));
+
+      const loaded = await loadCommitLintRules('/repo', { scopes: ['core'] });
+
+      expect(loaded?.source).toBe('.commitlintrc.json');
+      expect(loaded?.rules['header-max-length']).toEqual([2, 'always', 50]);
+      expect(loaded?.rules['subject-case']).toEqual([0]);
+      expect(loaded?.rules['type-enum']).toEqual(CONVENTIONAL_RULES['type-enum']);
+      expect(loaded?.rules['scope-enum']).toEqual([2, 'always', ['core']]);
+    });
+
+    it('should read the commitlint key from package.json', async () => {
+      mockFs.access.mockRejectedValue(new Error('ENOENT'));
+      mockFs.readFile.mockResolvedValue(JSON.stringify({
+        commitlint: { rules: { 'type-enum': [2, 'always', ['feat', 'fix']] } },
+      }));
+
+      const loaded = await loadCommitLintRules('/repo');
+
+      expect(loaded?.source).toBe('package.json');
+      expect(loaded?.rules['type-enum']).toEqual([2, 'always', ['feat', 'fix']]);
+      expect(loaded?.rules['subject-case']).toBeUndefined();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { ConfigManager } from '../../src/modules/config.js';
+import { gitManager } from '../../src/modules/git.js';
 import { DEFAULT_CONFIG } from '../../src/types/index.js';
 
 // Mock homedir to use temp directory
@@ -20,7 +21,15 @@ jest.mock('fs', () => ({
   },
 }));
 
+// Outside a repository by default, so no project config is picked up
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getRepositoryRoot: jest.fn(),
+  },
+}));
+
 const mockFs = fs as jest.Mocked<typeof fs>;
+const mockGetRepositoryRoot = gitManager.getRepositoryRoot as jest.Mock;
 
 describe('ConfigManager', () => {
   let configManager: ConfigManager;
@@ -30,6 +39,7 @@ describe('ConfigManager', () => {
     configManager = new ConfigManager();
     configManager.clearCache();
     jest.clearAllMocks();
+    mockGetRepositoryRoot.mockRejectedValue(new Error('not a git repository'));
   });
 
   describe('load', () => {
@@ -362,6 +372,104 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('project config', () => {
+    const projectPath = '/repo/.orcommitrc';
+    const userConfig = {
+      ...DEFAULT_CONFIG,
+      providers: {
+        ...DEFAULT_CONFIG.providers,
+        openrouter: { ...DEFAULT_CONFIG.providers.openrouter, apiKey: 'user-key' },
+      },
+      preferences: { ...DEFAULT_CONFIG.preferences, language: 'de', temperature: 0.5 },
+    };
+
+    /** Serve the user config plus the given .orcommitrc from the mocked fs */
+    function mockFiles(project: unknown) {
+      mockGetRepositoryRoot.mockResolvedValue('/repo');
+      mockFs.access.mockImplementation((async (path: string) => {
+        if (path === '/repo/.orcommitrc.json') throw new Error('ENOENT');
+      }) as never);
+      mockFs.readFile.mockImplementation((async (path: string) =>
+        JSON.stringify(path === projectPath ? project : userConfig)) as never);
+    }
+
+    it('should layer project preferences over the user config', async () => {
+      mockFiles({
+        preferences: { language: 'fr', scopes: ['api', 'ui'], maxCommitLength: 100 },
+        providers: { openrouter: { model: 'team/model' } },
+      });
+
+      const config = await configManager.load();
+
+      expect(config.preferences.language).toBe('fr');
+      expect(config.preferences.scopes).toEqual(['api', 'ui']);
+      expect(config.preferences.maxCommitLength).toBe(100);
+      expect(config.preferences.temperature).toBe(0.5);
+      expect(config.providers.openrouter.model).toBe('team/model');
+      expect(config.providers.openrouter.apiKey).toBe('user-key');
+      expect(config.providers.openrouter.baseUrl).toBe(DEFAULT_CONFIG.providers.openrouter.baseUrl);
+    });
+
+    it('should report the layer each value came from', async () => {
+      mockFiles({ preferences: { language: 'fr' } });
+
+      const { sources, projectConfigPath } = await configManager.loadWithSources();
+
+      expect(projectConfigPath).toBe(projectPath);
+      expect(sources['preferences.language']).toBe('project');
+      expect(sources['preferences.temperature']).toBe('user');
+      expect(sources['preferences.maxTokens']).toBe('default');
+      expect(sources['providers.openrouter.model']).toBe('default');
+    });
+
+    it('should reject API keys in the project config', async () => {
+      mockFiles({ providers: { openrouter: { apiKey: 'sk-or-leaked' } } });
+
+      await expect(configManager.load()).rejects.toThrow(/must not contain API keys/);
+    });
+
+    it('should reject settings a repository may not change', async () => {
+      mockFiles({ preferences: { autoConfirm: true } });
+      await expect(configManager.load()).rejects.toThrow(/cannot be set per repository/);
+
+      configManager.clearCache();
+      mockFiles({ providers: { openrouter: { baseUrl: 'https://evil.example' } } });
+      await expect(configManager.load()).rejects.toThrow(/only 'providers.openrouter.model'/);
+    });
+
+    it('should validate structured team conventions', async () => {
+      const tickets = { placement: 'prefix', styles: ['jira'], footerKey: 'Refs' };
+      mockFiles({
+        preferences: { tickets, scopeMap: { 'services/billing/**': 'billing' }, privacy: 'paths', trailers: ['Team: payments'] },
+      });
+      expect((await configManager.load()).preferences.tickets).toEqual(tickets);
+
+      for (const preferences of [
+        { tickets: { placement: 'subject' } },
+        { tickets: { placement: 'footer', styles: ['redmine'] } },
+        { scopeMap: ['billing'] },
+        { privacy: 'everything' },
+        { trailers: ['Reviewed-by'] },
+        { signoff: 'yes' },
+      ]) {
+        configManager.clearCache();
+        mockFiles({ preferences });
+        await expect(configManager.load()).rejects.toThrow(/unsupported value/);
+      }
+    });
+
+        it('should never write project values into the user config', async () => {
+      mockFiles({ preferences: { language: 'fr' } });
+
+      await configManager.updatePreferences({ customPrompt: 'Be brief' });
+
+      const savedConfig = JSON.parse(mockFs.writeFile.mock.calls.at(-1)![1] as string);
+      expect(savedConfig.preferences.language).toBe('de');
+      expect(savedConfig.preferences.customPrompt).toBe('Be brief');
+      expect((await configManager.load()).preferences.language).toBe('fr');
+    });
+  });
+
   describe('getConfigPath', () => {
     it('should return correct config path', () => {
       const path = configManager.getConfigPath();
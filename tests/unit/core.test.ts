@@ -0,0 +1,120 @@
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { groupMultiselect } from '@clack/prompts';
+import { CoreOrchestrator } from '../../src/modules/core.js';
+import { TicketReference, applyTicketReference } from '../../src/modules/tickets.js';
+import { DEFAULT_CONFIG } from '../../src/types/index.js';
+import { getDefaultCommitRules, lintCommitMessage } from '../../src/utils/commit-lint.js';
+
+jest.mock('@clack/prompts', () => ({
+  confirm: jest.fn(),
+  groupMultiselect: jest.fn(),
+  isCancel: jest.fn(() => false),
+  multiselect: jest.fn(),
+  select: jest.fn(),
+  text: jest.fn(),
+}));
+
+jest.mock('../../src/modules/api.js', () => ({
+  apiManager: { initializeProvider: jest.fn() },
+}));
+
+// No API key: grouping by intent fails before any request is made
+jest.mock('../../src/modules/config.js', () => ({
+  configManager: {
+    load: jest.fn(() => Promise.resolve(DEFAULT_CONFIG)),
+    validateConfig: jest.fn(() => Promise.resolve(false)),
+  },
+}));
+
+describe('CoreOrchestrator.stageChanges', () => {
+  const mockGroupMultiselect = groupMultiselect as jest.Mock;
+  const savedEnv = { ...process.env };
+  const savedCwd = process.cwd();
+  let repo: string;
+  let core: CoreOrchestrator;
+
+  const git = (...args: string[]): string => execFileSync('git', args, { cwd: repo, encoding: 'utf8', env: process.env }).trim();
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(join(tmpdir(), 'orcommit-core-'));
+    Object.assign(process.env, {
+      GIT_CONFIG_COUNT: '2',
+      GIT_CONFIG_KEY_0: 'user.name',
+      GIT_CONFIG_VALUE_0: 'Test User',
+      GIT_CONFIG_KEY_1: 'user.email',
+      GIT_CONFIG_VALUE_1: 'test@example.com',
+    });
+
+    git('init', '-q');
+    await fs.writeFile(join(repo, 'a.txt'), Array.from({ length: 30 }, (_, i) => `a ${i}\n`).join(''));
+    git('add', 'a.txt');
+    git('commit', '-q', '-m', 'init');
+    process.chdir(repo);
+
+    core = new CoreOrchestrator();
+    await core.initialize();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    mockGroupMultiselect.mockReset();
+    process.chdir(savedCwd);
+    process.env = { ...savedEnv };
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('should list the hunks by file when they cannot be grouped by intent, and stage the picked ones', async () => {
+    await fs.writeFile(
+      join(repo, 'a.txt'),
+      Array.from({ length: 30 }, (_, i) => (i === 1 || i === 27 ? `a ${i} changed\n` : `a ${i}\n`)).join('')
+    );
+    await fs.writeFile(join(repo, 'b.txt'), 'b\n');
+    mockGroupMultiselect.mockResolvedValue(['a.txt#2', 'b.txt#1']);
+
+    await core.stageChanges({ commit: false });
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('listing them by file'));
+
+    const [{ options }] = mockGroupMultiselect.mock.calls[0] as [{ options: Record<string, Array<{ value: string }>> }];
+    expect(Object.keys(options)).toEqual(['1. a.txt', '2. b.txt']);
+    expect(Object.values(options).map(units => units.map(unit => unit.value))).toEqual([['a.txt#1', 'a.txt#2'], ['b.txt#1']]);
+
+    expect(git('diff', '--cached', '--name-only').split('\n')).toEqual(['a.txt', 'b.txt']);
+    expect(git('diff', '--cached', 'a.txt')).toContain('+a 27 changed');
+    expect(git('diff', '--cached', 'a.txt')).not.toContain('a 1 changed');
+  });
+});
+
+describe('CoreOrchestrator ticket prefixes', () => {
+  const tickets: TicketReference = { ids: ['PROJ-7'], placement: 'prefix', footerKey: 'Refs' };
+  let core: any;
+
+  beforeEach(() => {
+    core = new CoreOrchestrator();
+    core.config = { ...DEFAULT_CONFIG, preferences: { ...DEFAULT_CONFIG.preferences, maxCommitLength: 50 } };
+  });
+
+  it('should leave room for the prefix when trimming to maxCommitLength', () => {
+    const cleaned: string = core.cleanCommitMessage('feat: add the login form with remember-me and SSO buttons', [], tickets);
+    const message = applyTicketReference(cleaned, tickets);
+
+    expect(message.startsWith('feat: PROJ-7 add the login form')).toBe(true);
+    expect(message.length).toBeLessThanOrEqual(50);
+  });
+
+  it('should shorten the header limit by the prefix', () => {
+    const subject = `feat: ${'a'.repeat(60)}`;
+    const rules = getDefaultCommitRules(DEFAULT_CONFIG.preferences);
+
+    expect(lintCommitMessage(subject, rules).valid).toBe(true);
+    expect(lintCommitMessage(subject, core.withTicketRoom(rules, subject, tickets)).violations).toEqual([
+      expect.objectContaining({ rule: 'header-max-length' }),
+    ]);
+    expect(core.withTicketRoom(rules, 'feat: PROJ-7 add login', tickets)).toBe(rules);
+  });
+});
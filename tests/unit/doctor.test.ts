@@ -118,4 +118,46 @@ describe('Doctor', () => {
     expect(pathCheck?.status).toBe('error');
     expect(report.hasProblems).toBe(true);
   });
+
+  describe('local model servers', () => {
+    const prefix = `${HOME}/.npm-global`;
+    const probe = (listModels: () => Promise<string[]>, model?: string) => ({
+      name: 'ol',
+      server: 'ollama' as const,
+      baseUrl: 'http://127.0.0.1:11434',
+      model,
+      listModels,
+    });
+
+    beforeEach(() => {
+      process.env.PATH = `${prefix}/bin`;
+      mockNpm({ prefix, latest: '1.2.18' });
+      orcExistsIn([`${prefix}/bin`]);
+    });
+
+    it('reports a reachable server that has the configured model', async () => {
+      const report = await new Doctor('1.2.18', [probe(async () => ['llama3.2:latest'], 'llama3.2')]).run();
+
+      expect(report.checks.find(c => c.name === 'local provider ol')?.status).toBe('ok');
+      expect(report.hasProblems).toBe(false);
+    });
+
+    it('warns when the configured model is not pulled', async () => {
+      const report = await new Doctor('1.2.18', [probe(async () => ['mistral:latest'], 'llama3.2')]).run();
+
+      const check = report.checks.find(c => c.name === 'local provider ol');
+      expect(check?.status).toBe('warn');
+      expect(check?.fix).toContain('ollama pull llama3.2');
+    });
+
+    it('errors with a start hint when the server is unreachable', async () => {
+      const report = await new Doctor('1.2.18', [
+        probe(async () => { throw new Error('connect ECONNREFUSED'); }, 'llama3.2'),
+      ]).run();
+
+      const check = report.checks.find(c => c.name === 'local provider ol');
+      expect(check?.status).toBe('error');
+      expect(check?.fix).toBe('Start the server: ollama serve');
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import { CircuitBreaker, isFailoverError, parseFallbackEntry } from '../../src/modules/failover.js';
+import { ApiError, ConfigError, NetworkError } from '../../src/types/index.js';
+
+// Keep the breaker state in memory
+jest.mock('fs', () => ({
+  promises: {
+    mkdir: jest.fn(),
+    readFile: jest.fn(),
+    writeFile: jest.fn(),
+  },
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+describe('parseFallbackEntry', () => {
+  it('should read a provider, optionally pinned to a model', () => {
+    expect(parseFallbackEntry('openai')).toEqual({ provider: 'openai' });
+    expect(parseFallbackEntry('openrouter:anthropic/claude-3-haiku:beta')).toEqual({
+      provider: 'openrouter',
+      model: 'anthropic/claude-3-haiku:beta',
+    });
+    expect(parseFallbackEntry('ollama:')).toEqual({ provider: 'ollama' });
+  });
+});
+
+describe('isFailoverError', () => {
+  it('should fail over on rate limits, server and network errors only', () => {
+    expect(isFailoverError(new ApiError('rate limited', 429))).toBe(true);
+    expect(isFailoverError(new ApiError('bad gateway', 502))).toBe(true);
+    expect(isFailoverError(new NetworkError('ECONNREFUSED'))).toBe(true);
+    expect(isFailoverError(new ApiError('unauthorized', 401))).toBe(false);
+    expect(isFailoverError(new ConfigError('no key'))).toBe(false);
+    expect(isFailoverError(undefined)).toBe(false);
+  });
+
+  it('should look at the cause of aggregated chunk failures', () => {
+    expect(isFailoverError(new ApiError('All chunk processing failed', undefined, new ApiError('busy', 503)))).toBe(true);
+    expect(isFailoverError(new ApiError('All chunk processing failed', undefined, new ApiError('bad', 400)))).toBe(false);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let stored: string | undefined;
+
+  beforeEach(() => {
+    stored = undefined;
+    mockFs.readFile.mockImplementation((async () => {
+      if (stored === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return stored;
+    }) as any);
+    mockFs.writeFile.mockImplementation((async (_path: string, data: string) => {
+      stored = data;
+    }) as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should remember failures across instances for the cooldown', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    await new CircuitBreaker('/cache/breaker.json', 60_000).open('openrouter:m', 'HTTP 503');
+
+    const breaker = new CircuitBreaker('/cache/breaker.json', 60_000);
+    expect(await breaker.isOpen('openrouter:m')).toBe(true);
+    expect(await breaker.isOpen('openai:m')).toBe(false);
+
+    jest.setSystemTime(1_000_000 + 60_001);
+    expect(await breaker.isOpen('openrouter:m')).toBe(false);
+  });
+
+  it('should close on success and drop expired entries when writing', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const breaker = new CircuitBreaker('/cache/breaker.json', 60_000);
+    await breaker.open('a:m', 'down');
+    await breaker.open('b:m', 'down');
+    await breaker.close('a:m');
+    expect(Object.keys(JSON.parse(stored!))).toEqual(['b:m']);
+
+    jest.setSystemTime(1_000_000 + 120_000);
+    await breaker.open('c:m', 'down');
+    expect(Object.keys(JSON.parse(stored!))).toEqual(['c:m']);
+  });
+
+  it('should treat an unreadable state file as all closed', async () => {
+    stored = 'not json';
+    expect(await new CircuitBreaker('/cache/breaker.json').isOpen('a:m')).toBe(false);
+  });
+});
@@ -13,6 +13,9 @@ import {
   wrapContext,
   wrapExamples,
   parseAIResponse,
+  extractStreamingCommitMessage,
+  formatSideBySide,
+  parsePullRequestResponse,
 } from '../../src/utils/formatting.js';
 
 describe('Formatting Utilities', () => {
@@ -299,4 +302,60 @@ describe('Formatting Utilities', () => {
       expect(result.commitMessage).not.toContain('{');
     });
   });
+
+  describe('extractStreamingCommitMessage', () => {
+    it('should return null before the commitMessage field starts', () => {
+      expect(extractStreamingCommitMessage('')).toBeNull();
+      expect(extractStreamingCommitMessage('{"codeAssessment": "Bold mo')).toBeNull();
+    });
+
+    it('should return the partial commitMessage of an unfinished envelope', () => {
+      const partial = '{"codeAssessment": "Fine.", "commitMessage": "feat(api): add stream\\nsupp';
+      expect(extractStreamingCommitMessage(partial)).toBe('feat(api): add stream\nsupp');
+    });
+
+    it('should pass plain-text output through', () => {
+      expect(extractStreamingCommitMessage('  fix: handle null')).toBe('fix: handle null');
+    });
+  });
+
+  describe('formatSideBySide', () => {
+    it('should align the separator and pad the shorter side', () => {
+      expect(formatSideBySide('wip', 'feat(api): add paging\n\nAdds cursors.', 23)).toEqual([
+        'wip        │ feat(api):',
+        '           │ add paging',
+        '           │',
+        '           │ Adds',
+        '           │ cursors.',
+      ]);
+    });
+
+    it('should break words longer than the column', () => {
+      const rows = formatSideBySide('x'.repeat(25), 'fix: y', 23);
+      expect(rows).toHaveLength(3);
+      expect(rows.every(row => row.indexOf('│') === 11)).toBe(true);
+    });
+  });
+
+  describe('parsePullRequestResponse', () => {
+    it('should parse the JSON envelope', () => {
+      const response = JSON.stringify({ title: ' feat(api): add paging ', body: '## Summary\nAdds cursors.\n' });
+      expect(parsePullRequestResponse(response)).toEqual({
+        title: 'feat(api): add paging',
+        body: '## Summary\nAdds cursors.',
+      });
+    });
+
+    it('should split plain Markdown into title and body', () => {
+      expect(parsePullRequestResponse('# Add paging\n\n## Summary\nAdds cursors.')).toEqual({
+        title: 'Add paging',
+        body: '## Summary\nAdds cursors.',
+      });
+    });
+
+    it('should recover the fields of a truncated envelope', () => {
+      const draft = parsePullRequestResponse('{"title": "fix: handle null", "body": "## Summary\\nGuards');
+      expect(draft).toEqual({ title: 'fix: handle null', body: '## Summary\nGuards' });
+    });
+  });
 });
@@ -0,0 +1,219 @@
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GitManager } from '../../src/modules/git.js';
+import { CommitSplitter } from '../../src/modules/splitter.js';
+import { GitError, HookError } from '../../src/types/index.js';
+
+describe('GitManager', () => {
+  const gitManager = new GitManager();
+  const savedEnv = { ...process.env };
+  const savedCwd = process.cwd();
+  let repo: string;
+
+  const git = (...args: string[]): string => execFileSync('git', args, { cwd: repo, encoding: 'utf8', env: process.env }).trim();
+
+  const stage = async (file: string, content: string): Promise<void> => {
+    await fs.writeFile(join(repo, file), content);
+    git('add', file);
+  };
+
+  const hook = async (name: string, script: string): Promise<void> => {
+    await fs.writeFile(join(repo, 'hooks', name), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+  };
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(join(tmpdir(), 'orcommit-git-'));
+    await fs.mkdir(join(repo, 'hooks'));
+    git('init', '-q');
+    process.chdir(repo);
+
+    // Command-line level config, ahead of the user's own
+    Object.assign(process.env, {
+      GIT_CONFIG_COUNT: '4',
+      GIT_CONFIG_KEY_0: 'core.hooksPath',
+      GIT_CONFIG_VALUE_0: join(repo, 'hooks'),
+      GIT_CONFIG_KEY_1: 'user.name',
+      GIT_CONFIG_VALUE_1: 'Test User',
+      GIT_CONFIG_KEY_2: 'user.email',
+      GIT_CONFIG_VALUE_2: 'test@example.com',
+      GIT_CONFIG_KEY_3: 'commit.gpgsign',
+      GIT_CONFIG_VALUE_3: 'false',
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(savedCwd);
+    process.env = { ...savedEnv };
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  describe('createCommit', () => {
+    it('should commit the message exactly, whatever it contains', async () => {
+      const message = 'fix: quote "$(rm -rf ~)" and `id`\n\nBackslash \\n, $HOME, \'single\' and ünïcödé — ✓';
+      await stage('a.txt', 'a\n');
+
+      await gitManager.createCommit(message);
+
+      expect(git('log', '-1', '--format=%B')).toBe(message);
+    });
+
+    it('should amend and override the author and date', async () => {
+      await stage('a.txt', 'a\n');
+      await gitManager.createCommit('feat: first');
+      await stage('b.txt', 'b\n');
+
+      await gitManager.createCommit('feat: first and second', {
+        amend: true,
+        author: 'Ana Lima <ana@example.com>',
+        date: '2024-01-02T03:04:05+00:00',
+      });
+
+      expect(git('rev-list', '--count', 'HEAD')).toBe('1');
+      expect(git('log', '-1', '--format=%s|%an <%ae>|%aI')).toBe('feat: first and second|Ana Lima <ana@example.com>|2024-01-02T03:04:05+00:00');
+      expect(git('show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual(['a.txt', 'b.txt']);
+    });
+
+    it('should report the hook that rejected the commit with its output', async () => {
+      await hook('pre-commit', 'echo "checks passed"');
+      await hook('commit-msg', 'echo "subject must reference a ticket" >&2; exit 1');
+      await stage('a.txt', 'a\n');
+
+      const error = await gitManager.createCommit('feat: no ticket').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(HookError);
+      expect(error).toMatchObject({ hook: 'commit-msg', code: 'GIT_ERROR' });
+      expect((error as HookError).output).toContain('subject must reference a ticket');
+
+      await gitManager.createCommit('feat: no ticket', { noVerify: true });
+      expect(git('log', '-1', '--format=%s')).toBe('feat: no ticket');
+    });
+
+    it('should tell git failures apart from hook failures', async () => {
+      await hook('pre-commit', 'exit 0');
+      await stage('a.txt', 'a\n');
+      await gitManager.createCommit('feat: first');
+
+      const error = await gitManager.createCommit('feat: nothing').catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(GitError);
+      expect(error).not.toBeInstanceOf(HookError);
+
+      await expect(gitManager.createCommit('feat: unsigned', { amend: true, sign: 'missing-key-id' })).rejects.toThrow(
+        /Failed to create commit/
+      );
+    });
+
+    it('should not blame hooks that passed for a failure after them', async () => {
+      await hook('pre-commit', 'git rev-parse --verify -q HEAD || true');
+      await hook('commit-msg', 'exit 0');
+      await stage('a.txt', 'a\n');
+
+      const error = await gitManager.createCommit('').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(GitError);
+      expect(error).not.toBeInstanceOf(HookError);
+      expect((error as GitError).message).toContain('Aborting commit due to empty commit message');
+    });
+  });
+
+  describe('rewordCommits', () => {
+    const isSigned = (rev: string): boolean => /^gpgsig /m.test(git('cat-file', 'commit', rev));
+
+    beforeEach(async () => {
+      // Stands in for gpg: git only needs the status line and a signature
+      await fs.writeFile(join(repo, 'hooks', 'fake-gpg'), [
+        '#!/bin/sh',
+        'cat > /dev/null',
+        "printf '\\n[GNUPG:] SIG_CREATED D 1 8 00 0 0\\n' >&2",
+        "printf -- '-----BEGIN PGP SIGNATURE-----\\nfake\\n-----END PGP SIGNATURE-----\\n'",
+      ].join('\n'), { mode: 0o755 });
+      Object.assign(process.env, {
+        GIT_CONFIG_COUNT: '5',
+        GIT_CONFIG_KEY_4: 'gpg.program',
+        GIT_CONFIG_VALUE_4: join(repo, 'hooks', 'fake-gpg'),
+      });
+
+      await stage('a.txt', 'a\n');
+      await gitManager.createCommit('wip', { sign: true });
+      await stage('b.txt', 'b\n');
+      await gitManager.createCommit('feat: add b', { sign: true });
+    });
+
+    it('should sign the rewritten commits when asked to', async () => {
+      const first = git('rev-parse', 'HEAD~1');
+
+      await gitManager.rewordCommits(new Map([[first, 'feat: add a']]), { sign: true });
+
+      expect(git('log', '--format=%s', '-2').split('\n')).toEqual(['feat: add b', 'feat: add a']);
+      expect(isSigned('HEAD')).toBe(true);
+      expect(isSigned('HEAD~1')).toBe(true);
+    });
+
+    it('should sign them when commit.gpgsign is set', async () => {
+      process.env.GIT_CONFIG_VALUE_3 = 'true';
+
+      await gitManager.rewordCommits(new Map([[git('rev-parse', 'HEAD'), 'feat: add the b file']]));
+
+      expect(git('log', '-1', '--format=%s')).toBe('feat: add the b file');
+      expect(isSigned('HEAD')).toBe(true);
+    });
+
+    it('should not drop signatures unless told to', async () => {
+      const head = git('rev-parse', 'HEAD');
+
+      await expect(gitManager.rewordCommits(new Map([[head, 'feat: add the b file']]))).rejects.toThrow(
+        /drop the signatures/
+      );
+      expect(git('rev-parse', 'HEAD')).toBe(head);
+
+      await gitManager.rewordCommits(new Map([[head, 'feat: add the b file']]), { sign: false });
+      expect(isSigned('HEAD')).toBe(false);
+    });
+  });
+
+  describe('staging unstaged hunks', () => {
+    const lines = (count: number, change: (i: number) => string = i => `line ${i}`): string =>
+      Array.from({ length: count }, (_, i) => `${change(i + 1)}\n`).join('');
+
+    beforeEach(async () => {
+      await fs.mkdir(join(repo, 'src'));
+      await stage('lib.txt', lines(30));
+      await stage('src/app.ts', 'export const app = 1;\n');
+      await fs.writeFile(join(repo, '.gitignore'), 'dist/\n');
+      git('add', '.gitignore');
+      git('commit', '-q', '-m', 'init');
+    });
+
+    it('should include untracked files as new-file patches, but not ignored ones', async () => {
+      await fs.writeFile(join(repo, 'src/app.ts'), 'export const app = 2;\n');
+      await fs.mkdir(join(repo, 'new dir'));
+      await fs.writeFile(join(repo, 'new dir', "it's new.md"), '# New\n');
+      await fs.mkdir(join(repo, 'dist'));
+      await fs.writeFile(join(repo, 'dist/out.js'), 'built\n');
+
+      const splitter = new CommitSplitter(await gitManager.getUnstagedPatch());
+      expect(splitter.units).toEqual(['src/app.ts#1', "new dir/it's new.md#1"]);
+
+      await gitManager.applyPatchToIndex(splitter.buildPatch(splitter.units));
+
+      expect(git('diff', '--cached', '--name-status').split('\n')).toEqual(["A\tnew dir/it's new.md", 'M\tsrc/app.ts']);
+      expect(git('status', '--porcelain', '--untracked-files=all')).toBe("A  \"new dir/it's new.md\"\nM  src/app.ts");
+    });
+
+    it('should stage only the selected hunks, also from a subdirectory', async () => {
+      const edited = lines(30, i => (i === 2 || i === 28 ? `line ${i} changed` : `line ${i}`));
+      await fs.writeFile(join(repo, 'lib.txt'), edited);
+      process.chdir(join(repo, 'src'));
+
+      const splitter = new CommitSplitter(await gitManager.getUnstagedPatch());
+      expect(splitter.units).toEqual(['lib.txt#1', 'lib.txt#2']);
+
+      await gitManager.applyPatchToIndex(splitter.buildPatch(['lib.txt#2']));
+
+      expect(git('show', ':lib.txt')).toBe(lines(30, i => (i === 28 ? `line ${i} changed` : `line ${i}`)).trim());
+      expect(await fs.readFile(join(repo, 'lib.txt'), 'utf8')).toBe(edited);
+      expect(git('diff', '--name-only')).toBe('lib.txt');
+    });
+  });
+});
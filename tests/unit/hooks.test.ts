@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import { HookManager } from '../../src/modules/hooks.js';
+import { gitManager } from '../../src/modules/git.js';
+import { GitError } from '../../src/types/index.js';
+
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    writeFile: jest.fn(),
+    rename: jest.fn(),
+    unlink: jest.fn(),
+    mkdir: jest.fn(),
+    chmod: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getHooksDir: jest.fn(),
+  },
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+const mockGetHooksDir = gitManager.getHooksDir as jest.Mock;
+
+const HOOK = '/repo/.git/hooks/prepare-commit-msg';
+const CHAINED = `${HOOK}.orc-chained`;
+
+describe('HookManager', () => {
+  let files: Record<string, string>;
+  let hookManager: HookManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = {};
+    hookManager = new HookManager();
+    mockGetHooksDir.mockResolvedValue('/repo/.git/hooks');
+
+    mockFs.readFile.mockImplementation((async (path: string) => {
+      if (!(path in files)) {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      }
+      return files[path];
+    }) as never);
+    mockFs.writeFile.mockImplementation((async (path: string, data: string) => {
+      files[path] = data;
+    }) as never);
+    mockFs.rename.mockImplementation((async (from: string, to: string) => {
+      files[to] = files[from]!;
+      delete files[from];
+    }) as never);
+    mockFs.unlink.mockImplementation((async (path: string) => {
+      delete files[path];
+    }) as never);
+  });
+
+  it('should install the hook into the resolved hooks directory', async () => {
+    const status = await hookManager.install();
+
+    expect(status.installed).toBe(true);
+    expect(status.chainedHook).toBeNull();
+    expect(files[HOOK]).toContain('orc hook run "$1" "$2" "$3"');
+    expect(mockFs.chmod).toHaveBeenCalledWith(HOOK, 0o755);
+  });
+
+  it('should chain an existing hook instead of overwriting it', async () => {
+    files[HOOK] = '#!/bin/sh\necho existing\n';
+
+    const status = await hookManager.install();
+
+    expect(status.installed).toBe(true);
+    expect(status.chainedHook).toBe(CHAINED);
+    expect(files[CHAINED]).toBe('#!/bin/sh\necho existing\n');
+  });
+
+  it('should refresh its own hook without chaining it', async () => {
+    await hookManager.install();
+    const status = await hookManager.install();
+
+    expect(status.chainedHook).toBeNull();
+    expect(mockFs.rename).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to chain when a chained hook is already present', async () => {
+    files[HOOK] = '#!/bin/sh\necho new\n';
+    files[CHAINED] = '#!/bin/sh\necho old\n';
+
+    await expect(hookManager.install()).rejects.toThrow(GitError);
+    expect(files[HOOK]).toBe('#!/bin/sh\necho new\n');
+  });
+
+  it('should restore the chained hook on uninstall', async () => {
+    files[HOOK] = '#!/bin/sh\necho existing\n';
+    await hookManager.install();
+
+    const status = await hookManager.uninstall();
+
+    expect(status.installed).toBe(false);
+    expect(status.chainedHook).toBeNull();
+    expect(files[HOOK]).toBe('#!/bin/sh\necho existing\n');
+  });
+
+  it('should never remove a hook it did not install', async () => {
+    files[HOOK] = '#!/bin/sh\necho mine\n';
+
+    await expect(hookManager.uninstall()).rejects.toThrow(GitError);
+    expect(files[HOOK]).toBe('#!/bin/sh\necho mine\n');
+  });
+
+  it('should install next to the husky scripts rather than into .husky/_', async () => {
+    mockGetHooksDir.mockResolvedValue('/repo/.husky/_');
+
+    const status = await hookManager.install();
+
+    expect(status.husky).toBe(true);
+    expect(status.hookPath).toBe('/repo/.husky/prepare-commit-msg');
+  });
+
+  it('should skip merge, squash, message and amend sources', () => {
+    expect(HookManager.shouldGenerate(undefined)).toBe(true);
+    expect(HookManager.shouldGenerate('template')).toBe(true);
+    expect(HookManager.shouldGenerate('merge')).toBe(false);
+    expect(HookManager.shouldGenerate('squash')).toBe(false);
+    expect(HookManager.shouldGenerate('message')).toBe(false);
+    expect(HookManager.shouldGenerate('commit')).toBe(false);
+  });
+});
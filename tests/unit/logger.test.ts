@@ -1,4 +1,5 @@
-import { ProgressIndicator } from '../../src/modules/logger.js';
+import { ProgressIndicator, enableJsonOutput, isJsonOutput, writeJson } from '../../src/modules/logger.js';
+import { ApiError, ConfigError, GitError, NetworkError, exitCodeFor } from '../../src/types/index.js';
 
 describe('ProgressIndicator', () => {
   let writeSpy: jest.SpyInstance;
@@ -25,3 +26,34 @@ describe('ProgressIndicator', () => {
     expect(jest.getTimerCount()).toBe(0);
   });
 });
+
+describe('JSON output', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep stdout for the JSON document and send everything else to stderr', () => {
+    const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    expect(isJsonOutput()).toBe(false);
+    enableJsonOutput();
+    expect(isJsonOutput()).toBe(true);
+
+    process.stdout.write('Analyzing changes');
+    writeJson({ message: 'fix: x' });
+
+    expect(stderr).toHaveBeenCalledWith('Analyzing changes');
+    expect(stdout).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(stdout.mock.calls[0]![0] as string)).toEqual({ message: 'fix: x' });
+  });
+
+  it('should map error classes to stable exit codes', () => {
+    expect(exitCodeFor(new ConfigError('x'))).toBe(2);
+    expect(exitCodeFor(new GitError('x'))).toBe(3);
+    expect(exitCodeFor(new ApiError('x', 500))).toBe(4);
+    expect(exitCodeFor(new NetworkError('x'))).toBe(5);
+    expect(exitCodeFor(new Error('x'))).toBe(1);
+    expect(exitCodeFor(undefined)).toBe(1);
+  });
+});
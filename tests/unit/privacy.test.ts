@@ -0,0 +1,61 @@
+import { PrivacyMask } from '../../src/modules/privacy.js';
+import { ConfigError, GitDiff, GitLine } from '../../src/types/index.js';
+
+const diffOf = (path: string, lines: GitLine[]): GitDiff => ({
+  files: [{
+    path,
+    status: 'modified',
+    isBinary: false,
+    chunks: [{ header: '@@ -1,3 +1,3 @@', oldStart: 1, oldLines: 3, newStart: 1, newLines: 3, context: 'class InvoiceBatcher {', lines }],
+  }],
+  totalLines: lines.length,
+  totalSize: 100,
+});
+
+describe('PrivacyMask', () => {
+  it('should alias paths and their mentions, keeping generic segments and extensions', () => {
+    const privacy = new PrivacyMask('paths');
+    const masked = privacy.maskDiff(diffOf('src/billing/acme-invoices.ts', [
+      { type: 'removed', content: "import { run } from '../billing/legacy';" },
+      { type: 'added', content: "import { run } from './acme-invoices.helpers';", lineNumber: 1 },
+      { type: 'context', content: 'const acme = 1; // billing', lineNumber: 2 },
+    ]));
+
+    expect(masked.files[0]!.path).toBe('src/dir_1/file_1.ts');
+    expect(masked.files[0]!.chunks[0]!.lines.map(line => line.content)).toEqual([
+      "import { run } from '../dir_1/legacy';",
+      "import { run } from './file_1.helpers';",
+      'const acme = 1; // dir_1',
+    ]);
+    expect(masked.files[0]!.chunks[0]!.context).toBe('class InvoiceBatcher {');
+    expect(privacy.unmask('refactor(dir_1): split file_1.ts')).toBe('refactor(billing): split acme-invoices.ts');
+  });
+
+  it('should alias identifiers matching the configured patterns in strict mode only', () => {
+    const diff = diffOf('lib/ledger.go', [
+      { type: 'added', content: 'func AcmeSettle(total Money) error { return AcmeVault.Store(total) }', lineNumber: 1 },
+    ]);
+
+    const strict = new PrivacyMask('strict', ['\\bAcme\\w+']);
+    expect(strict.maskDiff(diff).files[0]!.chunks[0]!.lines[0]!.content)
+      .toBe('func sym_1(total Money) error { return sym_2.Store(total) }');
+    expect(strict.unmask('fix(dir_1): retry sym_1 when sym_2 is locked in file_1.go'))
+      .toBe('fix(dir_1): retry AcmeSettle when AcmeVault is locked in ledger.go');
+
+    const paths = new PrivacyMask('paths', ['\\bAcme\\w+']);
+    expect(paths.maskDiff(diff).files[0]!.chunks[0]!.lines[0]!.content).toContain('AcmeSettle');
+  });
+
+  it('should mask the same input the same way and leave text alone when off', () => {
+    const diff = diffOf('services/payroll/export.py', [{ type: 'added', content: 'from payroll import export', lineNumber: 1 }]);
+
+    expect(new PrivacyMask('paths').maskDiff(diff)).toEqual(new PrivacyMask('paths').maskDiff(diff));
+    expect(new PrivacyMask('off').maskDiff(diff)).toBe(diff);
+    expect(new PrivacyMask().unmask('feat: add file_1')).toBe('feat: add file_1');
+  });
+
+  it('should reject unknown modes and invalid patterns', () => {
+    expect(() => new PrivacyMask('everything' as 'strict')).toThrow(ConfigError);
+    expect(() => new PrivacyMask('strict', ['('])).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,156 @@
+import { getAdapter, resolveProtocol } from '../../src/modules/provider-adapters.js';
+import { ApiRequest } from '../../src/types/index.js';
+
+const request: ApiRequest = {
+  provider: 'p',
+  model: 'm',
+  messages: [
+    { role: 'system', content: 'Be terse.' },
+    { role: 'user', content: 'diff' },
+    { role: 'assistant', content: 'feat: x' },
+    { role: 'user', content: 'shorter' },
+  ],
+  maxTokens: 200,
+  temperature: 0.2,
+  responseFormat: {
+    type: 'json_schema',
+    json_schema: {
+      name: 'commit_message',
+      strict: true,
+      schema: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['commitMessage'],
+        properties: { commitMessage: { type: 'string', description: 'The message' } },
+      },
+    },
+  },
+};
+
+describe('resolveProtocol', () => {
+  it('should default to OpenAI, or native Ollama for local Ollama servers', () => {
+    expect(resolveProtocol(undefined)).toBe('openai');
+    expect(resolveProtocol({ apiKey: 'k' })).toBe('openai');
+    expect(resolveProtocol({ type: 'local' })).toBe('ollama');
+    expect(resolveProtocol({ type: 'local', server: 'llamacpp' })).toBe('openai');
+    expect(resolveProtocol({ protocol: 'gemini', type: 'local' })).toBe('gemini');
+  });
+});
+
+describe('anthropic adapter', () => {
+  const adapter = getAdapter('anthropic');
+
+  it('should move system prompts out of the messages and force the schema tool', () => {
+    const payload = adapter.buildPayload(request, { openRouter: false });
+
+    expect(payload.system).toBe('Be terse.');
+    expect(payload.messages).toEqual([
+      { role: 'user', content: 'diff' },
+      { role: 'assistant', content: 'feat: x' },
+      { role: 'user', content: 'shorter' },
+    ]);
+    expect(payload.max_tokens).toBe(200);
+    expect(payload.tools).toEqual([
+      expect.objectContaining({ name: 'commit_message', input_schema: expect.objectContaining({ type: 'object' }) }),
+    ]);
+    expect(payload.tool_choice).toEqual({ type: 'tool', name: 'commit_message' });
+    expect(payload.response_format).toBeUndefined();
+  });
+
+  it('should map text content, usage and stop reason', () => {
+    const response = adapter.parseResponse({
+      model: 'claude-haiku-4-5',
+      content: [{ type: 'text', text: 'fix: ' }, { type: 'text', text: 'typo' }],
+      stop_reason: 'max_tokens',
+      usage: { input_tokens: 12, output_tokens: 4 },
+    }, 'claude');
+
+    expect(response).toEqual({
+      message: 'fix: typo',
+      model: 'claude-haiku-4-5',
+      finishReason: 'max_tokens',
+      usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 },
+    });
+  });
+
+  it('should stream tool input JSON as deltas', () => {
+    expect(adapter.parseStreamEvent({
+      type: 'content_block_delta',
+      delta: { type: 'input_json_delta', partial_json: '{"commit' },
+    })).toEqual({ delta: '{"commit' });
+    expect(adapter.parseStreamEvent({ type: 'ping' })).toEqual({});
+  });
+});
+
+describe('openai adapter', () => {
+  const adapter = getAdapter('openai');
+
+  it('should ask streams for token usage', () => {
+    expect(adapter.buildPayload({ ...request, stream: true }, { openRouter: false }).stream_options)
+      .toEqual({ include_usage: true });
+    expect(adapter.buildPayload(request, { openRouter: false }).stream_options).toBeUndefined();
+  });
+
+  it('should read the usage from the final chunk of a stream', () => {
+    const event = adapter.parseStreamEvent({
+      choices: [],
+      usage: { prompt_tokens: 120, completion_tokens: 9, total_tokens: 129 },
+    });
+
+    expect(event.delta).toBeUndefined();
+    expect(event.usage).toEqual({ promptTokens: 120, completionTokens: 9, totalTokens: 129 });
+  });
+});
+
+describe('gemini adapter', () => {
+  const adapter = getAdapter('gemini');
+
+  it('should address the model in the endpoint, streaming over SSE', () => {
+    expect(adapter.endpoint({ ...request, model: 'models/gemini-2.5-flash' })).toBe('/models/gemini-2.5-flash:generateContent');
+    expect(adapter.endpoint({ ...request, model: 'gemini-2.5-flash', stream: true }))
+      .toBe('/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+  });
+
+  it('should send contents, a system instruction and a reduced responseSchema', () => {
+    const payload = adapter.buildPayload(request, { openRouter: false });
+
+    expect(payload.systemInstruction).toEqual({ parts: [{ text: 'Be terse.' }] });
+    expect(payload.contents).toEqual([
+      { role: 'user', parts: [{ text: 'diff' }] },
+      { role: 'model', parts: [{ text: 'feat: x' }] },
+      { role: 'user', parts: [{ text: 'shorter' }] },
+    ]);
+    expect(payload.generationConfig).toEqual({
+      maxOutputTokens: 200,
+      temperature: 0.2,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: 'object',
+        required: ['commitMessage'],
+        properties: { commitMessage: { type: 'string', description: 'The message' } },
+      },
+    });
+  });
+
+  it('should map candidates and usage metadata', () => {
+    const response = adapter.parseResponse({
+      candidates: [{ content: { parts: [{ text: '{"commitMessage":"docs: x"}' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 6, totalTokenCount: 36 },
+      modelVersion: 'gemini-2.5-flash',
+    }, 'gemini');
+
+    expect(response.message).toBe('{"commitMessage":"docs: x"}');
+    expect(response.finishReason).toBe('STOP');
+    expect(response.usage).toEqual({ promptTokens: 30, completionTokens: 6, totalTokens: 36 });
+  });
+
+  it('should explain blocked prompts instead of reporting an empty response', () => {
+    expect(() => adapter.parseResponse({ promptFeedback: { blockReason: 'SAFETY' } }, 'gemini'))
+      .toThrow('gemini API error: prompt blocked (SAFETY)');
+    expect(() => adapter.parseResponse({ candidates: [] }, 'gemini')).toThrow('no choices found');
+  });
+
+  it('should read errors of streamed requests from the array body', () => {
+    expect(adapter.errorDetail([{ error: { code: 400, message: 'API key not valid' } }])).toBe('API key not valid');
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { ScopeResolver } from '../../src/modules/scope-resolver.js';
+import { gitManager } from '../../src/modules/git.js';
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getRepositoryRoot: jest.fn(),
+  },
+}));
+
+describe('ScopeResolver', () => {
+  let root: string;
+  const resolver = new ScopeResolver();
+
+  const write = async (files: Record<string, string>): Promise<void> => {
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(dirname(join(root, path)), { recursive: true });
+      await fs.writeFile(join(root, path), content);
+    }
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'orcommit-scopes-'));
+    (gitManager.getRepositoryRoot as jest.Mock).mockResolvedValue(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should map files to npm workspace packages by name', async () => {
+    await write({
+      'package.json': JSON.stringify({ workspaces: ['packages/*', 'apps/**', '!apps/legacy'] }),
+      'packages/api/package.json': JSON.stringify({ name: '@acme/api' }),
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+      'apps/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+    });
+
+    expect(await resolver.resolve(['packages/api/src/client.ts', 'packages/api/package.json'])).toEqual({
+      scope: 'api',
+      required: true,
+      sources: ['workspaces'],
+    });
+    expect(await resolver.resolve(['apps/web/src/app.tsx', 'packages/api/index.ts', 'README.md'])).toEqual({
+      scope: 'api,web',
+      required: false,
+      sources: ['workspaces'],
+    });
+    expect(await resolver.resolve(['apps/legacy/index.js'])).toBeNull();
+  });
+
+  it('should read pnpm, Cargo and Go workspaces', async () => {
+    await write({
+      'pnpm-workspace.yaml': "packages:\n  - 'tools/*' # internal\n  - \"!tools/tmp\"\nother: true\n",
+      'tools/lint/package.json': JSON.stringify({ name: 'lint-rules' }),
+      'Cargo.toml': '[workspace]\nmembers = [\n  "crates/*", # all crates\n]\nexclude = ["crates/scratch"]\n\n[profile.release]\nlto = true\n',
+      'crates/parser/Cargo.toml': '[package]\nname = "acme-parser"\nversion = "0.1.0"\n',
+      'crates/scratch/Cargo.toml': '[package]\nname = "scratch"\n',
+      'go.work': 'go 1.22\n\nuse (\n\t./svc/billing\n)\n',
+      'svc/billing/go.mod': 'module example.com/acme/svc/billing/v2\n',
+      'svc/other/go.mod': 'module example.com/acme/svc/other\n',
+    });
+
+    expect((await resolver.resolve(['tools/lint/index.js']))?.scope).toBe('lint-rules');
+    expect((await resolver.resolve(['crates/parser/src/lib.rs']))?.scope).toBe('acme-parser');
+    expect(await resolver.resolve(['crates/scratch/src/main.rs'])).toBeNull();
+    expect(await resolver.resolve(['svc/billing/invoice.go'])).toEqual({ scope: 'billing', required: true, sources: ['go'] });
+    expect(await resolver.resolve(['svc/other/main.go'])).toBeNull();
+  });
+
+  it('should use Nx projects and CODEOWNERS teams', async () => {
+    await write({
+      'nx.json': '{}',
+      'libs/auth/project.json': JSON.stringify({ name: 'auth' }),
+      '.github/CODEOWNERS': '* @acme/core\n/docs/ @acme/docs-team\n*.sql @acme/data\n/docs/internal/ @alice\n',
+    });
+
+    expect((await resolver.resolve(['libs/auth/src/token.ts']))?.scope).toBe('auth');
+    expect(await resolver.resolve(['docs/setup.md', 'db/migrations/001.sql'])).toEqual({
+      scope: 'data,docs',
+      required: true,
+      sources: ['codeowners'],
+    });
+    expect(await resolver.resolve(['docs/internal/runbook.md'])).toBeNull();
+    expect(await resolver.resolve(['src/main.ts'])).toBeNull();
+  });
+
+  it('should let scopeMap override the layout and give up on too many packages', async () => {
+    await write({
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      ...Object.fromEntries(['a', 'b', 'c', 'd'].map(name => [`packages/${name}/package.json`, JSON.stringify({ name })])),
+    });
+
+    expect(await resolver.resolve(['packages/a/x.ts', 'packages/b/x.ts'], { 'packages/{a,b}': 'core' })).toEqual({
+      scope: 'core',
+      required: true,
+      sources: ['scopeMap'],
+    });
+    expect(await resolver.resolve(['packages/a/x.ts', 'packages/b/x.ts', 'packages/c/x.ts', 'packages/d/x.ts'])).toBeNull();
+  });
+});
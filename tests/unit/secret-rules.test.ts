@@ -0,0 +1,86 @@
+import { detectSecrets, parseGitleaksIgnore, shannonEntropy } from '../../src/modules/secret-rules.js';
+import { GitDiff } from '../../src/types/index.js';
+
+// Assembled at runtime so this file does not trip secret scanners itself
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const AWS_KEY = 'AKIA' + 'Z7Q2W5E4R6T3Y2U7';
+
+const diffOf = (path: string, added: string[], firstLine = 10): GitDiff => ({
+  files: [{
+    path,
+    status: 'modified',
+    isBinary: false,
+    chunks: [{
+      header: '@@',
+      oldStart: firstLine,
+      oldLines: 1,
+      newStart: firstLine,
+      newLines: added.length + 1,
+      context: '',
+      lines: [
+        { type: 'context', content: 'const unchanged = 1;', lineNumber: firstLine },
+        { type: 'removed', content: `token = "${GITHUB_TOKEN}"` },
+        ...added.map((content, i) => ({ type: 'added' as const, content, lineNumber: firstLine + 1 + i })),
+      ],
+    }],
+  }],
+  totalLines: added.length + 2,
+  totalSize: 100,
+});
+
+describe('shannonEntropy', () => {
+  it('should measure bits per character', () => {
+    expect(shannonEntropy('')).toBe(0);
+    expect(shannonEntropy('aaaa')).toBe(0);
+    expect(shannonEntropy('abcd')).toBe(2);
+  });
+});
+
+describe('detectSecrets', () => {
+  it('should report named rules on added lines only, with line and column', () => {
+    const matches = detectSecrets(diffOf('src/config.ts', [
+      'const safe = 1;',
+      `  const github = "${GITHUB_TOKEN}", aws = '${AWS_KEY}';`,
+    ]));
+
+    expect(matches.map(({ ruleId, severity, line, column }) => ({ ruleId, severity, line, column }))).toEqual([
+      { ruleId: 'aws-access-token', severity: 'error', line: 12, column: 69 },
+      { ruleId: 'github-pat', severity: 'error', line: 12, column: 19 },
+    ]);
+    expect(matches[0]!.secret).toBe(AWS_KEY);
+  });
+
+  it('should flag random values assigned to secret names but not names or placeholders', () => {
+    const matches = detectSecrets(diffOf('src/client.ts', [
+      'const apiKey = "q8Zr4Tn2Vx7Lp1Mw9Ks3";',
+      'const token = getAccessTokenFromHeader(request);',
+      'password: "your-password-example-123"',
+      'const checksum = "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";',
+    ]));
+
+    expect(matches.map(match => [match.ruleId, match.line, match.severity])).toEqual([
+      ['generic-api-key', 11, 'warning'],
+    ]);
+  });
+
+  it('should skip entropy rules in lockfiles and honor inline allow comments', () => {
+    const integrity = '"integrity": "sha512-Zm9vYmFyYmF6cXV4MTIzNDU2Nzg5MEFCQ0RFRkdISUpLTE1OT1BRUlNUVVZX"';
+
+    expect(detectSecrets(diffOf('package-lock.json', [integrity, 'secret: "Yh3kP9wQ2zR7vT5m"']))).toEqual([]);
+    expect(detectSecrets(diffOf('src/a.ts', [`const t = "${GITHUB_TOKEN}"; // gitleaks:allow`]))).toEqual([]);
+    expect(detectSecrets(diffOf('package-lock.json', [`"token": "${GITHUB_TOKEN}"`]))).toHaveLength(1);
+  });
+
+  it('should drop findings listed in .gitleaksignore', () => {
+    const ignored = parseGitleaksIgnore([
+      '# reviewed fixtures',
+      '0123abcd:test/fixture.ts:github-pat:11',
+      'test/fixture.ts:aws-access-token:12',
+      '',
+    ].join('\n'));
+    const diff = diffOf('test/fixture.ts', [`"${GITHUB_TOKEN}"`, `"${AWS_KEY}"`, `"${AWS_KEY}"`]);
+
+    expect(ignored).toEqual(new Set(['test/fixture.ts:github-pat:11', 'test/fixture.ts:aws-access-token:12']));
+    expect(detectSecrets(diff, ignored).map(match => `${match.ruleId}:${match.line}`)).toEqual(['aws-access-token:13']);
+  });
+});
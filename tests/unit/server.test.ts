@@ -0,0 +1,185 @@
+import { PassThrough } from 'stream';
+import { EditorServer, FrameDecoder, RPC_ERRORS, encodeFrame } from '../../src/modules/server.js';
+import { coreOrchestrator } from '../../src/modules/core.js';
+import { apiManager } from '../../src/modules/api.js';
+import { getProgressReporter } from '../../src/modules/logger.js';
+import { CommitResult, GitError } from '../../src/types/index.js';
+
+jest.mock('../../src/modules/core.js', () => ({
+  coreOrchestrator: {
+    initialize: jest.fn(() => Promise.resolve()),
+    generateCommit: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/modules/api.js', () => ({
+  apiManager: { cancelPending: jest.fn() },
+}));
+
+jest.mock('../../src/modules/config.js', () => ({
+  configManager: {
+    load: jest.fn(() => Promise.resolve({
+      providers: { openrouter: { apiKey: 'sk-or-1', model: 'openai/gpt-4o-mini' }, ollama: { type: 'local' } },
+      preferences: { defaultProvider: 'openrouter' },
+    })),
+  },
+}));
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getCurrentBranch: jest.fn(() => Promise.resolve('main')),
+    getStagedDiff: jest.fn(() => Promise.resolve({
+      files: [{
+        path: 'src/a.ts',
+        status: 'modified',
+        isBinary: false,
+        chunks: [{ lines: [{ type: 'added' }, { type: 'added' }, { type: 'removed' }, { type: 'context' }] }],
+      }],
+      totalLines: 4,
+      totalSize: 120,
+    })),
+  },
+}));
+
+jest.mock('../../src/modules/secret-scanner.js', () => ({
+  secretScanner: { scanStagedChanges: jest.fn() },
+}));
+
+const mockCore = coreOrchestrator as jest.Mocked<typeof coreOrchestrator>;
+
+const commitResult = (message: string): CommitResult => ({
+  message,
+  assessment: null,
+  provider: 'openrouter',
+  model: 'openai/gpt-4o-mini',
+  usage: { requests: 1, promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  filesAnalyzed: ['src/a.ts'],
+  filteredFiles: [],
+  secrets: [],
+  committed: false,
+});
+
+describe('FrameDecoder', () => {
+  it('should reassemble frames split across chunks, counting bytes not characters', () => {
+    const decoder = new FrameDecoder();
+    const frames = encodeFrame({ id: 1, text: 'héllo ✓' }) + encodeFrame({ id: 2 });
+
+    expect(decoder.push(frames.slice(0, 10))).toEqual([]);
+    expect(decoder.push(Buffer.from(frames.slice(10)))).toEqual([
+      JSON.stringify({ id: 1, text: 'héllo ✓' }),
+      JSON.stringify({ id: 2 }),
+    ]);
+  });
+});
+
+describe('EditorServer', () => {
+  let messages: any[];
+  let server: EditorServer;
+
+  const request = (id: number, method: string, params?: unknown): void =>
+    server.receive(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+  const responseTo = (id: number): any => messages.find(message => message.id === id);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    messages = [];
+    const decoder = new FrameDecoder();
+    server = new EditorServer('1.2.3', new PassThrough(), data => {
+      messages.push(...decoder.push(data).map(body => JSON.parse(body)));
+    });
+  });
+
+  it('should generate without committing or prompting and report progress', async () => {
+    mockCore.generateCommit.mockImplementation(async () => {
+      getProgressReporter()?.({ kind: 'report', message: 'Generating commit', preview: 'feat: a' });
+      return commitResult('feat: add a');
+    });
+
+    request(1, 'generateCommitMessage', { provider: 'openrouter', emoji: true });
+    await server.drain();
+
+    expect(mockCore.generateCommit).toHaveBeenCalledWith({
+      provider: 'openrouter',
+      emoji: true,
+      dryRun: true,
+      yes: true,
+      json: true,
+    });
+    expect(messages.map(message => message.params?.value?.kind ?? 'response')).toEqual(['begin', 'report', 'end', 'response']);
+    expect(messages[1].params).toEqual({ token: 1, value: { kind: 'report', message: 'Generating commit', preview: 'feat: a' } });
+    expect(responseTo(1).result.message).toBe('feat: add a');
+    expect(getProgressReporter()).toBeNull();
+  });
+
+  it('should regenerate with the previous options and the feedback', async () => {
+    mockCore.generateCommit.mockResolvedValue(commitResult('fix: b'));
+
+    request(1, 'regenerate', { feedback: 'shorter' });
+    request(2, 'generateCommitMessage', { scope: 'api' });
+    request(3, 'regenerate', { feedback: 'shorter' });
+    await server.drain();
+
+    expect(responseTo(1).error.code).toBe(RPC_ERRORS.REQUEST_FAILED);
+    expect(mockCore.generateCommit).toHaveBeenLastCalledWith(expect.objectContaining({ scope: 'api', feedback: 'shorter' }));
+    expect(responseTo(3).result.message).toBe('fix: b');
+  });
+
+  it('should answer bad requests with JSON-RPC errors', async () => {
+    mockCore.generateCommit.mockRejectedValue(new GitError('Not a git repository'));
+
+    server.receive('{oops');
+    request(1, 'generateCommitMessage', { emoji: 'yes' });
+    request(2, 'generateCommitMessage', { type: 'wip' });
+    request(3, 'commitEverything');
+    request(4, 'generateCommitMessage');
+    await server.drain();
+
+    expect(messages[0].error.code).toBe(RPC_ERRORS.PARSE_ERROR);
+    expect(responseTo(1).error).toEqual({ code: RPC_ERRORS.INVALID_PARAMS, message: '"emoji" must be a boolean' });
+    expect(responseTo(2).error.code).toBe(RPC_ERRORS.INVALID_PARAMS);
+    expect(responseTo(3).error.code).toBe(RPC_ERRORS.METHOD_NOT_FOUND);
+    expect(responseTo(4).error).toEqual({
+      code: RPC_ERRORS.REQUEST_FAILED,
+      message: 'Not a git repository',
+      data: { code: 'GIT_ERROR' },
+    });
+  });
+
+  it('should abort the running request and skip queued ones on $/cancelRequest', async () => {
+    let finish: (value: CommitResult) => void = () => undefined;
+    mockCore.generateCommit.mockImplementation(() => new Promise(resolve => {
+      finish = resolve;
+    }));
+
+    request(1, 'generateCommitMessage');
+    request(2, 'getStagedSummary');
+    await new Promise(resolve => setImmediate(resolve));
+
+    server.receive(JSON.stringify({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 2 } }));
+    server.receive(JSON.stringify({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } }));
+    expect(apiManager.cancelPending).toHaveBeenCalledTimes(1);
+
+    finish(commitResult('too late'));
+    await server.drain();
+
+    expect(responseTo(1).error.code).toBe(RPC_ERRORS.REQUEST_CANCELLED);
+    expect(responseTo(2).error.code).toBe(RPC_ERRORS.REQUEST_CANCELLED);
+  });
+
+  it('should list providers and summarize the staged changes', async () => {
+    request(1, 'listProviders');
+    request(2, 'getStagedSummary');
+    await server.drain();
+
+    expect(responseTo(1).result).toEqual([
+      { name: 'openrouter', model: 'openai/gpt-4o-mini', protocol: 'openai', local: false, hasApiKey: true, isDefault: true },
+      { name: 'ollama', model: null, protocol: 'ollama', local: true, hasApiKey: false, isDefault: false },
+    ]);
+    expect(responseTo(2).result).toEqual({
+      branch: 'main',
+      files: [{ path: 'src/a.ts', status: 'modified', binary: false, additions: 2, deletions: 1 }],
+      totalLines: 4,
+      totalSize: 120,
+    });
+  });
+});
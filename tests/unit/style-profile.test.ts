@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StyleProfiler, profileCommitStyle, styleRules } from '../../src/modules/style-profile.js';
+import { gitManager } from '../../src/modules/git.js';
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getCacheScope: jest.fn(),
+    getCommitLog: jest.fn(),
+  },
+}));
+
+const HISTORY = [
+  'feat(api): add retry budget to the client\n\nRetries stop once the budget is spent.\n\nRefs: PAY-412\nSigned-off-by: Ana <ana@example.com>',
+  'fix(api): handle empty responses\n\nSigned-off-by: Ana <ana@example.com>',
+  'feat(cli): support --json output\n\nSigned-off-by: Bo <bo@example.com>',
+  'fix(cli): drop stray newline in help',
+  'refactor(core): extract prompt builder\n\nSigned-off-by: Bo <bo@example.com>',
+  'feat(core): add style rules (#88)',
+  'docs(readme): document the config file\n\nSigned-off-by: Ana <ana@example.com>',
+  'chore(deps): bump axios to 1.7.4\n\nSigned-off-by: Ana <ana@example.com>',
+  'fix(api): use the configured timeout\n\nSigned-off-by: Bo <bo@example.com>',
+  'test(core): cover the empty diff case\n\nSigned-off-by: Bo <bo@example.com>',
+  'Merge pull request from a fork',
+];
+
+describe('profileCommitStyle', () => {
+  it('should measure the conventions of a history', () => {
+    const profile = profileCommitStyle(HISTORY)!;
+
+    expect(profile).toMatchObject({
+      sampleSize: 11,
+      types: { feat: 3, fix: 3, refactor: 1, docs: 1, chore: 1, test: 1 },
+      scopes: { api: 3, cli: 2, core: 3, readme: 1, deps: 1 },
+      scoped: 1,
+      mood: 'imperative',
+      trailingPeriod: 0,
+      withEmoji: 0,
+      ticketPlacement: 'subject',
+      ticketExample: '#88',
+    });
+    expect(profile.conventional).toBeCloseTo(10 / 11);
+    expect(profile.withBody).toBeCloseTo(1 / 11);
+    expect(profile.tickets).toBeCloseTo(2 / 11);
+    expect(profile.trailers).toEqual({ 'Signed-off-by': 8 / 11, Refs: 1 / 11 });
+  });
+
+  it('should not profile a short history', () => {
+    expect(profileCommitStyle(HISTORY.slice(0, 9))).toBeNull();
+  });
+
+  it('should recognize past tense and ticket prefixes', () => {
+    const profile = profileCommitStyle(
+      Array.from({ length: 10 }, (_, i) => `[OPS-${i + 1}] ${i % 2 ? 'Fixed' : 'Added'} the thing.`)
+    )!;
+
+    expect(profile).toMatchObject({ mood: 'past', lowercase: 0, trailingPeriod: 1, tickets: 1, ticketPlacement: 'prefix' });
+  });
+});
+
+describe('styleRules', () => {
+  it('should turn clear habits into rules', () => {
+    const rules = styleRules(profileCommitStyle(HISTORY)!);
+
+    expect(rules).toEqual([
+      'Commits follow Conventional Commits. Types in use, most frequent first: feat (27%), fix (27%), chore (9%), docs (9%), refactor (9%), test (9%)',
+      'Almost every commit has a scope; always include one. Scopes in use: api, core, cli, deps, readme',
+      'Start the description with a lowercase letter',
+      'Use the imperative mood ("add", not "added" or "adds")',
+      `Subjects average ${profileCommitStyle(HISTORY)!.averageSubjectLength} characters; aim for a similar length`,
+      'Do not end the subject with a period',
+      'Most commits are a subject line only; add a body only when the change needs explaining',
+      'Do not use emoji',
+      'Commits carry Signed-off-by trailers; do not write trailers yourself, they are added when committing',
+    ]);
+  });
+});
+
+describe('StyleProfiler', () => {
+  const cacheFile = join(tmpdir(), `orcommit-styles-${process.pid}.json`);
+
+  afterEach(async () => {
+    await fs.rm(cacheFile, { force: true });
+  });
+
+  it('should profile each scope once and reuse the cached profile', async () => {
+    (gitManager.getCacheScope as jest.Mock).mockResolvedValue('/repo#main');
+    (gitManager.getCommitLog as jest.Mock).mockResolvedValue(HISTORY.map((message, i) => ({ hash: `${i}`, message })));
+
+    const profile = await new StyleProfiler(cacheFile).getProfile();
+    expect(profile?.sampleSize).toBe(11);
+    expect(gitManager.getCommitLog).toHaveBeenCalledWith('HEAD', 300);
+
+    (gitManager.getCommitLog as jest.Mock).mockClear();
+    expect(await new StyleProfiler(cacheFile).getProfile()).toEqual(profile);
+    expect(gitManager.getCommitLog).not.toHaveBeenCalled();
+  });
+
+  it('should return null when the history cannot be read', async () => {
+    (gitManager.getCacheScope as jest.Mock).mockResolvedValue('/empty#main');
+    (gitManager.getCommitLog as jest.Mock).mockRejectedValue(new Error('bad revision HEAD'));
+
+    expect(await new StyleProfiler(cacheFile).getProfile()).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  ChunkSummary,
+  groupSummaries,
+  parseChunkSummary,
+  renderSummaries,
+} from '../../src/modules/summarizer.js';
+
+const summary = (overrides: Partial<ChunkSummary>): ChunkSummary => ({
+  files: ['src/a.ts'],
+  changes: ['rename run to start'],
+  type: 'refactor',
+  scope: 'core',
+  ...overrides,
+});
+
+describe('parseChunkSummary', () => {
+  it('should read the structured summary, also inside a code fence', () => {
+    const json = JSON.stringify({ files: ['src/a.ts', ' '], changes: ['add paging'], type: 'Feat', scope: 'api' });
+
+    expect(parseChunkSummary(json)).toEqual({ files: ['src/a.ts'], changes: ['add paging'], type: 'feat', scope: 'api' });
+    expect(parseChunkSummary('```json\n' + json + '\n```').changes).toEqual(['add paging']);
+  });
+
+  it('should keep prose answers as the list of changes', () => {
+    expect(parseChunkSummary('- add paging\n* fix the cursor\n\n1. document it')).toEqual({
+      files: [],
+      changes: ['add paging', 'fix the cursor', 'document it'],
+      type: '',
+      scope: '',
+    });
+  });
+});
+
+describe('renderSummaries', () => {
+  it('should number the parts and tally the candidate types', () => {
+    const rendered = renderSummaries([
+      summary({}),
+      summary({ files: ['docs/a.md'], changes: ['explain start'], type: 'docs', scope: '' }),
+      summary({ files: [], type: '' }),
+      summary({ files: ['src/b.ts'] }),
+    ]);
+
+    expect(rendered.split('\n\n')[0]).toBe('Candidate types across parts: refactor(core) ×2, docs ×1');
+    expect(rendered).toContain('Part 2 of 4\nFiles: docs/a.md\nCandidate: docs\nChanges:\n- explain start');
+    expect(rendered).toContain('Part 3 of 4\nChanges:\n- rename run to start');
+  });
+});
+
+describe('groupSummaries', () => {
+  const summaries = Array.from({ length: 7 }, (_, i) => summary({ changes: [`change ${i}`] }));
+
+  it('should fill batches up to the limit', () => {
+    const fitsThree = (rendered: string): boolean => (rendered.match(/^Part /gm) ?? []).length <= 3;
+
+    expect(groupSummaries(summaries, fitsThree).map(group => group.length)).toEqual([3, 4]);
+  });
+
+  it('should merge at least two summaries per batch so every level shrinks', () => {
+    const groups = groupSummaries(summaries, () => false);
+
+    expect(groups.map(group => group.length)).toEqual([2, 2, 3]);
+    expect(groups.flat()).toEqual(summaries);
+  });
+});
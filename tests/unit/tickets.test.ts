@@ -0,0 +1,52 @@
+import { applyTicketReference, extractTickets, ticketReferenceFor } from '../../src/modules/tickets.js';
+import { ConfigError } from '../../src/types/index.js';
+
+describe('extractTickets', () => {
+  it('should find Jira and GitHub references by default', () => {
+    expect(extractTickets('feature/PROJ-1234-login')).toEqual(['PROJ-1234']);
+    expect(extractTickets('fix/PROJ-12-and-OPS-7')).toEqual(['PROJ-12', 'OPS-7']);
+    expect(extractTickets('fix/123-crash-on-start')).toEqual(['#123']);
+    expect(extractTickets('issue-42')).toEqual(['#42']);
+    expect(extractTickets('feature/login-v2')).toEqual([]);
+  });
+
+  it('should not take standards and versions for Jira keys', () => {
+    expect(extractTickets('fix/UTF-8-decoding')).toEqual([]);
+    expect(extractTickets('feature/SHA-256-checksums')).toEqual([]);
+    expect(extractTickets('chore/dates-as-ISO-8601')).toEqual([]);
+    expect(extractTickets('feature/PROJ-12.5-login')).toEqual([]);
+    expect(extractTickets('feature/PROJ-12_login')).toEqual(['PROJ-12']);
+  });
+
+  it('should support Linear branches and custom patterns', () => {
+    expect(extractTickets('alice/eng-123-login', { styles: ['linear'] })).toEqual(['ENG-123']);
+    expect(extractTickets('alice/eng-123-login')).toEqual([]);
+    expect(extractTickets('story/sc-4411', { pattern: 'sc-(\\d+)' })).toEqual(['4411']);
+    expect(() => extractTickets('main', { pattern: '(' })).toThrow(ConfigError);
+  });
+});
+
+describe('applyTicketReference', () => {
+  const footer = ticketReferenceFor('feature/PROJ-1234-login', { placement: 'footer' });
+  const prefix = ticketReferenceFor('feature/PROJ-1234-login', { placement: 'prefix' });
+
+  it('should add a footer, joining an existing trailer block', () => {
+    expect(applyTicketReference('feat(auth): add login', footer)).toBe('feat(auth): add login\n\nRefs: PROJ-1234');
+    expect(applyTicketReference('feat!: drop v1\n\nBody text.\n\nBREAKING CHANGE: v1 is gone', footer))
+      .toBe('feat!: drop v1\n\nBody text.\n\nBREAKING CHANGE: v1 is gone\nRefs: PROJ-1234');
+  });
+
+  it('should prefix the description, or the subject without a type', () => {
+    expect(applyTicketReference('feat(auth): add login\n\nDetails.', prefix)).toBe('feat(auth): PROJ-1234 add login\n\nDetails.');
+    expect(applyTicketReference('Add login', prefix)).toBe('PROJ-1234: Add login');
+  });
+
+  it('should be idempotent and leave messages alone without a reference', () => {
+    const once = applyTicketReference('fix: handle empty input', footer);
+    expect(applyTicketReference(once, footer)).toBe(once);
+    expect(applyTicketReference('fix: PROJ-1234 handle empty input', prefix)).toBe('fix: PROJ-1234 handle empty input');
+    expect(applyTicketReference('fix: handle empty input', null)).toBe('fix: handle empty input');
+    expect(ticketReferenceFor('main', { placement: 'footer' })).toBeNull();
+    expect(ticketReferenceFor('feature/PROJ-1234-login', undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { CoAuthorRegistry, addTrailers, removeTrailers, splitTrailers } from '../../src/modules/trailers.js';
+import { gitManager } from '../../src/modules/git.js';
+import { ConfigError } from '../../src/types/index.js';
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: {
+    getAuthors: jest.fn(),
+  },
+}));
+
+const ANA = 'Ana Lima <ana@example.com>';
+
+describe('splitTrailers', () => {
+  it('should take the last paragraph when every line is a trailer', () => {
+    expect(splitTrailers('fix: handle empty input\n\nBody text.\n\nRefs: PROJ-1\nSigned-off-by: ' + ANA)).toEqual({
+      body: 'fix: handle empty input\n\nBody text.',
+      trailers: [
+        { key: 'Refs', value: 'PROJ-1' },
+        { key: 'Signed-off-by', value: ANA },
+      ],
+    });
+    expect(splitTrailers('feat!: drop v1\n\nBREAKING CHANGE: v1 is gone,\n  use v2').trailers).toEqual([
+      { key: 'BREAKING CHANGE', value: 'v1 is gone,\n  use v2' },
+    ]);
+  });
+
+  it('should not mistake the subject or prose for trailers', () => {
+    expect(splitTrailers('fix: handle empty input').trailers).toEqual([]);
+    expect(splitTrailers('fix: handle empty input\n\nNote: this is prose\nthat goes on.').trailers).toEqual([]);
+  });
+});
+
+describe('addTrailers', () => {
+  it('should append to the trailer block, or start one', () => {
+    const signoff = { key: 'Signed-off-by', value: ANA };
+
+    expect(addTrailers('fix: handle empty input', [signoff])).toBe(`fix: handle empty input\n\nSigned-off-by: ${ANA}`);
+    expect(addTrailers('fix: x\n\nRefs: PROJ-1', [signoff])).toBe(`fix: x\n\nRefs: PROJ-1\nSigned-off-by: ${ANA}`);
+  });
+
+  it('should skip trailers the block already has', () => {
+    const message = `fix: x\n\nsigned-off-by: ${ANA}`;
+
+    expect(addTrailers(message, [{ key: 'Signed-off-by', value: ANA }])).toBe(message);
+    expect(addTrailers(message, [{ key: 'Signed-off-by', value: 'Bo <bo@example.com>' }])).toBe(
+      `${message}\nSigned-off-by: Bo <bo@example.com>`
+    );
+  });
+});
+
+describe('removeTrailers', () => {
+  it('should drop the given keys and an emptied block', () => {
+    expect(removeTrailers(`feat: x\n\nBody.\n\nCo-Authored-By: ${ANA}`, ['Co-authored-by'])).toBe('feat: x\n\nBody.');
+    expect(removeTrailers(`feat: x\n\nRefs: PROJ-1\nSigned-off-by: ${ANA}`, ['Signed-off-by'])).toBe(
+      'feat: x\n\nRefs: PROJ-1'
+    );
+  });
+});
+
+describe('CoAuthorRegistry', () => {
+  beforeEach(() => {
+    (gitManager.getAuthors as jest.Mock).mockResolvedValue([
+      { name: 'Ana Lima', email: 'ana@example.com' },
+      { name: 'Bo Chen', email: '4242+bochen@users.noreply.github.com' },
+      { name: 'Ana Souza', email: 'asouza@example.com' },
+    ]);
+  });
+
+  it('should resolve emails, logins, names and name words', async () => {
+    const registry = new CoAuthorRegistry();
+
+    expect(await registry.resolve('ANA@example.com')).toEqual({ name: 'Ana Lima', email: 'ana@example.com' });
+    expect(await registry.resolve('ana')).toEqual({ name: 'Ana Lima', email: 'ana@example.com' });
+    expect((await registry.resolve('bochen')).name).toBe('Bo Chen');
+    expect((await registry.resolve('souza')).email).toBe('asouza@example.com');
+    expect(await registry.resolve('Eve <eve@example.com>')).toEqual({ name: 'Eve', email: 'eve@example.com' });
+    expect(gitManager.getAuthors).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown and ambiguous aliases', async () => {
+    (gitManager.getAuthors as jest.Mock).mockResolvedValue([
+      { name: 'Ana Lima', email: 'lima@example.com' },
+      { name: 'Ana Souza', email: 'asouza@example.com' },
+    ]);
+    const registry = new CoAuthorRegistry();
+
+    await expect(registry.resolve('ana')).rejects.toThrow(/ambiguous: Ana Lima <lima@example.com>, Ana Souza/);
+    await expect(registry.resolve('carol')).rejects.toThrow(ConfigError);
+  });
+});
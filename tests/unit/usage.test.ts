@@ -0,0 +1,223 @@
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import {
+  PriceBook,
+  UsageLedger,
+  UsageRecord,
+  formatUsageReport,
+  loadPriceBook,
+  parseSince,
+  summarizeUsage,
+} from '../../src/modules/usage.js';
+import { Config, DEFAULT_CONFIG } from '../../src/types/index.js';
+
+// Keep the ledger and price cache in memory
+jest.mock('fs', () => ({
+  promises: {
+    mkdir: jest.fn(),
+    readFile: jest.fn(),
+    writeFile: jest.fn(),
+    appendFile: jest.fn(),
+  },
+}));
+
+jest.mock('axios', () => ({ get: jest.fn() }));
+
+jest.mock('../../src/modules/git.js', () => ({
+  gitManager: { getCacheScope: jest.fn(() => Promise.resolve('/work/app#main')) },
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  timestamp: '2026-03-02T10:00:00.000Z',
+  provider: 'openrouter',
+  model: 'openai/gpt-4o-mini',
+  scope: '/work/app#main',
+  promptTokens: 1000,
+  completionTokens: 100,
+  latencyMs: 900,
+  cached: false,
+  ...overrides,
+});
+
+describe('UsageLedger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should append a JSON line with the repository scope', async () => {
+    const ledger = new UsageLedger('/tmp/usage.jsonl');
+
+    await ledger.record({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      latencyMs: 420.6,
+      cached: false,
+    });
+
+    const [path, line] = mockFs.appendFile.mock.calls[0]!;
+    expect(path).toBe('/tmp/usage.jsonl');
+    expect(JSON.parse(line as string)).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      scope: '/work/app#main',
+      promptTokens: 12,
+      completionTokens: 3,
+      latencyMs: 421,
+      cached: false,
+    });
+  });
+
+  it('should never fail a commit when the ledger cannot be written', async () => {
+    mockFs.appendFile.mockRejectedValueOnce(new Error('EACCES'));
+
+    await expect(
+      new UsageLedger('/tmp/usage.jsonl').record({ provider: 'a', model: 'b', latencyMs: 0, cached: true })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should total the requests this process recorded since a mark', async () => {
+    const ledger = new UsageLedger('/tmp/usage.jsonl');
+    const usage = { promptTokens: 10, completionTokens: 2, totalTokens: 12 };
+
+    await ledger.record({ provider: 'a', model: 'b', usage, latencyMs: 0, cached: false });
+    const mark = ledger.sessionMark();
+    await ledger.record({ provider: 'a', model: 'b', usage, latencyMs: 0, cached: false });
+    await ledger.record({ provider: 'a', model: 'b', latencyMs: 0, cached: true });
+
+    expect(ledger.sessionUsage(mark)).toEqual({ requests: 2, promptTokens: 10, completionTokens: 2, totalTokens: 12 });
+    expect(ledger.sessionUsage().requests).toBe(3);
+  });
+
+  it('should read records since a date and skip broken lines', async () => {
+    mockFs.readFile.mockResolvedValueOnce(
+      [
+        JSON.stringify(record({ timestamp: '2026-02-27T10:00:00.000Z' })),
+        '{"truncated',
+        JSON.stringify(record({ timestamp: '2026-03-02T10:00:00.000Z' })),
+        '',
+      ].join('\n') as any
+    );
+
+    const records = await new UsageLedger('/tmp/usage.jsonl').read(new Date('2026-03-01T00:00:00.000Z'));
+
+    expect(records.map(entry => entry.timestamp)).toEqual(['2026-03-02T10:00:00.000Z']);
+  });
+});
+
+describe('PriceBook', () => {
+  const prices = new PriceBook(
+    { 'my-model': { prompt: 1, completion: 2 } },
+    { 'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.6 } },
+    new Set(['ollama'])
+  );
+
+  it('should price by exact id, vendor-less id, user table and local provider', () => {
+    expect(prices.priceOf('openrouter', 'openai/gpt-4o-mini')).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(prices.priceOf('openai', 'gpt-4o-mini')).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(prices.priceOf('custom', 'my-model')).toEqual({ prompt: 1, completion: 2 });
+    expect(prices.priceOf('ollama', 'llama3.2')).toEqual({ prompt: 0, completion: 0 });
+    expect(prices.priceOf('custom', 'unknown')).toBeNull();
+  });
+
+  it('should cost tokens per million and cache hits as free', () => {
+    expect(prices.costOf(record({ promptTokens: 1_000_000, completionTokens: 500_000 }))).toBeCloseTo(0.45);
+    expect(prices.costOf(record({ cached: true }))).toBe(0);
+    expect(prices.costOf(record({ model: 'unknown' }))).toBeNull();
+  });
+});
+
+describe('summarizeUsage', () => {
+  const prices = new PriceBook({}, { 'openai/gpt-4o-mini': { prompt: 1, completion: 1 } });
+  const records = [
+    record({ promptTokens: 1000, completionTokens: 0 }),
+    record({ cached: true, promptTokens: 0, completionTokens: 0, scope: '/work/lib#dev' }),
+    record({ model: 'mystery', scope: '/work/lib#main', timestamp: '2026-03-01T10:00:00.000Z' }),
+  ];
+
+  it('should group by model with costs, cache hits and unpriced requests', () => {
+    const report = summarizeUsage(records, 'model', prices, new Date('2026-03-01'));
+
+    expect(report.rows.map(row => [row.key, row.requests, row.cacheHits, row.unpriced])).toEqual([
+      ['openrouter/openai/gpt-4o-mini', 2, 1, 0],
+      ['openrouter/mystery', 1, 0, 1],
+    ]);
+    expect(report.total.cost).toBeCloseTo(0.001);
+    expect(report.total.requests).toBe(3);
+  });
+
+  it('should group by repository across branches and by day in order', () => {
+    expect(summarizeUsage(records, 'repo', prices, new Date()).rows.map(row => [row.key, row.requests])).toEqual([
+      ['/work/app', 1],
+      ['/work/lib', 2],
+    ]);
+    expect(summarizeUsage(records, 'day', prices, new Date()).rows.map(row => row.requests)).toEqual([1, 2]);
+  });
+
+  it('should render an aligned table with a total row', () => {
+    const lines = formatUsageReport(summarizeUsage(records, 'model', prices, new Date())).split('\n');
+
+    expect(lines[0]).toMatch(/^Model\s+Requests\s+Cached\s+Prompt\s+Completion\s+Cost$/);
+    expect(lines[3]).toContain('$0.00 + 1 unpriced');
+    expect(lines[lines.length - 1]).toMatch(/^total\s+3\s+1\s+2,000\s+100\s+\$0\.0010 \+ 1 unpriced$/);
+    expect(new Set(lines.map(line => line.length)).size).toBe(1);
+  });
+});
+
+describe('loadPriceBook', () => {
+  const config: Config = {
+    ...DEFAULT_CONFIG,
+    providers: { ...DEFAULT_CONFIG.providers, ollama: { type: 'local', model: 'llama3.2' } },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch OpenRouter prices per token and cache them', async () => {
+    mockFs.readFile.mockRejectedValueOnce(new Error('ENOENT'));
+    mockAxios.get.mockResolvedValueOnce({
+      data: {
+        data: [
+          { id: 'openai/gpt-4o-mini', pricing: { prompt: '0.00000015', completion: '0.0000006' } },
+          { id: 'openrouter/auto', pricing: { prompt: '-1', completion: '-1' } },
+        ],
+      },
+    });
+
+    const prices = await loadPriceBook(config, '/tmp/pricing.json');
+
+    expect(prices.priceOf('openrouter', 'openai/gpt-4o-mini')?.prompt).toBeCloseTo(0.15);
+    expect(prices.priceOf('openrouter', 'openrouter/auto')).toBeNull();
+    expect(prices.priceOf('ollama', 'llama3.2')).toEqual({ prompt: 0, completion: 0 });
+    expect(mockFs.writeFile).toHaveBeenCalledWith('/tmp/pricing.json', expect.any(String));
+  });
+
+  it('should use fresh cached prices without fetching, and stale ones when offline', async () => {
+    const cached = (fetchedAt: number) =>
+      JSON.stringify({ fetchedAt, prices: { 'x/y': { prompt: 3, completion: 4 } } }) as any;
+
+    mockFs.readFile.mockResolvedValueOnce(cached(Date.now()));
+    expect((await loadPriceBook(config, '/tmp/pricing.json')).priceOf('a', 'y')).toEqual({ prompt: 3, completion: 4 });
+    expect(mockAxios.get).not.toHaveBeenCalled();
+
+    mockFs.readFile.mockResolvedValueOnce(cached(0));
+    mockAxios.get.mockRejectedValueOnce(new Error('offline'));
+    expect((await loadPriceBook(config, '/tmp/pricing.json')).priceOf('a', 'x/y')).toEqual({ prompt: 3, completion: 4 });
+  });
+});
+
+describe('parseSince', () => {
+  const now = new Date(2026, 2, 15, 13, 30);
+
+  it('should accept dates and day or week spans', () => {
+    expect(parseSince('2026-03-01', now)).toEqual(new Date(2026, 2, 1));
+    expect(parseSince('7d', now)).toEqual(new Date(2026, 2, 8));
+    expect(parseSince('2w', now)).toEqual(new Date(2026, 2, 1));
+    expect(parseSince('last week', now)).toBeNull();
+    expect(parseSince('2026-13-45', now)).toBeNull();
+  });
+});
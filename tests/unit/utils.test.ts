@@ -7,6 +7,7 @@ import {
   parseConventionalCommit,
   maskSensitive,
   isValidCommitType,
+  globToRegExp,
 } from '../../src/utils/index.js';
 
 describe('Utils', () => {
@@ -146,4 +147,25 @@ describe('Utils', () => {
       expect(isValidCommitType('')).toBe(false);
     });
   });
+
+  describe('globToRegExp', () => {
+    it('should keep single stars within one path segment', () => {
+      expect(globToRegExp('packages/*').test('packages/api')).toBe(true);
+      expect(globToRegExp('packages/*').test('packages/api/src')).toBe(false);
+      expect(globToRegExp('src/?.ts').test('src/a.ts')).toBe(true);
+    });
+
+    it('should let double stars span directories, including none', () => {
+      expect(globToRegExp('apps/**').test('apps/web/src/index.ts')).toBe(true);
+      expect(globToRegExp('**/*.md').test('README.md')).toBe(true);
+      expect(globToRegExp('**/*.md').test('docs/guide/setup.md')).toBe(true);
+    });
+
+    it('should support alternations and escape everything else', () => {
+      const glob = globToRegExp('{apps,libs}/*.config.{js,ts}');
+      expect(glob.test('libs/jest.config.ts')).toBe(true);
+      expect(glob.test('libs/jestxconfig.ts')).toBe(false);
+      expect(glob.test('tools/jest.config.ts')).toBe(false);
+    });
+  });
 });
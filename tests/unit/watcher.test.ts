@@ -0,0 +1,139 @@
+import { watch } from 'fs';
+import { ChangeWatcher } from '../../src/modules/watcher.js';
+
+jest.mock('fs', () => ({
+  watch: jest.fn(),
+}));
+
+type Listener = (event: string, filename: string | null) => void;
+
+describe('ChangeWatcher', () => {
+  const mockWatch = watch as unknown as jest.Mock;
+  let listeners: Record<string, Listener>;
+  let closers: jest.Mock[];
+  let errorHandlers: Record<string, (error: Error) => void>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    listeners = {};
+    closers = [];
+    errorHandlers = {};
+
+    mockWatch.mockImplementation((path: string, optsOrListener: unknown, maybeListener?: Listener) => {
+      const listener = (typeof optsOrListener === 'function' ? optsOrListener : maybeListener) as Listener;
+      listeners[path] = listener;
+      const close = jest.fn();
+      closers.push(close);
+      return {
+        close,
+        on: jest.fn((event: string, handler: (error: Error) => void) => {
+          errorHandlers[path] = handler;
+        }),
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    mockWatch.mockReset();
+  });
+
+  const createWatcher = () =>
+    new ChangeWatcher({ gitDir: '/repo/.git', workTree: '/repo', debounceMs: 200 });
+
+  it('should watch the git dir and the working tree recursively', () => {
+    const watcher = createWatcher();
+    watcher.start(jest.fn());
+
+    expect(mockWatch).toHaveBeenCalledWith('/repo/.git', expect.any(Function));
+    expect(mockWatch).toHaveBeenCalledWith('/repo', { recursive: true }, expect.any(Function));
+  });
+
+  it('should debounce a burst of events into a single callback', () => {
+    const onChange = jest.fn();
+    const watcher = createWatcher();
+    watcher.start(onChange);
+
+    listeners['/repo/.git']!('rename', 'index');
+    listeners['/repo']!('change', 'src/app.ts');
+    listeners['/repo']!('change', 'src/util.ts');
+
+    jest.advanceTimersByTime(199);
+    expect(onChange).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].sort()).toEqual(['index', 'worktree']);
+  });
+
+  it('should ignore git dir files other than the index', () => {
+    const onChange = jest.fn();
+    const watcher = createWatcher();
+    watcher.start(onChange);
+
+    listeners['/repo/.git']!('rename', 'index.lock');
+    listeners['/repo/.git']!('change', 'HEAD');
+    jest.advanceTimersByTime(500);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should ignore .git and node_modules paths in the working tree', () => {
+    const onChange = jest.fn();
+    const watcher = createWatcher();
+    watcher.start(onChange);
+
+    listeners['/repo']!('change', '.git/index');
+    listeners['/repo']!('change', 'node_modules/react/index.js');
+    listeners['/repo']!('change', 'packages/web/node_modules/x.js');
+    jest.advanceTimersByTime(500);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a non-recursive watch when recursion is unsupported', () => {
+    mockWatch.mockImplementationOnce((path: string, listener: Listener) => {
+      listeners[path] = listener;
+      return { close: jest.fn(), on: jest.fn() };
+    });
+    mockWatch.mockImplementationOnce(() => {
+      throw new Error('ERR_FEATURE_UNAVAILABLE_ON_PLATFORM');
+    });
+
+    const watcher = createWatcher();
+    watcher.start(jest.fn());
+
+    expect(mockWatch).toHaveBeenLastCalledWith('/repo', expect.any(Function));
+  });
+
+  it('should stop watching and report the error when a watcher fails', () => {
+    const onChange = jest.fn();
+    const onError = jest.fn();
+    const watcher = createWatcher();
+    watcher.start(onChange, onError);
+
+    const error = Object.assign(new Error('EMFILE: too many open files, watch'), { code: 'EMFILE' });
+    listeners['/repo']!('change', 'src/app.ts');
+    errorHandlers['/repo']!(error);
+    errorHandlers['/repo/.git']!(error);
+    jest.advanceTimersByTime(500);
+
+    closers.forEach(close => expect(close).toHaveBeenCalledTimes(1));
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should close all watchers on stop', () => {
+    const onChange = jest.fn();
+    const watcher = createWatcher();
+    watcher.start(onChange);
+
+    listeners['/repo/.git']!('rename', 'index');
+    watcher.stop();
+    jest.advanceTimersByTime(500);
+
+    closers.forEach(close => expect(close).toHaveBeenCalled());
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});